@@ -0,0 +1,206 @@
+import { useState, useEffect } from "react";
+import { Button } from "@/components/ui/button";
+import { Label } from "@/components/ui/label";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog";
+import { useToast } from "@/hooks/use-toast";
+import { supabase } from "@/integrations/supabase/client";
+import { Server } from "lucide-react";
+
+export interface AzureDevOpsExportResult {
+  testCaseId: string;
+  status: 'created' | 'updated' | 'failed';
+  workItemId?: number;
+  workItemUrl?: string;
+  error?: string;
+  warning?: string;
+}
+
+interface NamedItem {
+  id: number;
+  name: string;
+}
+
+interface AzureDevOpsExportDialogProps {
+  projectId: string;
+  testCaseIds: string[];
+  isOpen: boolean;
+  onClose: () => void;
+  onExported: (results: AzureDevOpsExportResult[]) => void;
+}
+
+const NO_PLAN = 'none';
+
+export const AzureDevOpsExportDialog = ({ projectId, testCaseIds, isOpen, onClose, onExported }: AzureDevOpsExportDialogProps) => {
+  const { toast } = useToast();
+  const [plans, setPlans] = useState<NamedItem[]>([]);
+  const [suites, setSuites] = useState<NamedItem[]>([]);
+  const [selectedPlanId, setSelectedPlanId] = useState(NO_PLAN);
+  const [selectedSuiteId, setSelectedSuiteId] = useState('');
+  const [isLoadingPlans, setIsLoadingPlans] = useState(false);
+  const [isExporting, setIsExporting] = useState(false);
+
+  useEffect(() => {
+    if (isOpen && projectId) {
+      loadPlans();
+    }
+  }, [isOpen, projectId]);
+
+  useEffect(() => {
+    setSuites([]);
+    setSelectedSuiteId('');
+    if (selectedPlanId !== NO_PLAN) {
+      loadSuites(selectedPlanId);
+    }
+  }, [selectedPlanId]);
+
+  const loadPlans = async () => {
+    setIsLoadingPlans(true);
+    try {
+      const { data, error } = await supabase.functions.invoke('azure-devops-export-test-cases', {
+        body: { action: 'list-plans', projectId }
+      });
+
+      if (error) throw error;
+      setPlans(data.plans || []);
+    } catch (error) {
+      console.error('Error loading Azure DevOps test plans:', error);
+      toast({
+        title: "Error",
+        description: "Failed to load test plans. Check the Azure DevOps integration for this project.",
+        variant: "destructive",
+      });
+    } finally {
+      setIsLoadingPlans(false);
+    }
+  };
+
+  const loadSuites = async (testPlanId: string) => {
+    try {
+      const { data, error } = await supabase.functions.invoke('azure-devops-export-test-cases', {
+        body: { action: 'list-suites', projectId, testPlanId }
+      });
+
+      if (error) throw error;
+      setSuites(data.suites || []);
+      if (data.suites?.length > 0) {
+        setSelectedSuiteId(String(data.suites[0].id));
+      }
+    } catch (error) {
+      console.error('Error loading Azure DevOps test suites:', error);
+      toast({
+        title: "Error",
+        description: "Failed to load test suites for the selected plan",
+        variant: "destructive",
+      });
+    }
+  };
+
+  const exportTestCases = async () => {
+    setIsExporting(true);
+    try {
+      const { data, error } = await supabase.functions.invoke('azure-devops-export-test-cases', {
+        body: {
+          action: 'export',
+          projectId,
+          testCaseIds,
+          testPlanId: selectedPlanId !== NO_PLAN ? selectedPlanId : undefined,
+          testSuiteId: selectedPlanId !== NO_PLAN ? selectedSuiteId : undefined
+        }
+      });
+
+      if (error) throw error;
+
+      const results: AzureDevOpsExportResult[] = data.results || [];
+      results.filter(r => r.error || r.warning).forEach(r =>
+        console.error(`Azure DevOps export issue for ${r.testCaseId}:`, r.error || r.warning)
+      );
+
+      onExported(results);
+      toast({
+        title: data.failed > 0 ? "Exported with Errors" : "Exported to Azure DevOps",
+        description: `${data.created} created, ${data.updated} updated${data.failed > 0 ? `, ${data.failed} failed: ${results.find(r => r.error)?.error}` : ''}`,
+        variant: data.failed > 0 ? "destructive" : "default",
+      });
+      onClose();
+    } catch (error) {
+      console.error('Error exporting test cases to Azure DevOps:', error);
+      toast({
+        title: "Error",
+        description: "Failed to export test cases to Azure DevOps",
+        variant: "destructive",
+      });
+    } finally {
+      setIsExporting(false);
+    }
+  };
+
+  return (
+    <Dialog open={isOpen} onOpenChange={(open) => !open && !isExporting && onClose()}>
+      <DialogContent className="max-w-lg">
+        <DialogHeader>
+          <DialogTitle className="flex items-center gap-2">
+            <Server className="h-5 w-5" />
+            Export to Azure DevOps
+          </DialogTitle>
+          <DialogDescription>
+            {testCaseIds.length} test case{testCaseIds.length !== 1 ? 's' : ''} will be created as "Test Case" work items
+            and linked to their user story. Previously exported test cases are updated in place.
+          </DialogDescription>
+        </DialogHeader>
+
+        <div className="space-y-4">
+          <div className="space-y-2">
+            <Label>Test Plan (optional)</Label>
+            <Select value={selectedPlanId} onValueChange={setSelectedPlanId} disabled={isLoadingPlans}>
+              <SelectTrigger>
+                <SelectValue placeholder={isLoadingPlans ? 'Loading plans...' : 'Select a test plan'} />
+              </SelectTrigger>
+              <SelectContent>
+                <SelectItem value={NO_PLAN}>Don't add to a test plan</SelectItem>
+                {plans.map(plan => (
+                  <SelectItem key={plan.id} value={String(plan.id)}>{plan.name}</SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          </div>
+
+          {selectedPlanId !== NO_PLAN && (
+            <div className="space-y-2">
+              <Label>Test Suite</Label>
+              <Select value={selectedSuiteId} onValueChange={setSelectedSuiteId}>
+                <SelectTrigger>
+                  <SelectValue placeholder="Select a test suite" />
+                </SelectTrigger>
+                <SelectContent>
+                  {suites.map(suite => (
+                    <SelectItem key={suite.id} value={String(suite.id)}>{suite.name}</SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+          )}
+        </div>
+
+        <DialogFooter>
+          <Button variant="outline" onClick={onClose} disabled={isExporting}>
+            Cancel
+          </Button>
+          <Button
+            onClick={exportTestCases}
+            disabled={isExporting || testCaseIds.length === 0 || (selectedPlanId !== NO_PLAN && !selectedSuiteId)}
+          >
+            {isExporting ? 'Exporting...' : 'Export'}
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+};
@@ -0,0 +1,225 @@
+import { useState, useMemo, useRef } from "react";
+import { Button } from "@/components/ui/button";
+import { Badge } from "@/components/ui/badge";
+import { Label } from "@/components/ui/label";
+import { Textarea } from "@/components/ui/textarea";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog";
+import { useToast } from "@/hooks/use-toast";
+import { AutosaveStatus } from "@/hooks/useAutosave";
+import { DocumentSection, replaceSection, splitSections } from "@/lib/markdown";
+import { ReportChart } from "@/lib/reportCharts";
+import { MarkdownPreview } from "./MarkdownPreview";
+import { Lock, Unlock, RefreshCw, Loader2 } from "lucide-react";
+
+interface DocumentEditorProps {
+  // Saved document the value belongs to; a regenerated section is dropped once another one is open
+  documentId?: string | null;
+  value: string;
+  onChange: (value: string) => void;
+  // Keys of the sections that regeneration must leave alone
+  lockedSections: string[];
+  onLockedSectionsChange: (keys: string[]) => void;
+  // Resolves with the rewritten section, heading line included
+  onRegenerateSection?: (section: DocumentSection, instructions: string) => Promise<string>;
+  readOnly?: boolean;
+  readOnlyReason?: string;
+  saveStatus?: AutosaveStatus;
+  placeholder?: string;
+  // Charts the preview draws for {{chart:<id>}} lines
+  charts?: ReportChart[];
+}
+
+const SAVE_STATUS_LABELS: Record<AutosaveStatus, string> = {
+  idle: '',
+  pending: 'Unsaved changes',
+  saving: 'Saving...',
+  saved: 'All changes saved',
+  error: 'Autosave failed',
+};
+
+/**
+ * Markdown source and live preview of a generated document, with per-section locks and
+ * AI regeneration of single sections
+ */
+export const DocumentEditor = ({
+  documentId = null,
+  value,
+  onChange,
+  lockedSections,
+  onLockedSectionsChange,
+  onRegenerateSection,
+  readOnly = false,
+  readOnlyReason,
+  saveStatus = 'idle',
+  placeholder,
+  charts,
+}: DocumentEditorProps) => {
+  const { toast } = useToast();
+  const [target, setTarget] = useState<DocumentSection | null>(null);
+  const [instructions, setInstructions] = useState("");
+  const [regeneratingKey, setRegeneratingKey] = useState<string | null>(null);
+  // The section comes back after the user may have kept editing, so it is applied to the latest text
+  const latestRef = useRef({ documentId, value, lockedSections });
+  latestRef.current = { documentId, value, lockedSections };
+
+  const sections = useMemo(() => splitSections(value).sections, [value]);
+
+  const toggleLock = (section: DocumentSection) => {
+    onLockedSectionsChange(lockedSections.includes(section.key)
+      ? lockedSections.filter(key => key !== section.key)
+      : [...lockedSections, section.key]);
+  };
+
+  const openRegenerate = (section: DocumentSection) => {
+    setInstructions("");
+    setTarget(section);
+  };
+
+  const regenerateSection = async () => {
+    if (!target || !onRegenerateSection) return;
+    const section = target;
+    setTarget(null);
+    setRegeneratingKey(section.key);
+    const requestedFor = documentId;
+    try {
+      const text = await onRegenerateSection(section, instructions.trim());
+
+      if (latestRef.current.documentId !== requestedFor) {
+        throw new Error(`Another document was opened while "${section.title}" was being regenerated, so the new text was discarded`);
+      }
+      if (latestRef.current.lockedSections.includes(section.key)) {
+        throw new Error(`"${section.title}" was locked while it was being regenerated, so it was left unchanged`);
+      }
+      const updated = replaceSection(latestRef.current.value, section.key, text);
+      if (updated === null) {
+        throw new Error(`"${section.title}" was renamed or removed while it was being regenerated`);
+      }
+
+      onChange(updated);
+      toast({
+        title: "Section Regenerated",
+        description: `"${section.title}" has been rewritten`,
+      });
+    } catch (error) {
+      console.error('Error regenerating section:', error);
+      toast({
+        title: "Error",
+        description: error.message || "Failed to regenerate the section",
+        variant: "destructive",
+      });
+    } finally {
+      setRegeneratingKey(null);
+    }
+  };
+
+  return (
+    <div className="space-y-4">
+      {sections.length > 0 && (
+        <div className="space-y-2">
+          <Label>Sections</Label>
+          <div className="border rounded-lg divide-y max-h-56 overflow-y-auto">
+            {sections.map((section, index) => {
+              const isLocked = lockedSections.includes(section.key);
+              const isRegenerating = regeneratingKey === section.key;
+              return (
+                <div key={`${section.key}-${index}`} className="flex items-center justify-between gap-2 px-3 py-1.5">
+                  <div className="flex items-center gap-2 min-w-0">
+                    <span className="text-sm truncate">{section.title}</span>
+                    {isLocked && (
+                      <Badge variant="outline" className="text-xs">Locked</Badge>
+                    )}
+                  </div>
+                  <div className="flex shrink-0 gap-1">
+                    <Button
+                      variant="ghost"
+                      size="sm"
+                      onClick={() => toggleLock(section)}
+                      disabled={readOnly || isRegenerating}
+                      title={isLocked ? 'Unlock section' : 'Lock section so regeneration leaves it alone'}
+                    >
+                      {isLocked ? <Lock className="h-4 w-4" /> : <Unlock className="h-4 w-4 text-muted-foreground" />}
+                    </Button>
+                    {onRegenerateSection && (
+                      <Button
+                        variant="ghost"
+                        size="sm"
+                        onClick={() => openRegenerate(section)}
+                        disabled={readOnly || isLocked || regeneratingKey !== null}
+                        title={isLocked ? 'Locked sections are never regenerated' : 'Regenerate this section with AI'}
+                      >
+                        {isRegenerating ? <Loader2 className="h-4 w-4 animate-spin" /> : <RefreshCw className="h-4 w-4" />}
+                      </Button>
+                    )}
+                  </div>
+                </div>
+              );
+            })}
+          </div>
+        </div>
+      )}
+
+      <div className="grid grid-cols-1 lg:grid-cols-2 gap-4">
+        <div className="space-y-1">
+          <div className="flex items-center justify-between">
+            <Label className="text-xs text-muted-foreground">Markdown</Label>
+            <span className={`text-xs ${saveStatus === 'error' ? 'text-destructive' : 'text-muted-foreground'}`}>
+              {readOnly && readOnlyReason ? readOnlyReason : SAVE_STATUS_LABELS[saveStatus]}
+            </span>
+          </div>
+          <Textarea
+            value={value}
+            onChange={(e) => onChange(e.target.value)}
+            readOnly={readOnly}
+            placeholder={placeholder}
+            className="font-mono text-sm h-[28rem] resize-none"
+          />
+        </div>
+        <div className="space-y-1">
+          <Label className="text-xs text-muted-foreground">Preview</Label>
+          <div className="bg-muted/50 p-4 rounded-lg overflow-auto h-[28rem]">
+            {value ? (
+              <MarkdownPreview markdown={value} charts={charts} />
+            ) : (
+              <p className="text-sm text-muted-foreground">{placeholder}</p>
+            )}
+          </div>
+        </div>
+      </div>
+
+      <Dialog open={!!target} onOpenChange={(open) => !open && setTarget(null)}>
+        <DialogContent>
+          <DialogHeader>
+            <DialogTitle>Regenerate "{target?.title}"</DialogTitle>
+            <DialogDescription>
+              Only this section is rewritten; the rest of the document and locked sections stay as they are.
+            </DialogDescription>
+          </DialogHeader>
+          <div className="space-y-2">
+            <Label htmlFor="sectionInstructions">Instructions (Optional)</Label>
+            <Textarea
+              id="sectionInstructions"
+              placeholder="e.g. Add more detail on mobile browsers and shorten the list of risks"
+              value={instructions}
+              onChange={(e) => setInstructions(e.target.value)}
+              rows={4}
+            />
+          </div>
+          <DialogFooter>
+            <Button variant="outline" onClick={() => setTarget(null)}>Cancel</Button>
+            <Button onClick={regenerateSection}>
+              <RefreshCw className="mr-2 h-4 w-4" />
+              Regenerate Section
+            </Button>
+          </DialogFooter>
+        </DialogContent>
+      </Dialog>
+    </div>
+  );
+};
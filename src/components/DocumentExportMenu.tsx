@@ -0,0 +1,108 @@
+import { useState } from "react";
+import { Button } from "@/components/ui/button";
+import {
+  DropdownMenu,
+  DropdownMenuContent,
+  DropdownMenuItem,
+  DropdownMenuTrigger,
+} from "@/components/ui/dropdown-menu";
+import { useToast } from "@/hooks/use-toast";
+import { supabase } from "@/integrations/supabase/client";
+import { ExportDocument, parseDocumentTemplate } from "@/lib/documentTemplate";
+import { exportDocx } from "@/lib/docxExport";
+import { exportPdf } from "@/lib/pdfExport";
+import { Download, Loader2, FileText, FileType, FileCode } from "lucide-react";
+
+type ExportFormat = 'md' | 'docx' | 'pdf';
+
+interface DocumentExportMenuProps {
+  projectId: string;
+  document: Omit<ExportDocument, 'date'>;
+  disabled?: boolean;
+  // Icon-only trigger for table rows
+  compact?: boolean;
+}
+
+const downloadBlob = (blob: Blob, fileName: string) => {
+  const url = URL.createObjectURL(blob);
+  const a = document.createElement('a');
+  a.href = url;
+  a.download = fileName;
+  document.body.appendChild(a);
+  a.click();
+  document.body.removeChild(a);
+  URL.revokeObjectURL(url);
+};
+
+/**
+ * Downloads a generated plan or report as Markdown, or as Word or PDF laid out with the project's export template
+ */
+export const DocumentExportMenu = ({ projectId, document: exported, disabled, compact }: DocumentExportMenuProps) => {
+  const { toast } = useToast();
+  const [exporting, setExporting] = useState(false);
+
+  const exportAs = async (format: ExportFormat) => {
+    if (format === 'md') {
+      downloadBlob(new Blob([exported.markdown], { type: 'text/markdown' }), `${exported.fileName}.md`);
+      return;
+    }
+
+    setExporting(true);
+    try {
+      const { data, error } = await supabase
+        .from('projects')
+        .select('name, document_template')
+        .eq('id', projectId)
+        .single();
+
+      if (error) throw error;
+
+      const template = parseDocumentTemplate(data.document_template);
+      const document: ExportDocument = { ...exported, projectName: exported.projectName || data.name, date: new Date() };
+      const blob = format === 'docx' ? await exportDocx(document, template) : await exportPdf(document, template);
+      downloadBlob(blob, `${exported.fileName}.${format}`);
+    } catch (error) {
+      console.error(`Error exporting ${format}:`, error);
+      toast({
+        title: "Export Failed",
+        description: error.message || `Failed to create the ${format === 'docx' ? 'Word' : 'PDF'} document`,
+        variant: "destructive",
+      });
+    } finally {
+      setExporting(false);
+    }
+  };
+
+  const icon = exporting ? <Loader2 className="h-4 w-4 animate-spin" /> : <Download className="h-4 w-4" />;
+
+  return (
+    <DropdownMenu>
+      <DropdownMenuTrigger asChild>
+        {compact ? (
+          <Button variant="ghost" size="sm" disabled={disabled || exporting} title="Download">
+            {icon}
+          </Button>
+        ) : (
+          <Button variant="outline" disabled={disabled || exporting}>
+            <span className="mr-2">{icon}</span>
+            Download
+          </Button>
+        )}
+      </DropdownMenuTrigger>
+      <DropdownMenuContent align="end">
+        <DropdownMenuItem onClick={() => exportAs('docx')}>
+          <FileText className="mr-2 h-4 w-4" />
+          Word (.docx)
+        </DropdownMenuItem>
+        <DropdownMenuItem onClick={() => exportAs('pdf')}>
+          <FileType className="mr-2 h-4 w-4" />
+          PDF (.pdf)
+        </DropdownMenuItem>
+        <DropdownMenuItem onClick={() => exportAs('md')}>
+          <FileCode className="mr-2 h-4 w-4" />
+          Markdown (.md)
+        </DropdownMenuItem>
+      </DropdownMenuContent>
+    </DropdownMenu>
+  );
+};
@@ -14,10 +14,14 @@ import {
   Key,
   Server,
   Zap,
+  Sparkles,
+  Cpu,
   RefreshCw
 } from "lucide-react";
 import { validateEmail, validateUrl, validateOpenAIApiKey, validateProjectKey, sanitizeText } from "@/lib/security";
 import { useAuth } from "@/hooks/useAuth";
+import { supabase } from "@/integrations/supabase/client";
+import { normalizeTestSteps } from "@/lib/testSteps";
 
 interface Integration {
   id: string;
@@ -30,152 +34,357 @@ interface Integration {
   config?: Record<string, any>;
 }
 
-const extractTextFromJiraContent = (content: any): string => {
-  if (typeof content === 'string') return content;
-  if (!content) return 'No description available';
-  
-  // Handle Jira's Atlassian Document Format (ADF)
-  if (content.content && Array.isArray(content.content)) {
-    const textParts: string[] = [];
-    
-    const extractText = (node: any) => {
-      if (node.type === 'text' && node.text) {
-        textParts.push(node.text);
-      } else if (node.content && Array.isArray(node.content)) {
-        node.content.forEach(extractText);
-      }
-    };
-    
-    content.content.forEach(extractText);
-    return textParts.join(' ').trim() || 'No description available';
+interface StoredCredential {
+  integrationId: string;
+  config: Record<string, string>;
+  secretHint: string | null;
+  enabled: boolean;
+  lastVerifiedAt: string | null;
+  lastSyncedAt: string | null;
+  updatedAt: string;
+}
+
+interface IntegrationsProps {
+  projectId: string;
+}
+
+const integrationDefinitions: Pick<Integration, 'id' | 'name' | 'description' | 'icon'>[] = [
+  {
+    id: 'jira',
+    name: 'Jira',
+    description: 'Import user stories and requirements from Jira projects',
+    icon: ExternalLink
+  },
+  {
+    id: 'azure-devops',
+    name: 'Azure DevOps',
+    description: 'Sync work items and user stories from Azure DevOps',
+    icon: Server
+  },
+  {
+    id: 'openai',
+    name: 'Azure OpenAI',
+    description: 'AI-powered test case generation using Azure OpenAI GPT models',
+    icon: Zap
+  },
+  {
+    id: 'openai-api',
+    name: 'OpenAI',
+    description: 'AI generation using GPT models from the OpenAI API',
+    icon: Zap
+  },
+  {
+    id: 'anthropic',
+    name: 'Anthropic',
+    description: 'AI generation using Claude models from the Anthropic API',
+    icon: Sparkles
+  },
+  {
+    id: 'local-llm',
+    name: 'Local LLM',
+    description: 'AI generation using a self-hosted OpenAI-compatible server such as Ollama or vLLM',
+    icon: Cpu
+  }
+];
+
+// Edge functions answer non-2xx responses with a JSON body holding the real error message
+const invokeFunction = async (name: string, body: Record<string, unknown>) => {
+  const { data, error } = await supabase.functions.invoke(name, { body });
+  if (error) {
+    const details = await error.context?.json?.().catch(() => null);
+    throw new Error(details?.error || error.message);
+  }
+  if (data?.success === false) {
+    throw new Error(data.error);
   }
-  
-  return 'No description available';
+  return data;
 };
 
-// Load saved configurations from localStorage
-const loadSavedConfigurations = () => {
+// Before the vault existed, credentials were kept unencrypted in this browser's storage
+const LEGACY_STORAGE_KEY = 'integration-configs';
+
+interface LegacyCredential {
+  integrationId: string;
+  config: Record<string, string>;
+  secret: string;
+}
+
+const readLegacyCredentials = (): LegacyCredential[] => {
   try {
-    const saved = localStorage.getItem('integration-configs');
-    return saved ? JSON.parse(saved) : {};
+    const saved = JSON.parse(localStorage.getItem(LEGACY_STORAGE_KEY) || '{}') || {};
+    const text = (value: unknown) => (typeof value === 'string' ? value : '');
+    const entries: LegacyCredential[] = [];
+    if (saved.jira) {
+      entries.push({
+        integrationId: 'jira',
+        config: { url: text(saved.jira.url), email: text(saved.jira.email), projectKey: text(saved.jira.projectKey) },
+        secret: text(saved.jira.apiToken)
+      });
+    }
+    if (saved['azure-devops']) {
+      entries.push({
+        integrationId: 'azure-devops',
+        config: { organizationUrl: text(saved['azure-devops'].organizationUrl), projectName: text(saved['azure-devops'].projectName) },
+        secret: text(saved['azure-devops'].personalAccessToken)
+      });
+    }
+    if (saved.openai) {
+      entries.push({
+        integrationId: 'openai',
+        config: {
+          endpoint: text(saved.openai.endpoint),
+          deploymentId: text(saved.openai.deploymentId),
+          apiVersion: text(saved.openai.apiVersion)
+        },
+        secret: text(saved.openai.apiKey)
+      });
+    }
+    return entries.filter(entry => entry.secret);
   } catch {
-    return {};
+    return [];
   }
 };
 
-// Save configurations to localStorage
-const saveConfigurations = (configs: Record<string, any>) => {
-  localStorage.setItem('integration-configs', JSON.stringify(configs));
-};
-
-export const Integrations = () => {
+export const Integrations = ({ projectId }: IntegrationsProps) => {
   const { toast } = useToast();
   const { session } = useAuth();
-  
-  // Load saved configs on component mount
-  const savedConfigs = loadSavedConfigurations();
-  
-  const [integrations, setIntegrations] = useState<Integration[]>([
-    {
-      id: 'jira',
-      name: 'Jira',
-      description: 'Import user stories and requirements from Jira projects',
-      icon: ExternalLink,
-      status: savedConfigs.jira ? 'connected' : 'disconnected',
-      enabled: savedConfigs.jira?.enabled !== false // Default to true if connected, persist enabled state
-    },
-    {
-      id: 'azure-devops',
-      name: 'Azure DevOps',
-      description: 'Sync work items and user stories from Azure DevOps',
-      icon: Server,
-      status: savedConfigs['azure-devops'] ? 'connected' : 'disconnected',
-      enabled: savedConfigs['azure-devops']?.enabled !== false,
-      lastSync: '2 hours ago'
-    },
-      {
-        id: 'openai',
-        name: 'Azure OpenAI',
-        description: 'AI-powered test case generation using Azure OpenAI GPT models',
-        icon: Zap,
-        status: savedConfigs.openai ? 'connected' : 'disconnected',
-        enabled: savedConfigs.openai?.enabled !== false,
-        lastSync: 'Active'
-      }
-  ]);
+
+  // Only masked metadata is ever returned; secrets stay encrypted server-side
+  const [credentials, setCredentials] = useState<Record<string, StoredCredential>>({});
+
+  const integrations: Integration[] = integrationDefinitions.map(definition => {
+    const credential = credentials[definition.id];
+    return {
+      ...definition,
+      status: credential ? 'connected' : 'disconnected',
+      enabled: credential?.enabled ?? false,
+      lastSync: credential?.lastVerifiedAt ? new Date(credential.lastVerifiedAt).toLocaleString() : undefined,
+      config: credential?.config
+    };
+  });
 
   const [showApiKeyForm, setShowApiKeyForm] = useState<string | null>(null);
   const [apiKeys, setApiKeys] = useState<Record<string, string>>({});
-  const [jiraConfig, setJiraConfig] = useState(savedConfigs.jira || {
+  const [jiraConfig, setJiraConfig] = useState({
     url: '',
     email: '',
-    projectKey: ''
+    projectKey: '',
+    jqlFilter: '',
+    acceptanceCriteriaField: '',
+    storyPointsField: '',
+    sprintField: '',
+    testIssueType: '',
+    testLinkType: ''
   });
-  const [azureDevOpsConfig, setAzureDevOpsConfig] = useState(savedConfigs['azure-devops'] || {
+  const [azureDevOpsConfig, setAzureDevOpsConfig] = useState({
     organizationUrl: '',
     projectName: ''
   });
-  const [openAiConfig, setOpenAiConfig] = useState(savedConfigs.openai || {
+  const [openAiConfig, setOpenAiConfig] = useState({
     endpoint: '',
-    apiKey: '',
     deploymentId: '',
     apiVersion: '2024-02-15-preview'
   });
+  const [localLlmConfig, setLocalLlmConfig] = useState({
+    baseUrl: ''
+  });
   const [isLoading, setIsLoading] = useState(false);
   const [jiraStories, setJiraStories] = useState<any[]>([]);
   const [azureDevOpsStories, setAzureDevOpsStories] = useState<any[]>([]);
   const [generatedTestCases, setGeneratedTestCases] = useState<any[]>([]);
 
-  // Sync integration statuses with saved configurations on component mount
   useEffect(() => {
-    const savedConfigs = loadSavedConfigurations();
-    
-    setIntegrations(prev => prev.map(integration => ({
-      ...integration,
-      status: savedConfigs[integration.id] ? 'connected' : 'disconnected',
-      enabled: savedConfigs[integration.id]?.enabled !== false
-    })));
-
-    // Update config states with saved values
-    if (savedConfigs.jira) {
-      setJiraConfig(savedConfigs.jira);
+    if (projectId) {
+      loadCredentials();
     }
-    if (savedConfigs['azure-devops']) {
-      setAzureDevOpsConfig(savedConfigs['azure-devops']);
+  }, [projectId]);
+
+  const loadCredentials = async () => {
+    try {
+      const data = await invokeFunction('integration-credentials', { action: 'list', projectId });
+      const loaded: Record<string, StoredCredential> = {};
+      (data.credentials as StoredCredential[]).forEach(credential => {
+        loaded[credential.integrationId] = credential;
+      });
+      setCredentials(loaded);
+
+      // Prefill the non-secret fields so existing settings can be edited
+      if (loaded.jira) {
+        setJiraConfig(prev => ({ ...prev, ...loaded.jira.config }));
+      }
+      if (loaded['azure-devops']) {
+        setAzureDevOpsConfig(prev => ({ ...prev, ...loaded['azure-devops'].config }));
+      }
+      if (loaded.openai) {
+        setOpenAiConfig(prev => ({ ...prev, ...loaded.openai.config }));
+      }
+      if (loaded['local-llm']) {
+        setLocalLlmConfig(prev => ({ ...prev, ...loaded['local-llm'].config }));
+      }
+
+      await importLegacyCredentials(loaded);
+    } catch (error) {
+      console.error('Error loading integration credentials:', error);
+      toast({
+        title: "Error",
+        description: "Failed to load integration settings",
+        variant: "destructive",
+      });
     }
-    if (savedConfigs.openai) {
-      setOpenAiConfig(savedConfigs.openai);
+  };
+
+  // Offers to move credentials left in browser storage into the vault, then removes them from
+  // the browser whatever the answer
+  const importLegacyCredentials = async (stored: Record<string, StoredCredential>) => {
+    if (localStorage.getItem(LEGACY_STORAGE_KEY) === null) return;
+
+    const legacy = readLegacyCredentials().filter(entry => !stored[entry.integrationId]);
+    localStorage.removeItem(LEGACY_STORAGE_KEY);
+
+    const nameOf = (id: string) => integrationDefinitions.find(definition => definition.id === id)?.name || id;
+    if (legacy.length === 0 || !confirm(
+      `Credentials for ${legacy.map(entry => nameOf(entry.integrationId)).join(', ')} were saved unencrypted in this browser. ` +
+      'Import them into this project\'s encrypted vault? They have been removed from the browser either way.'
+    )) return;
+
+    const failures: string[] = [];
+    for (const entry of legacy) {
+      try {
+        await invokeFunction('integration-credentials', {
+          action: 'save',
+          projectId,
+          integrationId: entry.integrationId,
+          config: entry.config,
+          secret: entry.secret
+        });
+      } catch (error) {
+        console.error(`Error importing ${entry.integrationId} credentials:`, error);
+        failures.push(`${nameOf(entry.integrationId)}: ${error.message}`);
+      }
     }
-  }, []);
-
-  const toggleIntegration = (id: string) => {
-    setIntegrations(prev => prev.map(integration => 
-      integration.id === id 
-        ? { ...integration, enabled: !integration.enabled }
-        : integration
-    ));
-    
-    // Save enabled state to localStorage
-    const updatedIntegration = integrations.find(i => i.id === id);
-    if (updatedIntegration) {
-      const newConfigs = {
-        ...savedConfigs,
-        [id]: { ...savedConfigs[id], enabled: !updatedIntegration.enabled }
-      };
-      saveConfigurations(newConfigs);
+
+    if (failures.length > 0) {
+      toast({
+        title: "Import Incomplete",
+        description: `${failures.join('. ')}. Enter these credentials again to connect.`,
+        variant: "destructive",
+      });
+    } else {
+      toast({
+        title: "Credentials Imported",
+        description: "The credentials saved in this browser are now stored in the encrypted vault",
+      });
     }
-    
+    if (failures.length < legacy.length) await loadCredentials();
+  };
+
+  const storeCredential = (credential: StoredCredential) => {
+    setCredentials(prev => ({ ...prev, [credential.integrationId]: credential }));
+  };
+
+  const toggleIntegration = async (id: string) => {
     const integration = integrations.find(i => i.id === id);
-    toast({
-      title: integration?.enabled ? "Integration Disabled" : "Integration Enabled",
-      description: `${integration?.name} has been ${integration?.enabled ? 'disabled' : 'enabled'}`,
-    });
+    if (!integration) return;
+
+    try {
+      const data = await invokeFunction('integration-credentials', {
+        action: 'toggle',
+        projectId,
+        integrationId: id,
+        enabled: !integration.enabled
+      });
+      storeCredential(data.credential);
+
+      toast({
+        title: integration.enabled ? "Integration Disabled" : "Integration Enabled",
+        description: `${integration.name} has been ${integration.enabled ? 'disabled' : 'enabled'}`,
+      });
+    } catch (error) {
+      console.error('Error toggling integration:', error);
+      toast({
+        title: "Error",
+        description: error.message || "Failed to update integration",
+        variant: "destructive",
+      });
+    }
+  };
+
+  const verifyIntegration = async (id: string) => {
+    const integration = integrations.find(i => i.id === id);
+    setIsLoading(true);
+    try {
+      const data = await invokeFunction('integration-credentials', {
+        action: 'verify',
+        projectId,
+        integrationId: id
+      });
+      storeCredential(data.credential);
+
+      toast({
+        title: "Connection Verified",
+        description: `${integration?.name} credentials are valid`,
+      });
+    } catch (error) {
+      console.error('Error verifying integration:', error);
+      toast({
+        title: "Verification Failed",
+        description: error.message || `Failed to verify ${integration?.name}`,
+        variant: "destructive",
+      });
+    } finally {
+      setIsLoading(false);
+    }
+  };
+
+  const disconnectIntegration = async (id: string) => {
+    const integration = integrations.find(i => i.id === id);
+    if (!confirm(`Remove the saved ${integration?.name} credentials for this project?`)) return;
+
+    try {
+      await invokeFunction('integration-credentials', {
+        action: 'delete',
+        projectId,
+        integrationId: id
+      });
+      setCredentials(prev => {
+        const { [id]: _removed, ...rest } = prev;
+        return rest;
+      });
+      setShowApiKeyForm(null);
+
+      toast({
+        title: "Integration Disconnected",
+        description: `${integration?.name} credentials have been removed`,
+      });
+    } catch (error) {
+      console.error('Error disconnecting integration:', error);
+      toast({
+        title: "Error",
+        description: error.message || "Failed to disconnect integration",
+        variant: "destructive",
+      });
+    }
   };
 
   const connectIntegration = (id: string) => {
     setShowApiKeyForm(id);
   };
 
+  // The server verifies the connection before encrypting and storing the secret.
+  // A blank secret keeps the one already stored for the project.
+  const saveCredential = async (integrationId: string, config: Record<string, string>) => {
+    const data = await invokeFunction('integration-credentials', {
+      action: 'save',
+      projectId,
+      integrationId,
+      config,
+      secret: apiKeys[integrationId] || ''
+    });
+    storeCredential(data.credential);
+    setApiKeys(prev => ({ ...prev, [integrationId]: '' }));
+    setShowApiKeyForm(null);
+  };
+
   const saveApiKey = async (integrationId: string) => {
     if (integrationId === 'jira') {
       await handleJiraConnection();
@@ -183,44 +392,86 @@ export const Integrations = () => {
       await handleAzureDevOpsConnection();
     } else if (integrationId === 'openai') {
       await handleOpenAIConnection();
-    } else {
-      const apiKey = apiKeys[integrationId];
-      if (!apiKey) {
-        toast({
-          title: "Error",
-          description: "Please enter an API key",
-          variant: "destructive",
-        });
-        return;
-      }
+    } else if (integrationId === 'openai-api' || integrationId === 'anthropic') {
+      await handleLlmApiKeyConnection(integrationId);
+    } else if (integrationId === 'local-llm') {
+      await handleLocalLlmConnection();
+    }
+  };
+
+  // OpenAI and Anthropic need nothing but an API key
+  const handleLlmApiKeyConnection = async (integrationId: string) => {
+    const name = integrationDefinitions.find(definition => definition.id === integrationId)?.name;
+
+    if (!apiKeys[integrationId] && !credentials[integrationId]) {
+      toast({
+        title: "Error",
+        description: "Please enter your API key",
+        variant: "destructive",
+      });
+      return;
+    }
 
-      const newConfigs = {
-        ...savedConfigs,
-        [integrationId]: { apiKey }
-      };
-      saveConfigurations(newConfigs);
+    setIsLoading(true);
+    try {
+      await saveCredential(integrationId, {});
 
-      setIntegrations(prev => prev.map(integration => 
-        integration.id === integrationId 
-          ? { ...integration, status: 'connected', lastSync: 'Just now' }
-          : integration
-      ));
+      toast({
+        title: `${name} Connected Successfully`,
+        description: `Your ${name} API key is valid and has been saved`,
+      });
+    } catch (error) {
+      console.error(`${name} connection error:`, error);
+      toast({
+        title: "Connection Failed",
+        description: error.message || `Failed to connect to ${name}`,
+        variant: "destructive",
+      });
+    } finally {
+      setIsLoading(false);
+    }
+  };
 
-      setShowApiKeyForm(null);
-      setApiKeys(prev => ({ ...prev, [integrationId]: '' }));
-      
+  const handleLocalLlmConnection = async () => {
+    const { baseUrl } = localLlmConfig;
+
+    // The API key is optional: Ollama and most vLLM setups run without one
+    const urlValidation = validateUrl(baseUrl);
+    if (!urlValidation.isValid) {
       toast({
-        title: "Integration Connected",
-        description: `${integrations.find(i => i.id === integrationId)?.name} has been connected successfully`,
+        title: "Error",
+        description: urlValidation.error,
+        variant: "destructive",
       });
+      return;
+    }
+
+    setIsLoading(true);
+    try {
+      await saveCredential('local-llm', { baseUrl: sanitizeText(baseUrl) });
+
+      toast({
+        title: "Local LLM Connected Successfully",
+        description: "The server answered and its configuration has been saved",
+      });
+    } catch (error) {
+      console.error('Local LLM connection error:', error);
+      toast({
+        title: "Connection Failed",
+        description: error.message || "Failed to connect to the local LLM server",
+        variant: "destructive",
+      });
+    } finally {
+      setIsLoading(false);
     }
   };
 
   const handleOpenAIConnection = async () => {
-    const { endpoint, apiKey, deploymentId, apiVersion } = openAiConfig;
+    const { endpoint, deploymentId } = openAiConfig;
+    const apiKey = apiKeys['openai'];
 
     // Input validation
-    if (!apiKey) {
+    if (!apiKey && !credentials.openai) {
       toast({
         title: "Error",
         description: "Please enter your API key",
@@ -258,44 +509,18 @@ export const Integrations = () => {
       return;
     }
 
-    // Test the Azure OpenAI connection
     setIsLoading(true);
     try {
-      const testUrl = `${endpoint}/openai/deployments/${deploymentId}/chat/completions?api-version=${apiVersion}`;
-      const response = await fetch(testUrl, {
-        method: 'POST',
-        headers: {
-          'api-key': apiKey,
-          'Content-Type': 'application/json',
-        },
-        body: JSON.stringify({
-          messages: [{ role: 'user', content: 'Hello' }],
-          max_tokens: 5
-        }),
-      });
-
-      if (response.ok || response.status === 400) { // 400 is expected for minimal test
-        // Save configuration with enabled state
-        const newConfigs = {
-          ...savedConfigs,
-          openai: { ...openAiConfig, enabled: true }
-        };
-        saveConfigurations(newConfigs);
-
-        setIntegrations(prev => prev.map(integration => 
-          integration.id === 'openai' 
-            ? { ...integration, status: 'connected', lastSync: 'Just now' }
-            : integration
-        ));
-        setShowApiKeyForm(null);
-        
-        toast({
-          title: "Azure OpenAI Connected Successfully",
-          description: "Your Azure OpenAI configuration is valid and has been saved",
-        });
-      } else {
-        throw new Error('Invalid configuration or insufficient permissions');
-      }
+      await saveCredential('openai', {
+        endpoint: sanitizeText(endpoint),
+        deploymentId: sanitizeText(deploymentId),
+        apiVersion: sanitizeText(openAiConfig.apiVersion || '2024-02-15-preview')
+      });
+
+      toast({
+        title: "Azure OpenAI Connected Successfully",
+        description: "Your Azure OpenAI configuration is valid and has been saved",
+      });
     } catch (error) {
       console.error('Azure OpenAI connection error:', error);
       toast({
@@ -309,11 +534,11 @@ export const Integrations = () => {
   };
 
   const handleJiraConnection = async () => {
-    const { url, email, projectKey } = jiraConfig;
+    const { url, email, projectKey, jqlFilter, acceptanceCriteriaField, storyPointsField, sprintField, testIssueType, testLinkType } = jiraConfig;
     const apiToken = apiKeys['jira'];
 
     // Input validation
-    if (!url || !email || !apiToken || !projectKey) {
+    if (!url || !email || !projectKey || (!apiToken && !credentials.jira)) {
       toast({
         title: "Error",
         description: "Please fill in all Jira configuration fields",
@@ -355,44 +580,25 @@ export const Integrations = () => {
 
     setIsLoading(true);
     try {
-      const response = await fetch(`https://lghzmijzfpvrcvogxpew.supabase.co/functions/v1/jira-integration`, {
-        method: 'POST',
-        headers: {
-          'Content-Type': 'application/json',
-        },
-        body: JSON.stringify({
-          jiraUrl: url,
-          email: email,
-          apiToken: apiToken,
-          projectKey: projectKey
-        })
+      await saveCredential('jira', {
+        url,
+        email,
+        projectKey,
+        jqlFilter: jqlFilter.trim(),
+        acceptanceCriteriaField: acceptanceCriteriaField.trim(),
+        storyPointsField: storyPointsField.trim(),
+        sprintField: sprintField.trim(),
+        testIssueType: sanitizeText(testIssueType.trim()),
+        testLinkType: sanitizeText(testLinkType.trim())
       });
 
-      const data = await response.json();
+      const data = await invokeFunction('jira-integration', { projectId });
+      setJiraStories(data.stories);
 
-      if (data.success) {
-        // Save configuration with enabled state
-        const newConfigs = {
-          ...savedConfigs,
-          jira: { ...jiraConfig, apiToken, enabled: true }
-        };
-        saveConfigurations(newConfigs);
-
-        setJiraStories(data.stories);
-        setIntegrations(prev => prev.map(integration => 
-          integration.id === 'jira' 
-            ? { ...integration, status: 'connected', lastSync: 'Just now' }
-            : integration
-        ));
-        setShowApiKeyForm(null);
-        
-        toast({
-          title: "Jira Connected Successfully",
-          description: `Found ${data.stories.length} stories in project ${projectKey}`,
-        });
-      } else {
-        throw new Error(data.error || 'Failed to connect to Jira');
-      }
+      toast({
+        title: "Jira Connected Successfully",
+        description: `Found ${data.stories.length} stories in project ${projectKey}`,
+      });
     } catch (error) {
       console.error('Jira connection error:', error);
       toast({
@@ -405,18 +611,8 @@ export const Integrations = () => {
     }
   };
 
+  // The server reports when the project's AI provider is not configured
   const generateTestCases = async (story: any) => {
-    // Check if Azure OpenAI is configured
-    const azureConfig = savedConfigs.openai;
-    if (!azureConfig?.endpoint || !azureConfig?.apiKey || !azureConfig?.deploymentId) {
-      toast({
-        title: "Azure OpenAI Not Configured",
-        description: "Please configure Azure OpenAI first to generate test cases",
-        variant: "destructive",
-      });
-      return;
-    }
-
     setIsLoading(true);
     try {
       const response = await fetch(`https://lghzmijzfpvrcvogxpew.supabase.co/functions/v1/generate-test-cases`, {
@@ -427,7 +623,7 @@ export const Integrations = () => {
         },
         body: JSON.stringify({ 
           story,
-          azureConfig
+          projectId
         })
       });
 
@@ -459,7 +655,7 @@ export const Integrations = () => {
     const personalAccessToken = apiKeys['azure-devops'];
 
     // Input validation
-    if (!organizationUrl || !projectName || !personalAccessToken) {
+    if (!organizationUrl || !projectName || (!personalAccessToken && !credentials['azure-devops'])) {
       toast({
         title: "Error",
         description: "Please fill in all Azure DevOps configuration fields",
@@ -481,43 +677,15 @@ export const Integrations = () => {
 
     setIsLoading(true);
     try {
-      const response = await fetch(`https://lghzmijzfpvrcvogxpew.supabase.co/functions/v1/azure-devops-integration`, {
-        method: 'POST',
-        headers: {
-          'Content-Type': 'application/json',
-        },
-        body: JSON.stringify({
-          organizationUrl: organizationUrl,
-          projectName: projectName,
-          personalAccessToken: personalAccessToken
-        })
-      });
+      await saveCredential('azure-devops', { organizationUrl, projectName: sanitizeText(projectName) });
 
-      const data = await response.json();
+      const data = await invokeFunction('azure-devops-integration', { projectId });
+      setAzureDevOpsStories(data.stories);
 
-      if (data.success) {
-        // Save configuration with enabled state
-        const newConfigs = {
-          ...savedConfigs,
-          'azure-devops': { ...azureDevOpsConfig, personalAccessToken, enabled: true }
-        };
-        saveConfigurations(newConfigs);
-
-        setAzureDevOpsStories(data.stories);
-        setIntegrations(prev => prev.map(integration => 
-          integration.id === 'azure-devops' 
-            ? { ...integration, status: 'connected', lastSync: 'Just now' }
-            : integration
-        ));
-        setShowApiKeyForm(null);
-        
-        toast({
-          title: "Azure DevOps Connected Successfully",
-          description: `Found ${data.stories.length} stories in project ${projectName}`,
-        });
-      } else {
-        throw new Error(data.error || 'Failed to connect to Azure DevOps');
-      }
+      toast({
+        title: "Azure DevOps Connected Successfully",
+        description: `Found ${data.stories.length} stories in project ${projectName}`,
+      });
     } catch (error) {
       console.error('Azure DevOps connection error:', error);
       toast({
@@ -585,9 +753,20 @@ export const Integrations = () => {
                 </div>
               </CardHeader>
               <CardContent className="space-y-4">
-                {integration.lastSync && (
-                  <div className="text-sm text-muted-foreground">
-                    Last sync: {integration.lastSync}
+                {integration.status === 'connected' && (
+                  <div className="text-sm text-muted-foreground space-y-1">
+                    <div className="flex items-center gap-1">
+                      <Key className="h-3 w-3" />
+                      Secret: {credentials[integration.id]?.secretHint || '••••'}
+                    </div>
+                    <div>
+                      Last verified: {integration.lastSync || 'Never'}
+                    </div>
+                    {credentials[integration.id]?.lastSyncedAt && (
+                      <div>
+                        Last story sync: {new Date(credentials[integration.id].lastSyncedAt!).toLocaleString()}
+                      </div>
+                    )}
                   </div>
                 )}
 
@@ -612,14 +791,25 @@ export const Integrations = () => {
                       Connect
                     </Button>
                   ) : (
-                    <Button 
-                      variant="outline" 
-                      size="sm"
-                      onClick={() => connectIntegration(integration.id)}
-                    >
-                      <Settings className="mr-2 h-3 w-3" />
-                      Configure
-                    </Button>
+                    <div className="flex gap-2">
+                      <Button 
+                        variant="outline" 
+                        size="sm"
+                        onClick={() => verifyIntegration(integration.id)}
+                        disabled={isLoading}
+                      >
+                        <RefreshCw className="mr-2 h-3 w-3" />
+                        Verify
+                      </Button>
+                      <Button 
+                        variant="outline" 
+                        size="sm"
+                        onClick={() => connectIntegration(integration.id)}
+                      >
+                        <Settings className="mr-2 h-3 w-3" />
+                        Configure
+                      </Button>
+                    </div>
                   )}
                 </div>
               </CardContent>
@@ -638,6 +828,9 @@ export const Integrations = () => {
             </CardTitle>
           </CardHeader>
           <CardContent className="space-y-4">
+            <p className="text-sm text-muted-foreground">
+              Credentials are encrypted and stored for this project only. Everyone with access to the project uses them without seeing the secret.
+            </p>
             <div className="p-4 bg-gradient-hero rounded-lg">
               <h4 className="font-medium mb-2">Setup Instructions:</h4>
               <div className="text-sm text-muted-foreground space-y-2">
@@ -655,6 +848,27 @@ export const Integrations = () => {
                     <p>3. Copy the endpoint URL and API key</p>
                     <p>4. Get your deployment ID from the model deployments</p>
                   </>
+                ) : showApiKeyForm === 'openai-api' ? (
+                  <>
+                    <p>1. Sign in to platform.openai.com</p>
+                    <p>2. Navigate to API keys</p>
+                    <p>3. Create a new secret key</p>
+                    <p>4. Copy the key and paste it below</p>
+                  </>
+                ) : showApiKeyForm === 'anthropic' ? (
+                  <>
+                    <p>1. Sign in to console.anthropic.com</p>
+                    <p>2. Navigate to Settings → API Keys</p>
+                    <p>3. Create a new key</p>
+                    <p>4. Copy the key and paste it below</p>
+                  </>
+                ) : showApiKeyForm === 'local-llm' ? (
+                  <>
+                    <p>1. Start an OpenAI-compatible server (e.g. Ollama or vLLM)</p>
+                    <p>2. Make it reachable from the internet, for example through a tunnel</p>
+                    <p>3. Enter its base URL including /v1 (e.g. https://llm.example.com/v1)</p>
+                    <p>4. Add an API key only if the server requires one</p>
+                  </>
                 ) : (
                   <>
                     <p>1. Go to Azure DevOps organization settings</p>
@@ -683,6 +897,49 @@ export const Integrations = () => {
                   value={jiraConfig.projectKey}
                   onChange={(e) => setJiraConfig(prev => ({ ...prev, projectKey: e.target.value }))}
                 />
+                <Input
+                  placeholder="JQL filter (optional, e.g. sprint in openSprints() AND labels = checkout)"
+                  value={jiraConfig.jqlFilter}
+                  onChange={(e) => setJiraConfig(prev => ({ ...prev, jqlFilter: e.target.value }))}
+                />
+                <p className="text-xs text-muted-foreground">
+                  Narrows which issues are imported, for example by sprint, fix version, labels or issue type. Do not include ORDER BY.
+                </p>
+                <div className="grid grid-cols-1 sm:grid-cols-3 gap-3">
+                  <Input
+                    placeholder="Acceptance criteria field (e.g. customfield_10035)"
+                    value={jiraConfig.acceptanceCriteriaField}
+                    onChange={(e) => setJiraConfig(prev => ({ ...prev, acceptanceCriteriaField: e.target.value }))}
+                  />
+                  <Input
+                    placeholder="Story points field (e.g. customfield_10016)"
+                    value={jiraConfig.storyPointsField}
+                    onChange={(e) => setJiraConfig(prev => ({ ...prev, storyPointsField: e.target.value }))}
+                  />
+                  <Input
+                    placeholder="Sprint field (e.g. customfield_10020)"
+                    value={jiraConfig.sprintField}
+                    onChange={(e) => setJiraConfig(prev => ({ ...prev, sprintField: e.target.value }))}
+                  />
+                </div>
+                <p className="text-xs text-muted-foreground">
+                  Custom field ids vary per Jira site. Find them under Jira settings → Issues → Custom fields.
+                </p>
+                <div className="grid grid-cols-1 sm:grid-cols-2 gap-3">
+                  <Input
+                    placeholder="Test issue type (default: Test)"
+                    value={jiraConfig.testIssueType}
+                    onChange={(e) => setJiraConfig(prev => ({ ...prev, testIssueType: e.target.value }))}
+                  />
+                  <Input
+                    placeholder="Test link type (default: Test)"
+                    value={jiraConfig.testLinkType}
+                    onChange={(e) => setJiraConfig(prev => ({ ...prev, testLinkType: e.target.value }))}
+                  />
+                </div>
+                <p className="text-xs text-muted-foreground">
+                  Used by "Publish to Jira" on the Test Cases page. Xray uses the "Test" issue and link types; Zephyr projects often use "Relates".
+                </p>
               </div>
             )}
 
@@ -710,9 +967,11 @@ export const Integrations = () => {
                 />
                 <Input
                   type="password"
-                  placeholder="Enter your Azure OpenAI API key"
-                  value={openAiConfig.apiKey}
-                  onChange={(e) => setOpenAiConfig(prev => ({ ...prev, apiKey: e.target.value }))}
+                  placeholder={credentials.openai
+                    ? `Leave blank to keep the saved key (${credentials.openai.secretHint})`
+                    : "Enter your Azure OpenAI API key"}
+                  value={apiKeys['openai'] || ''}
+                  onChange={(e) => setApiKeys(prev => ({ ...prev, openai: e.target.value }))}
                 />
                 <Input
                   placeholder="Deployment ID (e.g., gpt-4o)"
@@ -727,10 +986,30 @@ export const Integrations = () => {
               </div>
             )}
             
-            {showApiKeyForm !== 'openai' && showApiKeyForm !== 'jira' && showApiKeyForm !== 'azure-devops' && (
+            {showApiKeyForm === 'local-llm' && (
+              <div className="space-y-3">
+                <Input
+                  placeholder="Base URL (e.g., https://llm.example.com/v1)"
+                  value={localLlmConfig.baseUrl}
+                  onChange={(e) => setLocalLlmConfig(prev => ({ ...prev, baseUrl: e.target.value }))}
+                />
+                <Input
+                  type="password"
+                  placeholder={credentials['local-llm']?.secretHint
+                    ? `Leave blank to keep the saved key (${credentials['local-llm'].secretHint})`
+                    : "API key (optional)"}
+                  value={apiKeys['local-llm'] || ''}
+                  onChange={(e) => setApiKeys(prev => ({ ...prev, 'local-llm': e.target.value }))}
+                />
+              </div>
+            )}
+
+            {(showApiKeyForm === 'openai-api' || showApiKeyForm === 'anthropic') && (
               <Input
                 type="password"
-                placeholder="Enter your API key/token"
+                placeholder={credentials[showApiKeyForm]
+                  ? `Leave blank to keep the saved key (${credentials[showApiKeyForm].secretHint})`
+                  : showApiKeyForm === 'openai-api' ? "Enter your OpenAI API key" : "Enter your Anthropic API key"}
                 value={apiKeys[showApiKeyForm] || ''}
                 onChange={(e) => setApiKeys(prev => ({ ...prev, [showApiKeyForm!]: e.target.value }))}
               />
@@ -739,7 +1018,9 @@ export const Integrations = () => {
             {(showApiKeyForm === 'jira' || showApiKeyForm === 'azure-devops') && (
               <Input
                 type="password"
-                placeholder={showApiKeyForm === 'jira' ? "Enter your Jira API token" : "Enter your Personal Access Token"}
+                placeholder={credentials[showApiKeyForm]
+                  ? `Leave blank to keep the saved token (${credentials[showApiKeyForm].secretHint})`
+                  : showApiKeyForm === 'jira' ? "Enter your Jira API token" : "Enter your Personal Access Token"}
                 value={apiKeys[showApiKeyForm] || ''}
                 onChange={(e) => setApiKeys(prev => ({ ...prev, [showApiKeyForm!]: e.target.value }))}
               />
@@ -755,6 +1036,16 @@ export const Integrations = () => {
               <Button variant="outline" onClick={() => setShowApiKeyForm(null)}>
                 Cancel
               </Button>
+              {credentials[showApiKeyForm] && (
+                <Button
+                  variant="outline"
+                  className="ml-auto text-destructive"
+                  onClick={() => disconnectIntegration(showApiKeyForm)}
+                  disabled={isLoading}
+                >
+                  Disconnect
+                </Button>
+              )}
             </div>
           </CardContent>
         </Card>
@@ -821,8 +1112,14 @@ export const Integrations = () => {
                       {story.jiraKey} • {story.issueType} • {story.priority}
                     </p>
                     <p className="text-sm mt-2 line-clamp-2">
-                      {extractTextFromJiraContent(story.description)}
+                      {story.description}
                     </p>
+                    {story.acceptanceCriteria && (
+                      <div className="mt-2">
+                        <p className="text-xs font-medium text-muted-foreground">Acceptance Criteria:</p>
+                        <p className="text-sm mt-1 line-clamp-2">{story.acceptanceCriteria}</p>
+                      </div>
+                    )}
                   </div>
                   <Button
                     size="sm"
@@ -859,8 +1156,11 @@ export const Integrations = () => {
                     <div className="mt-3">
                       <h5 className="text-sm font-medium">Steps:</h5>
                        <ol className="text-sm text-muted-foreground list-decimal list-inside space-y-1">
-                         {testCase.steps?.map((step: any, index: number) => (
-                           <li key={index}>{typeof step === 'string' ? step : JSON.stringify(step)}</li>
+                         {normalizeTestSteps(testCase.steps).map((step, index) => (
+                           <li key={index}>
+                             {step.action}
+                             {step.expectedResult && <span className="block ml-5 text-xs">Expected: {step.expectedResult}</span>}
+                           </li>
                          ))}
                        </ol>
                     </div>
@@ -14,7 +14,8 @@ import {
   Target,
   BarChart3,
   Brain,
-  Zap
+  Zap,
+  Network
 } from "lucide-react";
 
 interface LayoutProps {
@@ -32,6 +33,7 @@ export const Layout = ({ children, currentView, onViewChange, selectedProject, o
     { id: 'dashboard', label: 'Dashboard', icon: LayoutDashboard },
     { id: 'user-stories', label: 'User Stories', icon: FileText },
     { id: 'test-cases', label: 'Test Cases', icon: TestTube },
+    { id: 'traceability', label: 'Traceability', icon: Network },
     { id: 'test-plan', label: 'Test Plan', icon: Target },
     { id: 'test-report', label: 'Test Report', icon: BarChart3 },
     { id: 'performance-testing', label: 'Performance Testing', icon: Zap },
@@ -0,0 +1,106 @@
+import { Fragment, ReactNode, useMemo } from "react";
+import { InlineNode, MarkdownBlock, parseInline, parseMarkdown } from "@/lib/markdown";
+import { ReportChart } from "@/lib/reportCharts";
+import { cn } from "@/lib/utils";
+import { ReportChartView } from "./ReportChartView";
+
+interface MarkdownPreviewProps {
+  markdown: string;
+  // Data for the document's {{chart:<id>}} lines
+  charts?: ReportChart[];
+  className?: string;
+}
+
+const HEADING_STYLES: Record<number, string> = {
+  1: 'text-2xl font-bold mt-6 mb-3',
+  2: 'text-xl font-semibold mt-5 mb-2 pb-1 border-b',
+  3: 'text-lg font-semibold mt-4 mb-2',
+  4: 'text-base font-semibold mt-3 mb-1',
+  5: 'text-sm font-semibold mt-3 mb-1',
+  6: 'text-sm font-medium text-muted-foreground mt-3 mb-1',
+};
+
+const renderInline = (nodes: InlineNode[]): ReactNode =>
+  nodes.map((node, index) => {
+    switch (node.type) {
+      case 'text': return <Fragment key={index}>{node.text}</Fragment>;
+      case 'code': return <code key={index} className="rounded bg-muted px-1 py-0.5 font-mono text-xs">{node.text}</code>;
+      case 'strong': return <strong key={index}>{renderInline(node.children)}</strong>;
+      case 'em': return <em key={index}>{renderInline(node.children)}</em>;
+      case 'link': return (
+        <a key={index} href={node.href} target="_blank" rel="noopener noreferrer" className="text-primary underline">
+          {renderInline(node.children)}
+        </a>
+      );
+    }
+  });
+
+const inline = (text: string) => renderInline(parseInline(text));
+
+const renderBlock = (block: MarkdownBlock, index: number, charts: ReportChart[]): ReactNode => {
+  switch (block.type) {
+    case 'heading': {
+      const Heading = `h${block.level}` as keyof JSX.IntrinsicElements;
+      return <Heading key={index} className={HEADING_STYLES[block.level]}>{inline(block.text)}</Heading>;
+    }
+    case 'paragraph':
+      return <p key={index} className="my-2 leading-relaxed">{inline(block.text)}</p>;
+    case 'list': {
+      const List = block.ordered ? 'ol' : 'ul';
+      return (
+        <List key={index} className={cn('my-2 space-y-1 pl-6', block.ordered ? 'list-decimal' : 'list-disc')}>
+          {block.items.map((item, itemIndex) => (
+            <li key={itemIndex} style={{ marginLeft: `${item.depth * 1.25}rem` }}>{inline(item.text)}</li>
+          ))}
+        </List>
+      );
+    }
+    case 'quote':
+      return (
+        <blockquote key={index} className="my-2 border-l-4 pl-4 italic text-muted-foreground whitespace-pre-wrap">
+          {inline(block.text)}
+        </blockquote>
+      );
+    case 'code':
+      return (
+        <pre key={index} className="my-2 overflow-x-auto rounded-lg bg-muted p-3 font-mono text-xs">
+          {block.text}
+        </pre>
+      );
+    case 'table':
+      return (
+        <div key={index} className="my-3 overflow-x-auto">
+          <table className="w-full border-collapse text-xs">
+            <thead>
+              <tr>
+                {block.header.map((cell, cellIndex) => (
+                  <th key={cellIndex} className="border bg-muted/50 px-2 py-1 text-left font-semibold">{inline(cell)}</th>
+                ))}
+              </tr>
+            </thead>
+            <tbody>
+              {block.rows.map((row, rowIndex) => (
+                <tr key={rowIndex}>
+                  {row.map((cell, cellIndex) => (
+                    <td key={cellIndex} className="border px-2 py-1 align-top">{inline(cell)}</td>
+                  ))}
+                </tr>
+              ))}
+            </tbody>
+          </table>
+        </div>
+      );
+    case 'rule':
+      return <hr key={index} className="my-4" />;
+    case 'chart':
+      return <ReportChartView key={index} id={block.id} chart={charts.find(chart => chart.id === block.id)} />;
+  }
+};
+
+/**
+ * Renders generated Markdown as React elements; raw HTML in the document is shown as text
+ */
+export const MarkdownPreview = ({ markdown, charts = [], className }: MarkdownPreviewProps) => {
+  const blocks = useMemo(() => parseMarkdown(markdown), [markdown]);
+  return <div className={cn('text-sm', className)}>{blocks.map((block, index) => renderBlock(block, index, charts))}</div>;
+};
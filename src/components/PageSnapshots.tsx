@@ -0,0 +1,228 @@
+import { useState, useEffect, useRef } from "react";
+import { Badge } from "@/components/ui/badge";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog";
+import { useToast } from "@/hooks/use-toast";
+import { useAuth } from "@/hooks/useAuth";
+import { supabase } from "@/integrations/supabase/client";
+import { FileSearch, Trash2, Upload } from "lucide-react";
+
+// Matches the page_snapshots_html_length_check constraint
+const MAX_SNAPSHOT_LENGTH = 2_000_000;
+
+interface PageSnapshot {
+  id: string;
+  name: string;
+  fileName: string;
+  testCaseId: string | null;
+  createdAt: string;
+}
+
+interface PageSnapshotsProps {
+  projectId: string;
+  open: boolean;
+  // Snapshots uploaded while a test case is set are attached to that case only
+  testCase: { id: string; title: string } | null;
+  onClose: () => void;
+}
+
+export const PageSnapshots = ({ projectId, open, testCase, onClose }: PageSnapshotsProps) => {
+  const { toast } = useToast();
+  const { user } = useAuth();
+  const fileInputRef = useRef<HTMLInputElement>(null);
+  const [snapshots, setSnapshots] = useState<PageSnapshot[]>([]);
+  const [pageName, setPageName] = useState("");
+  const [isLoading, setIsLoading] = useState(false);
+  const [isUploading, setIsUploading] = useState(false);
+
+  useEffect(() => {
+    if (open) {
+      loadSnapshots();
+    }
+  }, [open, projectId, testCase?.id]);
+
+  const loadSnapshots = async () => {
+    setIsLoading(true);
+    try {
+      // The HTML itself is only read by the automation generator
+      const { data, error } = await supabase
+        .from('page_snapshots')
+        .select('id, name, file_name, test_case_id, created_at')
+        .eq('project_id', projectId)
+        .order('created_at', { ascending: false });
+
+      if (error) throw error;
+
+      setSnapshots((data || [])
+        .filter(snapshot => !testCase || !snapshot.test_case_id || snapshot.test_case_id === testCase.id)
+        .map(snapshot => ({
+          id: snapshot.id,
+          name: snapshot.name,
+          fileName: snapshot.file_name || '',
+          testCaseId: snapshot.test_case_id,
+          createdAt: snapshot.created_at
+        })));
+    } catch (error) {
+      console.error('Error loading page snapshots:', error);
+      toast({
+        title: "Error",
+        description: "Failed to load page snapshots",
+        variant: "destructive",
+      });
+    } finally {
+      setIsLoading(false);
+    }
+  };
+
+  const handleFileUpload = async (event: React.ChangeEvent<HTMLInputElement>) => {
+    const file = event.target.files?.[0];
+    event.target.value = '';
+    if (!file || !user) return;
+
+    setIsUploading(true);
+    try {
+      const html = await file.text();
+      if (html.length > MAX_SNAPSHOT_LENGTH) {
+        toast({
+          title: "Snapshot Too Large",
+          description: "Page snapshots are limited to 2 MB of HTML",
+          variant: "destructive",
+        });
+        return;
+      }
+
+      const { error } = await supabase
+        .from('page_snapshots')
+        .insert({
+          project_id: projectId,
+          test_case_id: testCase?.id ?? null,
+          name: pageName.trim() || file.name.replace(/\.[^.]+$/, ''),
+          file_name: file.name,
+          html,
+          created_by: user.id
+        });
+
+      if (error) throw error;
+
+      setPageName("");
+      toast({
+        title: "Snapshot Uploaded",
+        description: `${file.name} will be used to resolve locators when generating automation`,
+      });
+      loadSnapshots();
+    } catch (error) {
+      console.error('Error uploading page snapshot:', error);
+      toast({
+        title: "Upload Failed",
+        description: "Failed to upload the page snapshot",
+        variant: "destructive",
+      });
+    } finally {
+      setIsUploading(false);
+    }
+  };
+
+  const deleteSnapshot = async (snapshotId: string) => {
+    try {
+      const { error } = await supabase
+        .from('page_snapshots')
+        .delete()
+        .eq('id', snapshotId);
+
+      if (error) throw error;
+
+      setSnapshots(prev => prev.filter(snapshot => snapshot.id !== snapshotId));
+    } catch (error) {
+      console.error('Error deleting page snapshot:', error);
+      toast({
+        title: "Error",
+        description: "Failed to delete page snapshot",
+        variant: "destructive",
+      });
+    }
+  };
+
+  return (
+    <Dialog open={open} onOpenChange={(isOpen) => !isOpen && onClose()}>
+      <DialogContent className="max-w-2xl max-h-[90vh] overflow-y-auto">
+        <DialogHeader>
+          <DialogTitle className="flex items-center gap-2">
+            <FileSearch className="h-5 w-5" />
+            Page Snapshots
+          </DialogTitle>
+          <DialogDescription>
+            {testCase
+              ? `Snapshots attached to "${testCase.title}" and project pages are used to resolve real locators for its steps.`
+              : 'Upload saved HTML pages or DOM dumps. Generated automation resolves locators from them instead of placeholders.'}
+          </DialogDescription>
+        </DialogHeader>
+
+        <div className="flex flex-col sm:flex-row gap-2 sm:items-end">
+          <div className="flex-1 space-y-1">
+            <Label htmlFor="snapshot-page-name">Page or screen name</Label>
+            <Input
+              id="snapshot-page-name"
+              placeholder="e.g. Login page (defaults to the file name)"
+              value={pageName}
+              onChange={(e) => setPageName(e.target.value)}
+            />
+          </div>
+          <Button
+            variant="outline"
+            onClick={() => fileInputRef.current?.click()}
+            disabled={isUploading}
+          >
+            <Upload className="mr-2 h-4 w-4" />
+            {isUploading ? 'Uploading...' : 'Upload HTML'}
+          </Button>
+          <input
+            ref={fileInputRef}
+            type="file"
+            accept=".html,.htm,.xhtml,.txt"
+            className="hidden"
+            onChange={handleFileUpload}
+          />
+        </div>
+
+        {isLoading ? (
+          <p className="text-sm text-muted-foreground py-4">Loading page snapshots...</p>
+        ) : snapshots.length === 0 ? (
+          <p className="text-sm text-muted-foreground py-4">No page snapshots uploaded yet.</p>
+        ) : (
+          <div className="space-y-2">
+            {snapshots.map(snapshot => (
+              <div key={snapshot.id} className="border rounded-lg p-3 flex items-center justify-between gap-2">
+                <div className="min-w-0">
+                  <p className="font-medium text-sm truncate">{snapshot.name}</p>
+                  <p className="text-xs text-muted-foreground truncate">
+                    {[snapshot.fileName, new Date(snapshot.createdAt).toLocaleString()].filter(Boolean).join(' • ')}
+                  </p>
+                </div>
+                <div className="flex items-center gap-2 shrink-0">
+                  <Badge variant="outline">{snapshot.testCaseId ? (testCase ? 'This test case' : 'Test case') : 'Project page'}</Badge>
+                  <Button
+                    variant="ghost"
+                    size="sm"
+                    className="text-destructive hover:text-destructive"
+                    onClick={() => deleteSnapshot(snapshot.id)}
+                    aria-label={`Delete ${snapshot.name}`}
+                  >
+                    <Trash2 className="h-4 w-4" />
+                  </Button>
+                </div>
+              </div>
+            ))}
+          </div>
+        )}
+      </DialogContent>
+    </Dialog>
+  );
+};
@@ -3,12 +3,23 @@ import { Button } from "@/components/ui/button";
 import { Dialog, DialogContent, DialogDescription, DialogFooter, DialogHeader, DialogTitle } from "@/components/ui/dialog";
 import { Label } from "@/components/ui/label";
 import { Textarea } from "@/components/ui/textarea";
+import { Input } from "@/components/ui/input";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { Switch } from "@/components/ui/switch";
 import { Tabs, TabsContent, TabsList, TabsTrigger } from "@/components/ui/tabs";
 import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
-import { Settings, FileText, TestTube, PlayCircle, ClipboardCheck } from "lucide-react";
+import { Settings, FileText, TestTube, PlayCircle, ClipboardCheck, Cpu, FileDown, Plus, Trash2 } from "lucide-react";
 import { supabase } from "@/integrations/supabase/client";
 import { useToast } from "@/hooks/use-toast";
 import { validateText, sanitizeText } from "@/lib/security";
+import { AI_PROVIDERS, AiProviderId, getAiProvider } from "@/lib/aiProviders";
+import {
+  DEFAULT_DOCUMENT_TEMPLATE,
+  DocumentTemplate,
+  LOGO_TYPES,
+  MAX_LOGO_BYTES,
+  parseDocumentTemplate,
+} from "@/lib/documentTemplate";
 
 interface ProjectSettingsProps {
   projectId: string;
@@ -58,12 +69,15 @@ List specific features or components that need thorough testing.`,
   automation: `# Automation Script Settings
 
 ## Automation Framework
+- Automation target: selenium-java-junit (or playwright-ts, cypress, selenium-python, selenium-java-testng, webdriverio)
 - Selenium WebDriver
 - Page Object Model pattern
+- Package: com.testautomation (Java projects)
 - Data-driven testing approach
 
 ## Environment Configuration
 - Base URL: https://your-app.com
+- Browser: chrome (or firefox, edge, safari)
 - Test environment credentials
 - Browser compatibility requirements
 
@@ -110,6 +124,10 @@ List potential risks and mitigation strategies.`,
 
 export const ProjectSettings = ({ projectId, projectName, isOpen, onClose }: ProjectSettingsProps) => {
   const [settings, setSettings] = useState<MarkdownSettings>(defaultSettings);
+  const [settingsVersion, setSettingsVersion] = useState(0);
+  const [aiProvider, setAiProvider] = useState<AiProviderId>('azure-openai');
+  const [aiModel, setAiModel] = useState('');
+  const [template, setTemplate] = useState<DocumentTemplate>(DEFAULT_DOCUMENT_TEMPLATE);
   const [loading, setLoading] = useState(false);
   const [saving, setSaving] = useState(false);
   const { toast } = useToast();
@@ -125,12 +143,17 @@ export const ProjectSettings = ({ projectId, projectName, isOpen, onClose }: Pro
     try {
       const { data, error } = await supabase
         .from('projects')
-        .select('markdown_settings')
+        .select('markdown_settings, markdown_settings_version, ai_provider, ai_model, document_template')
         .eq('id', projectId)
         .single();
 
       if (error) throw error;
 
+      setSettingsVersion(data?.markdown_settings_version || 0);
+      setAiProvider(getAiProvider(data?.ai_provider || '').id);
+      setAiModel(data?.ai_model || '');
+      setTemplate(parseDocumentTemplate(data?.document_template));
+
       if (data?.markdown_settings) {
         try {
           const parsedSettings = JSON.parse(data.markdown_settings);
@@ -169,24 +192,68 @@ export const ProjectSettings = ({ projectId, projectName, isOpen, onClose }: Pro
         }
       }
 
+      const model = sanitizeText(aiModel.trim());
+      if (model.length > 100) {
+        toast({
+          title: "Error",
+          description: "Model name must be 100 characters or fewer",
+          variant: "destructive",
+        });
+        setSaving(false);
+        return;
+      }
+
+      const templateTexts = [
+        template.companyName,
+        template.coverSubtitle,
+        template.headerText,
+        template.footerText,
+        ...template.documentControlFields.flatMap(field => [field.label, field.value])
+      ];
+      if (templateTexts.some(text => text.length > 200) || template.documentControlFields.length > 20) {
+        toast({
+          title: "Error",
+          description: "Export template texts must be 200 characters or fewer, with at most 20 document control fields",
+          variant: "destructive",
+        });
+        setSaving(false);
+        return;
+      }
+
       // Sanitize settings
       const sanitizedSettings = Object.fromEntries(
         Object.entries(settings).map(([key, value]) => [key, sanitizeText(value)])
       );
+      const sanitizedTemplate: DocumentTemplate = {
+        ...template,
+        companyName: sanitizeText(template.companyName),
+        coverSubtitle: sanitizeText(template.coverSubtitle),
+        headerText: sanitizeText(template.headerText),
+        footerText: sanitizeText(template.footerText),
+        documentControlFields: template.documentControlFields
+          .map(field => ({ label: sanitizeText(field.label), value: sanitizeText(field.value) }))
+          .filter(field => field.label)
+      };
 
       const { error } = await supabase
         .from('projects')
         .update({ 
           markdown_settings: JSON.stringify(sanitizedSettings),
+          markdown_settings_version: settingsVersion + 1,
+          ai_provider: aiProvider,
+          // Blank uses the provider's default model
+          ai_model: model || null,
+          document_template: JSON.stringify(sanitizedTemplate),
           updated_at: new Date().toISOString()
         })
         .eq('id', projectId);
 
       if (error) throw error;
 
+      setSettingsVersion(settingsVersion + 1);
       toast({
         title: "Success",
-        description: "Project settings saved successfully",
+        description: `Project settings saved as version ${settingsVersion + 1}`,
       });
       onClose();
     } catch (error) {
@@ -205,8 +272,38 @@ export const ProjectSettings = ({ projectId, projectName, isOpen, onClose }: Pro
     setSettings(prev => ({ ...prev, [key]: value }));
   };
 
+  const updateTemplate = <K extends keyof DocumentTemplate>(key: K, value: DocumentTemplate[K]) => {
+    setTemplate(prev => ({ ...prev, [key]: value }));
+  };
+
+  const updateControlField = (index: number, key: 'label' | 'value', value: string) => {
+    updateTemplate('documentControlFields', template.documentControlFields.map((field, position) =>
+      position === index ? { ...field, [key]: value } : field
+    ));
+  };
+
+  const handleLogoUpload = (event: React.ChangeEvent<HTMLInputElement>) => {
+    const file = event.target.files?.[0];
+    event.target.value = '';
+    if (!file) return;
+
+    if (!LOGO_TYPES.includes(file.type) || file.size > MAX_LOGO_BYTES) {
+      toast({
+        title: "Error",
+        description: `The logo must be a PNG or JPEG image of at most ${MAX_LOGO_BYTES / 1024} KB`,
+        variant: "destructive",
+      });
+      return;
+    }
+
+    const reader = new FileReader();
+    reader.onload = () => updateTemplate('logo', reader.result as string);
+    reader.readAsDataURL(file);
+  };
+
   const resetToDefaults = () => {
     setSettings(defaultSettings);
+    setTemplate(DEFAULT_DOCUMENT_TEMPLATE);
     toast({
       title: "Settings Reset",
       description: "All settings have been reset to defaults",
@@ -224,6 +321,7 @@ export const ProjectSettings = ({ projectId, projectName, isOpen, onClose }: Pro
           <DialogDescription>
             Configure markdown-based context and instructions for AI-powered test generation features.
             These settings will be used when generating test cases, automation scripts, test plans, and reports.
+            {settingsVersion > 0 && ` Current version: v${settingsVersion}.`}
           </DialogDescription>
         </DialogHeader>
 
@@ -232,8 +330,55 @@ export const ProjectSettings = ({ projectId, projectName, isOpen, onClose }: Pro
             <div className="animate-pulse">Loading settings...</div>
           </div>
         ) : (
+          <>
+          <Card className="mt-4">
+            <CardHeader>
+              <CardTitle className="flex items-center gap-2">
+                <Cpu className="h-4 w-4" />
+                AI Provider
+              </CardTitle>
+              <CardDescription>
+                Choose which LLM provider and model generate content for this project. Its credentials are configured under Integrations.
+              </CardDescription>
+            </CardHeader>
+            <CardContent className="grid grid-cols-1 sm:grid-cols-2 gap-4">
+              <div className="space-y-2">
+                <Label>Provider</Label>
+                <Select value={aiProvider} onValueChange={(value) => setAiProvider(value as AiProviderId)}>
+                  <SelectTrigger>
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    {AI_PROVIDERS.map(provider => (
+                      <SelectItem key={provider.id} value={provider.id}>
+                        {provider.label}
+                      </SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+              </div>
+              <div className="space-y-2">
+                <Label htmlFor="ai-model">Model</Label>
+                <Input
+                  id="ai-model"
+                  list="ai-model-suggestions"
+                  value={aiModel}
+                  onChange={(e) => setAiModel(e.target.value)}
+                  placeholder={aiProvider === 'azure-openai'
+                    ? 'Deployed model, used for cost tracking'
+                    : `Default: ${getAiProvider(aiProvider).defaultModel}`}
+                />
+                <datalist id="ai-model-suggestions">
+                  {getAiProvider(aiProvider).models.map(model => (
+                    <option key={model} value={model} />
+                  ))}
+                </datalist>
+              </div>
+            </CardContent>
+          </Card>
+
           <Tabs defaultValue="general" className="mt-4">
-            <TabsList className="grid w-full grid-cols-5">
+            <TabsList className="grid w-full grid-cols-6">
               <TabsTrigger value="general" className="flex items-center gap-1">
                 <FileText className="h-4 w-4" />
                 General
@@ -254,6 +399,10 @@ export const ProjectSettings = ({ projectId, projectName, isOpen, onClose }: Pro
                 <FileText className="h-4 w-4" />
                 Report
               </TabsTrigger>
+              <TabsTrigger value="export" className="flex items-center gap-1">
+                <FileDown className="h-4 w-4" />
+                Export
+              </TabsTrigger>
             </TabsList>
 
             <TabsContent value="general" className="mt-4">
@@ -355,7 +504,139 @@ export const ProjectSettings = ({ projectId, projectName, isOpen, onClose }: Pro
                 </CardContent>
               </Card>
             </TabsContent>
+
+            <TabsContent value="export" className="mt-4">
+              <Card>
+                <CardHeader>
+                  <CardTitle>Export Template</CardTitle>
+                  <CardDescription>
+                    Layout of test plans and reports downloaded as Word or PDF documents. Texts may use
+                    {' {company}, {project}, {title}, {version} and {date}.'}
+                  </CardDescription>
+                </CardHeader>
+                <CardContent className="space-y-4">
+                  <div className="grid grid-cols-1 sm:grid-cols-2 gap-4">
+                    <div className="space-y-2">
+                      <Label htmlFor="template-company">Company Name</Label>
+                      <Input
+                        id="template-company"
+                        value={template.companyName}
+                        onChange={(e) => updateTemplate('companyName', e.target.value)}
+                        placeholder="Acme Corporation"
+                      />
+                    </div>
+                    <div className="space-y-2">
+                      <Label htmlFor="template-logo">Logo</Label>
+                      <div className="flex items-center gap-2">
+                        {template.logo && (
+                          <img src={template.logo} alt="Company logo" className="h-9 max-w-[6rem] object-contain border rounded" />
+                        )}
+                        <Input id="template-logo" type="file" accept={LOGO_TYPES.join(',')} onChange={handleLogoUpload} />
+                        {template.logo && (
+                          <Button variant="ghost" size="sm" onClick={() => updateTemplate('logo', '')} title="Remove logo">
+                            <Trash2 className="h-4 w-4" />
+                          </Button>
+                        )}
+                      </div>
+                    </div>
+                  </div>
+
+                  <div className="space-y-2">
+                    <div className="flex items-center gap-2">
+                      <Switch
+                        id="template-cover"
+                        checked={template.coverPage}
+                        onCheckedChange={(checked) => updateTemplate('coverPage', checked)}
+                      />
+                      <Label htmlFor="template-cover">Cover page</Label>
+                    </div>
+                    <Input
+                      value={template.coverSubtitle}
+                      onChange={(e) => updateTemplate('coverSubtitle', e.target.value)}
+                      placeholder="Cover subtitle"
+                      disabled={!template.coverPage}
+                    />
+                  </div>
+
+                  <div className="grid grid-cols-1 sm:grid-cols-2 gap-4">
+                    <div className="space-y-2">
+                      <Label htmlFor="template-header">Header</Label>
+                      <Input
+                        id="template-header"
+                        value={template.headerText}
+                        onChange={(e) => updateTemplate('headerText', e.target.value)}
+                      />
+                    </div>
+                    <div className="space-y-2">
+                      <Label htmlFor="template-footer">Footer</Label>
+                      <Input
+                        id="template-footer"
+                        value={template.footerText}
+                        onChange={(e) => updateTemplate('footerText', e.target.value)}
+                      />
+                    </div>
+                  </div>
+                  <div className="flex items-center gap-2">
+                    <Switch
+                      id="template-page-numbers"
+                      checked={template.pageNumbers}
+                      onCheckedChange={(checked) => updateTemplate('pageNumbers', checked)}
+                    />
+                    <Label htmlFor="template-page-numbers">Page numbers in the footer</Label>
+                  </div>
+
+                  <div className="space-y-2">
+                    <div className="flex items-center gap-2">
+                      <Switch
+                        id="template-control"
+                        checked={template.documentControl}
+                        onCheckedChange={(checked) => updateTemplate('documentControl', checked)}
+                      />
+                      <Label htmlFor="template-control">Document control table</Label>
+                    </div>
+                    <p className="text-xs text-muted-foreground">
+                      Lists the document, project, version, status, author and date, followed by these fields.
+                    </p>
+                    {template.documentControlFields.map((field, index) => (
+                      <div key={index} className="flex gap-2">
+                        <Input
+                          value={field.label}
+                          onChange={(e) => updateControlField(index, 'label', e.target.value)}
+                          placeholder="Field"
+                          disabled={!template.documentControl}
+                        />
+                        <Input
+                          value={field.value}
+                          onChange={(e) => updateControlField(index, 'value', e.target.value)}
+                          placeholder="Value"
+                          disabled={!template.documentControl}
+                        />
+                        <Button
+                          variant="ghost"
+                          size="sm"
+                          onClick={() => updateTemplate('documentControlFields', template.documentControlFields.filter((_, position) => position !== index))}
+                          disabled={!template.documentControl}
+                          title="Remove field"
+                        >
+                          <Trash2 className="h-4 w-4" />
+                        </Button>
+                      </div>
+                    ))}
+                    <Button
+                      variant="outline"
+                      size="sm"
+                      onClick={() => updateTemplate('documentControlFields', [...template.documentControlFields, { label: '', value: '' }])}
+                      disabled={!template.documentControl || template.documentControlFields.length >= 20}
+                    >
+                      <Plus className="mr-2 h-4 w-4" />
+                      Add Field
+                    </Button>
+                  </div>
+                </CardContent>
+              </Card>
+            </TabsContent>
           </Tabs>
+          </>
         )}
 
         <DialogFooter className="flex flex-col sm:flex-row gap-2">
@@ -0,0 +1,352 @@
+import { useState, useEffect, useMemo } from "react";
+import { Button } from "@/components/ui/button";
+import { Badge } from "@/components/ui/badge";
+import { Checkbox } from "@/components/ui/checkbox";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog";
+import { useToast } from "@/hooks/use-toast";
+import { supabase } from "@/integrations/supabase/client";
+import { TablesInsert, TablesUpdate } from "@/integrations/supabase/types";
+import { stepsToText } from "@/lib/testSteps";
+import {
+  ComparableTestCase,
+  DiffField,
+  TestCaseDiffEntry,
+  diffTestCases,
+  mergeTestCase,
+} from "@/lib/testCaseDiff";
+
+export interface ExistingTestCase extends ComparableTestCase {
+  id: string;
+  status: string;
+}
+
+export interface ProposedTestCase extends ComparableTestCase {
+  generatedByModel: string | null;
+  promptHash: string | null;
+  generatedAt: string;
+  coveredCriteria: string[];
+}
+
+export interface RegenerationProposal {
+  projectId: string;
+  storyId: string;
+  storyTitle: string;
+  existing: ExistingTestCase[];
+  proposed: ProposedTestCase[];
+}
+
+export interface RegenerationSummary {
+  added: number;
+  updated: number;
+  removed: number;
+  total: number;
+}
+
+// For removed entries "accept" means deleting the existing case, and with it its execution
+// history: test_run_results rows are deleted along with their test case
+type Decision = 'accept' | 'reject' | 'merge';
+
+type DiffEntry = TestCaseDiffEntry<ExistingTestCase, ProposedTestCase>;
+
+interface RegenerationReviewProps {
+  proposal: RegenerationProposal | null;
+  onClose: () => void;
+  onApplied: (summary: RegenerationSummary) => void;
+}
+
+const FIELD_LABELS: Record<DiffField, string> = {
+  title: 'Title',
+  description: 'Description',
+  steps: 'Steps',
+  expectedResult: 'Expected Result',
+  priority: 'Priority',
+  testType: 'Type',
+  category: 'Category',
+};
+
+const formatField = (testCase: ComparableTestCase, field: DiffField): string => {
+  if (field === 'steps') {
+    return testCase.steps
+      .map((step, index) =>
+        `${index + 1}. ${step.action}${step.testData ? ` [${step.testData}]` : ''}${step.expectedResult ? ` → ${step.expectedResult}` : ''}`
+      )
+      .join('\n') || 'No steps';
+  }
+  return testCase[field] || '—';
+};
+
+const toTestCaseRow = (testCase: ComparableTestCase) => ({
+  title: testCase.title,
+  description: testCase.description,
+  test_steps: testCase.steps,
+  steps: stepsToText(testCase.steps),
+  expected_result: testCase.expectedResult,
+  priority: testCase.priority,
+  test_type: testCase.testType,
+  category: testCase.category,
+});
+
+const defaultDecision = (entry: DiffEntry): Decision =>
+  entry.kind === 'removed' ? 'reject' : 'accept';
+
+export const RegenerationReview = ({ proposal, onClose, onApplied }: RegenerationReviewProps) => {
+  const { toast } = useToast();
+  const [decisions, setDecisions] = useState<Decision[]>([]);
+  const [mergeFields, setMergeFields] = useState<DiffField[][]>([]);
+  const [isApplying, setIsApplying] = useState(false);
+
+  const entries = useMemo(
+    () => (proposal ? diffTestCases(proposal.existing, proposal.proposed) : []),
+    [proposal]
+  );
+
+  useEffect(() => {
+    setDecisions(entries.map(defaultDecision));
+    setMergeFields(entries.map(entry => [...entry.changedFields]));
+  }, [entries]);
+
+  const counts = {
+    new: entries.filter(entry => entry.kind === 'new').length,
+    changed: entries.filter(entry => entry.kind === 'changed').length,
+    unchanged: entries.filter(entry => entry.kind === 'unchanged').length,
+    removed: entries.filter(entry => entry.kind === 'removed').length,
+  };
+
+  const deletionCount = entries.filter((entry, index) => entry.kind === 'removed' && decisions[index] === 'accept').length;
+
+  const setDecision = (index: number, decision: Decision) => {
+    setDecisions(prev => prev.map((current, i) => (i === index ? decision : current)));
+  };
+
+  const toggleMergeField = (index: number, field: DiffField) => {
+    setMergeFields(prev => prev.map((fields, i) => {
+      if (i !== index) return fields;
+      return fields.includes(field) ? fields.filter(f => f !== field) : [...fields, field];
+    }));
+  };
+
+  const applyChanges = async () => {
+    if (!proposal) return;
+
+    setIsApplying(true);
+    try {
+      const inserts: TablesInsert<'test_cases'>[] = [];
+      const updates: (TablesUpdate<'test_cases'> & { id: string })[] = [];
+      const deleteIds: string[] = [];
+
+      entries.forEach((entry, index) => {
+        const decision = decisions[index];
+        if (decision === 'reject') return;
+
+        if (entry.kind === 'new' && entry.proposed) {
+          inserts.push({
+            ...toTestCaseRow(entry.proposed),
+            project_id: proposal.projectId,
+            user_story_id: proposal.storyId,
+            status: 'draft',
+            generated_by_model: entry.proposed.generatedByModel,
+            prompt_hash: entry.proposed.promptHash,
+            generated_at: entry.proposed.generatedAt,
+            covered_criteria: entry.proposed.coveredCriteria,
+          });
+        } else if (entry.kind === 'changed' && entry.existing && entry.proposed) {
+          const fields = decision === 'merge' ? mergeFields[index] : entry.changedFields;
+          if (fields.length > 0) {
+            // Provenance and criteria coverage describe the proposed steps, so they are only
+            // written when the case ends up with those steps
+            const takesProposedSteps = fields.includes('steps') || !entry.changedFields.includes('steps');
+            updates.push({
+              id: entry.existing.id,
+              ...toTestCaseRow(mergeTestCase(entry.existing, entry.proposed, fields)),
+              ...(takesProposedSteps ? {
+                generated_by_model: entry.proposed.generatedByModel,
+                prompt_hash: entry.proposed.promptHash,
+                generated_at: entry.proposed.generatedAt,
+                covered_criteria: entry.proposed.coveredCriteria,
+              } : {}),
+            });
+          }
+        } else if (entry.kind === 'removed' && entry.existing) {
+          deleteIds.push(entry.existing.id);
+        }
+      });
+
+      // Applied in one transaction: either every decision is saved or none is.
+      // Updating in place keeps the case's status, execution history and Jira / Azure DevOps links.
+      const { error } = await supabase.rpc('apply_test_case_regeneration', {
+        _inserts: inserts,
+        _updates: updates,
+        _delete_ids: deleteIds,
+      });
+      if (error) throw error;
+
+      onApplied({
+        added: inserts.length,
+        updated: updates.length,
+        removed: deleteIds.length,
+        total: proposal.existing.length + inserts.length - deleteIds.length,
+      });
+      onClose();
+    } catch (error) {
+      console.error('Error applying regenerated test cases:', error);
+      toast({
+        title: "Apply Failed",
+        description: "Failed to save the reviewed test cases. Nothing was changed, so they can be applied again.",
+        variant: "destructive",
+      });
+    } finally {
+      setIsApplying(false);
+    }
+  };
+
+  const renderDecisionButtons = (entry: DiffEntry, index: number) => {
+    const options: { value: Decision; label: string }[] =
+      entry.kind === 'new'
+        ? [{ value: 'accept', label: 'Add' }, { value: 'reject', label: 'Skip' }]
+        : entry.kind === 'changed'
+          ? [{ value: 'accept', label: 'Use new' }, { value: 'merge', label: 'Merge' }, { value: 'reject', label: 'Keep current' }]
+          : [{ value: 'reject', label: 'Keep' }, { value: 'accept', label: 'Delete' }];
+
+    return (
+      <div className="flex gap-1">
+        {options.map(option => (
+          <Button
+            key={option.value}
+            size="sm"
+            variant={decisions[index] === option.value ? 'default' : 'outline'}
+            onClick={() => setDecision(index, option.value)}
+          >
+            {option.label}
+          </Button>
+        ))}
+      </div>
+    );
+  };
+
+  const getKindColor = (kind: DiffEntry['kind']) => {
+    switch (kind) {
+      case 'new': return 'bg-success text-success-foreground';
+      case 'changed': return 'bg-warning text-warning-foreground';
+      case 'removed': return 'bg-destructive text-destructive-foreground';
+      default: return 'bg-secondary text-secondary-foreground';
+    }
+  };
+
+  return (
+    <Dialog open={!!proposal} onOpenChange={(open) => !open && !isApplying && onClose()}>
+      <DialogContent className="max-w-5xl max-h-[90vh] overflow-y-auto">
+        <DialogHeader>
+          <DialogTitle>Review Regenerated Test Cases</DialogTitle>
+          <DialogDescription>
+            {proposal?.storyTitle}: {counts.new} new, {counts.changed} changed, {counts.removed} no longer proposed
+            {counts.unchanged > 0 && `, ${counts.unchanged} unchanged`}. Nothing is saved until you apply.
+          </DialogDescription>
+        </DialogHeader>
+
+        <div className="space-y-3">
+          {entries.map((entry, index) => {
+            if (entry.kind === 'unchanged') return null;
+            const testCase = entry.proposed || entry.existing!;
+
+            return (
+              <div key={index} className="border rounded-lg p-4 space-y-3">
+                <div className="flex items-start justify-between gap-4">
+                  <div className="space-y-1">
+                    <div className="flex items-center gap-2">
+                      <Badge className={getKindColor(entry.kind)}>{entry.kind}</Badge>
+                      {entry.kind === 'changed' && (
+                        <span className="text-xs text-muted-foreground">
+                          {Math.round(entry.similarity * 100)}% similar
+                        </span>
+                      )}
+                      {entry.existing && (
+                        <Badge variant="outline">{entry.existing.status}</Badge>
+                      )}
+                    </div>
+                    <h4 className="font-medium">{testCase.title}</h4>
+                  </div>
+                  {renderDecisionButtons(entry, index)}
+                </div>
+
+                {entry.kind === 'new' && (
+                  <pre className="text-xs text-muted-foreground whitespace-pre-wrap font-sans">
+                    {formatField(testCase, 'steps')}
+                  </pre>
+                )}
+
+                {entry.kind === 'removed' && (decisions[index] === 'accept' ? (
+                  <p className="text-xs text-destructive">
+                    Deleting it also deletes its execution history from every test run. This cannot be undone.
+                  </p>
+                ) : (
+                  <p className="text-xs text-muted-foreground">
+                    Not part of the new proposal. Keeping it preserves its status and execution history.
+                  </p>
+                ))}
+
+                {entry.kind === 'changed' && entry.existing && entry.proposed && (
+                  <div className="space-y-2">
+                    {entry.changedFields.map(field => (
+                      <div key={field} className="grid grid-cols-[8rem_1fr_1fr] gap-3 text-xs">
+                        <label className="flex items-start gap-2 font-medium">
+                          {decisions[index] === 'merge' && (
+                            <Checkbox
+                              checked={mergeFields[index]?.includes(field)}
+                              onCheckedChange={() => toggleMergeField(index, field)}
+                              aria-label={`Use new ${FIELD_LABELS[field]}`}
+                            />
+                          )}
+                          {FIELD_LABELS[field]}
+                        </label>
+                        <pre className="whitespace-pre-wrap font-sans text-muted-foreground line-through">
+                          {formatField(entry.existing, field)}
+                        </pre>
+                        <pre className="whitespace-pre-wrap font-sans">
+                          {formatField(entry.proposed, field)}
+                        </pre>
+                      </div>
+                    ))}
+                    {decisions[index] === 'merge' && (
+                      <p className="text-xs text-muted-foreground">
+                        Ticked fields take the new value; the rest keep the current value.
+                      </p>
+                    )}
+                  </div>
+                )}
+              </div>
+            );
+          })}
+
+          {entries.length > 0 && entries.every(entry => entry.kind === 'unchanged') && (
+            <p className="text-sm text-muted-foreground text-center py-6">
+              The regenerated test cases match the existing ones.
+            </p>
+          )}
+        </div>
+
+        {deletionCount > 0 && (
+          <p className="text-sm text-destructive">
+            {deletionCount} test case{deletionCount === 1 ? '' : 's'} will be deleted together with
+            {deletionCount === 1 ? ' its' : ' their'} execution history.
+          </p>
+        )}
+
+        <DialogFooter>
+          <Button variant="outline" onClick={onClose} disabled={isApplying}>
+            Discard Proposal
+          </Button>
+          <Button onClick={applyChanges} disabled={isApplying}>
+            {isApplying ? 'Applying...' : 'Apply Changes'}
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+};
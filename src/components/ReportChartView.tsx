@@ -0,0 +1,61 @@
+import { ChartContainer, ChartTooltip, ChartTooltipContent } from "@/components/ui/chart";
+import { Bar, BarChart, CartesianGrid, Line, LineChart, XAxis, YAxis } from "recharts";
+import { ReportChart } from "@/lib/reportCharts";
+
+interface ReportChartViewProps {
+  chart: ReportChart | undefined;
+  id: string;
+}
+
+/**
+ * A chart embedded in a test report preview
+ */
+export const ReportChartView = ({ chart, id }: ReportChartViewProps) => {
+  if (!chart) {
+    return (
+      <p className="my-3 rounded border border-dashed p-3 text-xs text-muted-foreground">
+        Chart "{id}" has no data in this report
+      </p>
+    );
+  }
+
+  const chartConfig = {
+    value: {
+      label: chart.title,
+      color: "hsl(var(--primary))",
+    },
+  };
+  const domain: [number, number | 'auto'] = [0, chart.unit === '%' ? 100 : 'auto'];
+  const tickFormatter = (value: number) => `${value}${chart.unit}`;
+
+  return (
+    <figure className="my-4 rounded-lg border p-3">
+      <figcaption className="mb-2 text-sm font-medium">{chart.title}</figcaption>
+      <ChartContainer config={chartConfig} className="h-[220px] w-full">
+        {chart.kind === 'bar' ? (
+          <BarChart data={chart.points}>
+            <CartesianGrid vertical={false} />
+            <XAxis dataKey="label" tickLine={false} interval={0} tick={{ fontSize: 11 }} />
+            <YAxis domain={domain} allowDecimals={false} tickFormatter={tickFormatter} width={40} />
+            <ChartTooltip content={<ChartTooltipContent />} />
+            <Bar dataKey="value" fill="var(--color-value)" radius={4} />
+          </BarChart>
+        ) : (
+          <LineChart data={chart.points}>
+            <CartesianGrid vertical={false} />
+            <XAxis dataKey="label" tickLine={false} tick={{ fontSize: 11 }} />
+            <YAxis domain={domain} tickFormatter={tickFormatter} width={48} />
+            <ChartTooltip content={<ChartTooltipContent />} />
+            <Line
+              type="monotone"
+              dataKey="value"
+              stroke="var(--color-value)"
+              strokeWidth={2}
+              dot={{ fill: "var(--color-value)" }}
+            />
+          </LineChart>
+        )}
+      </ChartContainer>
+    </figure>
+  );
+};
@@ -0,0 +1,258 @@
+import { useState, useEffect } from "react";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Textarea } from "@/components/ui/textarea";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog";
+import { useToast } from "@/hooks/use-toast";
+import { supabase } from "@/integrations/supabase/client";
+import { TestStep, createEmptyStep, stepsToText } from "@/lib/testSteps";
+import { ArrowUp, ArrowDown, Plus, Trash2 } from "lucide-react";
+
+export interface EditableTestCase {
+  id: string;
+  title: string;
+  description: string;
+  steps: TestStep[];
+  expectedResult: string;
+}
+
+interface TestCaseEditorProps {
+  testCase: EditableTestCase | null;
+  onClose: () => void;
+  onSaved: (testCase: EditableTestCase) => void;
+}
+
+export const TestCaseEditor = ({ testCase, onClose, onSaved }: TestCaseEditorProps) => {
+  const { toast } = useToast();
+  const [title, setTitle] = useState('');
+  const [description, setDescription] = useState('');
+  const [steps, setSteps] = useState<TestStep[]>([]);
+  const [expectedResult, setExpectedResult] = useState('');
+  const [isSaving, setIsSaving] = useState(false);
+
+  useEffect(() => {
+    if (testCase) {
+      setTitle(testCase.title);
+      setDescription(testCase.description);
+      setSteps(testCase.steps.length > 0 ? testCase.steps.map(step => ({ ...step })) : [createEmptyStep()]);
+      setExpectedResult(testCase.expectedResult);
+    }
+  }, [testCase]);
+
+  const updateStep = (index: number, field: keyof TestStep, value: string) => {
+    setSteps(prev => prev.map((step, i) => (i === index ? { ...step, [field]: value } : step)));
+  };
+
+  const moveStep = (index: number, offset: -1 | 1) => {
+    setSteps(prev => {
+      const target = index + offset;
+      if (target < 0 || target >= prev.length) return prev;
+      const reordered = [...prev];
+      [reordered[index], reordered[target]] = [reordered[target], reordered[index]];
+      return reordered;
+    });
+  };
+
+  const insertStep = (index: number) => {
+    setSteps(prev => [...prev.slice(0, index), createEmptyStep(), ...prev.slice(index)]);
+  };
+
+  const removeStep = (index: number) => {
+    setSteps(prev => prev.filter((_, i) => i !== index));
+  };
+
+  const saveTestCase = async () => {
+    if (!testCase) return;
+
+    if (!title.trim()) {
+      toast({
+        title: "Title Required",
+        description: "Please enter a title for the test case",
+        variant: "destructive",
+      });
+      return;
+    }
+
+    const cleanedSteps = steps.map(step => ({
+      action: step.action.trim(),
+      testData: step.testData.trim(),
+      expectedResult: step.expectedResult.trim(),
+    }));
+
+    if (cleanedSteps.some(step => !step.action && (step.testData || step.expectedResult))) {
+      toast({
+        title: "Missing Action",
+        description: "Every step with test data or an expected result needs an action",
+        variant: "destructive",
+      });
+      return;
+    }
+
+    const savedSteps = cleanedSteps.filter(step => step.action);
+
+    setIsSaving(true);
+    try {
+      const { error } = await supabase
+        .from('test_cases')
+        .update({
+          title: title.trim(),
+          description: description.trim(),
+          test_steps: savedSteps,
+          steps: stepsToText(savedSteps),
+          expected_result: expectedResult.trim(),
+        })
+        .eq('id', testCase.id);
+
+      if (error) throw error;
+
+      onSaved({
+        id: testCase.id,
+        title: title.trim(),
+        description: description.trim(),
+        steps: savedSteps,
+        expectedResult: expectedResult.trim(),
+      });
+      toast({
+        title: "Test Case Saved",
+        description: `"${title.trim()}" has been updated`,
+      });
+      onClose();
+    } catch (error) {
+      console.error('Error saving test case:', error);
+      toast({
+        title: "Save Failed",
+        description: "Failed to save test case",
+        variant: "destructive",
+      });
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  return (
+    <Dialog open={!!testCase} onOpenChange={(open) => !open && !isSaving && onClose()}>
+      <DialogContent className="max-w-3xl max-h-[90vh] overflow-y-auto">
+        <DialogHeader>
+          <DialogTitle>Edit Test Case</DialogTitle>
+          <DialogDescription>
+            Steps run in order. Each step can carry its own test data and expected result.
+          </DialogDescription>
+        </DialogHeader>
+
+        <div className="space-y-4">
+          <div className="space-y-2">
+            <Label htmlFor="test-case-title">Title</Label>
+            <Input id="test-case-title" value={title} onChange={(e) => setTitle(e.target.value)} />
+          </div>
+
+          <div className="space-y-2">
+            <Label htmlFor="test-case-description">Description</Label>
+            <Textarea
+              id="test-case-description"
+              value={description}
+              onChange={(e) => setDescription(e.target.value)}
+              rows={2}
+            />
+          </div>
+
+          <div className="space-y-2">
+            <Label>Test Steps</Label>
+            {steps.map((step, index) => (
+              <div key={index} className="border rounded-lg p-3 space-y-2">
+                <div className="flex items-center justify-between">
+                  <span className="text-sm font-medium">Step {index + 1}</span>
+                  <div className="flex gap-1">
+                    <Button
+                      variant="ghost"
+                      size="sm"
+                      onClick={() => moveStep(index, -1)}
+                      disabled={index === 0}
+                      aria-label="Move step up"
+                    >
+                      <ArrowUp className="h-3 w-3" />
+                    </Button>
+                    <Button
+                      variant="ghost"
+                      size="sm"
+                      onClick={() => moveStep(index, 1)}
+                      disabled={index === steps.length - 1}
+                      aria-label="Move step down"
+                    >
+                      <ArrowDown className="h-3 w-3" />
+                    </Button>
+                    <Button
+                      variant="ghost"
+                      size="sm"
+                      onClick={() => insertStep(index + 1)}
+                      aria-label="Insert step below"
+                    >
+                      <Plus className="h-3 w-3" />
+                    </Button>
+                    <Button
+                      variant="ghost"
+                      size="sm"
+                      onClick={() => removeStep(index)}
+                      className="text-destructive hover:text-destructive"
+                      aria-label="Remove step"
+                    >
+                      <Trash2 className="h-3 w-3" />
+                    </Button>
+                  </div>
+                </div>
+                <Textarea
+                  placeholder="Action"
+                  value={step.action}
+                  onChange={(e) => updateStep(index, 'action', e.target.value)}
+                  rows={2}
+                />
+                <div className="grid grid-cols-1 md:grid-cols-2 gap-2">
+                  <Input
+                    placeholder="Test data"
+                    value={step.testData}
+                    onChange={(e) => updateStep(index, 'testData', e.target.value)}
+                  />
+                  <Input
+                    placeholder="Expected result"
+                    value={step.expectedResult}
+                    onChange={(e) => updateStep(index, 'expectedResult', e.target.value)}
+                  />
+                </div>
+              </div>
+            ))}
+            <Button variant="outline" size="sm" onClick={() => insertStep(steps.length)}>
+              <Plus className="mr-2 h-3 w-3" />
+              Add Step
+            </Button>
+          </div>
+
+          <div className="space-y-2">
+            <Label htmlFor="test-case-expected">Overall Expected Result</Label>
+            <Textarea
+              id="test-case-expected"
+              value={expectedResult}
+              onChange={(e) => setExpectedResult(e.target.value)}
+              rows={2}
+            />
+          </div>
+        </div>
+
+        <DialogFooter>
+          <Button variant="outline" onClick={onClose} disabled={isSaving}>
+            Cancel
+          </Button>
+          <Button onClick={saveTestCase} disabled={isSaving}>
+            {isSaving ? 'Saving...' : 'Save'}
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+};
@@ -0,0 +1,154 @@
+import { useState, useEffect } from "react";
+import { Badge } from "@/components/ui/badge";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog";
+import { useToast } from "@/hooks/use-toast";
+import { supabase } from "@/integrations/supabase/client";
+import { formatDuration } from "@/lib/executionReport";
+import { History } from "lucide-react";
+
+interface ExecutionRecord {
+  id: string;
+  status: string;
+  actualResult: string;
+  notes: string;
+  defects: string[];
+  durationSeconds: number | null;
+  executedAt: string | null;
+  runName: string;
+  buildVersion: string;
+  environment: string;
+  testerName: string;
+}
+
+interface TestCaseHistoryProps {
+  testCase: { id: string; title: string } | null;
+  onClose: () => void;
+}
+
+export const TestCaseHistory = ({ testCase, onClose }: TestCaseHistoryProps) => {
+  const { toast } = useToast();
+  const [records, setRecords] = useState<ExecutionRecord[]>([]);
+  const [isLoading, setIsLoading] = useState(false);
+
+  useEffect(() => {
+    if (testCase) {
+      loadHistory(testCase.id);
+    }
+  }, [testCase?.id]);
+
+  const loadHistory = async (testCaseId: string) => {
+    setIsLoading(true);
+    try {
+      const { data, error } = await supabase
+        .from('test_run_results')
+        .select(`
+          id, status, actual_result, notes, defects, duration_seconds, executed_at,
+          test_runs!inner(name, build_version, environment, tester_name, started_at)
+        `)
+        .eq('test_case_id', testCaseId)
+        .neq('status', 'not-run')
+        .order('executed_at', { ascending: false });
+
+      if (error) throw error;
+
+      setRecords((data || []).map(result => ({
+        id: result.id,
+        status: result.status,
+        actualResult: result.actual_result || '',
+        notes: result.notes || '',
+        defects: result.defects || [],
+        durationSeconds: result.duration_seconds,
+        executedAt: result.executed_at,
+        runName: result.test_runs?.name || 'Unknown Run',
+        buildVersion: result.test_runs?.build_version || '',
+        environment: result.test_runs?.environment || '',
+        testerName: result.test_runs?.tester_name || ''
+      })));
+    } catch (error) {
+      console.error('Error loading execution history:', error);
+      toast({
+        title: "Error",
+        description: "Failed to load execution history",
+        variant: "destructive",
+      });
+    } finally {
+      setIsLoading(false);
+    }
+  };
+
+  const getStatusColor = (status: string) => {
+    switch (status) {
+      case 'passed': return 'bg-success text-success-foreground';
+      case 'failed': return 'bg-destructive text-destructive-foreground';
+      case 'blocked': return 'bg-warning text-warning-foreground';
+      default: return 'bg-secondary text-secondary-foreground';
+    }
+  };
+
+  return (
+    <Dialog open={!!testCase} onOpenChange={(open) => !open && onClose()}>
+      <DialogContent className="max-w-2xl max-h-[90vh] overflow-y-auto">
+        <DialogHeader>
+          <DialogTitle className="flex items-center gap-2">
+            <History className="h-5 w-5" />
+            Execution History
+          </DialogTitle>
+          <DialogDescription>{testCase?.title}</DialogDescription>
+        </DialogHeader>
+
+        {isLoading ? (
+          <p className="text-sm text-muted-foreground py-4">Loading execution history...</p>
+        ) : records.length === 0 ? (
+          <p className="text-sm text-muted-foreground py-4">This test case has not been executed yet.</p>
+        ) : (
+          <div className="space-y-3">
+            {records.map(record => (
+              <div key={record.id} className="border rounded-lg p-3 space-y-2">
+                <div className="flex items-start justify-between gap-2">
+                  <div>
+                    <p className="font-medium text-sm">{record.runName}</p>
+                    <p className="text-xs text-muted-foreground">
+                      {[
+                        record.buildVersion && `Build ${record.buildVersion}`,
+                        record.environment,
+                        record.testerName,
+                        record.durationSeconds !== null && formatDuration(record.durationSeconds),
+                        record.executedAt && new Date(record.executedAt).toLocaleString()
+                      ].filter(Boolean).join(' • ')}
+                    </p>
+                  </div>
+                  <Badge className={getStatusColor(record.status)}>{record.status}</Badge>
+                </div>
+                {record.actualResult && (
+                  <p className="text-xs">
+                    <span className="font-medium">Actual: </span>
+                    {record.actualResult}
+                  </p>
+                )}
+                {record.notes && (
+                  <p className="text-xs text-muted-foreground">
+                    <span className="font-medium">Notes: </span>
+                    {record.notes}
+                  </p>
+                )}
+                {record.defects.length > 0 && (
+                  <div className="flex flex-wrap gap-1">
+                    {record.defects.map(defect => (
+                      <Badge key={defect} variant="outline" className="text-xs">{defect}</Badge>
+                    ))}
+                  </div>
+                )}
+              </div>
+            ))}
+          </div>
+        )}
+      </DialogContent>
+    </Dialog>
+  );
+};
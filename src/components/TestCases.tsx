@@ -3,6 +3,8 @@ import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
 import { Button } from "@/components/ui/button";
 import { Badge } from "@/components/ui/badge";
 import { Input } from "@/components/ui/input";
+import { Checkbox } from "@/components/ui/checkbox";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
 import { useToast } from "@/hooks/use-toast";
 import { useAuth } from "@/hooks/useAuth";
 import { supabase } from "@/integrations/supabase/client";
@@ -17,7 +19,15 @@ import {
   Code2,
   ChevronDown,
   ChevronUp,
-  Trash2
+  Trash2,
+  PlayCircle,
+  History,
+  Send,
+  ExternalLink,
+  Pencil,
+  FileCode,
+  Package,
+  FileSearch
 } from "lucide-react";
 import {
   AlertDialog,
@@ -30,21 +40,57 @@ import {
   AlertDialogTitle,
   AlertDialogTrigger,
 } from "@/components/ui/alert-dialog";
+import {
+  DropdownMenu,
+  DropdownMenuContent,
+  DropdownMenuItem,
+  DropdownMenuTrigger,
+} from "@/components/ui/dropdown-menu";
 import * as XLSX from 'xlsx';
+import JSZip from 'jszip';
+import { TestRunner } from "./TestRunner";
+import { TestCaseHistory } from "./TestCaseHistory";
+import { PageSnapshots } from "./PageSnapshots";
+import { AzureDevOpsExportDialog, AzureDevOpsExportResult } from "./AzureDevOpsExportDialog";
+import { TestCaseEditor, EditableTestCase } from "./TestCaseEditor";
+import { TestStep, readTestSteps, stepsToText, formatStepColumn, parseStepColumns } from "@/lib/testSteps";
+import {
+  TEST_TYPES,
+  TEST_CATEGORIES,
+  TestType,
+  TestCategory,
+  normalizeTestType,
+  normalizeTestCategory,
+  formatFacetLabel
+} from "@/lib/testCaseFacets";
+import { parseFeature, testCasesToFeature } from "@/lib/gherkin";
+import { AUTOMATION_TARGETS, AutomationTargetId, PROJECT_DEFAULT_TARGET } from "@/lib/automationTargets";
 
 interface TestCase {
   id: string;
+  // The list spans all of the user's projects
+  projectId: string;
   title: string;
   description: string;
-  steps: string[];
+  steps: TestStep[];
   expectedResult: string;
   priority: 'low' | 'medium' | 'high';
   status: 'not-run' | 'passed' | 'failed' | 'blocked';
   userStoryId: string;
   userStoryTitle: string;
   estimatedTime: string;
+  testType: TestType | null;
+  category: TestCategory | null;
+  generatedByModel?: string;
+  generatedAt?: string;
+  jiraIssueKey?: string;
+  jiraIssueUrl?: string;
+  azureWorkItemId?: number;
+  azureWorkItemUrl?: string;
 }
 
+type OriginFilter = 'all' | 'ai' | 'manual';
+
 interface TestCasesProps {
   projectId: string;
 }
@@ -53,11 +99,26 @@ export const TestCases = ({ projectId }: TestCasesProps) => {
   const { toast } = useToast();
   const { session } = useAuth();
   const [searchTerm, setSearchTerm] = useState("");
+  const [typeFilter, setTypeFilter] = useState<TestType | 'all'>('all');
+  const [categoryFilter, setCategoryFilter] = useState<TestCategory | 'all'>('all');
+  const [originFilter, setOriginFilter] = useState<OriginFilter>('all');
+  const [isScaffolding, setIsScaffolding] = useState(false);
+  const [automationTarget, setAutomationTarget] = useState<AutomationTargetId | typeof PROJECT_DEFAULT_TARGET>(PROJECT_DEFAULT_TARGET);
   const [expandedStories, setExpandedStories] = useState<Set<string>>(new Set());
   const fileInputRef = useRef<HTMLInputElement>(null);
+  const featureInputRef = useRef<HTMLInputElement>(null);
   
   const [testCases, setTestCases] = useState<TestCase[]>([]);
   const [isLoading, setIsLoading] = useState(false);
+  const [selectedCaseIds, setSelectedCaseIds] = useState<Set<string>>(new Set());
+  const [showRunner, setShowRunner] = useState(false);
+  const [historyTestCase, setHistoryTestCase] = useState<{ id: string; title: string } | null>(null);
+  const [showSnapshots, setShowSnapshots] = useState(false);
+  // Set when the snapshot dialog was opened from a test case rather than for the whole project
+  const [snapshotTestCase, setSnapshotTestCase] = useState<{ id: string; title: string } | null>(null);
+  const [isPublishing, setIsPublishing] = useState(false);
+  const [showAzureExport, setShowAzureExport] = useState(false);
+  const [editingTestCase, setEditingTestCase] = useState<EditableTestCase | null>(null);
 
   // Load test cases from database
   const loadTestCases = async () => {
@@ -94,15 +155,24 @@ export const TestCases = ({ projectId }: TestCasesProps) => {
       // Transform database results to match TestCase interface
       const transformedTestCases: TestCase[] = (dbTestCases || []).map(tc => ({
         id: tc.id,
+        projectId: tc.project_id,
         title: tc.title,
         description: tc.description || '',
-        steps: tc.steps ? tc.steps.split('\n').filter(step => step.trim()) : [],
+        steps: readTestSteps(tc),
         expectedResult: tc.expected_result || '',
         priority: tc.priority as 'low' | 'medium' | 'high',
         status: tc.status as 'not-run' | 'passed' | 'failed' | 'blocked',
         userStoryId: tc.user_story_id || '',
         userStoryTitle: tc.user_stories?.title || 'Unknown Story',
-        estimatedTime: '5-10 min' // Default estimation
+        estimatedTime: '5-10 min', // Default estimation
+        testType: normalizeTestType(tc.test_type),
+        category: normalizeTestCategory(tc.category),
+        generatedByModel: tc.generated_by_model || undefined,
+        generatedAt: tc.generated_at || undefined,
+        jiraIssueKey: tc.jira_issue_key || undefined,
+        jiraIssueUrl: tc.jira_issue_url || undefined,
+        azureWorkItemId: tc.azure_work_item_id || undefined,
+        azureWorkItemUrl: tc.azure_work_item_url || undefined
       }));
 
       setTestCases(transformedTestCases);
@@ -155,7 +225,10 @@ export const TestCases = ({ projectId }: TestCasesProps) => {
   const filteredTestCases = testCases.filter(testCase => {
     const matchesSearch = testCase.title.toLowerCase().includes(searchTerm.toLowerCase()) ||
                          testCase.userStoryTitle.toLowerCase().includes(searchTerm.toLowerCase());
-    return matchesSearch;
+    const matchesType = typeFilter === 'all' || testCase.testType === typeFilter;
+    const matchesCategory = categoryFilter === 'all' || testCase.category === categoryFilter;
+    const matchesOrigin = originFilter === 'all' || (originFilter === 'ai') === !!testCase.generatedByModel;
+    return matchesSearch && matchesType && matchesCategory && matchesOrigin;
   });
 
   // Group test cases by user story
@@ -184,6 +257,54 @@ export const TestCases = ({ projectId }: TestCasesProps) => {
   };
 
 
+  const toggleCaseSelection = (testCaseId: string) => {
+    setSelectedCaseIds(prev => {
+      const newSelected = new Set(prev);
+      if (newSelected.has(testCaseId)) {
+        newSelected.delete(testCaseId);
+      } else {
+        newSelected.add(testCaseId);
+      }
+      return newSelected;
+    });
+  };
+
+  const toggleStorySelection = (storyTestCases: TestCase[]) => {
+    const allSelected = storyTestCases.every(tc => selectedCaseIds.has(tc.id));
+    setSelectedCaseIds(prev => {
+      const newSelected = new Set(prev);
+      storyTestCases.forEach(tc => {
+        if (allSelected) {
+          newSelected.delete(tc.id);
+        } else {
+          newSelected.add(tc.id);
+        }
+      });
+      return newSelected;
+    });
+  };
+
+  const selectedTestCases = testCases.filter(tc => selectedCaseIds.has(tc.id));
+
+  // A run and its results belong to the current project, so its cases must too
+  const startRun = () => {
+    const otherProjectCount = selectedTestCases.filter(tc => tc.projectId !== projectId).length;
+    if (otherProjectCount > 0) {
+      toast({
+        title: "Cannot Start Run",
+        description: `${otherProjectCount} selected test case${otherProjectCount === 1 ? ' belongs' : 's belong'} to another project. A run can only include test cases of the current project.`,
+        variant: "destructive",
+      });
+      return;
+    }
+    setShowRunner(true);
+  };
+
+  const handleRunCompleted = async () => {
+    setSelectedCaseIds(new Set());
+    await loadTestCases();
+  };
+
   const exportTests = () => {
     // Create Excel workbook
     const wb = XLSX.utils.book_new();
@@ -193,12 +314,17 @@ export const TestCases = ({ projectId }: TestCasesProps) => {
       'Test Case ID': tc.id,
       'Title': tc.title,
       'Description': tc.description,
-      'Steps': tc.steps.join('\n'),
+      'Steps': formatStepColumn(tc.steps, 'action'),
+      'Test Data': formatStepColumn(tc.steps, 'testData'),
+      'Step Expected Results': formatStepColumn(tc.steps, 'expectedResult'),
       'Expected Result': tc.expectedResult,
       'Priority': tc.priority,
+      'Type': tc.testType || '',
+      'Category': tc.category || '',
       'Status': tc.status,
       'User Story': tc.userStoryTitle,
-      'Estimated Time': tc.estimatedTime
+      'Estimated Time': tc.estimatedTime,
+      'Generated By': tc.generatedByModel || 'manual'
     }));
     
     // Create worksheet
@@ -227,11 +353,16 @@ export const TestCases = ({ projectId }: TestCasesProps) => {
       'Test Case ID': tc.id,
       'Title': tc.title,
       'Description': tc.description,
-      'Steps': tc.steps.join('\n'),
+      'Steps': formatStepColumn(tc.steps, 'action'),
+      'Test Data': formatStepColumn(tc.steps, 'testData'),
+      'Step Expected Results': formatStepColumn(tc.steps, 'expectedResult'),
       'Expected Result': tc.expectedResult,
       'Priority': tc.priority,
+      'Type': tc.testType || '',
+      'Category': tc.category || '',
       'Status': tc.status,
-      'Estimated Time': tc.estimatedTime
+      'Estimated Time': tc.estimatedTime,
+      'Generated By': tc.generatedByModel || 'manual'
     }));
     
     // Create worksheet
@@ -250,32 +381,158 @@ export const TestCases = ({ projectId }: TestCasesProps) => {
     });
   };
 
-  const generateSeleniumAutomation = async (testCase: TestCase) => {
+  const exportStoryFeature = async (storyId: string, storyTitle: string) => {
+    const storyTestCases = groupedTestCases[storyId]?.testCases || [];
+
+    // The story narrative ("As a ... I want ...") becomes the feature description
+    const { data: story, error } = await supabase
+      .from('user_stories')
+      .select('description')
+      .eq('id', storyId)
+      .maybeSingle();
+    if (error) console.error('Error loading story description:', error);
+
+    const feature = testCasesToFeature(storyTitle, storyTestCases, story?.description || '');
+    const blob = new Blob([feature], { type: 'text/plain' });
+    const url = URL.createObjectURL(blob);
+    const a = document.createElement('a');
+    a.href = url;
+    a.download = `${storyTitle.replace(/[^a-zA-Z0-9]/g, '-').toLowerCase()}.feature`;
+    document.body.appendChild(a);
+    a.click();
+    document.body.removeChild(a);
+    URL.revokeObjectURL(url);
+
+    toast({
+      title: "Export Complete",
+      description: `Test cases for "${storyTitle}" exported as a Gherkin feature`,
+    });
+  };
+
+  // Creates or updates one Jira test issue per selected case, linked to the story it came from
+  const publishToJira = async () => {
+    if (selectedCaseIds.size === 0) return;
+
+    setIsPublishing(true);
     try {
+      const { data, error } = await supabase.functions.invoke('jira-publish-test-cases', {
+        body: { testCaseIds: Array.from(selectedCaseIds) }
+      });
+
+      if (error) throw error;
+
+      const results: { testCaseId: string; status: string; issueKey?: string; issueUrl?: string; error?: string; warning?: string }[] = data.results || [];
+      setTestCases(prev => prev.map(tc => {
+        const result = results.find(r => r.testCaseId === tc.id && r.status !== 'failed');
+        return result ? { ...tc, jiraIssueKey: result.issueKey, jiraIssueUrl: result.issueUrl } : tc;
+      }));
+
+      const problems = results.filter(r => r.error || r.warning);
+      problems.forEach(r => console.error(`Jira publish issue for ${r.testCaseId}:`, r.error || r.warning));
+
       toast({
-        title: "Generating Automation",
-        description: `Creating Selenium Java code for: ${testCase.title}`,
+        title: data.failed > 0 ? "Published with Errors" : "Published to Jira",
+        description: `${data.created} created, ${data.updated} updated${data.failed > 0 ? `, ${data.failed} failed: ${problems.find(r => r.error)?.error}` : ''}`,
+        variant: data.failed > 0 ? "destructive" : "default",
+      });
+    } catch (error) {
+      console.error('Error publishing test cases to Jira:', error);
+      toast({
+        title: "Error",
+        description: "Failed to publish test cases to Jira",
+        variant: "destructive",
       });
+    } finally {
+      setIsPublishing(false);
+    }
+  };
 
-      // Transform steps to match expected format
-      const transformedTestCase = {
-        ...testCase,
-        steps: testCase.steps.map(step => ({ type: 'action', content: step }))
-      };
+  const handleTestCaseSaved = (updated: EditableTestCase) => {
+    setTestCases(prev => prev.map(tc => (tc.id === updated.id ? { ...tc, ...updated } : tc)));
+  };
+
+  const handleAzureExported = (results: AzureDevOpsExportResult[]) => {
+    setTestCases(prev => prev.map(tc => {
+      const result = results.find(r => r.testCaseId === tc.id && r.status !== 'failed');
+      return result ? { ...tc, azureWorkItemId: result.workItemId, azureWorkItemUrl: result.workItemUrl } : tc;
+    }));
+  };
+
+  // Steps whose page snapshot locator is missing or low-confidence are marked REVIEW in the generated code
+  const locatorReviewNote = (review: unknown[] | undefined) =>
+    review?.length ? `. ${review.length} step(s) need locator review (marked REVIEW in the code)` : '';
+
+  // Bundles the selected cases into one page object project, zipped here from the generated files
+  const downloadAutomationProject = async () => {
+    if (selectedTestCases.length === 0) return;
+
+    setIsScaffolding(true);
+    try {
+      const { data, error } = await supabase.functions.invoke('generate-selenium-automation', {
+        body: {
+          testCases: selectedTestCases,
+          projectId,
+          target: automationTarget === PROJECT_DEFAULT_TARGET ? undefined : automationTarget
+        }
+      });
+
+      if (error) throw error;
+      if (!data.success) throw new Error(data.error);
+
+      const zip = new JSZip();
+      (data.files as { path: string; content: string }[]).forEach(file => zip.file(file.path, file.content));
+      const blob = await zip.generateAsync({ type: 'blob' });
+
+      const url = URL.createObjectURL(blob);
+      const a = document.createElement('a');
+      a.href = url;
+      a.download = data.zipName;
+      document.body.appendChild(a);
+      a.click();
+      document.body.removeChild(a);
+      URL.revokeObjectURL(url);
+
+      toast({
+        title: "Automation Project Downloaded",
+        description: `${data.targetLabel} project with ${selectedTestCases.length} test case(s) saved as ${data.zipName}${locatorReviewNote(data.locatorReview)}`,
+      });
+    } catch (error) {
+      console.error('Error generating automation project:', error);
+      toast({
+        title: "Generation Failed",
+        description: "Failed to generate the automation project",
+        variant: "destructive",
+      });
+    } finally {
+      setIsScaffolding(false);
+    }
+  };
+
+  const generateAutomation = async (testCase: TestCase) => {
+    try {
+      const targetLabel = AUTOMATION_TARGETS.find(target => target.id === automationTarget)?.label;
+      toast({
+        title: "Generating Automation",
+        description: `Creating ${targetLabel || 'automation'} code for: ${testCase.title}`,
+      });
 
       const { data, error } = await supabase.functions.invoke('generate-selenium-automation', {
-        body: { testCase: transformedTestCase }
+        body: {
+          testCase,
+          projectId,
+          target: automationTarget === PROJECT_DEFAULT_TARGET ? undefined : automationTarget
+        }
       });
 
       if (error) throw error;
 
       if (data.success) {
-        // Create and download the Java file
-        const blob = new Blob([data.seleniumCode], { type: 'text/plain' });
+        // Create and download the generated test file
+        const blob = new Blob([data.code], { type: 'text/plain' });
         const url = URL.createObjectURL(blob);
         const a = document.createElement('a');
         a.href = url;
-        a.download = `${data.className}.java`;
+        a.download = data.fileName;
         document.body.appendChild(a);
         a.click();
         document.body.removeChild(a);
@@ -283,14 +540,14 @@ export const TestCases = ({ projectId }: TestCasesProps) => {
 
         toast({
           title: "Automation Generated",
-          description: `Selenium Java test file ${data.className}.java has been downloaded`,
+          description: `${data.targetLabel} test file ${data.fileName} has been downloaded${data.settingsVersion ? ` (project settings v${data.settingsVersion})` : ''}${locatorReviewNote(data.locatorReview)}`,
         });
       }
     } catch (error) {
       console.error('Error generating automation:', error);
       toast({
         title: "Generation Failed",
-        description: "Failed to generate Selenium automation code",
+        description: "Failed to generate automation code",
         variant: "destructive",
       });
     }
@@ -384,9 +641,15 @@ export const TestCases = ({ projectId }: TestCasesProps) => {
         const testCase = {
           title: row.title || row.Title || row.TITLE,
           description: row.description || row.Description || row.DESCRIPTION || '',
-          steps: (row.steps || row.Steps || row.STEPS || '').toString().split('\n').filter((s: string) => s.trim()),
+          steps: parseStepColumns(
+            (row.steps || row.Steps || row.STEPS || '').toString(),
+            (row.test_data || row['Test Data'] || row['TEST DATA'] || '').toString(),
+            (row.step_expected_results || row['Step Expected Results'] || row['STEP EXPECTED RESULTS'] || '').toString()
+          ),
           expectedResult: row.expected_result || row['Expected Result'] || row['EXPECTED RESULT'] || '',
           priority: (row.priority || row.Priority || row.PRIORITY || 'medium').toLowerCase(),
+          testType: normalizeTestType(row.type || row.Type || row.TYPE),
+          category: normalizeTestCategory(row.category || row.Category || row.CATEGORY),
           userStoryTitle: userStoryTitle,
           project_id: projectId
         };
@@ -438,9 +701,12 @@ export const TestCases = ({ projectId }: TestCasesProps) => {
           testCasesToInsert.push({
             title: testCase.title,
             description: testCase.description,
-            steps: testCase.steps.join('\n'),
+            steps: stepsToText(testCase.steps),
+            test_steps: testCase.steps,
             expected_result: testCase.expectedResult,
             priority: testCase.priority,
+            test_type: testCase.testType,
+            category: testCase.category,
             status: 'not-run',
             project_id: projectId,
             user_story_id: matchingStory.id
@@ -490,6 +756,97 @@ export const TestCases = ({ projectId }: TestCasesProps) => {
     }
   };
 
+  const importFromFeature = () => {
+    featureInputRef.current?.click();
+  };
+
+  // Imports the scenarios of a .feature file into the story whose title matches the Feature name
+  const handleFeatureUpload = async (event: React.ChangeEvent<HTMLInputElement>) => {
+    const file = event.target.files?.[0];
+    if (!file) return;
+
+    if (!file.name.match(/\.feature$/)) {
+      toast({
+        title: "Invalid File",
+        description: "Please select a Gherkin feature file (.feature)",
+        variant: "destructive",
+      });
+      return;
+    }
+
+    setIsLoading(true);
+    try {
+      const feature = parseFeature(await file.text());
+      const importable = feature.testCases.filter(tc => tc.title && tc.steps.length > 0);
+
+      if (!feature.name || importable.length === 0) {
+        toast({
+          title: "Nothing to Import",
+          description: "The file needs a Feature: line and at least one scenario with steps",
+          variant: "destructive",
+        });
+        return;
+      }
+
+      const { data: userStories, error: storiesError } = await supabase
+        .from('user_stories')
+        .select('id, title')
+        .eq('project_id', projectId);
+
+      if (storiesError) throw storiesError;
+
+      const matchingStory = userStories?.find(story =>
+        story.title.toLowerCase() === feature.name.toLowerCase()
+      );
+
+      if (!matchingStory) {
+        toast({
+          title: "Missing User Story",
+          description: `No user story titled "${feature.name}" was found. Please create it first or rename the feature.`,
+          variant: "destructive",
+        });
+        return;
+      }
+
+      const { error: insertError } = await supabase
+        .from('test_cases')
+        .insert(importable.map(tc => ({
+          title: tc.title,
+          description: tc.description,
+          steps: stepsToText(tc.steps),
+          test_steps: tc.steps,
+          expected_result: tc.expectedResult,
+          priority: ['low', 'medium', 'high'].includes(tc.priority) ? tc.priority : 'medium',
+          test_type: normalizeTestType(tc.testType),
+          category: normalizeTestCategory(tc.category),
+          status: 'not-run',
+          project_id: projectId,
+          user_story_id: matchingStory.id
+        })));
+
+      if (insertError) throw insertError;
+
+      toast({
+        title: "Import Successful",
+        description: `Imported ${importable.length} scenario${importable.length !== 1 ? 's' : ''} into "${matchingStory.title}"`,
+      });
+
+      await loadTestCases();
+    } catch (error) {
+      console.error('Error importing feature file:', error);
+      toast({
+        title: "Import Failed",
+        description: "Failed to import test cases from the feature file",
+        variant: "destructive",
+      });
+    } finally {
+      setIsLoading(false);
+      if (featureInputRef.current) {
+        featureInputRef.current.value = '';
+      }
+    }
+  };
+
   const downloadTemplate = () => {
     // Create Excel workbook for template
     const wb = XLSX.utils.book_new();
@@ -499,17 +856,25 @@ export const TestCases = ({ projectId }: TestCasesProps) => {
       {
         'title': 'User Login Test',
         'description': 'Test user login functionality with valid credentials',
-        'steps': 'Navigate to login page\nEnter valid username\nEnter valid password\nClick login button',
+        'steps': '1. Navigate to login page\n2. Enter valid username\n3. Enter valid password\n4. Click login button',
+        'test_data': '2. user@example.com\n3. Passw0rd!',
+        'step_expected_results': '1. Login form is displayed\n4. Dashboard is displayed',
         'expected_result': 'User should be successfully logged in and redirected to dashboard',
         'priority': 'high',
+        'type': 'positive',
+        'category': 'functional',
         'user_story_title': 'User Authentication'
       },
       {
         'title': 'Password Reset Test', 
         'description': 'Test password reset functionality',
-        'steps': 'Click forgot password\nEnter email address\nClick reset button\nCheck email for reset link',
+        'steps': '1. Click forgot password\n2. Enter email address\n3. Click reset button\n4. Check email for reset link',
+        'test_data': '2. user@example.com',
+        'step_expected_results': '3. Confirmation message is shown\n4. Email contains a reset link',
         'expected_result': 'Password reset email should be sent successfully',
         'priority': 'medium',
+        'type': 'positive',
+        'category': 'functional',
         'user_story_title': 'User Authentication'
       }
     ];
@@ -521,9 +886,13 @@ export const TestCases = ({ projectId }: TestCasesProps) => {
     const instructionsData = [
       { Field: 'title', Description: 'Test case title (Required)', Example: 'User Login Test' },
       { Field: 'description', Description: 'Test case description (Optional)', Example: 'Test user login functionality' },
-      { Field: 'steps', Description: 'Test steps separated by new lines (Optional)', Example: 'Step 1\\nStep 2\\nStep 3' },
+      { Field: 'steps', Description: 'Numbered test steps, one per line (Optional)', Example: '1. Step one\\n2. Step two\\n3. Step three' },
+      { Field: 'test_data', Description: 'Test data per step, numbered to match the step it belongs to (Optional)', Example: '2. user@example.com' },
+      { Field: 'step_expected_results', Description: 'Expected result per step, numbered to match the step it belongs to (Optional)', Example: '3. Confirmation message is shown' },
       { Field: 'expected_result', Description: 'Expected test result (Optional)', Example: 'User should be logged in' },
       { Field: 'priority', Description: 'Priority: low, medium, or high (Optional, defaults to medium)', Example: 'high' },
+      { Field: 'type', Description: `Test type: ${TEST_TYPES.join(', ')} (Optional)`, Example: 'negative' },
+      { Field: 'category', Description: `Category: ${TEST_CATEGORIES.join(', ')} (Optional)`, Example: 'functional' },
       { Field: 'user_story_title', Description: 'User story title that exists in your project (Required)', Example: 'User Authentication' }
     ];
     
@@ -552,6 +921,52 @@ export const TestCases = ({ projectId }: TestCasesProps) => {
           </p>
         </div>
         <div className="flex gap-2">
+          <Button
+            variant="gradient"
+            onClick={startRun}
+            disabled={isLoading || selectedCaseIds.size === 0}
+          >
+            <PlayCircle className="mr-2 h-4 w-4" />
+            Start Run{selectedCaseIds.size > 0 ? ` (${selectedCaseIds.size})` : ''}
+          </Button>
+          <Button
+            variant="outline"
+            onClick={downloadAutomationProject}
+            disabled={isLoading || isScaffolding || selectedCaseIds.size === 0}
+          >
+            <Package className="mr-2 h-4 w-4" />
+            {isScaffolding ? 'Generating...' : 'Automation Project'}
+          </Button>
+          <Button
+            variant="outline"
+            onClick={() => {
+              setSnapshotTestCase(null);
+              setShowSnapshots(true);
+            }}
+          >
+            <FileSearch className="mr-2 h-4 w-4" />
+            Page Snapshots
+          </Button>
+          <DropdownMenu>
+            <DropdownMenuTrigger asChild>
+              <Button
+                variant="outline"
+                disabled={isLoading || isPublishing || selectedCaseIds.size === 0}
+              >
+                <Send className="mr-2 h-4 w-4" />
+                {isPublishing ? 'Publishing...' : 'Publish'}
+                <ChevronDown className="ml-2 h-3 w-3" />
+              </Button>
+            </DropdownMenuTrigger>
+            <DropdownMenuContent align="end">
+              <DropdownMenuItem onClick={publishToJira}>
+                Publish to Jira
+              </DropdownMenuItem>
+              <DropdownMenuItem onClick={() => setShowAzureExport(true)}>
+                Export to Azure DevOps...
+              </DropdownMenuItem>
+            </DropdownMenuContent>
+          </DropdownMenu>
           <Button variant="outline" onClick={downloadTemplate} disabled={isLoading}>
             <Download className="mr-2 h-4 w-4" />
             Download Template
@@ -560,6 +975,10 @@ export const TestCases = ({ projectId }: TestCasesProps) => {
             <Upload className="mr-2 h-4 w-4" />
             Import Excel
           </Button>
+          <Button variant="outline" onClick={importFromFeature} disabled={isLoading}>
+            <FileCode className="mr-2 h-4 w-4" />
+            Import .feature
+          </Button>
           <Button variant="outline" onClick={exportTests} disabled={isLoading}>
             <Download className="mr-2 h-4 w-4" />
             Export
@@ -567,17 +986,75 @@ export const TestCases = ({ projectId }: TestCasesProps) => {
         </div>
       </div>
 
-      {/* Search */}
+      {/* Search and Filters */}
       <Card className="shadow-card">
         <CardContent className="p-4">
-          <div className="relative">
-            <Search className="absolute left-3 top-1/2 transform -translate-y-1/2 h-4 w-4 text-muted-foreground" />
-            <Input
-              placeholder="Search test cases..."
-              value={searchTerm}
-              onChange={(e) => setSearchTerm(e.target.value)}
-              className="pl-10"
-            />
+          <div className="flex flex-col md:flex-row gap-4">
+            <div className="relative flex-1">
+              <Search className="absolute left-3 top-1/2 transform -translate-y-1/2 h-4 w-4 text-muted-foreground" />
+              <Input
+                placeholder="Search test cases..."
+                value={searchTerm}
+                onChange={(e) => setSearchTerm(e.target.value)}
+                className="pl-10"
+              />
+            </div>
+            <Select value={typeFilter} onValueChange={(value) => setTypeFilter(value as TestType | 'all')}>
+              <SelectTrigger className="w-full md:w-40">
+                <SelectValue placeholder="Type" />
+              </SelectTrigger>
+              <SelectContent>
+                <SelectItem value="all">All Types</SelectItem>
+                {TEST_TYPES.map(type => (
+                  <SelectItem key={type} value={type}>
+                    {formatFacetLabel(type)} ({testCases.filter(tc => tc.testType === type).length})
+                  </SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+            <Select value={categoryFilter} onValueChange={(value) => setCategoryFilter(value as TestCategory | 'all')}>
+              <SelectTrigger className="w-full md:w-44">
+                <SelectValue placeholder="Category" />
+              </SelectTrigger>
+              <SelectContent>
+                <SelectItem value="all">All Categories</SelectItem>
+                {TEST_CATEGORIES.map(category => (
+                  <SelectItem key={category} value={category}>
+                    {formatFacetLabel(category)} ({testCases.filter(tc => tc.category === category).length})
+                  </SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+            <Select value={originFilter} onValueChange={(value) => setOriginFilter(value as OriginFilter)}>
+              <SelectTrigger className="w-full md:w-44">
+                <SelectValue placeholder="Origin" />
+              </SelectTrigger>
+              <SelectContent>
+                <SelectItem value="all">AI & Manual</SelectItem>
+                <SelectItem value="ai">
+                  AI-generated ({testCases.filter(tc => tc.generatedByModel).length})
+                </SelectItem>
+                <SelectItem value="manual">
+                  Manual ({testCases.filter(tc => !tc.generatedByModel).length})
+                </SelectItem>
+              </SelectContent>
+            </Select>
+            {/* Framework used by the Generate Automation buttons and the automation project download */}
+            <Select
+              value={automationTarget}
+              onValueChange={(value) => setAutomationTarget(value as AutomationTargetId | typeof PROJECT_DEFAULT_TARGET)}
+            >
+              <SelectTrigger className="w-full md:w-56" aria-label="Automation target">
+                <Code2 className="mr-2 h-4 w-4 shrink-0" />
+                <SelectValue placeholder="Automation target" />
+              </SelectTrigger>
+              <SelectContent>
+                <SelectItem value={PROJECT_DEFAULT_TARGET}>Project default</SelectItem>
+                {AUTOMATION_TARGETS.map(target => (
+                  <SelectItem key={target.id} value={target.id}>{target.label}</SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
           </div>
         </CardContent>
       </Card>
@@ -598,6 +1075,12 @@ export const TestCases = ({ projectId }: TestCasesProps) => {
                 >
                   <div className="flex items-center justify-between">
                     <div className="flex items-center gap-3">
+                      <Checkbox
+                        checked={storyTestCases.every(tc => selectedCaseIds.has(tc.id))}
+                        onCheckedChange={() => toggleStorySelection(storyTestCases)}
+                        onClick={(e) => e.stopPropagation()}
+                        aria-label="Select all test cases in story"
+                      />
                       {isExpanded ? (
                         <ChevronDown className="h-5 w-5 text-muted-foreground" />
                       ) : (
@@ -622,6 +1105,17 @@ export const TestCases = ({ projectId }: TestCasesProps) => {
                         <Download className="mr-2 h-3 w-3" />
                         Export Story
                       </Button>
+                      <Button
+                        variant="outline"
+                        size="sm"
+                        onClick={(e) => {
+                          e.stopPropagation();
+                          exportStoryFeature(storyId, storyData.storyTitle);
+                        }}
+                      >
+                        <FileCode className="mr-2 h-3 w-3" />
+                        .feature
+                      </Button>
                       <div className="flex gap-1">
                         {['passed', 'failed', 'not-run', 'blocked'].map(status => {
                           const count = storyTestCases.filter(tc => tc.status === status).length;
@@ -645,10 +1139,29 @@ export const TestCases = ({ projectId }: TestCasesProps) => {
                     <Card key={testCase.id} className="shadow-card hover:shadow-elegant transition-all duration-200">
                       <CardHeader>
                         <div className="flex items-start justify-between">
-                          <div className="space-y-2">
-                            <CardTitle className="text-lg">{testCase.title}</CardTitle>
-                            <div className="flex items-center gap-2 text-sm text-muted-foreground">
-                              <span>Est. {testCase.estimatedTime}</span>
+                          <div className="flex items-start gap-3">
+                            <Checkbox
+                              checked={selectedCaseIds.has(testCase.id)}
+                              onCheckedChange={() => toggleCaseSelection(testCase.id)}
+                              className="mt-1"
+                              aria-label="Select test case"
+                            />
+                            <div className="space-y-2">
+                              <CardTitle className="text-lg">{testCase.title}</CardTitle>
+                              <div className="flex flex-wrap items-center gap-2 text-sm text-muted-foreground">
+                                <span>Est. {testCase.estimatedTime}</span>
+                                {testCase.testType && (
+                                  <Badge variant="outline">{formatFacetLabel(testCase.testType)}</Badge>
+                                )}
+                                {testCase.category && (
+                                  <Badge variant="outline">{formatFacetLabel(testCase.category)}</Badge>
+                                )}
+                                <span className="text-xs">
+                                  {testCase.generatedByModel
+                                    ? `Generated by ${testCase.generatedByModel}${testCase.generatedAt ? ` on ${new Date(testCase.generatedAt).toLocaleDateString()}` : ''}`
+                                    : 'Manual'}
+                                </span>
+                              </div>
                             </div>
                           </div>
                           <div className="flex gap-2">
@@ -670,11 +1183,23 @@ export const TestCases = ({ projectId }: TestCasesProps) => {
                         <div className="grid grid-cols-1 lg:grid-cols-2 gap-4">
                           <div>
                             <h4 className="text-sm font-medium mb-2">Test Steps:</h4>
-                            <ol className="text-xs space-y-1">
+                            <ol className="text-xs space-y-2">
                               {testCase.steps.map((step, index) => (
                                 <li key={index} className="flex gap-2">
                                   <span className="font-mono text-muted-foreground">{index + 1}.</span>
-                                  <span>{step}</span>
+                                  <div className="space-y-0.5">
+                                    <p>{step.action}</p>
+                                    {step.testData && (
+                                      <p className="text-muted-foreground">
+                                        <span className="font-medium">Data:</span> {step.testData}
+                                      </p>
+                                    )}
+                                    {step.expectedResult && (
+                                      <p className="text-muted-foreground">
+                                        <span className="font-medium">Expected:</span> {step.expectedResult}
+                                      </p>
+                                    )}
+                                  </div>
                                 </li>
                               ))}
                             </ol>
@@ -688,14 +1213,57 @@ export const TestCases = ({ projectId }: TestCasesProps) => {
                         </div>
 
                         <div className="flex items-center justify-between pt-4 border-t">
-                          <div className="text-xs text-muted-foreground">
+                          <div className="flex items-center gap-2 text-xs text-muted-foreground">
                             Test ID: {testCase.id}
+                            {testCase.jiraIssueKey && (
+                              <a href={testCase.jiraIssueUrl} target="_blank" rel="noopener noreferrer">
+                                <Badge variant="outline" className="flex items-center gap-1 hover:bg-muted">
+                                  <ExternalLink className="h-3 w-3" />
+                                  {testCase.jiraIssueKey}
+                                </Badge>
+                              </a>
+                            )}
+                            {testCase.azureWorkItemId && (
+                              <a href={testCase.azureWorkItemUrl} target="_blank" rel="noopener noreferrer">
+                                <Badge variant="outline" className="flex items-center gap-1 hover:bg-muted">
+                                  <ExternalLink className="h-3 w-3" />
+                                  ADO #{testCase.azureWorkItemId}
+                                </Badge>
+                              </a>
+                            )}
                           </div>
                           <div className="flex gap-2">
                             <Button 
                               variant="outline" 
                               size="sm"
-                              onClick={() => generateSeleniumAutomation(testCase)}
+                              onClick={() => setEditingTestCase(testCase)}
+                            >
+                              <Pencil className="mr-2 h-3 w-3" />
+                              Edit
+                            </Button>
+                            <Button 
+                              variant="outline" 
+                              size="sm"
+                              onClick={() => setHistoryTestCase({ id: testCase.id, title: testCase.title })}
+                            >
+                              <History className="mr-2 h-3 w-3" />
+                              History
+                            </Button>
+                            <Button 
+                              variant="outline" 
+                              size="sm"
+                              onClick={() => {
+                                setSnapshotTestCase({ id: testCase.id, title: testCase.title });
+                                setShowSnapshots(true);
+                              }}
+                            >
+                              <FileSearch className="mr-2 h-3 w-3" />
+                              Snapshots
+                            </Button>
+                            <Button 
+                              variant="outline" 
+                              size="sm"
+                              onClick={() => generateAutomation(testCase)}
                             >
                               <Code2 className="mr-2 h-3 w-3" />
                               Generate Automation
@@ -753,6 +1321,40 @@ export const TestCases = ({ projectId }: TestCasesProps) => {
         )}
       </div>
 
+      <TestRunner
+        projectId={projectId}
+        testCases={selectedTestCases}
+        isOpen={showRunner}
+        onClose={() => setShowRunner(false)}
+        onCompleted={handleRunCompleted}
+      />
+
+      <TestCaseHistory
+        testCase={historyTestCase}
+        onClose={() => setHistoryTestCase(null)}
+      />
+
+      <PageSnapshots
+        projectId={projectId}
+        open={showSnapshots}
+        testCase={snapshotTestCase}
+        onClose={() => setShowSnapshots(false)}
+      />
+
+      <TestCaseEditor
+        testCase={editingTestCase}
+        onClose={() => setEditingTestCase(null)}
+        onSaved={handleTestCaseSaved}
+      />
+
+      <AzureDevOpsExportDialog
+        projectId={projectId}
+        testCaseIds={Array.from(selectedCaseIds)}
+        isOpen={showAzureExport}
+        onClose={() => setShowAzureExport(false)}
+        onExported={handleAzureExported}
+      />
+
       {/* Hidden file input for Excel import */}
       <input
         type="file"
@@ -761,6 +1363,15 @@ export const TestCases = ({ projectId }: TestCasesProps) => {
         style={{ display: 'none' }}
         onChange={handleFileUpload}
       />
+
+      {/* Hidden file input for Gherkin feature import */}
+      <input
+        type="file"
+        ref={featureInputRef}
+        accept=".feature"
+        style={{ display: 'none' }}
+        onChange={handleFeatureUpload}
+      />
     </div>
   );
 };
\ No newline at end of file
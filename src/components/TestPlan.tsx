@@ -1,4 +1,4 @@
-import { useState } from "react";
+import { useState, useEffect, useRef, useMemo } from "react";
 import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
 import { Button } from "@/components/ui/button";
 import { Input } from "@/components/ui/input";
@@ -6,59 +6,229 @@ import { Label } from "@/components/ui/label";
 import { Textarea } from "@/components/ui/textarea";
 import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
 import { Badge } from "@/components/ui/badge";
-import { supabase } from "@/integrations/supabase/client";
 import { useToast } from "@/hooks/use-toast";
 import { useAuth } from "@/hooks/useAuth";
+import { useAutosave } from "@/hooks/useAutosave";
+import { supabase } from "@/integrations/supabase/client";
+import { regenerateSection, streamGeneration } from "@/lib/generationStream";
+import { DocumentSection, mergeLockedSections, splitSections } from "@/lib/markdown";
+import { TestPlanLibrary } from "./TestPlanLibrary";
+import { DocumentEditor } from "./DocumentEditor";
+import { DocumentExportMenu } from "./DocumentExportMenu";
+import { MAX_PLAN_STORIES, PlanStory, UserStoryPicker } from "./UserStoryPicker";
 import { 
   FileText, 
-  Download, 
   Loader2, 
   Target,
   CheckCircle,
   Calendar,
   Users,
   Upload,
-  Settings
+  Settings,
+  Square,
+  AlertTriangle
 } from "lucide-react";
 
 interface TestPlanProps {
   projectId: string;
 }
 
+interface EditedPlan {
+  id: string;
+  content: string;
+  lockedSections: string[];
+}
+
 export const TestPlan = ({ projectId }: TestPlanProps) => {
   const [loading, setLoading] = useState(false);
   const [testPlan, setTestPlan] = useState<string>("");
+  // The plan on screen stopped early because generation was cancelled or interrupted
+  const [partial, setPartial] = useState(false);
+  const abortRef = useRef<AbortController | null>(null);
+  const [savedVersion, setSavedVersion] = useState<number | null>(null);
+  // The saved version in the editor; edits are autosaved to it unless it is the approved baseline
+  const [planId, setPlanId] = useState<string | null>(null);
+  const [planApproved, setPlanApproved] = useState(false);
+  const [planAuthor, setPlanAuthor] = useState("");
+  const [lockedSections, setLockedSections] = useState<string[]>([]);
+  const [libraryRefreshKey, setLibraryRefreshKey] = useState(0);
+  const [settingsVersion, setSettingsVersion] = useState<number | null>(null);
   const [projectName, setProjectName] = useState("");
   const [testingScope, setTestingScope] = useState("");
   const [customPrompt, setCustomPrompt] = useState("");
   const [requirementsDoc, setRequirementsDoc] = useState("");
-  const [userStories, setUserStories] = useState<any[]>([]);
+  const [stories, setStories] = useState<PlanStory[]>([]);
+  const [storiesLoading, setStoriesLoading] = useState(false);
+  // Null until either the stories or a saved version decide the selection
+  const [selectedStoryIds, setSelectedStoryIds] = useState<string[] | null>(null);
   const { toast } = useToast();
   const { session } = useAuth();
 
-  // Load user stories when component mounts
-  useState(() => {
-    const loadUserStories = () => {
-      const stored = localStorage.getItem(`userStories_${projectId}`);
-      if (stored) {
-        const stories = JSON.parse(stored);
-        setUserStories(stories);
+  const userStories = useMemo(
+    () => stories.filter(story => selectedStoryIds?.includes(story.id)),
+    [stories, selectedStoryIds]
+  );
+
+  // The project's stories feed the plan; all of them are selected until a saved version says otherwise
+  useEffect(() => {
+    const loadInputs = async () => {
+      setStoriesLoading(true);
+      try {
+        const [{ data: project, error: projectError }, { data: storyRows, error: storiesError }] = await Promise.all([
+          supabase.from('projects').select('name').eq('id', projectId).single(),
+          supabase
+            .from('user_stories')
+            .select('id, title, description, acceptance_criteria, priority, status, external_source, sprint')
+            .eq('project_id', projectId)
+            .order('created_at', { ascending: false })
+        ]);
+
+        if (projectError) throw projectError;
+        if (storiesError) throw storiesError;
+
+        setProjectName(prev => prev || project.name);
+        const loaded: PlanStory[] = (storyRows || []).map(story => ({
+          id: story.id,
+          title: story.title,
+          description: story.description || '',
+          acceptanceCriteria: story.acceptance_criteria || '',
+          priority: story.priority || 'medium',
+          status: story.status || 'draft',
+          source: story.external_source || 'manual',
+          sprint: story.sprint
+        }));
+        setStories(loaded);
+        setSelectedStoryIds(prev => prev ?? loaded.map(story => story.id));
+      } catch (error) {
+        console.error('Error loading test plan inputs:', error);
+        toast({
+          title: "Error",
+          description: "Failed to load the project's user stories",
+          variant: "destructive",
+        });
+      } finally {
+        setStoriesLoading(false);
       }
     };
-    loadUserStories();
-  });
+    if (projectId) {
+      loadInputs();
+    }
+  }, [projectId]);
+
+  // Stop streaming when the tab is left mid-generation
+  useEffect(() => () => abortRef.current?.abort(), []);
+
+  const editedPlan = useMemo<EditedPlan | null>(
+    () => (planId ? { id: planId, content: testPlan, lockedSections } : null),
+    [planId, testPlan, lockedSections]
+  );
+
+  const savePlanEdits = async (plan: EditedPlan | null) => {
+    if (!plan) return;
+    const { data, error } = await supabase
+      .from('test_plans')
+      .update({ content: plan.content, locked_sections: plan.lockedSections })
+      .eq('id', plan.id)
+      .eq('is_approved', false)
+      .select('id');
+
+    if (error) throw error;
+    if (!data?.length) {
+      setPlanApproved(true);
+      throw new Error('This version has been approved and can no longer be edited');
+    }
+    setLibraryRefreshKey(prev => prev + 1);
+  };
+
+  const autosave = useAutosave(editedPlan, savePlanEdits, !!planId && !planApproved && !loading);
 
-  // Load OpenAI config from localStorage (from integrations)
-  const loadOpenAIConfig = () => {
+  // Opens a saved version in the editor, the latest one when no id is given
+  const openPlan = async (id?: string) => {
+    await autosave.flush();
     try {
-      const saved = localStorage.getItem('integration-configs');
-      const configs = saved ? JSON.parse(saved) : {};
-      return configs.openai;
-    } catch {
-      return null;
+      let query = supabase.from('test_plans').select('*').eq('project_id', projectId);
+      query = id ? query.eq('id', id) : query.order('version', { ascending: false }).limit(1);
+      const { data, error } = await query.maybeSingle();
+
+      if (error) throw error;
+      if (!data) return;
+
+      const locked = Array.isArray(data.locked_sections) ? data.locked_sections as string[] : [];
+      autosave.reset({ id: data.id, content: data.content, lockedSections: locked });
+      setPlanId(data.id);
+      setTestPlan(data.content);
+      setLockedSections(locked);
+      setPlanApproved(data.is_approved);
+      setPlanAuthor(data.author_name || "");
+      setSavedVersion(data.version);
+      setPartial(data.is_partial);
+      setSettingsVersion(data.settings_version);
+      // Section regeneration reuses the inputs the version was generated from
+      setProjectName(data.title);
+      setTestingScope(data.testing_scope || "");
+      setCustomPrompt(data.custom_prompt || "");
+      setRequirementsDoc(data.requirements_doc || "");
+      const savedStories = Array.isArray(data.user_stories) ? data.user_stories as { id: string | null }[] : [];
+      setSelectedStoryIds(savedStories.map(story => story.id).filter((id): id is string => !!id));
+    } catch (error) {
+      console.error('Error opening test plan:', error);
+      toast({
+        title: "Error",
+        description: "Failed to open the saved test plan",
+        variant: "destructive",
+      });
     }
   };
 
+  useEffect(() => {
+    if (projectId) {
+      openPlan();
+    }
+  }, [projectId]);
+
+  // Each generated plan becomes the project's next numbered version
+  const savePlanVersion = async (
+    content: string,
+    isPartial: boolean,
+    model: string | null,
+    planSettingsVersion: number | null,
+    locked: string[]
+  ) => {
+    if (!session?.user) throw new Error('Please log in to save test plans');
+
+    // The database numbers the version, so two saves at once still get consecutive versions
+    const { data, error } = await supabase
+      .from('test_plans')
+      .insert({
+        project_id: projectId,
+        title: projectName.trim(),
+        content,
+        testing_scope: testingScope || null,
+        custom_prompt: customPrompt.trim() || null,
+        requirements_doc: requirementsDoc.trim() || null,
+        user_stories: userStories.map(story => ({ id: story.id, title: story.title })),
+        model,
+        settings_version: planSettingsVersion,
+        is_partial: isPartial,
+        locked_sections: locked,
+        created_by: session.user.id,
+        author_name: session.user.email || null
+      })
+      .select('id, version')
+      .single();
+
+    if (error) throw error;
+
+    const { version } = data;
+    autosave.reset({ id: data.id, content, lockedSections: locked });
+    setPlanId(data.id);
+    setPlanApproved(false);
+    setPlanAuthor(session.user.email || "");
+    setSavedVersion(version);
+    setLibraryRefreshKey(prev => prev + 1);
+    return version;
+  };
+
   const generateTestPlan = async () => {
     if (!projectName.trim()) {
       toast({
@@ -69,72 +239,141 @@ export const TestPlan = ({ projectId }: TestPlanProps) => {
       return;
     }
 
-    // Check if OpenAI is configured
-    const openAIConfig = loadOpenAIConfig();
-    if (!openAIConfig?.endpoint || !openAIConfig?.apiKey || !openAIConfig?.deploymentId) {
+    if (userStories.length === 0 && !requirementsDoc.trim()) {
       toast({
-        title: "Error",
-        description: "Please configure Azure OpenAI in the Integrations tab first",
+        title: "Error", 
+        description: "Please select user stories or paste a requirements document",
         variant: "destructive",
       });
       return;
     }
 
-    if (userStories.length === 0 && !requirementsDoc.trim()) {
+    if (userStories.length > MAX_PLAN_STORIES) {
       toast({
-        title: "Error", 
-        description: "Please add user stories or upload a requirements document",
+        title: "Error",
+        description: `Select at most ${MAX_PLAN_STORIES} user stories for one test plan`,
         variant: "destructive",
       });
       return;
     }
 
+    await autosave.flush();
+    // Locked sections of the plan in the editor are carried over into the new version unchanged
+    const previous = { planId, testPlan, lockedSections, planApproved, savedVersion, partial };
+    const locked = planId ? lockedSections : [];
+
+    const controller = new AbortController();
+    abortRef.current = controller;
     setLoading(true);
+    setTestPlan("");
+    setPartial(false);
+    setPlanId(null);
+    setSavedVersion(null);
+    let received = "";
+    let metadata: { settingsVersion?: number | null; model?: string } = {};
+    // When nothing new arrives, the plan that was open goes back into the editor
+    const restorePrevious = () => {
+      if (received.trim() || !previous.planId) return;
+      setTestPlan(previous.testPlan);
+      setLockedSections(previous.lockedSections);
+      setPlanApproved(previous.planApproved);
+      setSavedVersion(previous.savedVersion);
+      setPartial(previous.partial);
+      setPlanId(previous.planId);
+    };
     try {
-      const { data, error } = await supabase.functions.invoke('generate-test-plan', {
-        body: {
-          userStories,
-          projectName,
-          testingScope,
-          customPrompt: customPrompt.trim(),
-          requirementsDoc: requirementsDoc.trim(),
-          openAIConfig
-        }
+      const result = await streamGeneration<{ metadata?: typeof metadata }>('generate-test-plan', {
+        userStories,
+        projectName,
+        testingScope,
+        customPrompt: customPrompt.trim(),
+        requirementsDoc: requirementsDoc.trim(),
+        projectId
+      }, {
+        onStart: (data) => {
+          metadata = data.metadata || {};
+          setSettingsVersion(metadata.settingsVersion ?? null);
+        },
+        onText: (text) => {
+          received += text;
+          setTestPlan(prev => prev + text);
+        },
+        signal: controller.signal
       });
 
-      if (error) throw error;
+      // Whatever arrived before a cancel or a dropped connection stays on screen and is saved flagged as partial
+      const isPartial = result.outcome !== 'complete';
+      setPartial(isPartial);
 
-      setTestPlan(data.testPlan);
-      toast({
-        title: "Success",
-        description: "Test plan generated successfully!",
-      });
+      let savedNote = '';
+      if (received.trim()) {
+        const content = mergeLockedSections(previous.testPlan, received, locked);
+        const sectionKeys = splitSections(content).sections.map(section => section.key);
+        const keptLocks = locked.filter(key => sectionKeys.includes(key));
+        setTestPlan(content);
+        setLockedSections(keptLocks);
+        if (keptLocks.length > 0) {
+          savedNote = ` ${keptLocks.length} locked section${keptLocks.length === 1 ? ' was' : 's were'} kept.`;
+        }
+
+        try {
+          const version = await savePlanVersion(content, isPartial, metadata.model ?? null, metadata.settingsVersion ?? null, keptLocks);
+          savedNote += ` Saved as version ${version}.`;
+        } catch (saveError) {
+          console.error('Error saving test plan:', saveError);
+          savedNote += ' It could not be saved to the plan library.';
+        }
+      } else {
+        restorePrevious();
+      }
+
+      if (result.outcome === 'complete') {
+        toast({
+          title: "Success",
+          description: `${result.truncated
+            ? "Test plan generated, but it reached the length limit and may end abruptly."
+            : "Test plan generated successfully!"}${savedNote}`,
+        });
+      } else if (result.outcome === 'cancelled') {
+        toast({
+          title: "Generation Cancelled",
+          description: received ? `The partial test plan has been kept.${savedNote}` : "No content was generated",
+        });
+      } else {
+        toast({
+          title: "Generation Interrupted",
+          description: `${result.error}${received ? `. The partial test plan has been kept.${savedNote}` : ''}`,
+          variant: "destructive",
+        });
+      }
     } catch (error) {
       console.error('Error generating test plan:', error);
+      restorePrevious();
       toast({
         title: "Error",
-        description: "Failed to generate test plan. Please try again.",
+        description: error.message || "Failed to generate test plan. Please try again.",
         variant: "destructive",
       });
     } finally {
+      abortRef.current = null;
       setLoading(false);
     }
   };
 
-  const downloadTestPlan = () => {
-    if (!testPlan) return;
-    
-    const blob = new Blob([testPlan], { type: 'text/plain' });
-    const url = URL.createObjectURL(blob);
-    const a = document.createElement('a');
-    a.href = url;
-    a.download = `${projectName || 'project'}-test-plan.txt`;
-    document.body.appendChild(a);
-    a.click();
-    document.body.removeChild(a);
-    URL.revokeObjectURL(url);
+  const cancelGeneration = () => {
+    abortRef.current?.abort();
   };
 
+  const regeneratePlanSection = (section: DocumentSection, instructions: string) =>
+    regenerateSection('generate-test-plan', {
+      userStories,
+      projectName,
+      testingScope,
+      customPrompt: customPrompt.trim(),
+      requirementsDoc: requirementsDoc.trim(),
+      projectId
+    }, section, testPlan, instructions);
+
   return (
     <div className="space-y-6">
       <div className="flex flex-col lg:flex-row lg:items-center lg:justify-between gap-4">
@@ -205,71 +444,119 @@ export const TestPlan = ({ projectId }: TestPlanProps) => {
           </div>
           
           <div className="space-y-2">
-            <Label>User Stories ({userStories.length} available)</Label>
-            <div className="flex flex-wrap gap-2">
-              {userStories.slice(0, 5).map((story, index) => (
-                <Badge key={index} variant="outline" className="text-xs">
-                  {story.title}
-                </Badge>
-              ))}
-              {userStories.length > 5 && (
-                <Badge variant="outline" className="text-xs">
-                  +{userStories.length - 5} more
-                </Badge>
-              )}
-            </div>
-            {userStories.length === 0 && !requirementsDoc.trim() && (
+            <Label>User Stories ({userStories.length} of {stories.length} selected)</Label>
+            <UserStoryPicker
+              stories={stories}
+              loading={storiesLoading}
+              selectedIds={selectedStoryIds ?? []}
+              onSelectedIdsChange={setSelectedStoryIds}
+              disabled={loading}
+            />
+            {!storiesLoading && stories.length === 0 && !requirementsDoc.trim() && (
               <p className="text-sm text-muted-foreground">
                 Add user stories in the User Stories tab or paste requirements document above
               </p>
             )}
           </div>
 
-          <Button 
-            onClick={generateTestPlan} 
-            disabled={loading}
-            className="w-full md:w-auto"
-          >
-            {loading ? (
-              <>
-                <Loader2 className="mr-2 h-4 w-4 animate-spin" />
-                Generating Test Plan...
-              </>
-            ) : (
-              <>
-                <FileText className="mr-2 h-4 w-4" />
-                Generate Test Plan
-              </>
+          <div className="flex flex-col md:flex-row gap-2">
+            <Button 
+              onClick={generateTestPlan} 
+              disabled={loading}
+              className="w-full md:w-auto"
+            >
+              {loading ? (
+                <>
+                  <Loader2 className="mr-2 h-4 w-4 animate-spin" />
+                  Generating Test Plan...
+                </>
+              ) : (
+                <>
+                  <FileText className="mr-2 h-4 w-4" />
+                  Generate Test Plan
+                </>
+              )}
+            </Button>
+            {loading && (
+              <Button variant="outline" onClick={cancelGeneration} className="w-full md:w-auto">
+                <Square className="mr-2 h-4 w-4" />
+                Cancel
+              </Button>
             )}
-          </Button>
+          </div>
         </CardContent>
       </Card>
 
       {/* Generated Test Plan */}
-      {testPlan && (
+      {(testPlan || loading) && (
         <Card className="shadow-card">
           <CardHeader>
             <div className="flex justify-between items-start">
               <CardTitle className="flex items-center gap-2">
-                <CheckCircle className="h-5 w-5 text-success" />
-                Generated Test Plan
+                {loading ? (
+                  <Loader2 className="h-5 w-5 text-primary animate-spin" />
+                ) : partial ? (
+                  <AlertTriangle className="h-5 w-5 text-warning" />
+                ) : (
+                  <CheckCircle className="h-5 w-5 text-success" />
+                )}
+                {loading ? 'Generating Test Plan' : 'Generated Test Plan'}
+                <Badge variant="outline" className="text-xs">
+                  {settingsVersion ? `Project settings v${settingsVersion}` : 'Default context'}
+                </Badge>
+                {partial && (
+                  <Badge variant="outline" className="text-xs text-warning">
+                    Partial
+                  </Badge>
+                )}
+                {savedVersion && (
+                  <Badge variant="outline" className="text-xs">
+                    Version {savedVersion}
+                  </Badge>
+                )}
+                {planApproved && (
+                  <Badge className="bg-success text-success-foreground text-xs">Approved</Badge>
+                )}
               </CardTitle>
-              <Button variant="outline" onClick={downloadTestPlan}>
-                <Download className="mr-2 h-4 w-4" />
-                Download
-              </Button>
+              <DocumentExportMenu
+                projectId={projectId}
+                document={{
+                  markdown: testPlan,
+                  title: `${projectName || 'Project'} Test Plan`,
+                  projectName,
+                  fileName: `${projectName || 'project'}-test-plan${savedVersion ? `-v${savedVersion}` : ''}`,
+                  version: savedVersion ? `v${savedVersion}` : undefined,
+                  status: planApproved ? 'Approved' : partial ? 'Partial draft' : 'Draft',
+                  author: planAuthor || undefined
+                }}
+                disabled={loading || !testPlan}
+              />
             </div>
           </CardHeader>
           <CardContent>
-            <div className="bg-muted/50 p-4 rounded-lg">
-              <pre className="whitespace-pre-wrap text-sm font-mono overflow-auto max-h-96">
-                {testPlan}
-              </pre>
-            </div>
+            <DocumentEditor
+              documentId={planId}
+              value={testPlan}
+              onChange={setTestPlan}
+              lockedSections={lockedSections}
+              onLockedSectionsChange={setLockedSections}
+              onRegenerateSection={regeneratePlanSection}
+              readOnly={loading || planApproved}
+              readOnlyReason={loading ? 'Generating...' : planApproved ? 'Approved baseline, read-only' : undefined}
+              saveStatus={autosave.status}
+              placeholder="Waiting for the first words..."
+            />
           </CardContent>
         </Card>
       )}
 
+      <TestPlanLibrary
+        projectId={projectId}
+        refreshKey={libraryRefreshKey}
+        onEdit={openPlan}
+        onApprovalChange={(id, approved) => id === planId && setPlanApproved(approved)}
+      />
+
       {/* Stats */}
       <div className="grid grid-cols-1 md:grid-cols-3 gap-4">
         <Card className="shadow-card">
@@ -0,0 +1,360 @@
+import { useState, useEffect, useMemo } from "react";
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import { Badge } from "@/components/ui/badge";
+import { Button } from "@/components/ui/button";
+import { Label } from "@/components/ui/label";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@/components/ui/table";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog";
+import { useToast } from "@/hooks/use-toast";
+import { supabase } from "@/integrations/supabase/client";
+import { DiffRow, diffLines, summarizeDiff } from "@/lib/lineDiff";
+import { MarkdownPreview } from "./MarkdownPreview";
+import { DocumentExportMenu } from "./DocumentExportMenu";
+import { Library, Eye, Pencil, GitCompare, ShieldCheck, Trash2 } from "lucide-react";
+
+interface TestPlanVersion {
+  id: string;
+  version: number;
+  title: string;
+  content: string;
+  testingScope: string;
+  customPrompt: string;
+  userStories: { id: string | null; title: string }[];
+  model: string | null;
+  settingsVersion: number | null;
+  isPartial: boolean;
+  isApproved: boolean;
+  approvedAt: string | null;
+  authorName: string;
+  createdAt: string;
+}
+
+interface TestPlanLibraryProps {
+  projectId: string;
+  // Bumped by the generator after it saves a new version or an edit
+  refreshKey: number;
+  onEdit?: (planId: string) => void;
+  onApprovalChange?: (planId: string, approved: boolean) => void;
+}
+
+const ROW_STYLES: Record<DiffRow['kind'], { left: string; right: string }> = {
+  same: { left: '', right: '' },
+  removed: { left: 'bg-destructive/10', right: 'bg-muted/40' },
+  added: { left: 'bg-muted/40', right: 'bg-success/10' },
+  changed: { left: 'bg-destructive/10', right: 'bg-success/10' },
+};
+
+export const TestPlanLibrary = ({ projectId, refreshKey, onEdit, onApprovalChange }: TestPlanLibraryProps) => {
+  const { toast } = useToast();
+  const [plans, setPlans] = useState<TestPlanVersion[]>([]);
+  const [isLoading, setIsLoading] = useState(false);
+  const [viewing, setViewing] = useState<TestPlanVersion | null>(null);
+  const [baseId, setBaseId] = useState("");
+  const [targetId, setTargetId] = useState("");
+  const [isComparing, setIsComparing] = useState(false);
+
+  useEffect(() => {
+    if (projectId) {
+      loadPlans();
+    }
+  }, [projectId, refreshKey]);
+
+  const loadPlans = async () => {
+    setIsLoading(true);
+    try {
+      const { data, error } = await supabase
+        .from('test_plans')
+        .select('*')
+        .eq('project_id', projectId)
+        .order('version', { ascending: false });
+
+      if (error) throw error;
+
+      const loaded: TestPlanVersion[] = (data || []).map(row => ({
+        id: row.id,
+        version: row.version,
+        title: row.title,
+        content: row.content,
+        testingScope: row.testing_scope || '',
+        customPrompt: row.custom_prompt || '',
+        userStories: Array.isArray(row.user_stories) ? row.user_stories as TestPlanVersion['userStories'] : [],
+        model: row.model,
+        settingsVersion: row.settings_version,
+        isPartial: row.is_partial,
+        isApproved: row.is_approved,
+        approvedAt: row.approved_at,
+        authorName: row.author_name || '',
+        createdAt: row.created_at
+      }));
+      setPlans(loaded);
+
+      // Default comparison: the approved baseline (or the previous version) against the latest
+      const latest = loaded[0];
+      const base = loaded.find(plan => plan.isApproved && plan.id !== latest?.id) ?? loaded[1];
+      setTargetId(latest?.id ?? "");
+      setBaseId(base?.id ?? "");
+    } catch (error) {
+      console.error('Error loading test plans:', error);
+      toast({
+        title: "Error",
+        description: "Failed to load saved test plans",
+        variant: "destructive",
+      });
+    } finally {
+      setIsLoading(false);
+    }
+  };
+
+  const approvePlan = async (plan: TestPlanVersion) => {
+    try {
+      // Only one baseline per project: the current one is cleared in the same transaction
+      const { error } = await supabase.rpc('approve_test_plan', { _plan_id: plan.id });
+
+      if (error) throw error;
+
+      plans
+        .filter(candidate => candidate.isApproved)
+        .forEach(candidate => onApprovalChange?.(candidate.id, false));
+      onApprovalChange?.(plan.id, true);
+
+      toast({
+        title: "Baseline Approved",
+        description: `Version ${plan.version} is now the approved test plan baseline`,
+      });
+      loadPlans();
+    } catch (error) {
+      console.error('Error approving test plan:', error);
+      toast({
+        title: "Error",
+        description: "Failed to approve the test plan",
+        variant: "destructive",
+      });
+    }
+  };
+
+  const deletePlan = async (plan: TestPlanVersion) => {
+    if (!confirm(`Delete version ${plan.version} of the test plan?`)) return;
+    try {
+      const { error } = await supabase
+        .from('test_plans')
+        .delete()
+        .eq('id', plan.id);
+
+      if (error) throw error;
+
+      toast({
+        title: "Version Deleted",
+        description: `Test plan version ${plan.version} has been deleted`,
+      });
+      loadPlans();
+    } catch (error) {
+      console.error('Error deleting test plan:', error);
+      toast({
+        title: "Error",
+        description: "Failed to delete the test plan",
+        variant: "destructive",
+      });
+    }
+  };
+
+  const basePlan = plans.find(plan => plan.id === baseId) ?? null;
+  const targetPlan = plans.find(plan => plan.id === targetId) ?? null;
+
+  const diff = useMemo(
+    () => (isComparing && basePlan && targetPlan ? diffLines(basePlan.content, targetPlan.content) : []),
+    [isComparing, basePlan, targetPlan]
+  );
+  const diffSummary = summarizeDiff(diff);
+
+  const versionLabel = (plan: TestPlanVersion) =>
+    `v${plan.version}${plan.isApproved ? ' (approved)' : ''}${plan.isPartial ? ' (partial)' : ''}`;
+
+  return (
+    <Card className="shadow-card">
+      <CardHeader>
+        <CardTitle className="flex items-center gap-2">
+          <Library className="h-5 w-5 text-primary" />
+          Plan Library
+          <Badge variant="outline" className="text-xs">{plans.length} versions</Badge>
+        </CardTitle>
+      </CardHeader>
+      <CardContent className="space-y-4">
+        {isLoading && plans.length === 0 ? (
+          <p className="text-sm text-muted-foreground">Loading saved test plans...</p>
+        ) : plans.length === 0 ? (
+          <p className="text-sm text-muted-foreground">
+            Generated test plans are saved here as numbered versions.
+          </p>
+        ) : (
+          <>
+            <div className="flex flex-col md:flex-row md:items-end gap-2">
+              <div className="space-y-1">
+                <Label>Compare</Label>
+                <Select value={baseId} onValueChange={setBaseId}>
+                  <SelectTrigger className="w-full md:w-44">
+                    <SelectValue placeholder="Base version" />
+                  </SelectTrigger>
+                  <SelectContent>
+                    {plans.map(plan => (
+                      <SelectItem key={plan.id} value={plan.id}>{versionLabel(plan)}</SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+              </div>
+              <div className="space-y-1">
+                <Label>With</Label>
+                <Select value={targetId} onValueChange={setTargetId}>
+                  <SelectTrigger className="w-full md:w-44">
+                    <SelectValue placeholder="Version" />
+                  </SelectTrigger>
+                  <SelectContent>
+                    {plans.map(plan => (
+                      <SelectItem key={plan.id} value={plan.id}>{versionLabel(plan)}</SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+              </div>
+              <Button
+                variant="outline"
+                onClick={() => setIsComparing(true)}
+                disabled={!basePlan || !targetPlan || baseId === targetId}
+              >
+                <GitCompare className="mr-2 h-4 w-4" />
+                Compare Side by Side
+              </Button>
+            </div>
+
+            <Table>
+              <TableHeader>
+                <TableRow>
+                  <TableHead>Version</TableHead>
+                  <TableHead>Title</TableHead>
+                  <TableHead>Author</TableHead>
+                  <TableHead>Model</TableHead>
+                  <TableHead>Inputs</TableHead>
+                  <TableHead>Created</TableHead>
+                  <TableHead className="text-right">Actions</TableHead>
+                </TableRow>
+              </TableHeader>
+              <TableBody>
+                {plans.map(plan => (
+                  <TableRow key={plan.id}>
+                    <TableCell>
+                      <div className="flex items-center gap-1">
+                        <span className="font-medium">v{plan.version}</span>
+                        {plan.isApproved && (
+                          <Badge className="bg-success text-success-foreground text-xs">Approved</Badge>
+                        )}
+                        {plan.isPartial && (
+                          <Badge variant="outline" className="text-xs text-warning">Partial</Badge>
+                        )}
+                      </div>
+                    </TableCell>
+                    <TableCell>{plan.title}</TableCell>
+                    <TableCell className="text-sm text-muted-foreground">{plan.authorName || '—'}</TableCell>
+                    <TableCell className="text-sm text-muted-foreground">{plan.model || '—'}</TableCell>
+                    <TableCell className="text-sm text-muted-foreground">
+                      {plan.userStories.length} stories
+                      {plan.testingScope && `, ${plan.testingScope} scope`}
+                      {plan.customPrompt && ', custom prompt'}
+                    </TableCell>
+                    <TableCell className="text-sm text-muted-foreground">
+                      {new Date(plan.createdAt).toLocaleString()}
+                    </TableCell>
+                    <TableCell>
+                      <div className="flex justify-end gap-1">
+                        <Button variant="ghost" size="sm" onClick={() => setViewing(plan)} title="View">
+                          <Eye className="h-4 w-4" />
+                        </Button>
+                        {onEdit && (
+                          <Button variant="ghost" size="sm" onClick={() => onEdit(plan.id)} title="Open in editor">
+                            <Pencil className="h-4 w-4" />
+                          </Button>
+                        )}
+                        <DocumentExportMenu
+                          projectId={projectId}
+                          compact
+                          document={{
+                            markdown: plan.content,
+                            title: `${plan.title} Test Plan`,
+                            projectName: plan.title,
+                            fileName: `${plan.title || 'project'}-test-plan-v${plan.version}`,
+                            version: `v${plan.version}`,
+                            status: plan.isApproved ? 'Approved' : plan.isPartial ? 'Partial draft' : 'Draft',
+                            author: plan.authorName || undefined
+                          }}
+                        />
+                        <Button
+                          variant="ghost"
+                          size="sm"
+                          onClick={() => approvePlan(plan)}
+                          disabled={plan.isApproved || plan.isPartial}
+                          title={plan.isPartial ? 'Partial plans cannot be approved' : 'Approve as baseline'}
+                        >
+                          <ShieldCheck className="h-4 w-4" />
+                        </Button>
+                        <Button variant="ghost" size="sm" onClick={() => deletePlan(plan)} title="Delete">
+                          <Trash2 className="h-4 w-4 text-destructive" />
+                        </Button>
+                      </div>
+                    </TableCell>
+                  </TableRow>
+                ))}
+              </TableBody>
+            </Table>
+          </>
+        )}
+      </CardContent>
+
+      <Dialog open={!!viewing} onOpenChange={(open) => !open && setViewing(null)}>
+        <DialogContent className="max-w-4xl max-h-[90vh] overflow-y-auto">
+          <DialogHeader>
+            <DialogTitle>{viewing?.title} — v{viewing?.version}</DialogTitle>
+            <DialogDescription>
+              {viewing?.authorName || 'Unknown author'}, {viewing && new Date(viewing.createdAt).toLocaleString()}
+              {viewing?.model && ` using ${viewing.model}`}
+              {viewing?.settingsVersion ? `, project settings v${viewing.settingsVersion}` : ''}
+            </DialogDescription>
+          </DialogHeader>
+          <div className="bg-muted/50 p-4 rounded-lg">
+            <MarkdownPreview markdown={viewing?.content || ''} />
+          </div>
+        </DialogContent>
+      </Dialog>
+
+      <Dialog open={isComparing} onOpenChange={setIsComparing}>
+        <DialogContent className="max-w-6xl max-h-[90vh] overflow-y-auto">
+          <DialogHeader>
+            <DialogTitle>
+              {basePlan && versionLabel(basePlan)} → {targetPlan && versionLabel(targetPlan)}
+            </DialogTitle>
+            <DialogDescription>
+              {diffSummary.changed} changed, {diffSummary.added} added and {diffSummary.removed} removed lines
+            </DialogDescription>
+          </DialogHeader>
+          <div className="grid grid-cols-2 text-xs font-mono border rounded-lg overflow-hidden">
+            {diff.map((row, index) => (
+              <div key={index} className="contents">
+                <div className={`flex gap-2 px-2 py-0.5 border-r ${ROW_STYLES[row.kind].left}`}>
+                  <span className="w-8 shrink-0 text-right text-muted-foreground select-none">{row.left?.number ?? ''}</span>
+                  <span className="whitespace-pre-wrap break-words">{row.left?.text ?? ''}</span>
+                </div>
+                <div className={`flex gap-2 px-2 py-0.5 ${ROW_STYLES[row.kind].right}`}>
+                  <span className="w-8 shrink-0 text-right text-muted-foreground select-none">{row.right?.number ?? ''}</span>
+                  <span className="whitespace-pre-wrap break-words">{row.right?.text ?? ''}</span>
+                </div>
+              </div>
+            ))}
+          </div>
+        </DialogContent>
+      </Dialog>
+    </Card>
+  );
+};
@@ -1,55 +1,274 @@
-import { useState, useEffect } from "react";
+import { useState, useEffect, useRef, useMemo } from "react";
 import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
 import { Button } from "@/components/ui/button";
 import { Input } from "@/components/ui/input";
 import { Label } from "@/components/ui/label";
 import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
 import { Badge } from "@/components/ui/badge";
-import { supabase } from "@/integrations/supabase/client";
 import { useToast } from "@/hooks/use-toast";
+import { useAuth } from "@/hooks/useAuth";
+import { useAutosave } from "@/hooks/useAutosave";
+import { supabase } from "@/integrations/supabase/client";
+import { regenerateSection, streamGeneration } from "@/lib/generationStream";
+import { DocumentSection, mergeLockedSections, splitSections } from "@/lib/markdown";
+import { ReportChart, ensureChartMarkers, parseReportCharts } from "@/lib/reportCharts";
+import {
+  ExecutionData,
+  ExecutionRun,
+  ReportSource,
+  buildReportCharts,
+  formatDuration,
+  loadExecutionData,
+} from "@/lib/executionReport";
+import { DocumentEditor } from "./DocumentEditor";
+import { DocumentExportMenu } from "./DocumentExportMenu";
 import { 
   FileText, 
-  Download, 
   Loader2, 
   BarChart3,
   CheckCircle,
   XCircle,
   Clock,
-  AlertCircle
+  AlertCircle,
+  Square,
+  AlertTriangle,
+  SkipForward
 } from "lucide-react";
 
 interface TestReportProps {
   projectId: string;
 }
 
-interface TestCase {
+// Result source that reports the latest result of every test case within a date range instead of one run
+const DATE_RANGE = 'range';
+
+const EMPTY_EXECUTION_DATA: ExecutionData = { cases: [], comparison: null, trend: [] };
+
+const isoDate = (date: Date) => date.toISOString().split('T')[0];
+
+interface EditedReport {
   id: string;
-  title: string;
-  status: 'passed' | 'failed' | 'blocked' | 'pending';
-  priority: 'low' | 'medium' | 'high';
-  userStoryTitle?: string;
+  content: string;
+  lockedSections: string[];
 }
 
 export const TestReport = ({ projectId }: TestReportProps) => {
   const [loading, setLoading] = useState(false);
   const [testReport, setTestReport] = useState<string>("");
-  const [statistics, setStatistics] = useState<any>(null);
+  // The report on screen stopped early because generation was cancelled or interrupted
+  const [partial, setPartial] = useState(false);
+  const abortRef = useRef<AbortController | null>(null);
+  const [statistics, setStatistics] = useState<Record<string, number> | null>(null);
+  // The saved report in the editor; edits are autosaved to it
+  const [reportId, setReportId] = useState<string | null>(null);
+  const [lockedSections, setLockedSections] = useState<string[]>([]);
+  const [settingsVersion, setSettingsVersion] = useState<number | null>(null);
   const [projectName, setProjectName] = useState("");
   const [reportType, setReportType] = useState("executive");
-  const [testCases, setTestCases] = useState<TestCase[]>([]);
+  const [executionData, setExecutionData] = useState<ExecutionData>(EMPTY_EXECUTION_DATA);
+  const [casesLoading, setCasesLoading] = useState(false);
+  // The project's runs, newest first; null until loaded
+  const [runs, setRuns] = useState<ExecutionRun[] | null>(null);
+  // A run id or DATE_RANGE; null until either the runs or the saved report decide it
+  const [resultSource, setResultSource] = useState<string | null>(null);
+  const [periodStart, setPeriodStart] = useState(() => isoDate(new Date(Date.now() - 30 * 24 * 60 * 60 * 1000)));
+  const [periodEnd, setPeriodEnd] = useState(() => isoDate(new Date()));
+  // Data for the {{chart:<id>}} lines of the report in the editor
+  const [charts, setCharts] = useState<ReportChart[]>([]);
   const { toast } = useToast();
+  const { session } = useAuth();
 
+  const testCases = executionData.cases;
+  const selectedRun = runs?.find(run => run.id === resultSource);
+
+  // The most recent execution run feeds the report unless the saved report used another source
   useEffect(() => {
-    const loadTestCases = () => {
-      const stored = localStorage.getItem(`testCases_${projectId}`);
-      if (stored) {
-        const cases = JSON.parse(stored);
-        setTestCases(cases);
+    const loadRuns = async () => {
+      try {
+        const [{ data: project, error: projectError }, { data: runRows, error: runsError }] = await Promise.all([
+          supabase.from('projects').select('name').eq('id', projectId).single(),
+          supabase
+            .from('test_runs')
+            .select('id, name, status, started_at, completed_at, environment, build_version')
+            .eq('project_id', projectId)
+            .order('started_at', { ascending: false })
+        ]);
+
+        if (projectError) throw projectError;
+        if (runsError) throw runsError;
+
+        setProjectName(prev => prev || project.name);
+        const loaded: ExecutionRun[] = (runRows || []).map(run => ({
+          id: run.id,
+          name: run.name,
+          status: run.status,
+          startedAt: run.started_at,
+          completedAt: run.completed_at,
+          environment: run.environment,
+          buildVersion: run.build_version
+        }));
+        setRuns(loaded);
+        setResultSource(prev => prev ?? loaded[0]?.id ?? DATE_RANGE);
+      } catch (error) {
+        console.error('Error loading test runs:', error);
+        setRuns([]);
+        setResultSource(prev => prev ?? DATE_RANGE);
       }
     };
-    loadTestCases();
+    if (projectId) {
+      loadRuns();
+    }
   }, [projectId]);
 
+  useEffect(() => {
+    if (!resultSource || !runs) return;
+    if (resultSource === DATE_RANGE && (!periodStart || !periodEnd || periodStart > periodEnd)) return;
+    let cancelled = false;
+
+    const loadResults = async () => {
+      setCasesLoading(true);
+      try {
+        const source: ReportSource = resultSource === DATE_RANGE
+          ? { kind: 'range', from: periodStart, to: periodEnd }
+          : { kind: 'run', runId: resultSource };
+        const data = await loadExecutionData(projectId, source, runs);
+        if (!cancelled) setExecutionData(data);
+      } catch (error) {
+        console.error('Error loading test results:', error);
+        if (!cancelled) {
+          setExecutionData(EMPTY_EXECUTION_DATA);
+          toast({
+            title: "Error",
+            description: "Failed to load test results",
+            variant: "destructive",
+          });
+        }
+      } finally {
+        if (!cancelled) setCasesLoading(false);
+      }
+    };
+    loadResults();
+
+    return () => {
+      cancelled = true;
+    };
+  }, [projectId, resultSource, periodStart, periodEnd, runs]);
+
+  // Stop streaming when the tab is left mid-generation
+  useEffect(() => () => abortRef.current?.abort(), []);
+
+  const editedReport = useMemo<EditedReport | null>(
+    () => (reportId ? { id: reportId, content: testReport, lockedSections } : null),
+    [reportId, testReport, lockedSections]
+  );
+
+  const saveReportEdits = async (report: EditedReport | null) => {
+    if (!report) return;
+    const { error } = await supabase
+      .from('test_reports')
+      .update({ content: report.content, locked_sections: report.lockedSections })
+      .eq('id', report.id);
+
+    if (error) throw error;
+  };
+
+  const autosave = useAutosave(editedReport, saveReportEdits, !!reportId && !loading);
+
+  // The latest report is reopened so edits carry on where they were left
+  useEffect(() => {
+    const loadLatestReport = async () => {
+      try {
+        const { data, error } = await supabase
+          .from('test_reports')
+          .select('*')
+          .eq('project_id', projectId)
+          .order('created_at', { ascending: false })
+          .limit(1)
+          .maybeSingle();
+
+        if (error) throw error;
+        if (!data) return;
+
+        const locked = Array.isArray(data.locked_sections) ? data.locked_sections as string[] : [];
+        autosave.reset({ id: data.id, content: data.content, lockedSections: locked });
+        setReportId(data.id);
+        setTestReport(data.content);
+        setLockedSections(locked);
+        setStatistics(data.statistics as Record<string, number> | null);
+        setSettingsVersion(data.settings_version);
+        setPartial(data.is_partial);
+        setProjectName(data.title);
+        setResultSource(data.test_run_id ?? DATE_RANGE);
+        if (data.period_start) setPeriodStart(data.period_start);
+        if (data.period_end) setPeriodEnd(data.period_end);
+        setCharts(parseReportCharts(data.charts));
+        if (data.report_type) setReportType(data.report_type);
+      } catch (error) {
+        console.error('Error loading test report:', error);
+      }
+    };
+    if (projectId) {
+      loadLatestReport();
+    }
+  }, [projectId]);
+
+  const saveReport = async (
+    content: string,
+    isPartial: boolean,
+    reportStatistics: Record<string, number> | null,
+    metadata: { settingsVersion?: number | null; model?: string },
+    locked: string[],
+    reportCharts: ReportChart[]
+  ) => {
+    if (!session?.user) throw new Error('Please log in to save test reports');
+
+    const { data, error } = await supabase
+      .from('test_reports')
+      .insert({
+        project_id: projectId,
+        title: projectName.trim(),
+        report_type: reportType,
+        content,
+        statistics: reportStatistics,
+        model: metadata.model ?? null,
+        settings_version: metadata.settingsVersion ?? null,
+        is_partial: isPartial,
+        locked_sections: locked,
+        test_run_id: selectedRun?.id ?? null,
+        period_start: selectedRun ? null : periodStart,
+        period_end: selectedRun ? null : periodEnd,
+        charts: reportCharts,
+        created_by: session.user.id
+      })
+      .select('id')
+      .single();
+
+    if (error) throw error;
+
+    autosave.reset({ id: data.id, content, lockedSections: locked });
+    setReportId(data.id);
+  };
+
+  // The report function places a {{chart:<id>}} line for each chart where it discusses it
+  const reportInputs = (reportCharts: ReportChart[]) => ({
+    testCases,
+    projectName,
+    reportType,
+    projectId,
+    testExecutionData: selectedRun ? {
+      runName: selectedRun.name,
+      environment: selectedRun.environment,
+      buildVersion: selectedRun.buildVersion,
+      startDate: selectedRun.startedAt.split('T')[0],
+      endDate: (selectedRun.completedAt || new Date().toISOString()).split('T')[0]
+    } : {
+      startDate: periodStart,
+      endDate: periodEnd
+    },
+    comparison: executionData.comparison,
+    charts: reportCharts.map(chart => ({ id: chart.id, title: chart.title }))
+  });
+
   const generateTestReport = async () => {
     if (!projectName.trim()) {
       toast({
@@ -60,68 +279,139 @@ export const TestReport = ({ projectId }: TestReportProps) => {
       return;
     }
 
+    if (!selectedRun && periodStart > periodEnd) {
+      toast({
+        title: "Error",
+        description: "The start of the date range must not be after its end",
+        variant: "destructive",
+      });
+      return;
+    }
+
     if (testCases.length === 0) {
       toast({
         title: "Error", 
-        description: "No test cases found. Please add test cases first.",
+        description: selectedRun
+          ? "The selected test run has no results. Choose another run."
+          : "No test cases found. Please add test cases first.",
         variant: "destructive",
       });
       return;
     }
 
+    await autosave.flush();
+    // Locked sections of the report in the editor are carried over into the new one unchanged
+    const previous = { reportId, testReport, lockedSections, statistics, partial, charts };
+    const locked = reportId ? lockedSections : [];
+    const reportCharts = buildReportCharts(executionData);
+
+    const controller = new AbortController();
+    abortRef.current = controller;
     setLoading(true);
+    setTestReport("");
+    setStatistics(null);
+    setPartial(false);
+    setReportId(null);
+    setCharts(reportCharts);
+    let received = "";
+    let reportStatistics: Record<string, number> | null = null;
+    let metadata: { settingsVersion?: number | null; model?: string } = {};
+    // When nothing new arrives, the report that was open goes back into the editor
+    const restorePrevious = () => {
+      if (received.trim() || !previous.reportId) return;
+      setTestReport(previous.testReport);
+      setLockedSections(previous.lockedSections);
+      setStatistics(previous.statistics);
+      setPartial(previous.partial);
+      setCharts(previous.charts);
+      setReportId(previous.reportId);
+    };
     try {
-      const { data, error } = await supabase.functions.invoke('generate-test-report', {
-        body: {
-          testCases,
-          projectName,
-          reportType,
-          testExecutionData: {
-            startDate: new Date(Date.now() - 7 * 24 * 60 * 60 * 1000).toISOString().split('T')[0],
-            endDate: new Date().toISOString().split('T')[0]
-          }
-        }
+      const result = await streamGeneration<{ statistics: Record<string, number>; metadata?: typeof metadata }>('generate-test-report', reportInputs(reportCharts), {
+        onStart: (data) => {
+          reportStatistics = data.statistics;
+          metadata = data.metadata || {};
+          setStatistics(data.statistics);
+          setSettingsVersion(metadata.settingsVersion ?? null);
+        },
+        onText: (text) => {
+          received += text;
+          setTestReport(prev => prev + text);
+        },
+        signal: controller.signal
       });
 
-      if (error) throw error;
+      // Whatever arrived before a cancel or a dropped connection stays on screen and is saved flagged as partial
+      const isPartial = result.outcome !== 'complete';
+      setPartial(isPartial);
 
-      setTestReport(data.testReport);
-      setStatistics(data.statistics);
-      toast({
-        title: "Success",
-        description: "Test report generated successfully!",
-      });
+      let savedNote = '';
+      if (received.trim()) {
+        const content = ensureChartMarkers(mergeLockedSections(previous.testReport, received, locked), reportCharts);
+        const sectionKeys = splitSections(content).sections.map(section => section.key);
+        const keptLocks = locked.filter(key => sectionKeys.includes(key));
+        setTestReport(content);
+        setLockedSections(keptLocks);
+        if (keptLocks.length > 0) {
+          savedNote = ` ${keptLocks.length} locked section${keptLocks.length === 1 ? ' was' : 's were'} kept.`;
+        }
+
+        try {
+          await saveReport(content, isPartial, reportStatistics, metadata, keptLocks, reportCharts);
+        } catch (saveError) {
+          console.error('Error saving test report:', saveError);
+          savedNote += ' It could not be saved, so edits will not be kept.';
+        }
+      } else {
+        restorePrevious();
+      }
+
+      if (result.outcome === 'complete') {
+        toast({
+          title: "Success",
+          description: `${result.truncated
+            ? "Test report generated, but it reached the length limit and may end abruptly."
+            : "Test report generated successfully!"}${savedNote}`,
+        });
+      } else if (result.outcome === 'cancelled') {
+        toast({
+          title: "Generation Cancelled",
+          description: received ? `The partial test report has been kept.${savedNote}` : "No content was generated",
+        });
+      } else {
+        toast({
+          title: "Generation Interrupted",
+          description: `${result.error}${received ? `. The partial test report has been kept.${savedNote}` : ''}`,
+          variant: "destructive",
+        });
+      }
     } catch (error) {
       console.error('Error generating test report:', error);
+      restorePrevious();
       toast({
         title: "Error",
-        description: "Failed to generate test report. Please try again.",
+        description: error.message || "Failed to generate test report. Please try again.",
         variant: "destructive",
       });
     } finally {
+      abortRef.current = null;
       setLoading(false);
     }
   };
 
-  const downloadTestReport = () => {
-    if (!testReport) return;
-    
-    const blob = new Blob([testReport], { type: 'text/plain' });
-    const url = URL.createObjectURL(blob);
-    const a = document.createElement('a');
-    a.href = url;
-    a.download = `${projectName || 'project'}-test-report.txt`;
-    document.body.appendChild(a);
-    a.click();
-    document.body.removeChild(a);
-    URL.revokeObjectURL(url);
+  const cancelGeneration = () => {
+    abortRef.current?.abort();
   };
 
+  const regenerateReportSection = (section: DocumentSection, instructions: string) =>
+    regenerateSection('generate-test-report', reportInputs(charts), section, testReport, instructions);
+
   const getStatusIcon = (status: string) => {
     switch (status) {
       case 'passed': return <CheckCircle className="h-4 w-4 text-success" />;
       case 'failed': return <XCircle className="h-4 w-4 text-destructive" />;
       case 'blocked': return <AlertCircle className="h-4 w-4 text-warning" />;
+      case 'skipped': return <SkipForward className="h-4 w-4 text-muted-foreground" />;
       case 'pending': return <Clock className="h-4 w-4 text-muted-foreground" />;
       default: return null;
     }
@@ -239,9 +529,55 @@ export const TestReport = ({ projectId }: TestReportProps) => {
           </div>
           
           <div className="space-y-2">
-            <Label>Test Cases Status Overview</Label>
+            <Label htmlFor="resultSource">Test Results</Label>
+            <Select value={resultSource ?? undefined} onValueChange={setResultSource} disabled={loading}>
+              <SelectTrigger id="resultSource">
+                <SelectValue placeholder="Select the results to report on" />
+              </SelectTrigger>
+              <SelectContent>
+                {(runs || []).map(run => (
+                  <SelectItem key={run.id} value={run.id}>
+                    {run.name} · {new Date(run.startedAt).toLocaleDateString()}{run.status !== 'completed' ? ` (${run.status.replace('-', ' ')})` : ''}
+                  </SelectItem>
+                ))}
+                <SelectItem value={DATE_RANGE}>Date range: latest result of every test case</SelectItem>
+              </SelectContent>
+            </Select>
+            {resultSource === DATE_RANGE && (
+              <div className="grid grid-cols-2 gap-2">
+                <Input
+                  type="date"
+                  aria-label="From"
+                  value={periodStart}
+                  max={periodEnd}
+                  onChange={(e) => setPeriodStart(e.target.value)}
+                  disabled={loading}
+                />
+                <Input
+                  type="date"
+                  aria-label="To"
+                  value={periodEnd}
+                  min={periodStart}
+                  onChange={(e) => setPeriodEnd(e.target.value)}
+                  disabled={loading}
+                />
+              </div>
+            )}
+            {selectedRun && (selectedRun.environment || selectedRun.buildVersion) && (
+              <p className="text-xs text-muted-foreground">
+                {[selectedRun.environment && `Environment: ${selectedRun.environment}`, selectedRun.buildVersion && `Build: ${selectedRun.buildVersion}`]
+                  .filter(Boolean).join(' · ')}
+              </p>
+            )}
+          </div>
+
+          <div className="space-y-2">
+            <Label className="flex items-center gap-2">
+              Test Cases Status Overview
+              {casesLoading && <Loader2 className="h-3 w-3 animate-spin text-muted-foreground" />}
+            </Label>
             <div className="flex flex-wrap gap-2">
-              {['passed', 'failed', 'blocked', 'pending'].map(status => {
+              {['passed', 'failed', 'blocked', 'skipped', 'pending'].map(status => {
                 const count = testCases.filter(tc => tc.status === status).length;
                 return (
                   <Badge key={status} variant="outline" className={`text-xs ${getStatusColor(status)}`}>
@@ -251,41 +587,78 @@ export const TestReport = ({ projectId }: TestReportProps) => {
                 );
               })}
             </div>
+            {executionData.comparison && (
+              <p className="text-xs text-muted-foreground">
+                Compared with {executionData.comparison.runName} ({executionData.comparison.passRate}% passed):{' '}
+                {executionData.comparison.newFailures.length} new failures, {executionData.comparison.fixed.length} fixed,{' '}
+                {executionData.comparison.stillFailing.length} still failing
+              </p>
+            )}
           </div>
 
-          <Button 
-            onClick={generateTestReport} 
-            disabled={loading}
-            className="w-full md:w-auto"
-          >
-            {loading ? (
-              <>
-                <Loader2 className="mr-2 h-4 w-4 animate-spin" />
-                Generating Report...
-              </>
-            ) : (
-              <>
-                <FileText className="mr-2 h-4 w-4" />
-                Generate Test Report
-              </>
+          <div className="flex flex-col md:flex-row gap-2">
+            <Button 
+              onClick={generateTestReport} 
+              disabled={loading || casesLoading}
+              className="w-full md:w-auto"
+            >
+              {loading ? (
+                <>
+                  <Loader2 className="mr-2 h-4 w-4 animate-spin" />
+                  Generating Report...
+                </>
+              ) : (
+                <>
+                  <FileText className="mr-2 h-4 w-4" />
+                  Generate Test Report
+                </>
+              )}
+            </Button>
+            {loading && (
+              <Button variant="outline" onClick={cancelGeneration} className="w-full md:w-auto">
+                <Square className="mr-2 h-4 w-4" />
+                Cancel
+              </Button>
             )}
-          </Button>
+          </div>
         </CardContent>
       </Card>
 
       {/* Generated Test Report */}
-      {testReport && (
+      {(testReport || loading) && (
         <Card className="shadow-card">
           <CardHeader>
             <div className="flex justify-between items-start">
               <CardTitle className="flex items-center gap-2">
-                <CheckCircle className="h-5 w-5 text-success" />
-                Generated Test Report
+                {loading ? (
+                  <Loader2 className="h-5 w-5 text-primary animate-spin" />
+                ) : partial ? (
+                  <AlertTriangle className="h-5 w-5 text-warning" />
+                ) : (
+                  <CheckCircle className="h-5 w-5 text-success" />
+                )}
+                {loading ? 'Generating Test Report' : 'Generated Test Report'}
+                <Badge variant="outline" className="text-xs">
+                  {settingsVersion ? `Project settings v${settingsVersion}` : 'Default context'}
+                </Badge>
+                {partial && (
+                  <Badge variant="outline" className="text-xs text-warning">
+                    Partial
+                  </Badge>
+                )}
               </CardTitle>
-              <Button variant="outline" onClick={downloadTestReport}>
-                <Download className="mr-2 h-4 w-4" />
-                Download
-              </Button>
+              <DocumentExportMenu
+                projectId={projectId}
+                document={{
+                  markdown: testReport,
+                  title: `${projectName || 'Project'} Test Report`,
+                  projectName,
+                  fileName: `${projectName || 'project'}-test-report`,
+                  status: partial ? 'Partial draft' : 'Draft',
+                  charts
+                }}
+                disabled={loading || !testReport}
+              />
             </div>
           </CardHeader>
           <CardContent>
@@ -298,14 +671,28 @@ export const TestReport = ({ projectId }: TestReportProps) => {
                   <div>Failed: <span className="font-bold text-destructive">{statistics.failedTests}</span></div>
                   <div>Blocked: <span className="font-bold text-warning">{statistics.blockedTests}</span></div>
                   <div>Pass Rate: <span className="font-bold">{statistics.passRate}%</span></div>
+                  {statistics.totalDurationSeconds > 0 && (
+                    <div>Duration: <span className="font-bold">{formatDuration(statistics.totalDurationSeconds)}</span></div>
+                  )}
+                  {statistics.linkedDefects > 0 && (
+                    <div>Defects: <span className="font-bold">{statistics.linkedDefects}</span></div>
+                  )}
                 </div>
               </div>
             )}
-            <div className="bg-muted/50 p-4 rounded-lg">
-              <pre className="whitespace-pre-wrap text-sm font-mono overflow-auto max-h-96">
-                {testReport}
-              </pre>
-            </div>
+            <DocumentEditor
+              documentId={reportId}
+              value={testReport}
+              onChange={setTestReport}
+              lockedSections={lockedSections}
+              onLockedSectionsChange={setLockedSections}
+              onRegenerateSection={regenerateReportSection}
+              readOnly={loading}
+              readOnlyReason={loading ? 'Generating...' : undefined}
+              saveStatus={autosave.status}
+              placeholder="Waiting for the first words..."
+              charts={charts}
+            />
           </CardContent>
         </Card>
       )}
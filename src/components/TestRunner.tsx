@@ -0,0 +1,551 @@
+import { useState, useEffect, useRef } from "react";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Textarea } from "@/components/ui/textarea";
+import { Badge } from "@/components/ui/badge";
+import { Checkbox } from "@/components/ui/checkbox";
+import { Progress } from "@/components/ui/progress";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog";
+import { useToast } from "@/hooks/use-toast";
+import { useAuth } from "@/hooks/useAuth";
+import { supabase } from "@/integrations/supabase/client";
+import { TestStep } from "@/lib/testSteps";
+import {
+  PlayCircle,
+  CheckCircle,
+  XCircle,
+  Clock,
+  SkipForward,
+  ChevronLeft,
+  ChevronRight,
+  Flag
+} from "lucide-react";
+
+export type ExecutionStatus = 'not-run' | 'passed' | 'failed' | 'blocked' | 'skipped';
+
+export interface RunnableTestCase {
+  id: string;
+  title: string;
+  description: string;
+  steps: TestStep[];
+  expectedResult: string;
+  priority: 'low' | 'medium' | 'high';
+  userStoryTitle: string;
+}
+
+interface CaseExecution {
+  resultId: string;
+  status: ExecutionStatus;
+  actualResult: string;
+  notes: string;
+  // Comma separated defect keys or URLs
+  defects: string;
+  completedSteps: number[];
+}
+
+interface TestRunnerProps {
+  projectId: string;
+  testCases: RunnableTestCase[];
+  isOpen: boolean;
+  onClose: () => void;
+  onCompleted: () => void;
+}
+
+export const TestRunner = ({ projectId, testCases, isOpen, onClose, onCompleted }: TestRunnerProps) => {
+  const { toast } = useToast();
+  const { session } = useAuth();
+  const [phase, setPhase] = useState<'setup' | 'executing' | 'summary'>('setup');
+  const [runDetails, setRunDetails] = useState({
+    name: '',
+    buildVersion: '',
+    environment: '',
+    testerName: ''
+  });
+  const [runId, setRunId] = useState<string | null>(null);
+  const [currentIndex, setCurrentIndex] = useState(0);
+  const [executions, setExecutions] = useState<Record<string, CaseExecution>>({});
+  const [isSaving, setIsSaving] = useState(false);
+  // When the current case was opened, for the execution's duration
+  const caseOpenedAt = useRef(Date.now());
+
+  // Reset the wizard every time it is opened for a new selection
+  useEffect(() => {
+    if (isOpen) {
+      setPhase('setup');
+      setRunId(null);
+      setCurrentIndex(0);
+      setExecutions({});
+      setRunDetails({
+        name: `Test Run ${new Date().toLocaleDateString()}`,
+        buildVersion: '',
+        environment: '',
+        testerName: session?.user?.user_metadata?.display_name || session?.user?.email || ''
+      });
+    }
+  }, [isOpen]);
+
+  useEffect(() => {
+    caseOpenedAt.current = Date.now();
+  }, [currentIndex, phase]);
+
+  const currentCase = testCases[currentIndex];
+  const currentExecution = currentCase ? executions[currentCase.id] : undefined;
+  const executedCount = Object.values(executions).filter(e => e.status !== 'not-run').length;
+
+  const startRun = async () => {
+    if (!session?.user?.id) return;
+
+    if (!runDetails.name.trim()) {
+      toast({
+        title: "Error",
+        description: "Please enter a run name",
+        variant: "destructive",
+      });
+      return;
+    }
+
+    setIsSaving(true);
+    try {
+      const { data: run, error: runError } = await supabase
+        .from('test_runs')
+        .insert({
+          project_id: projectId,
+          name: runDetails.name.trim(),
+          build_version: runDetails.buildVersion.trim() || null,
+          environment: runDetails.environment.trim() || null,
+          tester_id: session.user.id,
+          tester_name: runDetails.testerName.trim() || null,
+          status: 'in-progress'
+        })
+        .select('id')
+        .single();
+
+      if (runError) throw runError;
+
+      // Pre-create a pending result per case so an interrupted run still shows what was planned
+      const { data: results, error: resultsError } = await supabase
+        .from('test_run_results')
+        .insert(testCases.map(tc => ({
+          run_id: run.id,
+          test_case_id: tc.id,
+          project_id: projectId,
+          status: 'not-run'
+        })))
+        .select('id, test_case_id');
+
+      if (resultsError) throw resultsError;
+
+      const initialExecutions: Record<string, CaseExecution> = {};
+      (results || []).forEach(result => {
+        initialExecutions[result.test_case_id] = {
+          resultId: result.id,
+          status: 'not-run',
+          actualResult: '',
+          notes: '',
+          defects: '',
+          completedSteps: []
+        };
+      });
+
+      setExecutions(initialExecutions);
+      setRunId(run.id);
+      setCurrentIndex(0);
+      setPhase('executing');
+    } catch (error) {
+      console.error('Error starting test run:', error);
+      toast({
+        title: "Error",
+        description: "Failed to start test run",
+        variant: "destructive",
+      });
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  const updateExecution = (testCaseId: string, changes: Partial<CaseExecution>) => {
+    setExecutions(prev => ({
+      ...prev,
+      [testCaseId]: { ...prev[testCaseId], ...changes }
+    }));
+  };
+
+  const toggleStep = (stepIndex: number) => {
+    if (!currentCase || !currentExecution) return;
+    const completedSteps = currentExecution.completedSteps.includes(stepIndex)
+      ? currentExecution.completedSteps.filter(i => i !== stepIndex)
+      : [...currentExecution.completedSteps, stepIndex];
+    updateExecution(currentCase.id, { completedSteps });
+  };
+
+  const recordResult = async (status: ExecutionStatus) => {
+    if (!currentCase || !currentExecution || !session?.user?.id) return;
+
+    setIsSaving(true);
+    try {
+      const { error } = await supabase
+        .from('test_run_results')
+        .update({
+          status,
+          actual_result: currentExecution.actualResult.trim() || null,
+          notes: currentExecution.notes.trim() || null,
+          defects: [...new Set(currentExecution.defects.split(',').map(defect => defect.trim()).filter(Boolean))],
+          duration_seconds: Math.round((Date.now() - caseOpenedAt.current) / 1000),
+          executed_by: session.user.id,
+          executed_at: new Date().toISOString()
+        })
+        .eq('id', currentExecution.resultId);
+
+      if (error) throw error;
+
+      // Keep the case's status column pointing at its latest executed outcome
+      if (status !== 'skipped') {
+        const { error: statusError } = await supabase
+          .from('test_cases')
+          .update({ status })
+          .eq('id', currentCase.id);
+
+        if (statusError) throw statusError;
+      }
+
+      updateExecution(currentCase.id, { status });
+
+      if (currentIndex < testCases.length - 1) {
+        setCurrentIndex(currentIndex + 1);
+      } else {
+        await finishRun();
+      }
+    } catch (error) {
+      console.error('Error recording test result:', error);
+      toast({
+        title: "Error",
+        description: "Failed to save test result",
+        variant: "destructive",
+      });
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  const finishRun = async () => {
+    if (!runId) return;
+
+    try {
+      const { error } = await supabase
+        .from('test_runs')
+        .update({
+          status: 'completed',
+          completed_at: new Date().toISOString()
+        })
+        .eq('id', runId);
+
+      if (error) throw error;
+
+      setPhase('summary');
+      onCompleted();
+    } catch (error) {
+      console.error('Error completing test run:', error);
+      toast({
+        title: "Error",
+        description: "Failed to complete test run",
+        variant: "destructive",
+      });
+    }
+  };
+
+  // Closing before the run is finished marks it aborted; the results recorded so far are kept
+  const closeRunner = async () => {
+    if (phase === 'executing' && runId) {
+      const { error } = await supabase
+        .from('test_runs')
+        .update({
+          status: 'aborted',
+          completed_at: new Date().toISOString()
+        })
+        .eq('id', runId);
+
+      if (error) {
+        console.error('Error aborting test run:', error);
+        toast({
+          title: "Error",
+          description: "Failed to mark the test run as aborted",
+          variant: "destructive",
+        });
+      }
+      onCompleted();
+    }
+    onClose();
+  };
+
+  const getStatusColor = (status: string) => {
+    switch (status) {
+      case 'passed': return 'bg-success text-success-foreground';
+      case 'failed': return 'bg-destructive text-destructive-foreground';
+      case 'blocked': return 'bg-warning text-warning-foreground';
+      default: return 'bg-secondary text-secondary-foreground';
+    }
+  };
+
+  const summaryCounts = (['passed', 'failed', 'blocked', 'skipped', 'not-run'] as ExecutionStatus[]).map(status => ({
+    status,
+    count: Object.values(executions).filter(e => e.status === status).length
+  }));
+
+  return (
+    <Dialog open={isOpen} onOpenChange={(open) => !open && !isSaving && closeRunner()}>
+      <DialogContent className="max-w-3xl max-h-[90vh] overflow-y-auto">
+        {phase === 'setup' && (
+          <>
+            <DialogHeader>
+              <DialogTitle className="flex items-center gap-2">
+                <PlayCircle className="h-5 w-5" />
+                Start Test Run
+              </DialogTitle>
+              <DialogDescription>
+                Record an execution of {testCases.length} selected test case{testCases.length !== 1 ? 's' : ''}.
+              </DialogDescription>
+            </DialogHeader>
+            <div className="grid grid-cols-1 md:grid-cols-2 gap-4 py-4">
+              <div className="space-y-2 md:col-span-2">
+                <Label htmlFor="run-name">Run Name</Label>
+                <Input
+                  id="run-name"
+                  value={runDetails.name}
+                  onChange={(e) => setRunDetails({ ...runDetails, name: e.target.value })}
+                />
+              </div>
+              <div className="space-y-2">
+                <Label htmlFor="run-build">Build / Version</Label>
+                <Input
+                  id="run-build"
+                  placeholder="e.g., 2.4.0-rc1"
+                  value={runDetails.buildVersion}
+                  onChange={(e) => setRunDetails({ ...runDetails, buildVersion: e.target.value })}
+                />
+              </div>
+              <div className="space-y-2">
+                <Label htmlFor="run-environment">Environment</Label>
+                <Input
+                  id="run-environment"
+                  placeholder="e.g., QA, Staging"
+                  value={runDetails.environment}
+                  onChange={(e) => setRunDetails({ ...runDetails, environment: e.target.value })}
+                />
+              </div>
+              <div className="space-y-2 md:col-span-2">
+                <Label htmlFor="run-tester">Tester</Label>
+                <Input
+                  id="run-tester"
+                  value={runDetails.testerName}
+                  onChange={(e) => setRunDetails({ ...runDetails, testerName: e.target.value })}
+                />
+              </div>
+            </div>
+            <DialogFooter>
+              <Button variant="outline" onClick={onClose}>
+                Cancel
+              </Button>
+              <Button onClick={startRun} disabled={isSaving || testCases.length === 0}>
+                <PlayCircle className="mr-2 h-4 w-4" />
+                {isSaving ? 'Starting...' : 'Start Run'}
+              </Button>
+            </DialogFooter>
+          </>
+        )}
+
+        {phase === 'executing' && currentCase && currentExecution && (
+          <>
+            <DialogHeader>
+              <DialogTitle>{runDetails.name}</DialogTitle>
+              <DialogDescription>
+                Case {currentIndex + 1} of {testCases.length} • {executedCount} executed
+              </DialogDescription>
+            </DialogHeader>
+            <Progress value={(executedCount / testCases.length) * 100} />
+
+            <div className="space-y-4 py-2">
+              <div className="flex items-start justify-between gap-4">
+                <div>
+                  <h3 className="text-lg font-semibold">{currentCase.title}</h3>
+                  <p className="text-sm text-muted-foreground">{currentCase.userStoryTitle}</p>
+                </div>
+                <Badge className={getStatusColor(currentExecution.status)}>
+                  {currentExecution.status.replace('-', ' ')}
+                </Badge>
+              </div>
+
+              {currentCase.description && (
+                <p className="text-sm text-muted-foreground">{currentCase.description}</p>
+              )}
+
+              <div>
+                <h4 className="text-sm font-medium mb-2">Test Steps:</h4>
+                <div className="space-y-2">
+                  {currentCase.steps.map((step, index) => (
+                    <label key={index} className="flex items-start gap-2 text-sm cursor-pointer">
+                      <Checkbox
+                        checked={currentExecution.completedSteps.includes(index)}
+                        onCheckedChange={() => toggleStep(index)}
+                        className="mt-0.5"
+                      />
+                      <span className="font-mono text-muted-foreground">{index + 1}.</span>
+                      <div className="space-y-1">
+                        <p className={currentExecution.completedSteps.includes(index) ? 'line-through text-muted-foreground' : ''}>
+                          {step.action}
+                        </p>
+                        {step.testData && (
+                          <p className="text-xs text-muted-foreground">
+                            <span className="font-medium">Data:</span> {step.testData}
+                          </p>
+                        )}
+                        {step.expectedResult && (
+                          <p className="text-xs text-muted-foreground">
+                            <span className="font-medium">Expected:</span> {step.expectedResult}
+                          </p>
+                        )}
+                      </div>
+                    </label>
+                  ))}
+                  {currentCase.steps.length === 0 && (
+                    <p className="text-sm text-muted-foreground">No steps defined for this test case.</p>
+                  )}
+                </div>
+              </div>
+
+              <div>
+                <h4 className="text-sm font-medium mb-2">Expected Result:</h4>
+                <p className="text-xs text-muted-foreground bg-gradient-hero p-3 rounded">
+                  {currentCase.expectedResult || 'Not specified'}
+                </p>
+              </div>
+
+              <div className="space-y-2">
+                <Label htmlFor="actual-result">Actual Result</Label>
+                <Textarea
+                  id="actual-result"
+                  placeholder="What actually happened?"
+                  value={currentExecution.actualResult}
+                  onChange={(e) => updateExecution(currentCase.id, { actualResult: e.target.value })}
+                  rows={3}
+                />
+              </div>
+              <div className="space-y-2">
+                <Label htmlFor="execution-notes">Notes</Label>
+                <Textarea
+                  id="execution-notes"
+                  placeholder="Environment details, observations, follow-ups..."
+                  value={currentExecution.notes}
+                  onChange={(e) => updateExecution(currentCase.id, { notes: e.target.value })}
+                  rows={2}
+                />
+              </div>
+              <div className="space-y-2">
+                <Label htmlFor="execution-defects">Linked Defects</Label>
+                <Input
+                  id="execution-defects"
+                  placeholder="Defect keys or URLs, comma separated (e.g. PROJ-142)"
+                  value={currentExecution.defects}
+                  onChange={(e) => updateExecution(currentCase.id, { defects: e.target.value })}
+                />
+              </div>
+            </div>
+
+            <div className="flex flex-wrap gap-2">
+              <Button
+                className="bg-success text-success-foreground hover:bg-success/90"
+                onClick={() => recordResult('passed')}
+                disabled={isSaving}
+              >
+                <CheckCircle className="mr-2 h-4 w-4" />
+                Pass
+              </Button>
+              <Button
+                variant="destructive"
+                onClick={() => recordResult('failed')}
+                disabled={isSaving}
+              >
+                <XCircle className="mr-2 h-4 w-4" />
+                Fail
+              </Button>
+              <Button
+                className="bg-warning text-warning-foreground hover:bg-warning/90"
+                onClick={() => recordResult('blocked')}
+                disabled={isSaving}
+              >
+                <Clock className="mr-2 h-4 w-4" />
+                Blocked
+              </Button>
+              <Button
+                variant="outline"
+                onClick={() => recordResult('skipped')}
+                disabled={isSaving}
+              >
+                <SkipForward className="mr-2 h-4 w-4" />
+                Skip
+              </Button>
+            </div>
+
+            <DialogFooter className="flex flex-col sm:flex-row sm:justify-between gap-2">
+              <div className="flex gap-2">
+                <Button
+                  variant="outline"
+                  size="sm"
+                  onClick={() => setCurrentIndex(currentIndex - 1)}
+                  disabled={currentIndex === 0 || isSaving}
+                >
+                  <ChevronLeft className="mr-1 h-4 w-4" />
+                  Previous
+                </Button>
+                <Button
+                  variant="outline"
+                  size="sm"
+                  onClick={() => setCurrentIndex(currentIndex + 1)}
+                  disabled={currentIndex === testCases.length - 1 || isSaving}
+                >
+                  Next
+                  <ChevronRight className="ml-1 h-4 w-4" />
+                </Button>
+              </div>
+              <Button variant="outline" onClick={finishRun} disabled={isSaving}>
+                <Flag className="mr-2 h-4 w-4" />
+                Finish Run
+              </Button>
+            </DialogFooter>
+          </>
+        )}
+
+        {phase === 'summary' && (
+          <>
+            <DialogHeader>
+              <DialogTitle className="flex items-center gap-2">
+                <CheckCircle className="h-5 w-5 text-success" />
+                Run Complete
+              </DialogTitle>
+              <DialogDescription>
+                Results for "{runDetails.name}" have been saved to the execution history.
+              </DialogDescription>
+            </DialogHeader>
+            <div className="flex flex-wrap gap-2 py-4">
+              {summaryCounts.map(({ status, count }) => (
+                <Badge key={status} className={getStatusColor(status)}>
+                  {status.replace('-', ' ')}: {count}
+                </Badge>
+              ))}
+            </div>
+            <DialogFooter>
+              <Button onClick={onClose}>Close</Button>
+            </DialogFooter>
+          </>
+        )}
+      </DialogContent>
+    </Dialog>
+  );
+};
@@ -0,0 +1,429 @@
+import { useState, useEffect } from "react";
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { Badge } from "@/components/ui/badge";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@/components/ui/table";
+import { useToast } from "@/hooks/use-toast";
+import { supabase } from "@/integrations/supabase/client";
+import { AcceptanceCriterion, parseAcceptanceCriteria, resolveCoveredCriteria } from "@/lib/acceptanceCriteria";
+import * as XLSX from 'xlsx';
+import {
+  Network,
+  Download,
+  FileText,
+  AlertTriangle,
+  XCircle,
+  CheckCircle,
+  ExternalLink
+} from "lucide-react";
+
+interface TraceabilityProps {
+  projectId: string;
+}
+
+interface LatestResult {
+  status: string;
+  executedAt: string | null;
+  runName: string;
+}
+
+interface TracedTestCase {
+  id: string;
+  title: string;
+  priority: string;
+  coveredCriteria: string[];
+  latestResult: LatestResult | null;
+}
+
+interface TracedStory {
+  id: string;
+  title: string;
+  reference: string;
+  externalUrl?: string;
+  criteria: AcceptanceCriterion[];
+  testCases: TracedTestCase[];
+  hasNoCases: boolean;
+  hasOnlyFailingCases: boolean;
+  uncoveredCriteria: string[];
+}
+
+type StoryFilter = 'all' | 'gaps' | 'no-cases' | 'failing';
+
+// Stories with cases where every executed case last failed and nothing has passed since
+const onlyFailing = (testCases: TracedTestCase[]) => {
+  const executed = testCases.filter(tc => tc.latestResult);
+  return executed.length > 0 && executed.every(tc => tc.latestResult!.status === 'failed');
+};
+
+export const Traceability = ({ projectId }: TraceabilityProps) => {
+  const { toast } = useToast();
+  const [stories, setStories] = useState<TracedStory[]>([]);
+  const [isLoading, setIsLoading] = useState(false);
+  const [filter, setFilter] = useState<StoryFilter>('all');
+
+  useEffect(() => {
+    if (projectId) {
+      loadTraceability();
+    }
+  }, [projectId]);
+
+  const loadTraceability = async () => {
+    setIsLoading(true);
+    try {
+      const [storiesResponse, testCasesResponse, resultsResponse] = await Promise.all([
+        supabase
+          .from('user_stories')
+          .select('id, title, acceptance_criteria, external_id, external_url')
+          .eq('project_id', projectId)
+          .order('created_at', { ascending: true }),
+        supabase
+          .from('test_cases')
+          .select('id, title, priority, user_story_id, covered_criteria')
+          .eq('project_id', projectId)
+          .order('created_at', { ascending: true }),
+        supabase
+          .from('latest_test_case_results')
+          .select('test_case_id, status, executed_at, run_name')
+          .eq('project_id', projectId)
+      ]);
+
+      if (storiesResponse.error) throw storiesResponse.error;
+      if (testCasesResponse.error) throw testCasesResponse.error;
+      if (resultsResponse.error) throw resultsResponse.error;
+
+      // The view holds one row per test case: its latest executed result
+      const latestResults = new Map<string, LatestResult>();
+      for (const result of resultsResponse.data || []) {
+        if (!result.test_case_id) continue;
+        latestResults.set(result.test_case_id, {
+          status: result.status || 'not-run',
+          executedAt: result.executed_at,
+          runName: result.run_name || 'Unknown Run'
+        });
+      }
+
+      const tracedStories: TracedStory[] = (storiesResponse.data || []).map(story => {
+        const criteria = parseAcceptanceCriteria(story.acceptance_criteria);
+        const testCases: TracedTestCase[] = (testCasesResponse.data || [])
+          .filter(tc => tc.user_story_id === story.id)
+          .map(tc => ({
+            id: tc.id,
+            title: tc.title,
+            priority: tc.priority || 'medium',
+            coveredCriteria: resolveCoveredCriteria(criteria, tc.covered_criteria || []),
+            latestResult: latestResults.get(tc.id) || null
+          }));
+        const covered = new Set(testCases.flatMap(tc => tc.coveredCriteria));
+
+        return {
+          id: story.id,
+          title: story.title,
+          reference: story.external_id || '',
+          externalUrl: story.external_url || undefined,
+          criteria,
+          testCases,
+          hasNoCases: testCases.length === 0,
+          hasOnlyFailingCases: onlyFailing(testCases),
+          uncoveredCriteria: criteria.filter(criterion => !covered.has(criterion.id)).map(criterion => criterion.label)
+        };
+      });
+
+      setStories(tracedStories);
+    } catch (error) {
+      console.error('Error loading traceability data:', error);
+      toast({
+        title: "Error",
+        description: "Failed to load traceability data",
+        variant: "destructive",
+      });
+    } finally {
+      setIsLoading(false);
+    }
+  };
+
+  const filteredStories = stories.filter(story => {
+    switch (filter) {
+      case 'gaps': return story.hasNoCases || story.hasOnlyFailingCases || story.uncoveredCriteria.length > 0;
+      case 'no-cases': return story.hasNoCases;
+      case 'failing': return story.hasOnlyFailingCases;
+      default: return true;
+    }
+  });
+
+  const totalCriteria = stories.reduce((sum, story) => sum + story.criteria.length, 0);
+  const coveredCriteriaCount = stories.reduce((sum, story) => sum + story.criteria.length - story.uncoveredCriteria.length, 0);
+
+  const getResultColor = (status?: string) => {
+    switch (status) {
+      case 'passed': return 'bg-success text-success-foreground';
+      case 'failed': return 'bg-destructive text-destructive-foreground';
+      case 'blocked': return 'bg-warning text-warning-foreground';
+      default: return 'bg-secondary text-secondary-foreground';
+    }
+  };
+
+  const getStoryFlags = (story: TracedStory): string[] => [
+    story.hasNoCases ? 'No test cases' : '',
+    story.hasOnlyFailingCases ? 'Only failing cases' : '',
+    story.uncoveredCriteria.length > 0 ? `Uncovered: ${story.uncoveredCriteria.join(', ')}` : ''
+  ].filter(Boolean);
+
+  // One row per story / test case pair; stories without cases still get a row so gaps show up
+  const buildMatrixRows = () =>
+    filteredStories.flatMap(story => {
+      const storyColumns = {
+        'Story Reference': story.reference,
+        'Story': story.title,
+        'Acceptance Criteria': story.criteria.map(criterion => `${criterion.label}: ${criterion.text}`).join('\n'),
+        'Flags': getStoryFlags(story).join('; ')
+      };
+
+      if (story.testCases.length === 0) {
+        return [{
+          ...storyColumns,
+          'Test Case ID': '',
+          'Test Case': '',
+          'Priority': '',
+          'Covers Criteria': '',
+          'Latest Result': '',
+          'Last Executed': '',
+          'Run': ''
+        }];
+      }
+
+      return story.testCases.map(tc => ({
+        ...storyColumns,
+        'Test Case ID': tc.id,
+        'Test Case': tc.title,
+        'Priority': tc.priority,
+        'Covers Criteria': story.criteria
+          .filter(criterion => tc.coveredCriteria.includes(criterion.id))
+          .map(criterion => criterion.label)
+          .join(', '),
+        'Latest Result': tc.latestResult?.status || 'not run',
+        'Last Executed': tc.latestResult?.executedAt ? new Date(tc.latestResult.executedAt).toLocaleString() : '',
+        'Run': tc.latestResult?.runName || ''
+      }));
+    });
+
+  const buildCriteriaRows = () =>
+    filteredStories.flatMap(story =>
+      story.criteria.map(criterion => {
+        const coveringCases = story.testCases.filter(tc => tc.coveredCriteria.includes(criterion.id));
+        return {
+          'Story Reference': story.reference,
+          'Story': story.title,
+          'Criterion ID': criterion.label,
+          'Criterion': criterion.text,
+          'Covering Test Cases': coveringCases.map(tc => tc.title).join('\n'),
+          'Latest Results': coveringCases.map(tc => tc.latestResult?.status || 'not run').join('\n'),
+          'Covered': coveringCases.length > 0 ? 'Yes' : 'No'
+        };
+      })
+    );
+
+  const exportExcel = () => {
+    const wb = XLSX.utils.book_new();
+    XLSX.utils.book_append_sheet(wb, XLSX.utils.json_to_sheet(buildMatrixRows()), 'Traceability Matrix');
+    XLSX.utils.book_append_sheet(wb, XLSX.utils.json_to_sheet(buildCriteriaRows()), 'Criteria Coverage');
+    XLSX.writeFile(wb, 'traceability-matrix.xlsx');
+
+    toast({
+      title: "Export Complete",
+      description: "Traceability matrix exported to Excel successfully",
+    });
+  };
+
+  const exportCsv = () => {
+    const csv = XLSX.utils.sheet_to_csv(XLSX.utils.json_to_sheet(buildMatrixRows()));
+    const blob = new Blob([csv], { type: 'text/csv;charset=utf-8' });
+    const url = URL.createObjectURL(blob);
+    const a = document.createElement('a');
+    a.href = url;
+    a.download = 'traceability-matrix.csv';
+    document.body.appendChild(a);
+    a.click();
+    document.body.removeChild(a);
+    URL.revokeObjectURL(url);
+
+    toast({
+      title: "Export Complete",
+      description: "Traceability matrix exported to CSV successfully",
+    });
+  };
+
+  return (
+    <div className="space-y-6">
+      <div className="flex flex-col lg:flex-row lg:items-center lg:justify-between gap-4">
+        <div>
+          <h2 className="text-3xl font-bold">Traceability</h2>
+          <p className="text-muted-foreground">
+            Requirements to test cases to latest results {isLoading && '(Loading...)'}
+          </p>
+        </div>
+        <div className="flex gap-2">
+          <Select value={filter} onValueChange={(value) => setFilter(value as StoryFilter)}>
+            <SelectTrigger className="w-48">
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              <SelectItem value="all">All stories</SelectItem>
+              <SelectItem value="gaps">Stories with gaps</SelectItem>
+              <SelectItem value="no-cases">No test cases</SelectItem>
+              <SelectItem value="failing">Only failing cases</SelectItem>
+            </SelectContent>
+          </Select>
+          <Button variant="outline" onClick={exportExcel} disabled={isLoading || filteredStories.length === 0}>
+            <Download className="mr-2 h-4 w-4" />
+            Export Excel
+          </Button>
+          <Button variant="outline" onClick={exportCsv} disabled={isLoading || filteredStories.length === 0}>
+            <FileText className="mr-2 h-4 w-4" />
+            Export CSV
+          </Button>
+        </div>
+      </div>
+
+      {/* Summary */}
+      <div className="grid grid-cols-2 lg:grid-cols-4 gap-4">
+        <Card className="shadow-card">
+          <CardContent className="p-4">
+            <p className="text-sm text-muted-foreground">Stories</p>
+            <p className="text-2xl font-bold">{stories.length}</p>
+          </CardContent>
+        </Card>
+        <Card className="shadow-card">
+          <CardContent className="p-4">
+            <p className="text-sm text-muted-foreground">Without test cases</p>
+            <p className="text-2xl font-bold">{stories.filter(story => story.hasNoCases).length}</p>
+          </CardContent>
+        </Card>
+        <Card className="shadow-card">
+          <CardContent className="p-4">
+            <p className="text-sm text-muted-foreground">Only failing cases</p>
+            <p className="text-2xl font-bold">{stories.filter(story => story.hasOnlyFailingCases).length}</p>
+          </CardContent>
+        </Card>
+        <Card className="shadow-card">
+          <CardContent className="p-4">
+            <p className="text-sm text-muted-foreground">Criteria covered</p>
+            <p className="text-2xl font-bold">
+              {totalCriteria > 0 ? `${Math.round((coveredCriteriaCount / totalCriteria) * 100)}%` : '—'}
+            </p>
+            <p className="text-xs text-muted-foreground">{coveredCriteriaCount} of {totalCriteria}</p>
+          </CardContent>
+        </Card>
+      </div>
+
+      {/* Matrix per story */}
+      <div className="space-y-4">
+        {filteredStories.map(story => {
+          const flags = getStoryFlags(story);
+          // Stories without parsed criteria are traced as a whole
+          const rows = story.criteria.length > 0
+            ? story.criteria
+            : [{ id: '', label: '', text: 'Story (no acceptance criteria)' }];
+
+          return (
+            <Card key={story.id} className="shadow-card">
+              <CardHeader>
+                <div className="flex items-start justify-between gap-4">
+                  <div>
+                    <CardTitle className="text-lg flex items-center gap-2">
+                      {story.title}
+                      {story.externalUrl && (
+                        <a href={story.externalUrl} target="_blank" rel="noopener noreferrer" title={`Open ${story.reference}`}>
+                          <ExternalLink className="h-4 w-4 text-muted-foreground" />
+                        </a>
+                      )}
+                    </CardTitle>
+                    <p className="text-sm text-muted-foreground">
+                      {story.reference && `${story.reference} • `}
+                      {story.testCases.length} test case{story.testCases.length !== 1 ? 's' : ''} • {story.criteria.length} criteri{story.criteria.length !== 1 ? 'a' : 'on'}
+                    </p>
+                  </div>
+                  <div className="flex flex-wrap justify-end gap-1">
+                    {flags.length === 0 ? (
+                      <Badge className="bg-success text-success-foreground">
+                        <CheckCircle className="mr-1 h-3 w-3" />
+                        Traced
+                      </Badge>
+                    ) : flags.map(flag => (
+                      <Badge key={flag} className={flag.startsWith('Uncovered') ? 'bg-warning text-warning-foreground' : 'bg-destructive text-destructive-foreground'}>
+                        {flag.startsWith('Uncovered') ? <AlertTriangle className="mr-1 h-3 w-3" /> : <XCircle className="mr-1 h-3 w-3" />}
+                        {flag}
+                      </Badge>
+                    ))}
+                  </div>
+                </div>
+              </CardHeader>
+              <CardContent>
+                {story.testCases.length === 0 ? (
+                  <p className="text-sm text-muted-foreground">No test cases are linked to this story.</p>
+                ) : (
+                  <div className="overflow-x-auto">
+                    <Table>
+                      <TableHeader>
+                        <TableRow>
+                          <TableHead className="min-w-64">Acceptance Criterion</TableHead>
+                          {story.testCases.map(tc => (
+                            <TableHead key={tc.id} className="min-w-32 align-bottom">
+                              <div className="space-y-1 py-2">
+                                <div className="text-xs font-medium line-clamp-2" title={tc.title}>{tc.title}</div>
+                                <Badge className={getResultColor(tc.latestResult?.status)} title={tc.latestResult ? `${tc.latestResult.runName}${tc.latestResult.executedAt ? ` • ${new Date(tc.latestResult.executedAt).toLocaleString()}` : ''}` : undefined}>
+                                  {tc.latestResult?.status || 'not run'}
+                                </Badge>
+                              </div>
+                            </TableHead>
+                          ))}
+                        </TableRow>
+                      </TableHeader>
+                      <TableBody>
+                        {rows.map(criterion => (
+                          <TableRow key={criterion.id || 'story'}>
+                            <TableCell className="text-sm">
+                              {criterion.label && <span className="font-medium mr-2">{criterion.label}</span>}
+                              <span className="whitespace-pre-line">{criterion.text}</span>
+                            </TableCell>
+                            {story.testCases.map(tc => {
+                              const linked = !criterion.id || tc.coveredCriteria.includes(criterion.id);
+                              return (
+                                <TableCell key={tc.id} className="text-center">
+                                  {linked && (
+                                    <span
+                                      className={`inline-block h-3 w-3 rounded-full ${getResultColor(tc.latestResult?.status).split(' ')[0]}`}
+                                      aria-label="Covered"
+                                    />
+                                  )}
+                                </TableCell>
+                              );
+                            })}
+                          </TableRow>
+                        ))}
+                      </TableBody>
+                    </Table>
+                  </div>
+                )}
+              </CardContent>
+            </Card>
+          );
+        })}
+
+        {!isLoading && filteredStories.length === 0 && (
+          <Card className="shadow-card">
+            <CardContent className="text-center py-12">
+              <Network className="mx-auto h-12 w-12 text-muted-foreground mb-4" />
+              <h3 className="text-lg font-medium mb-2">No Stories to Trace</h3>
+              <p className="text-muted-foreground">
+                {stories.length === 0
+                  ? 'Add or sync user stories to build the traceability matrix.'
+                  : 'No stories match the selected filter.'}
+              </p>
+            </CardContent>
+          </Card>
+        )}
+      </div>
+    </div>
+  );
+};
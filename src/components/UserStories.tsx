@@ -9,6 +9,10 @@ import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@
 import { useToast } from "@/hooks/use-toast";
 import { useAuth } from "@/hooks/useAuth";
 import { supabase } from "@/integrations/supabase/client";
+import { normalizeTestSteps, readTestSteps, stepsToText } from "@/lib/testSteps";
+import { normalizeTestCategory, normalizeTestType } from "@/lib/testCaseFacets";
+import { parseAcceptanceCriteria, computeCriteriaCoverage } from "@/lib/acceptanceCriteria";
+import { RegenerationReview, RegenerationProposal, RegenerationSummary, ProposedTestCase } from "./RegenerationReview";
 import { 
   Plus, 
   FileText, 
@@ -20,7 +24,8 @@ import {
   Filter,
   RefreshCw,
   Cloud,
-  Trash2
+  Trash2,
+  ChevronDown
 } from "lucide-react";
 import {
   AlertDialog,
@@ -43,6 +48,13 @@ import {
   DialogTrigger,
 } from "@/components/ui/dialog";
 import { Label } from "@/components/ui/label";
+import { Tooltip, TooltipContent, TooltipTrigger } from "@/components/ui/tooltip";
+import {
+  DropdownMenu,
+  DropdownMenuContent,
+  DropdownMenuItem,
+  DropdownMenuTrigger,
+} from "@/components/ui/dropdown-menu";
 
 interface TestCase {
   id: string;
@@ -57,17 +69,73 @@ interface TestCase {
   estimatedTime: string;
 }
 
+type ExternalSource = 'jira' | 'azure-devops';
+
 interface UserStory {
   id: string;
   title: string;
   description: string;
   acceptanceCriteria: string;
-  source: 'manual' | 'jira' | 'azure';
+  source: 'manual' | ExternalSource;
+  externalId?: string;
+  externalUrl?: string;
+  storyPoints?: number;
+  sprint?: string;
   priority: 'low' | 'medium' | 'high';
   status: 'draft' | 'ready' | 'in-progress' | 'completed';
   testCasesGenerated: number;
+  coveredCriteria: string[];
+}
+
+// Story shape returned by the jira-integration and azure-devops-integration functions
+interface SyncedStoryPayload {
+  title: string;
+  description: string;
+  acceptanceCriteria?: string;
+  priority?: string;
+  status?: string;
+  url?: string;
+  updated?: string;
+  storyPoints?: number | null;
+  sprint?: string | null;
+  jiraKey?: string;
+  azureDevOpsId?: number;
+}
+
+interface SyncCounts {
+  created: number;
+  updated: number;
+  unchanged: number;
 }
 
+const SYNC_BATCH_SIZE = 500;
+
+interface ExternalStoryInput {
+  externalId: string;
+  externalUrl?: string;
+  externalUpdatedAt?: string;
+  storyPoints?: number | null;
+  sprint?: string | null;
+  title: string;
+  description: string;
+  acceptanceCriteria: string;
+  priority: string;
+  status: string;
+}
+
+// Edge functions answer non-2xx responses with a JSON body holding the real error message
+const invokeSyncFunction = async (name: string, body: Record<string, unknown>) => {
+  const { data, error } = await supabase.functions.invoke(name, { body });
+  if (error) {
+    const details = await error.context?.json?.().catch(() => null);
+    throw new Error([details?.error || error.message, details?.details].filter(Boolean).join(': '));
+  }
+  if (data?.success === false) {
+    throw new Error(data.error || 'Sync failed');
+  }
+  return data;
+};
+
 interface UserStoriesProps {
   onViewChange: (view: string) => void;
   projectId: string;
@@ -104,6 +172,7 @@ export const UserStories = ({ onViewChange, projectId }: UserStoriesProps) => {
   const [showCustomPromptDialog, setShowCustomPromptDialog] = useState(false);
   const [customPrompt, setCustomPrompt] = useState('');
   const [selectedStoryForRegenerate, setSelectedStoryForRegenerate] = useState<string | null>(null);
+  const [regenerationProposal, setRegenerationProposal] = useState<RegenerationProposal | null>(null);
 
   // Filtered stories
   const filteredStories = stories.filter(story => {
@@ -116,39 +185,6 @@ export const UserStories = ({ onViewChange, projectId }: UserStoriesProps) => {
     return matchesSearch && matchesPriority && matchesStatus && matchesSource;
   });
 
-  // Load saved configurations from localStorage
-  const loadSavedConfigurations = () => {
-    try {
-      const saved = localStorage.getItem('integration-configs');
-      return saved ? JSON.parse(saved) : {};
-    } catch {
-      return {};
-    }
-  };
-
-  // Extract text from Jira's Atlassian Document Format (ADF)
-  const extractTextFromJiraContent = (content: any): string => {
-    if (typeof content === 'string') return content;
-    if (!content) return 'No description available';
-    
-    if (content.content && Array.isArray(content.content)) {
-      const textParts: string[] = [];
-      
-      const extractText = (node: any) => {
-        if (node.type === 'text' && node.text) {
-          textParts.push(node.text);
-        } else if (node.content && Array.isArray(node.content)) {
-          node.content.forEach(extractText);
-        }
-      };
-      
-      content.content.forEach(extractText);
-      return textParts.join(' ').trim() || 'No description available';
-    }
-    
-    return 'No description available';
-  };
-
   // Get or create a default project
   const getOrCreateProject = async () => {
     if (!session?.user?.id) return null;
@@ -199,17 +235,18 @@ export const UserStories = ({ onViewChange, projectId }: UserStoriesProps) => {
 
     setIsLoading(true);
     try {
-      const projectId = await getOrCreateProject();
-      if (!projectId) {
+      // Integration credentials are stored per project, so use the selected project when there is one
+      const resolvedProjectId = projectId || await getOrCreateProject();
+      if (!resolvedProjectId) {
         throw new Error('Failed to get or create project');
       }
 
-      setCurrentProject(projectId);
+      setCurrentProject(resolvedProjectId);
 
       const { data: dbStories, error } = await supabase
         .from('user_stories')
         .select('*')
-        .eq('project_id', projectId)
+        .eq('project_id', resolvedProjectId)
         .order('created_at', { ascending: false });
 
       if (error) {
@@ -218,22 +255,27 @@ export const UserStories = ({ onViewChange, projectId }: UserStoriesProps) => {
 
       const transformedStories: UserStory[] = await Promise.all(
         (dbStories || []).map(async (story) => {
-          // Count test cases for this story
-          const { count } = await supabase
+          // Count test cases for this story and collect the acceptance criteria they cover
+          const { data: storyTestCases } = await supabase
             .from('test_cases')
-            .select('*', { count: 'exact', head: true })
+            .select('covered_criteria')
             .eq('user_story_id', story.id)
-            .eq('project_id', projectId);
+            .eq('project_id', resolvedProjectId);
 
           return {
             id: story.id,
             title: story.title,
             description: story.description || '',
             acceptanceCriteria: story.acceptance_criteria || '',
-            source: 'manual' as const,
+            source: (story.external_source || 'manual') as UserStory['source'],
+            externalId: story.external_id || undefined,
+            externalUrl: story.external_url || undefined,
+            storyPoints: story.story_points ?? undefined,
+            sprint: story.sprint || undefined,
             priority: story.priority as 'low' | 'medium' | 'high',
             status: story.status as 'draft' | 'ready' | 'in-progress' | 'completed',
-            testCasesGenerated: count || 0
+            testCasesGenerated: storyTestCases?.length || 0,
+            coveredCriteria: [...new Set((storyTestCases || []).flatMap(tc => tc.covered_criteria || []))]
           };
         })
       );
@@ -251,8 +293,86 @@ export const UserStories = ({ onViewChange, projectId }: UserStoriesProps) => {
     }
   };
 
+  // Upserts synced stories keyed on their external id so renamed issues update in place.
+  // Stories synced before external ids were tracked are matched by title once and then linked.
+  const upsertExternalStories = async (source: ExternalSource, externalStories: ExternalStoryInput[]): Promise<SyncCounts> => {
+    const counts: SyncCounts = { created: 0, updated: 0, unchanged: 0 };
+    if (!currentProject || externalStories.length === 0) return counts;
+
+    const { data: linkedStories, error: linkedError } = await supabase
+      .from('user_stories')
+      .select('external_id, external_updated_at')
+      .eq('project_id', currentProject)
+      .eq('external_source', source);
+
+    if (linkedError) throw linkedError;
+
+    const linkedUpdatedAt = new Map((linkedStories || []).map(story => [story.external_id, story.external_updated_at]));
+    const unlinkedStories = externalStories.filter(story => !linkedUpdatedAt.has(story.externalId));
+
+    if (unlinkedStories.length > 0) {
+      const { data: legacyStories } = await supabase
+        .from('user_stories')
+        .select('id, title')
+        .eq('project_id', currentProject)
+        .is('external_id', null);
+
+      const claimedIds = new Set<string>();
+      for (const story of unlinkedStories) {
+        const legacyStory = legacyStories?.find(legacy => legacy.title === story.title && !claimedIds.has(legacy.id));
+        if (!legacyStory) continue;
+
+        claimedIds.add(legacyStory.id);
+        await supabase
+          .from('user_stories')
+          .update({ external_source: source, external_id: story.externalId })
+          .eq('id', legacyStory.id);
+        linkedUpdatedAt.set(story.externalId, null);
+      }
+    }
+
+    // Skip issues whose upstream timestamp matches what was stored on the last sync
+    const changedStories = externalStories.filter(story => {
+      if (!linkedUpdatedAt.has(story.externalId)) {
+        counts.created++;
+        return true;
+      }
+      const storedUpdatedAt = linkedUpdatedAt.get(story.externalId);
+      if (storedUpdatedAt && story.externalUpdatedAt &&
+          new Date(storedUpdatedAt).getTime() === new Date(story.externalUpdatedAt).getTime()) {
+        counts.unchanged++;
+        return false;
+      }
+      counts.updated++;
+      return true;
+    });
+
+    for (let i = 0; i < changedStories.length; i += SYNC_BATCH_SIZE) {
+      const { error } = await supabase
+        .from('user_stories')
+        .upsert(changedStories.slice(i, i + SYNC_BATCH_SIZE).map(story => ({
+          project_id: currentProject,
+          title: story.title,
+          description: story.description,
+          acceptance_criteria: story.acceptanceCriteria,
+          priority: story.priority,
+          status: story.status,
+          external_source: source,
+          external_id: story.externalId,
+          external_url: story.externalUrl || null,
+          external_updated_at: story.externalUpdatedAt || null,
+          story_points: story.storyPoints ?? null,
+          sprint: story.sprint ?? null
+        })), { onConflict: 'project_id,external_source,external_id' });
+
+      if (error) throw error;
+    }
+
+    return counts;
+  };
+
   // Load stories from external integrations and sync to database
-  const syncFromIntegrations = async () => {
+  const syncFromIntegrations = async (mode: 'incremental' | 'full' = 'incremental') => {
     if (!session?.user?.id || !currentProject) {
       toast({
         title: "Error",
@@ -263,162 +383,120 @@ export const UserStories = ({ onViewChange, projectId }: UserStoriesProps) => {
     }
 
     setIsSyncing(true);
-    const savedConfigs = loadSavedConfigurations();
-    let syncedCount = 0;
+    const totals: SyncCounts = { created: 0, updated: 0, unchanged: 0 };
+    const addCounts = (counts: SyncCounts) => {
+      totals.created += counts.created;
+      totals.updated += counts.updated;
+      totals.unchanged += counts.unchanged;
+    };
+    let truncated = false;
+    // One entry per integration that could not be synced, e.g. "Jira: Jira API error: 401"
+    const failures: string[] = [];
 
     try {
-      // Sync Jira stories
-      if (savedConfigs.jira?.enabled) {
-        const { url, email, apiToken, projectKey } = savedConfigs.jira;
-        
-        if (url && email && apiToken && projectKey) {
-          try {
-            const response = await fetch(`https://lghzmijzfpvrcvogxpew.supabase.co/functions/v1/jira-integration`, {
-              method: 'POST',
-              headers: {
-                'Content-Type': 'application/json',
-              },
-              body: JSON.stringify({
-                jiraUrl: url,
-                email: email,
-                apiToken: apiToken,
-                projectKey: projectKey
-              })
-            });
+      // Credentials stay server-side; only find out which integrations are enabled for the project
+      const { data: credentialData, error: credentialError } = await supabase.functions.invoke('integration-credentials', {
+        body: { action: 'list', projectId: currentProject }
+      });
+      if (credentialError) throw credentialError;
 
-            const data = await response.json();
-
-            if (data.success && data.stories) {
-              for (const story of data.stories) {
-                // Check if story already exists by title and project_id
-                const { data: existingStory } = await supabase
-                  .from('user_stories')
-                  .select('id')
-                  .eq('project_id', currentProject)
-                  .eq('title', story.title)
-                  .single();
-
-                if (existingStory) {
-                  // Update existing story
-                  const { error } = await supabase
-                    .from('user_stories')
-                    .update({
-                      description: extractTextFromJiraContent(story.description),
-                      acceptance_criteria: story.acceptanceCriteria || '',
-                      priority: story.priority?.toLowerCase() || 'medium',
-                      status: story.status?.toLowerCase().replace(' ', '-') || 'draft'
-                    })
-                    .eq('id', existingStory.id);
-
-                  if (!error) {
-                    syncedCount++;
-                  }
-                } else {
-                  // Insert new story (let database generate UUID)
-                  const { error } = await supabase
-                    .from('user_stories')
-                    .insert({
-                      project_id: currentProject,
-                      title: story.title,
-                      description: extractTextFromJiraContent(story.description),
-                      acceptance_criteria: story.acceptanceCriteria || '',
-                      priority: story.priority?.toLowerCase() || 'medium',
-                      status: story.status?.toLowerCase().replace(' ', '-') || 'draft'
-                    });
-
-                  if (!error) {
-                    syncedCount++;
-                  }
-                }
-              }
+      const enabledIntegrations = new Set<string>(
+        (credentialData?.credentials || [])
+          .filter((credential: { enabled: boolean }) => credential.enabled)
+          .map((credential: { integrationId: string }) => credential.integrationId)
+      );
+
+      // Sync Jira stories
+      if (enabledIntegrations.has('jira')) {
+        try {
+          const data = await invokeSyncFunction('jira-integration', {
+            projectId: currentProject,
+            incremental: mode === 'incremental'
+          });
+
+          if (data?.stories) {
+            truncated = truncated || data.truncated;
+            addCounts(await upsertExternalStories('jira', data.stories.map((story: SyncedStoryPayload) => ({
+              externalId: story.jiraKey!,
+              externalUrl: story.url,
+              externalUpdatedAt: story.updated,
+              storyPoints: story.storyPoints,
+              sprint: story.sprint,
+              title: story.title,
+              description: story.description || '',
+              acceptanceCriteria: story.acceptanceCriteria || '',
+              priority: story.priority?.toLowerCase() || 'medium',
+              status: story.status?.toLowerCase().replace(' ', '-') || 'draft'
+            }))));
+
+            // Only a complete import may move the incremental sync window forward
+            if (!data.truncated) {
+              await supabase.functions.invoke('integration-credentials', {
+                body: { action: 'mark-synced', projectId: currentProject, integrationId: 'jira', syncedAt: data.syncStartedAt }
+              });
             }
-          } catch (error) {
-            console.error('Failed to sync Jira stories:', error);
           }
+        } catch (error) {
+          console.error('Failed to sync Jira stories:', error);
+          failures.push(`Jira: ${error.message}`);
         }
       }
 
       // Sync Azure DevOps stories
-      if (savedConfigs['azure-devops']?.enabled) {
-        const { organizationUrl, projectName, personalAccessToken } = savedConfigs['azure-devops'];
-        
-        if (organizationUrl && projectName && personalAccessToken) {
-          try {
-            const response = await fetch(`https://lghzmijzfpvrcvogxpew.supabase.co/functions/v1/azure-devops-integration`, {
-              method: 'POST',
-              headers: {
-                'Content-Type': 'application/json',
-              },
-              body: JSON.stringify({
-                organizationUrl,
-                projectName,
-                personalAccessToken
-              })
-            });
-
-            const data = await response.json();
-
-            if (data.success && data.stories) {
-              for (const story of data.stories) {
-                // Check if story already exists by title and project_id
-                const { data: existingStory } = await supabase
-                  .from('user_stories')
-                  .select('id')
-                  .eq('project_id', currentProject)
-                  .eq('title', story.title)
-                  .single();
-
-                if (existingStory) {
-                  // Update existing story
-                  const { error } = await supabase
-                    .from('user_stories')
-                    .update({
-                      description: story.description,
-                      acceptance_criteria: story.acceptanceCriteria || '',
-                      priority: story.priority || 'medium',
-                      status: story.status || 'draft'
-                    })
-                    .eq('id', existingStory.id);
-
-                  if (!error) {
-                    syncedCount++;
-                  }
-                } else {
-                  // Insert new story (let database generate UUID)
-                  const { error } = await supabase
-                    .from('user_stories')
-                    .insert({
-                      project_id: currentProject,
-                      title: story.title,
-                      description: story.description,
-                      acceptance_criteria: story.acceptanceCriteria || '',
-                      priority: story.priority || 'medium',
-                      status: story.status || 'draft'
-                    });
-
-                  if (!error) {
-                    syncedCount++;
-                  }
-                }
-              }
-            }
-          } catch (error) {
-            console.error('Failed to sync Azure DevOps stories:', error);
+      if (enabledIntegrations.has('azure-devops')) {
+        try {
+          const data = await invokeSyncFunction('azure-devops-integration', { projectId: currentProject });
+
+          if (data?.stories) {
+            addCounts(await upsertExternalStories('azure-devops', data.stories.map((story: SyncedStoryPayload) => ({
+              externalId: String(story.azureDevOpsId),
+              externalUrl: story.url,
+              externalUpdatedAt: story.updated,
+              storyPoints: story.storyPoints,
+              sprint: story.sprint,
+              title: story.title,
+              description: story.description || '',
+              acceptanceCriteria: story.acceptanceCriteria || '',
+              priority: story.priority || 'medium',
+              status: story.status || 'draft'
+            }))));
           }
+        } catch (error) {
+          console.error('Failed to sync Azure DevOps stories:', error);
+          failures.push(`Azure DevOps: ${error.message}`);
         }
       }
 
-      if (syncedCount > 0) {
+      const summary = `${totals.created} created, ${totals.updated} updated, ${totals.unchanged} unchanged`;
+      const changed = totals.created + totals.updated > 0;
+      if (failures.length > 0) {
+        // Stories from the sources that did sync are kept, but the sync is not reported as done
+        toast({
+          title: changed ? "Sync Incomplete" : "Sync Failed",
+          description: `${failures.join('. ')}${changed ? `. Other sources: ${summary}` : ''}`,
+          variant: "destructive",
+        });
+        if (changed) await loadStoriesFromDatabase();
+      } else if (truncated) {
+        toast({
+          title: "Sync Incomplete",
+          description: `${summary}. The import limit was reached; narrow the JQL filter to import the rest.`,
+          variant: "destructive",
+        });
+        await loadStoriesFromDatabase();
+      } else if (changed) {
         toast({
           title: "Sync Complete",
-          description: `Synced ${syncedCount} user stories from external systems`,
+          description: summary,
         });
         // Reload stories from database
         await loadStoriesFromDatabase();
       } else {
         toast({
           title: "No Changes",
-          description: "No new stories to sync from external systems",
+          description: totals.unchanged > 0
+            ? `All ${totals.unchanged} synced stories are up to date`
+            : "No new stories to sync from external systems",
         });
       }
     } catch (error) {
@@ -438,7 +516,7 @@ export const UserStories = ({ onViewChange, projectId }: UserStoriesProps) => {
     if (session?.user?.id) {
       loadStoriesFromDatabase();
     }
-  }, [session?.user?.id]);
+  }, [session?.user?.id, projectId]);
 
   const handleAddStory = async () => {
     if (!newStory.title || !newStory.description) {
@@ -485,7 +563,8 @@ export const UserStories = ({ onViewChange, projectId }: UserStoriesProps) => {
         source: 'manual',
         priority: data.priority as 'low' | 'medium' | 'high',
         status: data.status as 'draft' | 'ready' | 'in-progress' | 'completed',
-        testCasesGenerated: 0
+        testCasesGenerated: 0,
+        coveredCriteria: []
       };
 
       setStories(prev => [newUserStory, ...prev]);
@@ -519,18 +598,6 @@ export const UserStories = ({ onViewChange, projectId }: UserStoriesProps) => {
       return;
     }
 
-    // Check if Azure OpenAI is configured
-    const savedConfigs = loadSavedConfigurations();
-    const azureConfig = savedConfigs.openai;
-    if (!azureConfig?.endpoint || !azureConfig?.apiKey || !azureConfig?.deploymentId) {
-      toast({
-        title: "Azure OpenAI Not Configured",
-        description: "Please configure Azure OpenAI in integrations first",
-        variant: "destructive",
-      });
-      return;
-    }
-
     try {
       const response = await fetch(`https://lghzmijzfpvrcvogxpew.supabase.co/functions/v1/generate-test-cases`, {
         method: 'POST',
@@ -545,37 +612,100 @@ export const UserStories = ({ onViewChange, projectId }: UserStoriesProps) => {
             description: story.description,
             acceptanceCriteria: story.acceptanceCriteria,
             priority: story.priority,
-            issueType: 'Story'
+            issueType: 'Story',
+            storyPoints: story.storyPoints,
+            externalId: story.externalId
           },
-          azureConfig,
-          customPrompt
+          customPrompt,
+          projectId: currentProject
         })
       });
 
       const data = await response.json();
 
+      // The function drops generated cases that fail validation; list them with the reasons
+      const skippedNotes: string[] = [
+        ...(data.warnings || []),
+        ...(data.rejected || []).map((entry: { index: number; title: string | null; errors: string[] }) =>
+          `Skipped "${entry.title || `test case ${entry.index + 1}`}": ${entry.errors.join('; ')}`)
+      ];
+
+      if (!data.success) {
+        throw new Error([data.error || 'Failed to generate test cases', ...skippedNotes].join('. '));
+      }
+
       if (data.success && data.testCases) {
         if (!currentProject) {
           throw new Error('No project selected');
         }
 
-        // Delete existing test cases for this user story (for regeneration)
-        await supabase
+        const proposed: ProposedTestCase[] = data.testCases.map((testCase: any) => ({
+          title: testCase.title || testCase.name || 'Test Case',
+          description: testCase.description || '',
+          steps: normalizeTestSteps(testCase.steps),
+          expectedResult: testCase.expectedResult || testCase.expected || '',
+          priority: (testCase.priority || 'medium').toLowerCase(),
+          testType: normalizeTestType(testCase.type),
+          category: normalizeTestCategory(testCase.category),
+          generatedByModel: testCase.model || null,
+          promptHash: testCase.promptHash || null,
+          generatedAt: testCase.generatedAt || new Date().toISOString(),
+          coveredCriteria: Array.isArray(testCase.coversCriteria) ? testCase.coversCriteria : []
+        }));
+
+        const { data: existingRows, error: existingError } = await supabase
           .from('test_cases')
-          .delete()
+          .select('id, title, description, steps, test_steps, expected_result, priority, test_type, category, status')
           .eq('user_story_id', storyId)
           .eq('project_id', currentProject);
 
+        if (existingError) throw existingError;
+
+        // Regeneration never overwrites saved cases directly; the proposal is reviewed first
+        if (existingRows && existingRows.length > 0) {
+          setRegenerationProposal({
+            projectId: currentProject,
+            storyId,
+            storyTitle: story.title,
+            existing: existingRows.map(row => ({
+              id: row.id,
+              title: row.title,
+              description: row.description || '',
+              steps: readTestSteps(row),
+              expectedResult: row.expected_result || '',
+              priority: row.priority || 'medium',
+              testType: row.test_type,
+              category: row.category,
+              status: row.status || 'draft'
+            })),
+            proposed
+          });
+          if (skippedNotes.length > 0) {
+            toast({
+              title: "Some Generated Test Cases Were Skipped",
+              description: skippedNotes.join('. '),
+            });
+          }
+          return;
+        }
+
         // Save new test cases to database
-        const testCasesToInsert = data.testCases.map((testCase: any) => ({
+        const testCasesToInsert = proposed.map(testCase => ({
           project_id: currentProject,
           user_story_id: storyId,
-          title: testCase.title || testCase.name || 'Test Case',
-          description: testCase.description || '',
-          steps: testCase.steps ? (Array.isArray(testCase.steps) ? testCase.steps.join('\n') : testCase.steps) : '',
-          expected_result: testCase.expectedResult || testCase.expected || '',
-          priority: (testCase.priority || 'medium').toLowerCase(),
-          status: 'draft'
+          title: testCase.title,
+          description: testCase.description,
+          steps: stepsToText(testCase.steps),
+          test_steps: testCase.steps,
+          expected_result: testCase.expectedResult,
+          priority: testCase.priority,
+          status: 'draft',
+          test_type: testCase.testType,
+          category: testCase.category,
+          generated_by_model: testCase.generatedByModel,
+          prompt_hash: testCase.promptHash,
+          generated_at: testCase.generatedAt,
+          covered_criteria: testCase.coveredCriteria
         }));
 
         const { error: insertError } = await supabase
@@ -586,36 +716,61 @@ export const UserStories = ({ onViewChange, projectId }: UserStoriesProps) => {
           throw insertError;
         }
 
-        // Update story status in database
-        await supabase
-          .from('user_stories')
-          .update({ status: 'completed' })
-          .eq('id', storyId)
-          .eq('project_id', currentProject);
-
-        // Update local state with actual count from database
-        const updatedStories = stories.map(s => 
-          s.id === storyId 
-            ? { ...s, testCasesGenerated: data.testCases.length, status: 'completed' as const }
-            : s
-        );
-        setStories(updatedStories);
+        await markStoryGenerated(storyId);
 
+        const uncovered = (data.coverage || []).filter((criterion: { testCaseIds: string[] }) => criterion.testCaseIds.length === 0);
         toast({
           title: "Test Cases Generated & Saved",
-          description: `Generated and saved ${data.testCases.length} test cases for this story`,
+          description: `Generated and saved ${data.testCases.length} test cases for this story${data.settingsVersion ? ` using project settings v${data.settingsVersion}` : ''}${uncovered.length > 0 ? `. Not covered: ${uncovered.map((criterion: { label: string }) => criterion.label).join(', ')}` : ''}${skippedNotes.length > 0 ? `. ${skippedNotes.join('. ')}` : ''}`,
         });
       }
     } catch (error) {
       console.error('Error generating test cases:', error);
       toast({
         title: "Generation Failed",
-        description: "Failed to generate test cases. Please try again.",
+        description: error.message || "Failed to generate test cases. Please try again.",
         variant: "destructive",
       });
     }
   };
 
+  const markStoryGenerated = async (storyId: string) => {
+    // Update story status in database
+    await supabase
+      .from('user_stories')
+      .update({ status: 'completed' })
+      .eq('id', storyId)
+      .eq('project_id', currentProject);
+
+    // Update local state with actual count and coverage from database
+    const { data: storyTestCases } = await supabase
+      .from('test_cases')
+      .select('covered_criteria')
+      .eq('user_story_id', storyId)
+      .eq('project_id', currentProject);
+
+    setStories(prev => prev.map(s =>
+      s.id === storyId
+        ? {
+            ...s,
+            testCasesGenerated: storyTestCases?.length || 0,
+            coveredCriteria: [...new Set((storyTestCases || []).flatMap(tc => tc.covered_criteria || []))],
+            status: 'completed' as const
+          }
+        : s
+    ));
+  };
+
+  const handleRegenerationApplied = async (summary: RegenerationSummary) => {
+    if (!regenerationProposal) return;
+
+    await markStoryGenerated(regenerationProposal.storyId);
+    toast({
+      title: "Regenerated Test Cases Applied",
+      description: `${summary.added} added, ${summary.updated} updated, ${summary.removed} removed`,
+    });
+  };
+
   const deleteUserStory = async (storyId: string, storyTitle: string) => {
     try {
       // First delete all associated test cases
@@ -666,6 +821,43 @@ export const UserStories = ({ onViewChange, projectId }: UserStoriesProps) => {
     setCustomPrompt('');
   };
 
+  const renderCriteriaCoverage = (story: UserStory) => {
+    const criteria = parseAcceptanceCriteria(story.acceptanceCriteria);
+    if (criteria.length === 0) {
+      return <span className="text-sm text-muted-foreground">No criteria</span>;
+    }
+
+    const coverage = computeCriteriaCoverage(criteria, story.coveredCriteria);
+    const coveredCount = coverage.filter(criterion => criterion.covered).length;
+    const color = coveredCount === criteria.length
+      ? 'bg-success text-success-foreground'
+      : coveredCount > 0 ? 'bg-warning text-warning-foreground' : 'bg-secondary text-secondary-foreground';
+
+    return (
+      <Tooltip>
+        <TooltipTrigger asChild>
+          <Badge className={`${color} cursor-default`}>
+            {coveredCount}/{criteria.length} criteria
+          </Badge>
+        </TooltipTrigger>
+        <TooltipContent className="max-w-sm">
+          <ul className="space-y-1 text-xs">
+            {coverage.map(criterion => (
+              <li key={criterion.id} className="flex gap-2">
+                <span className={criterion.covered ? 'text-success' : 'text-destructive'}>
+                  {criterion.covered ? '✓' : '✗'}
+                </span>
+                <span>
+                  <span className="font-medium">{criterion.label}</span> {criterion.text.split('\n')[0]}
+                </span>
+              </li>
+            ))}
+          </ul>
+        </TooltipContent>
+      </Tooltip>
+    );
+  };
+
   const getPriorityColor = (priority: string) => {
     switch (priority) {
       case 'high': return 'bg-destructive text-destructive-foreground';
@@ -678,11 +870,19 @@ export const UserStories = ({ onViewChange, projectId }: UserStoriesProps) => {
   const getSourceIcon = (source: string) => {
     switch (source) {
       case 'jira': return <ExternalLink className="h-3 w-3" />;
-      case 'azure': return <ExternalLink className="h-3 w-3" />;
+      case 'azure-devops': return <ExternalLink className="h-3 w-3" />;
       default: return <FileText className="h-3 w-3" />;
     }
   };
 
+  const getSourceLabel = (source: string) => {
+    switch (source) {
+      case 'jira': return 'Jira';
+      case 'azure-devops': return 'Azure DevOps';
+      default: return 'Manual';
+    }
+  };
+
   return (
     <div className="space-y-6">
       <div className="flex flex-col lg:flex-row lg:items-center lg:justify-between gap-4">
@@ -693,14 +893,26 @@ export const UserStories = ({ onViewChange, projectId }: UserStoriesProps) => {
           </p>
         </div>
         <div className="flex gap-2">
-          <Button 
-            variant="outline" 
-            onClick={syncFromIntegrations}
-            disabled={isSyncing}
-          >
-            <RefreshCw className={`mr-2 h-4 w-4 ${isSyncing ? 'animate-spin' : ''}`} />
-            {isSyncing ? 'Syncing...' : 'Sync from Integrations'}
-          </Button>
+          <DropdownMenu>
+            <DropdownMenuTrigger asChild>
+              <Button 
+                variant="outline" 
+                disabled={isSyncing}
+              >
+                <RefreshCw className={`mr-2 h-4 w-4 ${isSyncing ? 'animate-spin' : ''}`} />
+                {isSyncing ? 'Syncing...' : 'Sync from Integrations'}
+                <ChevronDown className="ml-2 h-3 w-3" />
+              </Button>
+            </DropdownMenuTrigger>
+            <DropdownMenuContent align="end">
+              <DropdownMenuItem onClick={() => syncFromIntegrations('incremental')}>
+                Sync changes since last sync
+              </DropdownMenuItem>
+              <DropdownMenuItem onClick={() => syncFromIntegrations('full')}>
+                Full resync
+              </DropdownMenuItem>
+            </DropdownMenuContent>
+          </DropdownMenu>
           <Button variant="outline" onClick={() => onViewChange('integrations')}>
             <Settings className="mr-2 h-4 w-4" />
             Setup Integrations
@@ -767,14 +979,14 @@ export const UserStories = ({ onViewChange, projectId }: UserStoriesProps) => {
                 </SelectContent>
               </Select>
               <Select value={sourceFilter} onValueChange={setSourceFilter}>
-                <SelectTrigger className="w-32">
+                <SelectTrigger className="w-36">
                   <SelectValue placeholder="Source" />
                 </SelectTrigger>
                 <SelectContent>
                   <SelectItem value="all">All Source</SelectItem>
                   <SelectItem value="manual">Manual</SelectItem>
                   <SelectItem value="jira">Jira</SelectItem>
-                  <SelectItem value="azure">Azure</SelectItem>
+                  <SelectItem value="azure-devops">Azure DevOps</SelectItem>
                 </SelectContent>
               </Select>
             </div>
@@ -886,6 +1098,7 @@ export const UserStories = ({ onViewChange, projectId }: UserStoriesProps) => {
                   <TableHead>Priority</TableHead>
                   <TableHead>Status</TableHead>
                   <TableHead>Test Cases</TableHead>
+                  <TableHead>Coverage</TableHead>
                   <TableHead>Actions</TableHead>
                 </TableRow>
               </TableHeader>
@@ -896,6 +1109,14 @@ export const UserStories = ({ onViewChange, projectId }: UserStoriesProps) => {
                       <div className="truncate" title={story.title}>
                         {story.title}
                       </div>
+                      {(story.storyPoints !== undefined || story.sprint) && (
+                        <div className="text-xs font-normal text-muted-foreground">
+                          {[
+                            story.storyPoints !== undefined && `${story.storyPoints} ${story.storyPoints === 1 ? 'point' : 'points'}`,
+                            story.sprint
+                          ].filter(Boolean).join(' · ')}
+                        </div>
+                      )}
                     </TableCell>
                     <TableCell className="max-w-64">
                       <div className="truncate text-muted-foreground" title={story.description}>
@@ -903,10 +1124,24 @@ export const UserStories = ({ onViewChange, projectId }: UserStoriesProps) => {
                       </div>
                     </TableCell>
                     <TableCell>
-                      <Badge variant="outline" className="flex items-center gap-1 w-fit">
-                        {getSourceIcon(story.source)}
-                        {story.source}
-                      </Badge>
+                      {story.externalUrl ? (
+                        <a
+                          href={story.externalUrl}
+                          target="_blank"
+                          rel="noopener noreferrer"
+                          title={`Open ${story.externalId} in ${getSourceLabel(story.source)}`}
+                        >
+                          <Badge variant="outline" className="flex items-center gap-1 w-fit hover:bg-muted">
+                            {getSourceIcon(story.source)}
+                            {getSourceLabel(story.source)} {story.externalId}
+                          </Badge>
+                        </a>
+                      ) : (
+                        <Badge variant="outline" className="flex items-center gap-1 w-fit">
+                          {getSourceIcon(story.source)}
+                          {getSourceLabel(story.source)}
+                        </Badge>
+                      )}
                     </TableCell>
                     <TableCell>
                       <Badge className={getPriorityColor(story.priority)}>
@@ -925,6 +1160,9 @@ export const UserStories = ({ onViewChange, projectId }: UserStoriesProps) => {
                         <span className="text-sm text-muted-foreground">None</span>
                       )}
                     </TableCell>
+                    <TableCell>
+                      {renderCriteriaCoverage(story)}
+                    </TableCell>
                     <TableCell>
                       <div className="flex gap-1">
                         {story.testCasesGenerated === 0 ? (
@@ -1027,6 +1265,12 @@ export const UserStories = ({ onViewChange, projectId }: UserStoriesProps) => {
           </DialogFooter>
         </DialogContent>
       </Dialog>
+
+      <RegenerationReview
+        proposal={regenerationProposal}
+        onClose={() => setRegenerationProposal(null)}
+        onApplied={handleRegenerationApplied}
+      />
     </div>
   );
 };
\ No newline at end of file
@@ -0,0 +1,165 @@
+import { useState } from "react";
+import { Button } from "@/components/ui/button";
+import { Badge } from "@/components/ui/badge";
+import { Checkbox } from "@/components/ui/checkbox";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { Loader2 } from "lucide-react";
+
+// The generate-test-plan function accepts at most this many stories per plan
+export const MAX_PLAN_STORIES = 50;
+
+export interface PlanStory {
+  id: string;
+  title: string;
+  description: string;
+  acceptanceCriteria: string;
+  priority: string;
+  status: string;
+  source: string;
+  sprint: string | null;
+}
+
+type StoryFilter = 'status' | 'priority' | 'source' | 'sprint';
+
+const ALL = 'all';
+// Select values cannot be empty, so stories without a sprint get their own option
+const NO_SPRINT = '__none__';
+
+const SOURCE_LABELS: Record<string, string> = {
+  manual: 'Manual',
+  jira: 'Jira',
+  'azure-devops': 'Azure DevOps',
+};
+
+const filterValue = (story: PlanStory, filter: StoryFilter): string =>
+  filter === 'sprint' ? story.sprint || NO_SPRINT : story[filter];
+
+const optionLabel = (filter: StoryFilter, value: string): string => {
+  if (filter === 'sprint' && value === NO_SPRINT) return 'No sprint';
+  if (filter === 'source') return SOURCE_LABELS[value] || value;
+  return value.replace(/-/g, ' ');
+};
+
+const FILTERS: { filter: StoryFilter; allLabel: string }[] = [
+  { filter: 'status', allLabel: 'All Status' },
+  { filter: 'priority', allLabel: 'All Priority' },
+  { filter: 'source', allLabel: 'All Source' },
+  { filter: 'sprint', allLabel: 'All Sprints' },
+];
+
+interface UserStoryPickerProps {
+  stories: PlanStory[];
+  loading: boolean;
+  selectedIds: string[];
+  onSelectedIdsChange: (ids: string[]) => void;
+  disabled?: boolean;
+}
+
+/**
+ * Chooses which of the project's user stories feed a test plan. Changing a filter selects
+ * exactly the stories that match it; single stories can then be ticked or unticked.
+ */
+export const UserStoryPicker = ({ stories, loading, selectedIds, onSelectedIdsChange, disabled }: UserStoryPickerProps) => {
+  const [filters, setFilters] = useState<Record<StoryFilter, string>>({
+    status: ALL,
+    priority: ALL,
+    source: ALL,
+    sprint: ALL,
+  });
+
+  const matches = (story: PlanStory, active: Record<StoryFilter, string>) =>
+    FILTERS.every(({ filter }) => active[filter] === ALL || filterValue(story, filter) === active[filter]);
+
+  const shownStories = stories.filter(story => matches(story, filters));
+  const selected = new Set(selectedIds);
+
+  const changeFilter = (filter: StoryFilter, value: string) => {
+    const next = { ...filters, [filter]: value };
+    setFilters(next);
+    onSelectedIdsChange(stories.filter(story => matches(story, next)).map(story => story.id));
+  };
+
+  const toggleStory = (id: string) => {
+    onSelectedIdsChange(selected.has(id) ? selectedIds.filter(selectedId => selectedId !== id) : [...selectedIds, id]);
+  };
+
+  const allShownSelected = shownStories.length > 0 && shownStories.every(story => selected.has(story.id));
+  const toggleShown = () => {
+    const shownIds = new Set(shownStories.map(story => story.id));
+    onSelectedIdsChange(allShownSelected
+      ? selectedIds.filter(id => !shownIds.has(id))
+      : [...selectedIds, ...shownStories.filter(story => !selected.has(story.id)).map(story => story.id)]);
+  };
+
+  if (loading) {
+    return (
+      <div className="flex items-center gap-2 text-sm text-muted-foreground">
+        <Loader2 className="h-4 w-4 animate-spin" />
+        Loading user stories...
+      </div>
+    );
+  }
+
+  if (stories.length === 0) return null;
+
+  return (
+    <div className="space-y-3">
+      <div className="flex flex-wrap gap-2">
+        {FILTERS.map(({ filter, allLabel }) => {
+          const values = [...new Set(stories.map(story => filterValue(story, filter)))].sort();
+          return (
+            <Select key={filter} value={filters[filter]} onValueChange={value => changeFilter(filter, value)} disabled={disabled}>
+              <SelectTrigger className="w-36">
+                <SelectValue placeholder={allLabel} />
+              </SelectTrigger>
+              <SelectContent>
+                <SelectItem value={ALL}>{allLabel}</SelectItem>
+                {values.map(value => (
+                  <SelectItem key={value} value={value} className="capitalize">
+                    {optionLabel(filter, value)}
+                  </SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          );
+        })}
+        <Button variant="ghost" size="sm" onClick={toggleShown} disabled={disabled || shownStories.length === 0}>
+          {allShownSelected ? 'Clear shown' : 'Select shown'}
+        </Button>
+      </div>
+
+      <div className="max-h-64 overflow-y-auto rounded-md border divide-y">
+        {shownStories.map(story => (
+          <label key={story.id} className="flex items-start gap-3 p-2 text-sm cursor-pointer hover:bg-muted/50">
+            <Checkbox
+              checked={selected.has(story.id)}
+              onCheckedChange={() => toggleStory(story.id)}
+              disabled={disabled}
+              className="mt-0.5"
+            />
+            <span className="flex-1 min-w-0">
+              <span className="block truncate" title={story.title}>{story.title}</span>
+              <span className="flex flex-wrap gap-1 mt-1">
+                <Badge variant="outline" className="text-xs capitalize">{story.status.replace(/-/g, ' ')}</Badge>
+                <Badge variant="outline" className="text-xs capitalize">{story.priority}</Badge>
+                {story.source !== 'manual' && (
+                  <Badge variant="outline" className="text-xs">{SOURCE_LABELS[story.source] || story.source}</Badge>
+                )}
+                {story.sprint && <Badge variant="outline" className="text-xs">{story.sprint}</Badge>}
+              </span>
+            </span>
+          </label>
+        ))}
+        {shownStories.length === 0 && (
+          <p className="p-3 text-sm text-muted-foreground">No user stories match these filters</p>
+        )}
+      </div>
+
+      {selectedIds.length > MAX_PLAN_STORIES && (
+        <p className="text-sm text-warning">
+          {selectedIds.length} stories are selected; a test plan can cover at most {MAX_PLAN_STORIES}. Narrow the selection with the filters.
+        </p>
+      )}
+    </div>
+  );
+};
@@ -0,0 +1,70 @@
+import { useState, useEffect, useRef, useCallback } from "react";
+
+export type AutosaveStatus = 'idle' | 'pending' | 'saving' | 'saved' | 'error';
+
+const AUTOSAVE_DELAY_MS = 1500;
+
+interface Pending<T> {
+  value: T;
+  serialized: string;
+}
+
+/**
+ * Saves `value` once it has stopped changing for a moment. The value should carry whatever
+ * identifies the record it belongs to, so a late save never lands on a different record.
+ * Call `reset` after loading or inserting a value so it is not saved straight back, and
+ * `flush` before replacing the value with another record.
+ */
+export function useAutosave<T>(value: T, save: (value: T) => Promise<void>, enabled: boolean, delay = AUTOSAVE_DELAY_MS) {
+  const [status, setStatus] = useState<AutosaveStatus>('idle');
+  const saveRef = useRef(save);
+  saveRef.current = save;
+  const savedRef = useRef<string | null>(null);
+  const pendingRef = useRef<Pending<T> | null>(null);
+
+  const persist = useCallback(async (pending: Pending<T>) => {
+    pendingRef.current = null;
+    setStatus('saving');
+    try {
+      await saveRef.current(pending.value);
+      savedRef.current = pending.serialized;
+      setStatus(pendingRef.current ? 'pending' : 'saved');
+    } catch (error) {
+      console.error('Autosave failed:', error);
+      setStatus('error');
+    }
+  }, []);
+
+  useEffect(() => {
+    if (!enabled) return;
+    const serialized = JSON.stringify(value);
+    if (serialized === savedRef.current) {
+      pendingRef.current = null;
+      return;
+    }
+
+    pendingRef.current = { value, serialized };
+    setStatus('pending');
+    const timer = setTimeout(() => {
+      if (pendingRef.current) persist(pendingRef.current);
+    }, delay);
+    return () => clearTimeout(timer);
+  }, [value, enabled, delay, persist]);
+
+  const flush = useCallback(async () => {
+    if (pendingRef.current) await persist(pendingRef.current);
+  }, [persist]);
+
+  // Edits still waiting on the delay are written when the editor goes away
+  useEffect(() => () => {
+    if (pendingRef.current) persist(pendingRef.current);
+  }, [persist]);
+
+  const reset = useCallback((saved: T) => {
+    savedRef.current = JSON.stringify(saved);
+    pendingRef.current = null;
+    setStatus('idle');
+  }, []);
+
+  return { status, flush, reset };
+}
@@ -67,6 +67,113 @@ export type Database = {
           },
         ]
       }
+      integration_credentials: {
+        Row: {
+          config: Json
+          created_at: string
+          created_by: string
+          enabled: boolean
+          id: string
+          integration_id: string
+          last_synced_at: string | null
+          last_verified_at: string | null
+          project_id: string
+          secret_ciphertext: string
+          secret_hint: string | null
+          secret_iv: string
+          updated_at: string
+        }
+        Insert: {
+          config?: Json
+          created_at?: string
+          created_by: string
+          enabled?: boolean
+          id?: string
+          integration_id: string
+          last_synced_at?: string | null
+          last_verified_at?: string | null
+          project_id: string
+          secret_ciphertext: string
+          secret_hint?: string | null
+          secret_iv: string
+          updated_at?: string
+        }
+        Update: {
+          config?: Json
+          created_at?: string
+          created_by?: string
+          enabled?: boolean
+          id?: string
+          integration_id?: string
+          last_synced_at?: string | null
+          last_verified_at?: string | null
+          project_id?: string
+          secret_ciphertext?: string
+          secret_hint?: string | null
+          secret_iv?: string
+          updated_at?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "integration_credentials_project_id_fkey"
+            columns: ["project_id"]
+            isOneToOne: false
+            referencedRelation: "projects"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      page_snapshots: {
+        Row: {
+          created_at: string
+          created_by: string
+          file_name: string | null
+          html: string
+          id: string
+          name: string
+          project_id: string
+          test_case_id: string | null
+          updated_at: string
+        }
+        Insert: {
+          created_at?: string
+          created_by: string
+          file_name?: string | null
+          html: string
+          id?: string
+          name: string
+          project_id: string
+          test_case_id?: string | null
+          updated_at?: string
+        }
+        Update: {
+          created_at?: string
+          created_by?: string
+          file_name?: string | null
+          html?: string
+          id?: string
+          name?: string
+          project_id?: string
+          test_case_id?: string | null
+          updated_at?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "page_snapshots_project_id_fkey"
+            columns: ["project_id"]
+            isOneToOne: false
+            referencedRelation: "projects"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "page_snapshots_test_case_id_fkey"
+            columns: ["test_case_id"]
+            isOneToOne: false
+            referencedRelation: "test_cases"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
       profiles: {
         Row: {
           created_at: string
@@ -99,29 +206,41 @@ export type Database = {
       }
       projects: {
         Row: {
+          ai_model: string | null
+          ai_provider: string
           created_at: string
           created_by: string
           description: string | null
+          document_template: string | null
           id: string
           markdown_settings: string | null
+          markdown_settings_version: number
           name: string
           updated_at: string
         }
         Insert: {
+          ai_model?: string | null
+          ai_provider?: string
           created_at?: string
           created_by: string
           description?: string | null
+          document_template?: string | null
           id?: string
           markdown_settings?: string | null
+          markdown_settings_version?: number
           name: string
           updated_at?: string
         }
         Update: {
+          ai_model?: string | null
+          ai_provider?: string
           created_at?: string
           created_by?: string
           description?: string | null
+          document_template?: string | null
           id?: string
           markdown_settings?: string | null
+          markdown_settings_version?: number
           name?: string
           updated_at?: string
         }
@@ -129,40 +248,79 @@ export type Database = {
       }
       test_cases: {
         Row: {
+          azure_synced_at: string | null
+          azure_work_item_id: number | null
+          azure_work_item_url: string | null
+          category: string | null
+          covered_criteria: string[]
           created_at: string
           description: string | null
           expected_result: string | null
+          generated_at: string | null
+          generated_by_model: string | null
           id: string
+          jira_issue_key: string | null
+          jira_issue_url: string | null
+          jira_synced_at: string | null
           priority: string | null
           project_id: string
+          prompt_hash: string | null
           status: string | null
           steps: string | null
+          test_steps: Json
+          test_type: string | null
           title: string
           updated_at: string
           user_story_id: string | null
         }
         Insert: {
+          azure_synced_at?: string | null
+          azure_work_item_id?: number | null
+          azure_work_item_url?: string | null
+          category?: string | null
+          covered_criteria?: string[]
           created_at?: string
           description?: string | null
           expected_result?: string | null
+          generated_at?: string | null
+          generated_by_model?: string | null
           id?: string
+          jira_issue_key?: string | null
+          jira_issue_url?: string | null
+          jira_synced_at?: string | null
           priority?: string | null
           project_id: string
+          prompt_hash?: string | null
           status?: string | null
           steps?: string | null
+          test_steps?: Json
+          test_type?: string | null
           title: string
           updated_at?: string
           user_story_id?: string | null
         }
         Update: {
+          azure_synced_at?: string | null
+          azure_work_item_id?: number | null
+          azure_work_item_url?: string | null
+          category?: string | null
+          covered_criteria?: string[]
           created_at?: string
           description?: string | null
           expected_result?: string | null
+          generated_at?: string | null
+          generated_by_model?: string | null
           id?: string
+          jira_issue_key?: string | null
+          jira_issue_url?: string | null
+          jira_synced_at?: string | null
           priority?: string | null
           project_id?: string
+          prompt_hash?: string | null
           status?: string | null
           steps?: string | null
+          test_steps?: Json
+          test_type?: string | null
           title?: string
           updated_at?: string
           user_story_id?: string | null
@@ -184,15 +342,296 @@ export type Database = {
           },
         ]
       }
+      test_plans: {
+        Row: {
+          approved_at: string | null
+          approved_by: string | null
+          author_name: string | null
+          content: string
+          created_at: string
+          created_by: string
+          custom_prompt: string | null
+          id: string
+          is_approved: boolean
+          is_partial: boolean
+          locked_sections: Json
+          model: string | null
+          project_id: string
+          requirements_doc: string | null
+          settings_version: number | null
+          testing_scope: string | null
+          title: string
+          updated_at: string
+          user_stories: Json
+          version: number
+        }
+        Insert: {
+          approved_at?: string | null
+          approved_by?: string | null
+          author_name?: string | null
+          content: string
+          created_at?: string
+          created_by: string
+          custom_prompt?: string | null
+          id?: string
+          is_approved?: boolean
+          is_partial?: boolean
+          locked_sections?: Json
+          model?: string | null
+          project_id: string
+          requirements_doc?: string | null
+          settings_version?: number | null
+          testing_scope?: string | null
+          title: string
+          updated_at?: string
+          user_stories?: Json
+          version?: number
+        }
+        Update: {
+          approved_at?: string | null
+          approved_by?: string | null
+          author_name?: string | null
+          content?: string
+          created_at?: string
+          created_by?: string
+          custom_prompt?: string | null
+          id?: string
+          is_approved?: boolean
+          is_partial?: boolean
+          locked_sections?: Json
+          model?: string | null
+          project_id?: string
+          requirements_doc?: string | null
+          settings_version?: number | null
+          testing_scope?: string | null
+          title?: string
+          updated_at?: string
+          user_stories?: Json
+          version?: number
+        }
+        Relationships: [
+          {
+            foreignKeyName: "test_plans_project_id_fkey"
+            columns: ["project_id"]
+            isOneToOne: false
+            referencedRelation: "projects"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      test_reports: {
+        Row: {
+          charts: Json
+          content: string
+          created_at: string
+          created_by: string
+          id: string
+          is_partial: boolean
+          locked_sections: Json
+          model: string | null
+          period_end: string | null
+          period_start: string | null
+          project_id: string
+          report_type: string | null
+          settings_version: number | null
+          statistics: Json | null
+          test_run_id: string | null
+          title: string
+          updated_at: string
+        }
+        Insert: {
+          charts?: Json
+          content: string
+          created_at?: string
+          created_by: string
+          id?: string
+          is_partial?: boolean
+          locked_sections?: Json
+          model?: string | null
+          period_end?: string | null
+          period_start?: string | null
+          project_id: string
+          report_type?: string | null
+          settings_version?: number | null
+          statistics?: Json | null
+          test_run_id?: string | null
+          title: string
+          updated_at?: string
+        }
+        Update: {
+          charts?: Json
+          content?: string
+          created_at?: string
+          created_by?: string
+          id?: string
+          is_partial?: boolean
+          locked_sections?: Json
+          model?: string | null
+          period_end?: string | null
+          period_start?: string | null
+          project_id?: string
+          report_type?: string | null
+          settings_version?: number | null
+          statistics?: Json | null
+          test_run_id?: string | null
+          title?: string
+          updated_at?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "test_reports_project_id_fkey"
+            columns: ["project_id"]
+            isOneToOne: false
+            referencedRelation: "projects"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "test_reports_test_run_id_fkey"
+            columns: ["test_run_id"]
+            isOneToOne: false
+            referencedRelation: "test_runs"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      test_run_results: {
+        Row: {
+          actual_result: string | null
+          created_at: string
+          defects: string[]
+          duration_seconds: number | null
+          executed_at: string | null
+          executed_by: string | null
+          id: string
+          notes: string | null
+          project_id: string
+          run_id: string
+          status: string
+          test_case_id: string
+          updated_at: string
+        }
+        Insert: {
+          actual_result?: string | null
+          created_at?: string
+          defects?: string[]
+          duration_seconds?: number | null
+          executed_at?: string | null
+          executed_by?: string | null
+          id?: string
+          notes?: string | null
+          project_id: string
+          run_id: string
+          status?: string
+          test_case_id: string
+          updated_at?: string
+        }
+        Update: {
+          actual_result?: string | null
+          created_at?: string
+          defects?: string[]
+          duration_seconds?: number | null
+          executed_at?: string | null
+          executed_by?: string | null
+          id?: string
+          notes?: string | null
+          project_id?: string
+          run_id?: string
+          status?: string
+          test_case_id?: string
+          updated_at?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "test_run_results_project_id_fkey"
+            columns: ["project_id"]
+            isOneToOne: false
+            referencedRelation: "projects"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "test_run_results_run_id_fkey"
+            columns: ["run_id"]
+            isOneToOne: false
+            referencedRelation: "test_runs"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "test_run_results_test_case_id_fkey"
+            columns: ["test_case_id"]
+            isOneToOne: false
+            referencedRelation: "test_cases"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      test_runs: {
+        Row: {
+          build_version: string | null
+          completed_at: string | null
+          created_at: string
+          environment: string | null
+          id: string
+          name: string
+          project_id: string
+          started_at: string
+          status: string
+          tester_id: string
+          tester_name: string | null
+          updated_at: string
+        }
+        Insert: {
+          build_version?: string | null
+          completed_at?: string | null
+          created_at?: string
+          environment?: string | null
+          id?: string
+          name: string
+          project_id: string
+          started_at?: string
+          status?: string
+          tester_id: string
+          tester_name?: string | null
+          updated_at?: string
+        }
+        Update: {
+          build_version?: string | null
+          completed_at?: string | null
+          created_at?: string
+          environment?: string | null
+          id?: string
+          name?: string
+          project_id?: string
+          started_at?: string
+          status?: string
+          tester_id?: string
+          tester_name?: string | null
+          updated_at?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "test_runs_project_id_fkey"
+            columns: ["project_id"]
+            isOneToOne: false
+            referencedRelation: "projects"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
       user_stories: {
         Row: {
           acceptance_criteria: string | null
           created_at: string
           description: string | null
+          external_id: string | null
+          external_source: string | null
+          external_updated_at: string | null
+          external_url: string | null
           id: string
           priority: string | null
           project_id: string
+          sprint: string | null
           status: string | null
+          story_points: number | null
           title: string
           updated_at: string
         }
@@ -200,10 +639,16 @@ export type Database = {
           acceptance_criteria?: string | null
           created_at?: string
           description?: string | null
+          external_id?: string | null
+          external_source?: string | null
+          external_updated_at?: string | null
+          external_url?: string | null
           id?: string
           priority?: string | null
           project_id: string
+          sprint?: string | null
           status?: string | null
+          story_points?: number | null
           title: string
           updated_at?: string
         }
@@ -211,10 +656,16 @@ export type Database = {
           acceptance_criteria?: string | null
           created_at?: string
           description?: string | null
+          external_id?: string | null
+          external_source?: string | null
+          external_updated_at?: string | null
+          external_url?: string | null
           id?: string
           priority?: string | null
           project_id?: string
+          sprint?: string | null
           status?: string | null
+          story_points?: number | null
           title?: string
           updated_at?: string
         }
@@ -247,9 +698,27 @@ export type Database = {
         }
         Relationships: []
       }
+      latest_test_case_results: {
+        Row: {
+          executed_at: string | null
+          project_id: string | null
+          run_id: string | null
+          run_name: string | null
+          status: string | null
+          test_case_id: string | null
+        }
+        Relationships: []
+      }
     }
     Functions: {
-      [_ in never]: never
+      apply_test_case_regeneration: {
+        Args: { _delete_ids: string[]; _inserts: Json; _updates: Json }
+        Returns: undefined
+      }
+      approve_test_plan: {
+        Args: { _plan_id: string }
+        Returns: undefined
+      }
     }
     Enums: {
       [_ in never]: never
@@ -0,0 +1,139 @@
+/**
+ * Splits free-form acceptance criteria into discrete criteria. Recognises Given/When/Then
+ * scenarios, bullet and numbered lists and one criterion per line. Ids are derived from each
+ * criterion's text the same way generate-test-cases (supabase/functions/_shared/acceptance-criteria.ts)
+ * derives them, so stored coverage follows a criterion when others are added or reordered.
+ */
+
+export interface AcceptanceCriterion {
+  // Hash of the normalised criterion text
+  id: string;
+  // Position in the story ("AC1", "AC2", ...), for display and prompts only
+  label: string;
+  text: string;
+}
+
+const MAX_CRITERIA = 50;
+const MAX_CRITERION_LENGTH = 500;
+
+const LIST_MARKER = /^(?:(?:[-*•+]|\d+[.)]|[a-z][.)])\s+|AC\s*\d+\s*[:.)-]\s*)/i;
+const TASK_MARKER = /^\[[ xX]\]\s+/;
+const SECTION_HEADING = /^(?:#{1,6}\s+.*|acceptance criteria:?)$/i;
+const GHERKIN_STEP = /^(given|when|then|and|but)\b/i;
+const SCENARIO = /^scenario(?: outline)?\b/i;
+
+/**
+ * Parses acceptance criteria into criteria labelled AC1, AC2, ... in document order
+ */
+export function parseAcceptanceCriteria(text: string | null | undefined): AcceptanceCriterion[] {
+  const items: string[] = [];
+  let current: string[] = [];
+  let isScenario = false;
+  let sawThen = false;
+
+  const flush = () => {
+    const item = current.join(isScenario ? '\n' : ' ').trim();
+    if (item) items.push(item.substring(0, MAX_CRITERION_LENGTH));
+    current = [];
+    isScenario = false;
+    sawThen = false;
+  };
+
+  for (const rawLine of (text || '').split(/\r?\n/)) {
+    const line = rawLine.trim();
+
+    if (!line) {
+      // A scenario title may be separated from its steps by a blank line
+      if (!(isScenario && !sawThen)) flush();
+      continue;
+    }
+    if (SECTION_HEADING.test(line)) {
+      flush();
+      continue;
+    }
+
+    const content = line.replace(LIST_MARKER, '').replace(TASK_MARKER, '').replace(/\*\*/g, '');
+    if (!content) continue;
+
+    if (SCENARIO.test(content)) {
+      flush();
+      current = [content];
+      isScenario = true;
+      continue;
+    }
+
+    // Indented lines without a list marker wrap the previous bullet
+    if (/^\s/.test(rawLine) && current.length > 0 && !isScenario && content === line) {
+      current.push(content);
+      continue;
+    }
+
+    const keyword = content.match(GHERKIN_STEP)?.[1].toLowerCase();
+    if (keyword) {
+      // A Given after a Then, or any step outside a scenario, starts a new criterion
+      if (!isScenario || (keyword === 'given' && sawThen)) {
+        flush();
+        isScenario = true;
+      }
+      if (/\bthen\b/i.test(content)) sawThen = true;
+      current.push(content);
+      continue;
+    }
+
+    flush();
+    current = [content];
+  }
+  flush();
+
+  const seen = new Map<string, number>();
+  return items.slice(0, MAX_CRITERIA).map((item, index) => {
+    // Criteria with the same text are told apart by occurrence
+    const hash = criterionHash(item);
+    const occurrence = (seen.get(hash) || 0) + 1;
+    seen.set(hash, occurrence);
+    return {
+      id: occurrence === 1 ? `AC-${hash}` : `AC-${hash}-${occurrence}`,
+      label: `AC${index + 1}`,
+      text: item,
+    };
+  });
+}
+
+// FNV-1a of the text ignoring case and whitespace, so rewrapping a criterion keeps its id
+function criterionHash(text: string): string {
+  const normalized = text.toLowerCase().replace(/\s+/g, ' ').trim();
+  let hash = 0x811c9dc5;
+  for (let i = 0; i < normalized.length; i++) {
+    hash ^= normalized.charCodeAt(i);
+    hash = Math.imul(hash, 0x01000193);
+  }
+  return (hash >>> 0).toString(16).padStart(8, '0');
+}
+
+export interface CriterionCoverage extends AcceptanceCriterion {
+  covered: boolean;
+}
+
+const LEGACY_ID = /^AC(\d+)$/;
+
+/**
+ * Maps stored covered_criteria onto the ids of the given criteria. Coverage saved before ids were
+ * derived from the text holds positional ids (AC1, AC2, ...), which are resolved by position.
+ */
+export function resolveCoveredCriteria(criteria: AcceptanceCriterion[], coveredIds: string[]): string[] {
+  const ids = new Set(criteria.map(criterion => criterion.id));
+  return [...new Set(coveredIds.flatMap(id => {
+    if (ids.has(id)) return [id];
+    const position = id.match(LEGACY_ID)?.[1];
+    const criterion = position ? criteria[Number(position) - 1] : undefined;
+    return criterion ? [criterion.id] : [];
+  }))];
+}
+
+/**
+ * Marks each criterion as covered when any test case lists its id in covered_criteria
+ */
+export function computeCriteriaCoverage(criteria: AcceptanceCriterion[], coveredIds: string[]): CriterionCoverage[] {
+  const covered = new Set(resolveCoveredCriteria(criteria, coveredIds));
+  return criteria.map(criterion => ({ ...criterion, covered: covered.has(criterion.id) }));
+}
@@ -0,0 +1,39 @@
+/**
+ * LLM providers the AI generators can call, mirroring supabase/functions/_shared/llm.ts
+ */
+
+export const AI_PROVIDERS = [
+  {
+    id: 'azure-openai',
+    label: 'Azure OpenAI',
+    // Credentials are stored under this integration
+    integrationId: 'openai',
+    defaultModel: '',
+    models: ['gpt-4o', 'gpt-4o-mini', 'gpt-4.1', 'gpt-4.1-mini', 'gpt-35-turbo'],
+  },
+  {
+    id: 'openai',
+    label: 'OpenAI',
+    integrationId: 'openai-api',
+    defaultModel: 'gpt-4o-mini',
+    models: ['gpt-4o-mini', 'gpt-4o', 'gpt-4.1', 'gpt-4.1-mini', 'gpt-4.1-nano', 'o4-mini'],
+  },
+  {
+    id: 'anthropic',
+    label: 'Anthropic',
+    integrationId: 'anthropic',
+    defaultModel: 'claude-sonnet-4-5-20250929',
+    models: ['claude-sonnet-4-5-20250929', 'claude-sonnet-4-20250514', 'claude-haiku-4-5-20251001', 'claude-opus-4-1-20250805'],
+  },
+  {
+    id: 'local',
+    label: 'Local (Ollama / vLLM)',
+    integrationId: 'local-llm',
+    defaultModel: 'llama3.1',
+    models: ['llama3.1', 'llama3.1:70b', 'qwen2.5', 'mistral'],
+  },
+] as const;
+
+export type AiProviderId = typeof AI_PROVIDERS[number]['id'];
+
+export const getAiProvider = (id: string) => AI_PROVIDERS.find(provider => provider.id === id) ?? AI_PROVIDERS[0];
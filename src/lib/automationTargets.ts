@@ -0,0 +1,17 @@
+/**
+ * Automation code targets offered by the generate-selenium-automation function
+ */
+
+export const AUTOMATION_TARGETS = [
+  { id: 'playwright-ts', label: 'Playwright (TypeScript)' },
+  { id: 'cypress', label: 'Cypress' },
+  { id: 'selenium-python', label: 'Selenium Python (pytest)' },
+  { id: 'selenium-java-junit', label: 'Selenium Java (JUnit 5)' },
+  { id: 'selenium-java-testng', label: 'Selenium Java (TestNG)' },
+  { id: 'webdriverio', label: 'WebdriverIO' },
+] as const;
+
+export type AutomationTargetId = typeof AUTOMATION_TARGETS[number]['id'];
+
+// Lets the function choose from the project's automation settings
+export const PROJECT_DEFAULT_TARGET = 'project-default';
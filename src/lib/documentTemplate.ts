@@ -0,0 +1,141 @@
+/**
+ * Per-project template for Word and PDF exports of test plans and reports
+ *
+ * Stored as JSON in projects.document_template next to projects.markdown_settings. Header,
+ * footer and cover texts may use the placeholders {company}, {project}, {title}, {version}
+ * and {date}.
+ */
+
+import { ReportChart } from "./reportCharts";
+
+export interface DocumentControlField {
+  label: string;
+  value: string;
+}
+
+export interface DocumentTemplate {
+  companyName: string;
+  // PNG or JPEG data URL, empty for no logo
+  logo: string;
+  coverPage: boolean;
+  coverSubtitle: string;
+  headerText: string;
+  footerText: string;
+  pageNumbers: boolean;
+  documentControl: boolean;
+  // Added below the document, version, status, author and date rows of the control table
+  documentControlFields: DocumentControlField[];
+}
+
+export const DEFAULT_DOCUMENT_TEMPLATE: DocumentTemplate = {
+  companyName: '',
+  logo: '',
+  coverPage: true,
+  coverSubtitle: 'Prepared for {project}',
+  headerText: '{company} | {title}',
+  footerText: 'Confidential',
+  pageNumbers: true,
+  documentControl: true,
+  documentControlFields: [
+    { label: 'Classification', value: 'Internal' },
+  ],
+};
+
+export const MAX_LOGO_BYTES = 200 * 1024;
+export const LOGO_TYPES = ['image/png', 'image/jpeg'];
+
+// What is known about the document being exported
+export interface ExportDocument {
+  markdown: string;
+  // e.g. "Checkout Test Plan"
+  title: string;
+  projectName: string;
+  fileName: string;
+  version?: string;
+  status?: string;
+  author?: string;
+  date: Date;
+  // Drawn where the report has {{chart:<id>}} lines
+  charts?: ReportChart[];
+}
+
+/**
+ * Reads a saved template, falling back to the defaults for anything missing or malformed
+ */
+export const parseDocumentTemplate = (saved: string | null | undefined): DocumentTemplate => {
+  if (!saved) return DEFAULT_DOCUMENT_TEMPLATE;
+  try {
+    const parsed = JSON.parse(saved);
+    return {
+      ...DEFAULT_DOCUMENT_TEMPLATE,
+      ...parsed,
+      documentControlFields: Array.isArray(parsed.documentControlFields)
+        ? parsed.documentControlFields.filter((field: DocumentControlField) => field && typeof field.label === 'string')
+        : DEFAULT_DOCUMENT_TEMPLATE.documentControlFields,
+    };
+  } catch {
+    return DEFAULT_DOCUMENT_TEMPLATE;
+  }
+};
+
+export const formatExportDate = (date: Date): string =>
+  date.toLocaleDateString(undefined, { year: 'numeric', month: 'long', day: 'numeric' });
+
+/**
+ * Replaces the template placeholders; separators left dangling by empty values are dropped
+ */
+export const fillPlaceholders = (text: string, template: DocumentTemplate, document: ExportDocument): string => {
+  const values: Record<string, string> = {
+    company: template.companyName,
+    project: document.projectName,
+    title: document.title,
+    version: document.version ?? '',
+    date: formatExportDate(document.date),
+  };
+  return text
+    .replace(/\{(\w+)\}/g, (match, name) => (name in values ? values[name] : match))
+    .replace(/^\s*[|\-–]\s*|\s*[|\-–]\s*$/g, '')
+    .trim();
+};
+
+/**
+ * Rows of the document control table: what the app knows about the document, then the template's own fields
+ */
+export const documentControlRows = (template: DocumentTemplate, document: ExportDocument): DocumentControlField[] => [
+  { label: 'Document', value: document.title },
+  { label: 'Project', value: document.projectName },
+  ...(document.version ? [{ label: 'Version', value: document.version }] : []),
+  ...(document.status ? [{ label: 'Status', value: document.status }] : []),
+  ...(document.author ? [{ label: 'Author', value: document.author }] : []),
+  { label: 'Date', value: formatExportDate(document.date) },
+  ...template.documentControlFields.filter(field => field.label.trim()),
+];
+
+/**
+ * Splits a logo data URL into its image type and bytes
+ */
+export const decodeLogo = (logo: string): { type: 'png' | 'jpg'; data: Uint8Array } | null => {
+  const match = logo.match(/^data:image\/(png|jpeg);base64,(.+)$/);
+  if (!match) return null;
+  const binary = atob(match[2]);
+  const data = new Uint8Array(binary.length);
+  for (let index = 0; index < binary.length; index++) data[index] = binary.charCodeAt(index);
+  return { type: match[1] === 'png' ? 'png' : 'jpg', data };
+};
+
+/**
+ * Width and height of the logo, for keeping its aspect ratio when it is scaled
+ */
+export const measureLogo = (logo: string): Promise<{ width: number; height: number }> =>
+  new Promise((resolve, reject) => {
+    const image = new Image();
+    image.onload = () => resolve({ width: image.naturalWidth, height: image.naturalHeight });
+    image.onerror = () => reject(new Error('The template logo could not be read'));
+    image.src = logo;
+  });
+
+// Scales a width and height to fit inside a box
+export const fitInside = (size: { width: number; height: number }, maxWidth: number, maxHeight: number) => {
+  const scale = Math.min(maxWidth / size.width, maxHeight / size.height);
+  return { width: size.width * scale, height: size.height * scale };
+};
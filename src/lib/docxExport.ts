@@ -0,0 +1,257 @@
+/**
+ * Word (.docx) export of generated test plans and reports
+ *
+ * The docx library is loaded on first use so it stays out of the main bundle.
+ */
+
+import type { Paragraph as DocxParagraph, ParagraphChild, Table as DocxTable } from "docx";
+import { InlineNode, parseInline, parseMarkdown } from "./markdown";
+import {
+  DocumentTemplate,
+  ExportDocument,
+  decodeLogo,
+  documentControlRows,
+  fillPlaceholders,
+  fitInside,
+  formatExportDate,
+  measureLogo,
+} from "./documentTemplate";
+import { renderChartImage } from "./reportCharts";
+
+const BULLETS = 'bullets';
+const NUMBERS = 'numbers';
+const FONT = 'Calibri';
+const CODE_FONT = 'Consolas';
+const TABLE_HEADER_FILL = 'E7E6E6';
+
+interface RunStyle {
+  bold?: boolean;
+  italics?: boolean;
+}
+
+/**
+ * Builds the Word document for a plan or report laid out with the project's template
+ */
+export const exportDocx = async (document: ExportDocument, template: DocumentTemplate): Promise<Blob> => {
+  const {
+    AlignmentType,
+    BorderStyle,
+    Document,
+    ExternalHyperlink,
+    Footer,
+    Header,
+    HeadingLevel,
+    ImageRun,
+    LevelFormat,
+    Packer,
+    PageNumber,
+    Paragraph,
+    ShadingType,
+    Table,
+    TableCell,
+    TableRow,
+    TextRun,
+    WidthType,
+  } = await import("docx");
+
+  const HEADINGS = [
+    HeadingLevel.HEADING_1,
+    HeadingLevel.HEADING_2,
+    HeadingLevel.HEADING_3,
+    HeadingLevel.HEADING_4,
+    HeadingLevel.HEADING_5,
+    HeadingLevel.HEADING_6,
+  ];
+
+  const runs = (nodes: InlineNode[], style: RunStyle = {}): ParagraphChild[] =>
+    nodes.flatMap((node): ParagraphChild[] => {
+      switch (node.type) {
+        case 'text':
+          return [new TextRun({ text: node.text, bold: style.bold, italics: style.italics })];
+        case 'code':
+          return [new TextRun({ text: node.text, font: CODE_FONT, bold: style.bold, italics: style.italics })];
+        case 'strong':
+          return runs(node.children, { ...style, bold: true });
+        case 'em':
+          return runs(node.children, { ...style, italics: true });
+        case 'link':
+          return [new ExternalHyperlink({
+            link: node.href,
+            children: [new TextRun({ text: plainInline(node.children), bold: style.bold, italics: style.italics, style: 'Hyperlink' })],
+          })];
+      }
+    });
+
+  const inline = (text: string, style?: RunStyle) => runs(parseInline(text), style);
+
+  const cell = (text: string, isHeader: boolean) => new TableCell({
+    children: [new Paragraph({ children: inline(text, { bold: isHeader }) })],
+    shading: isHeader ? { fill: TABLE_HEADER_FILL, type: ShadingType.CLEAR, color: 'auto' } : undefined,
+  });
+
+  const table = (header: string[], rows: string[][]) => {
+    const columns = Math.max(header.length, ...rows.map(row => row.length));
+    const pad = (row: string[]) => [...row, ...Array(columns - row.length).fill('')];
+    return new Table({
+      width: { size: 100, type: WidthType.PERCENTAGE },
+      rows: [
+        new TableRow({ tableHeader: true, children: pad(header).map(text => cell(text, true)) }),
+        ...rows.map(row => new TableRow({ children: pad(row).map(text => cell(text, false)) })),
+      ],
+    });
+  };
+
+  // Each list restarts its numbering
+  let listInstance = 0;
+  const body: (DocxParagraph | DocxTable)[] = [];
+  for (const block of parseMarkdown(document.markdown)) {
+    switch (block.type) {
+      case 'heading':
+        body.push(new Paragraph({ heading: HEADINGS[block.level - 1], children: inline(block.text) }));
+        break;
+      case 'paragraph':
+        body.push(new Paragraph({ children: inline(block.text), spacing: { after: 120 } }));
+        break;
+      case 'list': {
+        const instance = ++listInstance;
+        block.items.forEach(item => body.push(new Paragraph({
+          children: inline(item.text),
+          numbering: { reference: block.ordered ? NUMBERS : BULLETS, level: Math.min(item.depth, 2), instance },
+        })));
+        break;
+      }
+      case 'quote':
+        body.push(new Paragraph({ children: inline(block.text, { italics: true }), indent: { left: 567 } }));
+        break;
+      case 'code':
+        block.text.split('\n').forEach(line => body.push(new Paragraph({
+          children: [new TextRun({ text: line, font: CODE_FONT, size: 18 })],
+          shading: { fill: 'F3F3F3', type: ShadingType.CLEAR, color: 'auto' },
+          spacing: { after: 0 },
+        })));
+        break;
+      case 'table':
+        body.push(table(block.header, block.rows));
+        body.push(new Paragraph({ children: [] }));
+        break;
+      case 'rule':
+        body.push(new Paragraph({
+          children: [],
+          border: { bottom: { style: BorderStyle.SINGLE, size: 6, color: 'BFBFBF', space: 1 } },
+        }));
+        break;
+      case 'chart': {
+        const chart = document.charts?.find(candidate => candidate.id === block.id);
+        if (!chart) break;
+        const image = renderChartImage(chart);
+        body.push(new Paragraph({
+          alignment: AlignmentType.CENTER,
+          spacing: { before: 120, after: 120 },
+          children: [new ImageRun({ type: 'png', data: image.data, transformation: fitInside(image, 600, 300) })],
+        }));
+        break;
+      }
+    }
+  }
+
+  const logo = template.logo ? decodeLogo(template.logo) : null;
+  const logoRun = async (maxWidth: number, maxHeight: number) => {
+    if (!logo) return null;
+    const size = fitInside(await measureLogo(template.logo), maxWidth, maxHeight);
+    return new ImageRun({ type: logo.type, data: logo.data, transformation: { width: size.width, height: size.height } });
+  };
+
+  const cover: (DocxParagraph | DocxTable)[] = [];
+  if (template.coverPage) {
+    const coverLogo = await logoRun(240, 120);
+    if (coverLogo) cover.push(new Paragraph({ children: [coverLogo], alignment: AlignmentType.CENTER, spacing: { before: 1200, after: 600 } }));
+    if (template.companyName) {
+      cover.push(new Paragraph({ children: [new TextRun({ text: template.companyName, size: 28, color: '595959' })], alignment: AlignmentType.CENTER }));
+    }
+    cover.push(new Paragraph({
+      heading: HeadingLevel.TITLE,
+      alignment: AlignmentType.CENTER,
+      spacing: { before: coverLogo ? 600 : 2400, after: 240 },
+      children: [new TextRun(document.title)],
+    }));
+    const subtitle = fillPlaceholders(template.coverSubtitle, template, document);
+    if (subtitle) {
+      cover.push(new Paragraph({ children: [new TextRun({ text: subtitle, size: 28 })], alignment: AlignmentType.CENTER }));
+    }
+    cover.push(new Paragraph({
+      children: [new TextRun({ text: [document.version, formatExportDate(document.date)].filter(Boolean).join(' — '), color: '595959' })],
+      alignment: AlignmentType.CENTER,
+      spacing: { before: 240 },
+    }));
+  }
+  if (template.documentControl) {
+    cover.push(new Paragraph({ heading: HeadingLevel.HEADING_2, children: [new TextRun('Document Control')], pageBreakBefore: template.coverPage }));
+    const rows = documentControlRows(template, document);
+    cover.push(new Table({
+      width: { size: 100, type: WidthType.PERCENTAGE },
+      rows: rows.map(row => new TableRow({
+        children: [
+          new TableCell({
+            width: { size: 30, type: WidthType.PERCENTAGE },
+            shading: { fill: TABLE_HEADER_FILL, type: ShadingType.CLEAR, color: 'auto' },
+            children: [new Paragraph({ children: [new TextRun({ text: row.label, bold: true })] })],
+          }),
+          new TableCell({ children: [new Paragraph({ children: [new TextRun(row.value)] })] }),
+        ],
+      })),
+    }));
+  }
+
+  const headerText = fillPlaceholders(template.headerText, template, document);
+  const headerLogo = await logoRun(96, 32);
+  const footerText = fillPlaceholders(template.footerText, template, document);
+  const footerRuns = [
+    ...(footerText ? [new TextRun(footerText)] : []),
+    ...(footerText && template.pageNumbers ? [new TextRun('    ')] : []),
+    ...(template.pageNumbers ? [new TextRun({ children: ['Page ', PageNumber.CURRENT, ' of ', PageNumber.TOTAL_PAGES] })] : []),
+  ];
+
+  const listLevels = (format: (typeof LevelFormat)[keyof typeof LevelFormat], text: (level: number) => string) =>
+    [0, 1, 2].map(level => ({
+      level,
+      format,
+      text: text(level),
+      alignment: AlignmentType.LEFT,
+      style: { paragraph: { indent: { left: 720 * (level + 1), hanging: 360 } } },
+    }));
+
+  const doc = new Document({
+    creator: template.companyName || undefined,
+    title: document.title,
+    styles: { default: { document: { run: { font: FONT, size: 22 } } } },
+    numbering: {
+      config: [
+        { reference: BULLETS, levels: listLevels(LevelFormat.BULLET, level => ['•', '◦', '▪'][level]) },
+        { reference: NUMBERS, levels: listLevels(LevelFormat.DECIMAL, level => `%${level + 1}.`) },
+      ],
+    },
+    sections: [
+      ...(cover.length > 0 ? [{ children: cover }] : []),
+      {
+        headers: headerText || headerLogo ? {
+          default: new Header({
+            children: [new Paragraph({
+              children: [...(headerLogo ? [headerLogo, new TextRun('  ')] : []), new TextRun({ text: headerText, color: '595959', size: 18 })],
+            })],
+          }),
+        } : undefined,
+        footers: footerRuns.length > 0 ? {
+          default: new Footer({
+            children: [new Paragraph({ alignment: AlignmentType.CENTER, children: footerRuns })],
+          }),
+        } : undefined,
+        children: body,
+      },
+    ],
+  });
+
+  return Packer.toBlob(doc);
+};
+
+const plainInline = (nodes: InlineNode[]): string =>
+  nodes.map(node => ('children' in node ? plainInline(node.children) : node.text)).join('');
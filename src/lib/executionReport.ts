@@ -0,0 +1,288 @@
+/**
+ * Execution data behind generated test reports
+ *
+ * Loads the results of one execution run, or the latest result of every test case within a
+ * date range, together with the comparison against the previous run and the pass-rate trend
+ * that the report's charts are drawn from.
+ */
+
+import { PostgrestError } from "@supabase/supabase-js";
+import { supabase } from "@/integrations/supabase/client";
+import { ReportChart } from "./reportCharts";
+
+export type ReportStatus = 'passed' | 'failed' | 'blocked' | 'skipped' | 'pending';
+
+export interface ReportCase {
+  id: string;
+  title: string;
+  status: ReportStatus;
+  priority: 'low' | 'medium' | 'high';
+  userStoryTitle?: string;
+  actualResult: string;
+  notes: string;
+  defects: string[];
+  durationSeconds: number | null;
+  executedAt: string | null;
+  // Only in run reports: the case's result in the run before, when it was part of it
+  previousStatus?: ReportStatus;
+}
+
+export interface ExecutionRun {
+  id: string;
+  name: string;
+  status: string;
+  startedAt: string;
+  completedAt: string | null;
+  environment: string | null;
+  buildVersion: string | null;
+}
+
+export type ReportSource =
+  | { kind: 'run'; runId: string }
+  // Inclusive YYYY-MM-DD dates
+  | { kind: 'range'; from: string; to: string };
+
+export interface RunComparison {
+  runName: string;
+  startedAt: string;
+  passRate: number;
+  // Case titles
+  newFailures: string[];
+  fixed: string[];
+  stillFailing: string[];
+}
+
+export interface TrendPoint {
+  runName: string;
+  startedAt: string;
+  passRate: number;
+}
+
+export interface ExecutionData {
+  cases: ReportCase[];
+  comparison: RunComparison | null;
+  trend: TrendPoint[];
+}
+
+const TREND_RUNS = 8;
+// PostgREST returns at most this many rows per request
+const PAGE_SIZE = 1000;
+const MAX_STORY_BARS = 10;
+const PRIORITY_ORDER = ['high', 'medium', 'low'];
+
+// Cases that have not been executed yet, in the run or at all, are reported as pending
+export const reportStatus = (status: string | null): ReportStatus => {
+  switch (status) {
+    case 'passed':
+    case 'failed':
+    case 'blocked':
+    case 'skipped':
+      return status;
+    default:
+      return 'pending';
+  }
+};
+
+export const passRate = (statuses: string[]): number =>
+  statuses.length > 0 ? Math.round((statuses.filter(status => status === 'passed').length / statuses.length) * 1000) / 10 : 0;
+
+export const formatDuration = (seconds: number): string => {
+  if (seconds < 60) return `${seconds}s`;
+  const hours = Math.floor(seconds / 3600);
+  const minutes = Math.floor((seconds % 3600) / 60);
+  if (hours > 0) return `${hours}h ${minutes}m`;
+  return `${minutes}m ${seconds % 60}s`;
+};
+
+interface CaseRow {
+  id: string;
+  title: string;
+  priority: string | null;
+  user_stories: { title: string } | null;
+}
+
+interface ResultRow {
+  status: string;
+  actual_result: string | null;
+  notes: string | null;
+  defects: string[];
+  duration_seconds: number | null;
+  executed_at: string | null;
+}
+
+// Reads every row of a query page by page; the query must have a stable order
+const fetchAll = async <T>(
+  page: (from: number, to: number) => PromiseLike<{ data: T[] | null; error: PostgrestError | null }>
+): Promise<T[]> => {
+  const rows: T[] = [];
+  for (let from = 0; ; from += PAGE_SIZE) {
+    const { data, error } = await page(from, from + PAGE_SIZE - 1);
+    if (error) throw error;
+    rows.push(...(data || []));
+    if (!data || data.length < PAGE_SIZE) return rows;
+  }
+};
+
+const toReportCase = (testCase: CaseRow, result: ResultRow | undefined): ReportCase => ({
+  id: testCase.id,
+  title: testCase.title,
+  status: reportStatus(result?.status ?? null),
+  priority: (testCase.priority || 'medium') as ReportCase['priority'],
+  userStoryTitle: testCase.user_stories?.title,
+  actualResult: result?.actual_result || '',
+  notes: result?.notes || '',
+  defects: result?.defects || [],
+  durationSeconds: result?.duration_seconds ?? null,
+  executedAt: result?.executed_at ?? null
+});
+
+const loadTrend = async (runs: ExecutionRun[]): Promise<TrendPoint[]> => {
+  if (runs.length === 0) return [];
+  const data = await fetchAll((from, to) => supabase
+    .from('test_run_results')
+    .select('run_id, status')
+    .in('run_id', runs.map(run => run.id))
+    .order('id', { ascending: true })
+    .range(from, to));
+
+  return [...runs].reverse().map(run => ({
+    runName: run.name,
+    startedAt: run.startedAt,
+    passRate: passRate(data.filter(result => result.run_id === run.id).map(result => result.status))
+  }));
+};
+
+const loadRunData = async (runId: string, runs: ExecutionRun[]): Promise<ExecutionData> => {
+  const data = await fetchAll((from, to) => supabase
+    .from('test_run_results')
+    .select('status, actual_result, notes, defects, duration_seconds, executed_at, test_cases!inner(id, title, priority, user_stories(title))')
+    .eq('run_id', runId)
+    .order('created_at', { ascending: true })
+    .order('id', { ascending: true })
+    .range(from, to));
+
+  const cases = data.map(result => toReportCase(result.test_cases, result));
+
+  // Runs are listed newest first, so the previous run is the next one in the list
+  const position = runs.findIndex(run => run.id === runId);
+  const previousRun = position === -1 ? undefined : runs[position + 1];
+  let comparison: RunComparison | null = null;
+  if (previousRun) {
+    const previousResults = await fetchAll((from, to) => supabase
+      .from('test_run_results')
+      .select('test_case_id, status')
+      .eq('run_id', previousRun.id)
+      .order('id', { ascending: true })
+      .range(from, to));
+
+    const previousStatuses = new Map(previousResults.map(result => [result.test_case_id, reportStatus(result.status)]));
+    cases.forEach(testCase => {
+      testCase.previousStatus = previousStatuses.get(testCase.id);
+    });
+    comparison = {
+      runName: previousRun.name,
+      startedAt: previousRun.startedAt,
+      passRate: passRate(previousResults.map(result => result.status)),
+      newFailures: cases.filter(tc => tc.status === 'failed' && tc.previousStatus && tc.previousStatus !== 'failed').map(tc => tc.title),
+      fixed: cases.filter(tc => tc.status === 'passed' && tc.previousStatus === 'failed').map(tc => tc.title),
+      stillFailing: cases.filter(tc => tc.status === 'failed' && tc.previousStatus === 'failed').map(tc => tc.title)
+    };
+  }
+
+  const trendRuns = position === -1 ? [] : runs.slice(position, position + TREND_RUNS);
+  return { cases, comparison, trend: await loadTrend(trendRuns) };
+};
+
+const loadRangeData = async (projectId: string, from: string, to: string, runs: ExecutionRun[]): Promise<ExecutionData> => {
+  const start = new Date(`${from}T00:00:00`);
+  const end = new Date(`${to}T00:00:00`);
+  end.setDate(end.getDate() + 1);
+
+  const [caseRows, results] = await Promise.all([
+    fetchAll((from, to) => supabase
+      .from('test_cases')
+      .select('id, title, priority, user_stories(title)')
+      .eq('project_id', projectId)
+      .order('created_at', { ascending: true })
+      .order('id', { ascending: true })
+      .range(from, to)),
+    fetchAll((from, to) => supabase
+      .from('test_run_results')
+      .select('test_case_id, status, actual_result, notes, defects, duration_seconds, executed_at')
+      .eq('project_id', projectId)
+      .neq('status', 'not-run')
+      .gte('executed_at', start.toISOString())
+      .lt('executed_at', end.toISOString())
+      .order('executed_at', { ascending: false })
+      .order('id', { ascending: true })
+      .range(from, to))
+  ]);
+
+  // Ordered newest first, so the first result seen for a case is its latest in the range
+  const latest = new Map<string, ResultRow>();
+  results.forEach(result => {
+    if (!latest.has(result.test_case_id)) latest.set(result.test_case_id, result);
+  });
+  const cases = caseRows.map(testCase => toReportCase(testCase, latest.get(testCase.id)));
+
+  const rangeRuns = runs
+    .filter(run => new Date(run.startedAt) >= start && new Date(run.startedAt) < end)
+    .slice(0, TREND_RUNS);
+  return { cases, comparison: null, trend: await loadTrend(rangeRuns) };
+};
+
+/**
+ * Loads the cases and results a report covers; runs must be the project's runs, newest first
+ */
+export const loadExecutionData = (projectId: string, source: ReportSource, runs: ExecutionRun[]): Promise<ExecutionData> =>
+  source.kind === 'run' ? loadRunData(source.runId, runs) : loadRangeData(projectId, source.from, source.to, runs);
+
+const countBy = (cases: ReportCase[], key: (testCase: ReportCase) => string): Map<string, number> => {
+  const counts = new Map<string, number>();
+  cases.forEach(testCase => counts.set(key(testCase), (counts.get(key(testCase)) ?? 0) + 1));
+  return counts;
+};
+
+/**
+ * Charts for the report: the pass-rate trend across runs, and where the failures are
+ */
+export const buildReportCharts = ({ cases, trend }: ExecutionData): ReportChart[] => {
+  const charts: ReportChart[] = [];
+
+  if (trend.length > 0) {
+    charts.push({
+      id: 'pass-rate-trend',
+      title: 'Pass rate by run',
+      kind: 'line',
+      unit: '%',
+      points: trend.map(point => ({ label: point.runName, value: point.passRate }))
+    });
+  }
+
+  const failures = cases.filter(testCase => testCase.status === 'failed');
+  if (failures.length > 0) {
+    const byPriority = countBy(failures, testCase => testCase.priority);
+    const priorities = [...PRIORITY_ORDER, ...[...byPriority.keys()].filter(priority => !PRIORITY_ORDER.includes(priority))];
+    charts.push({
+      id: 'failures-by-priority',
+      title: 'Failed test cases by priority',
+      kind: 'bar',
+      unit: '',
+      points: priorities.map(priority => ({ label: priority, value: byPriority.get(priority) ?? 0 }))
+    });
+
+    const byStory = countBy(failures, testCase => testCase.userStoryTitle || 'No user story');
+    charts.push({
+      id: 'failures-by-story',
+      title: 'Failed test cases by user story',
+      kind: 'bar',
+      unit: '',
+      points: [...byStory.entries()]
+        .sort((a, b) => b[1] - a[1])
+        .slice(0, MAX_STORY_BARS)
+        .map(([label, value]) => ({ label, value }))
+    });
+  }
+
+  return charts;
+};
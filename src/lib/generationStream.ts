@@ -0,0 +1,114 @@
+/**
+ * Calls generate-test-plan and generate-test-report: reads the server-sent events they send when
+ * called with stream: true, and asks them to rewrite single sections of an edited document
+ */
+
+import { supabase } from "@/integrations/supabase/client";
+import { DocumentSection } from "./markdown";
+
+export type GenerationOutcome = 'complete' | 'cancelled' | 'interrupted';
+
+export interface GenerationStreamResult {
+  outcome: GenerationOutcome;
+  // The model stopped at its token limit, so the document may end abruptly
+  truncated: boolean;
+  error: string | null;
+}
+
+export interface GenerationStreamHandlers<TStart> {
+  // Metadata the function sends before the first piece of text
+  onStart?: (data: TStart) => void;
+  onText: (text: string) => void;
+  // Aborting cancels the stream; text received so far is left with the caller
+  signal?: AbortSignal;
+}
+
+const CANCELLED: GenerationStreamResult = { outcome: 'cancelled', truncated: false, error: null };
+
+/**
+ * Calls an edge function in streaming mode and feeds its text to the handlers as it arrives.
+ * Errors before streaming starts are thrown; once it has started the outcome says how it ended.
+ */
+export const streamGeneration = async <TStart = unknown>(
+  functionName: string,
+  body: Record<string, unknown>,
+  handlers: GenerationStreamHandlers<TStart>
+): Promise<GenerationStreamResult> => {
+  const { data, error } = await supabase.functions.invoke(functionName, { body: { ...body, stream: true } });
+  if (error) {
+    const details = await error.context?.json?.().catch(() => null);
+    throw new Error(details?.error || error.message);
+  }
+
+  const reader = (data as Response).body!.pipeThrough(new TextDecoderStream()).getReader();
+  const cancel = () => {
+    reader.cancel().catch(() => undefined);
+  };
+  if (handlers.signal?.aborted) {
+    cancel();
+    return CANCELLED;
+  }
+  handlers.signal?.addEventListener('abort', cancel, { once: true });
+
+  let result: GenerationStreamResult | null = null;
+  let buffer = '';
+  let event = 'message';
+
+  try {
+    while (true) {
+      const { value, done } = await reader.read();
+      if (done) break;
+
+      buffer += value;
+      const lines = buffer.split('\n');
+      buffer = lines.pop() ?? '';
+
+      for (const line of lines) {
+        if (line.startsWith('event:')) {
+          event = line.slice(6).trim();
+        } else if (line.startsWith('data:')) {
+          const payload = JSON.parse(line.slice(5));
+          if (event === 'start') handlers.onStart?.(payload);
+          else if (event === 'delta') handlers.onText(payload.text);
+          else if (event === 'done') result = { outcome: 'complete', truncated: !!payload.truncated, error: null };
+          else if (event === 'error') result = { outcome: 'interrupted', truncated: false, error: payload.error };
+        } else if (line === '') {
+          event = 'message';
+        }
+      }
+    }
+  } catch (streamError) {
+    if (!handlers.signal?.aborted) {
+      return { outcome: 'interrupted', truncated: false, error: streamError.message || 'The connection was lost' };
+    }
+  } finally {
+    handlers.signal?.removeEventListener('abort', cancel);
+  }
+
+  if (handlers.signal?.aborted) return CANCELLED;
+  return result ?? { outcome: 'interrupted', truncated: false, error: 'The connection closed before generation finished' };
+};
+
+/**
+ * Rewrites one section of a document the function generated earlier. `body` carries the same
+ * inputs as the original generation; the result is the new section, heading line included.
+ */
+export const regenerateSection = async (
+  functionName: string,
+  body: Record<string, unknown>,
+  section: DocumentSection,
+  document: string,
+  instructions: string
+): Promise<string> => {
+  const { data, error } = await supabase.functions.invoke(functionName, {
+    body: {
+      ...body,
+      section: { heading: section.headingLine, content: section.text, document, instructions }
+    }
+  });
+  if (error) {
+    const details = await error.context?.json?.().catch(() => null);
+    throw new Error(details?.error || error.message);
+  }
+  return data.section;
+};
@@ -0,0 +1,433 @@
+/**
+ * Gherkin (.feature) export and import of test cases
+ *
+ * Step actions become Given/When steps and their expected results become Then steps. Single-line
+ * test data is appended to the step in quotes, other data is written as a doc string.
+ * Priority, type and category travel as @priority:, @type: and @category: tags.
+ */
+
+import { TestStep } from "./testSteps";
+
+export interface FeatureTestCase {
+  title: string;
+  description: string;
+  steps: TestStep[];
+  expectedResult: string;
+  priority: string;
+  testType: string | null;
+  category: string | null;
+}
+
+export interface ParsedFeature {
+  name: string;
+  description: string;
+  testCases: FeatureTestCase[];
+}
+
+type Keyword = 'Given' | 'When' | 'Then';
+
+interface GherkinStep {
+  keyword: Keyword;
+  text: string;
+  // Doc string or data table content attached to the step
+  data: string;
+}
+
+const INDENT = '  ';
+const STEP_LINE = /^(Given|When|Then|And|But|\*)\s+(.*)$/;
+const SCENARIO_LINE = /^(Scenario Outline|Scenario Template|Scenario|Example):\s*(.*)$/;
+const DOC_STRING_DELIMITER = /^("""|```)/;
+const TRAILING_QUOTED = /^(.*\S)\s+"([^"]*)"$/;
+
+const singleLine = (text: string): string => text.replace(/\s*\r?\n\s*/g, ' ').trim();
+
+const escapeCell = (value: string): string =>
+  value.replace(/\\/g, '\\\\').replace(/\|/g, '\\|').replace(/\r?\n/g, '\\n');
+
+const unescapeCell = (value: string): string =>
+  value.replace(/\\(\\|\||n)/g, (_, escaped: string) => (escaped === 'n' ? '\n' : escaped));
+
+// Steps written in BDD style keep their own keyword; "And" / "But" fall back to the default
+const splitKeyword = (text: string, fallback: Keyword): { keyword: Keyword; text: string } => {
+  const match = text.match(/^(given|when|then|and|but)\s+(.*)$/i);
+  if (!match) return { keyword: fallback, text };
+
+  const word = match[1].toLowerCase();
+  const keyword = word === 'given' ? 'Given' : word === 'when' ? 'When' : word === 'then' ? 'Then' : fallback;
+  return { keyword, text: match[2] };
+};
+
+const buildSteps = (testCase: FeatureTestCase, dataFor: (step: TestStep, index: number) => string): GherkinStep[] => {
+  const lines: GherkinStep[] = [];
+
+  testCase.steps.forEach((step, index) => {
+    const { keyword, text } = splitKeyword(singleLine(step.action), index === 0 ? 'Given' : 'When');
+    const data = dataFor(step, index);
+    if (/["\n]/.test(data)) {
+      lines.push({ keyword, text, data });
+    } else {
+      lines.push({ keyword, text: data ? `${text} "${data}"` : text, data: '' });
+    }
+    if (step.expectedResult) {
+      lines.push({ keyword: 'Then', text: splitKeyword(singleLine(step.expectedResult), 'Then').text, data: '' });
+    }
+  });
+
+  const lastStepExpected = testCase.steps[testCase.steps.length - 1]?.expectedResult || '';
+  if (testCase.expectedResult && testCase.expectedResult.trim() !== lastStepExpected.trim()) {
+    lines.push({ keyword: 'Then', text: splitKeyword(singleLine(testCase.expectedResult), 'Then').text, data: '' });
+  }
+  return lines;
+};
+
+const renderSteps = (steps: GherkinStep[]): string[] => {
+  const indent = INDENT.repeat(2);
+  const lines: string[] = [];
+  let previous: Keyword | null = null;
+
+  for (const step of steps) {
+    lines.push(`${indent}${step.keyword === previous ? 'And' : step.keyword} ${step.text}`);
+    if (step.data) {
+      lines.push(
+        `${indent}${INDENT}"""`,
+        ...step.data.replace(/"""/g, '\\"\\"\\"').split(/\r?\n/).map(line => `${indent}${INDENT}${line}`),
+        `${indent}${INDENT}"""`
+      );
+    }
+    previous = step.keyword;
+  }
+  return lines;
+};
+
+const renderTags = (testCase: FeatureTestCase): string =>
+  [
+    `@priority:${testCase.priority || 'medium'}`,
+    testCase.testType ? `@type:${testCase.testType}` : '',
+    testCase.category ? `@category:${testCase.category}` : '',
+  ].filter(Boolean).join(' ');
+
+const renderDescription = (description: string, indent: string): string[] =>
+  description
+    .split(/\r?\n/)
+    .map(line => line.trim())
+    .filter(Boolean)
+    .map(line => `${indent}${line}`);
+
+// Names Examples columns after the last word of the step action ("Enter username" -> username)
+const outlineParameters = (steps: TestStep[]): Map<number, string> => {
+  const names = new Map<number, string>();
+  const used = new Set<string>();
+
+  steps.forEach((step, index) => {
+    if (!step.testData) return;
+    const words = step.action.toLowerCase().replace(/[^a-z0-9]+/g, ' ').trim().split(' ');
+    const base = words[words.length - 1] || 'data';
+    let name = base;
+    for (let suffix = 2; used.has(name); suffix++) {
+      name = `${base}_${suffix}`;
+    }
+    used.add(name);
+    names.set(index, name);
+  });
+  return names;
+};
+
+const commonTitle = (titles: string[]): string => {
+  const words = titles.map(title => title.split(/\s+/));
+  const prefix: string[] = [];
+  for (let i = 0; i < words[0].length && words.every(title => title[i] === words[0][i]); i++) {
+    prefix.push(words[0][i]);
+  }
+  return prefix.join(' ').replace(/[\s\-–:,(]+$/, '') || titles[0];
+};
+
+// Cases that share everything except their step test data can be written as one Scenario Outline
+const outlineKey = (testCase: FeatureTestCase): string =>
+  JSON.stringify([
+    testCase.steps.map(step => [step.action.trim(), step.expectedResult.trim(), !!step.testData]),
+    testCase.expectedResult.trim(),
+    testCase.description.trim(),
+    testCase.priority,
+    testCase.testType,
+    testCase.category,
+  ]);
+
+/**
+ * Writes a story's test cases as a Gherkin feature. Cases that differ only in their
+ * test data are combined into a Scenario Outline with an Examples table.
+ */
+export const testCasesToFeature = (featureName: string, testCases: FeatureTestCase[], description = ''): string => {
+  const lines = [`Feature: ${singleLine(featureName)}`, ...renderDescription(description, INDENT)];
+
+  const groups = new Map<string, FeatureTestCase[]>();
+  for (const testCase of testCases) {
+    const key = outlineKey(testCase);
+    groups.set(key, [...(groups.get(key) || []), testCase]);
+  }
+
+  for (const group of groups.values()) {
+    const [first] = group;
+
+    if (group.length > 1 && first.steps.some(step => step.testData)) {
+      const parameters = outlineParameters(first.steps);
+      const columns = Array.from(parameters.entries());
+
+      lines.push(
+        '',
+        `${INDENT}${renderTags(first)}`,
+        `${INDENT}Scenario Outline: ${singleLine(commonTitle(group.map(testCase => testCase.title)))}`,
+        ...renderDescription(first.description, INDENT.repeat(2)),
+        ...renderSteps(buildSteps(first, (_, index) => (parameters.has(index) ? `<${parameters.get(index)}>` : ''))),
+        '',
+        `${INDENT.repeat(2)}Examples:`,
+        `${INDENT.repeat(3)}| ${columns.map(([, name]) => name).join(' | ')} |`,
+        ...group.map(testCase =>
+          `${INDENT.repeat(3)}| ${columns.map(([index]) => escapeCell(testCase.steps[index].testData)).join(' | ')} |`
+        )
+      );
+      continue;
+    }
+
+    for (const testCase of group) {
+      lines.push(
+        '',
+        `${INDENT}${renderTags(testCase)}`,
+        `${INDENT}Scenario: ${singleLine(testCase.title)}`,
+        ...renderDescription(testCase.description, INDENT.repeat(2)),
+        ...renderSteps(buildSteps(testCase, step => step.testData))
+      );
+    }
+  }
+
+  return `${lines.join('\n')}\n`;
+};
+
+interface ScenarioDraft {
+  name: string;
+  tags: string[];
+  description: string[];
+  steps: GherkinStep[];
+  isOutline: boolean;
+  examples: { header: string[]; rows: string[][] }[];
+}
+
+const parseRow = (line: string): string[] =>
+  line
+    .replace(/^\|/, '')
+    .replace(/(?<!\\)\|$/, '')
+    .split(/(?<!\\)\|/)
+    .map(cell => unescapeCell(cell.trim()));
+
+const applyTags = (testCase: FeatureTestCase, tags: string[]) => {
+  for (const tag of tags) {
+    const [name, value] = tag.replace(/^@/, '').toLowerCase().split(':');
+    if (name === 'priority' && value) testCase.priority = value;
+    else if (['low', 'medium', 'high'].includes(name) && !value) testCase.priority = name;
+    else if (name === 'type' && value) testCase.testType = value;
+    else if (name === 'category' && value) testCase.category = value;
+  }
+};
+
+/**
+ * Then steps become the expected result of the step before them; any further Then steps
+ * make up the overall expected result, which otherwise defaults to the last step's.
+ * Doc strings, data tables and a trailing quoted value become the step's test data.
+ */
+const toTestCase = (title: string, description: string, tags: string[], steps: GherkinStep[]): FeatureTestCase => {
+  const testSteps: TestStep[] = [];
+  const overallExpected: string[] = [];
+
+  for (const step of steps) {
+    const text = step.data ? `${step.text}\n${step.data}` : step.text;
+    if (step.keyword !== 'Then') {
+      // A trailing quoted value is the test data written by testCasesToFeature
+      const quoted = step.data ? null : step.text.match(TRAILING_QUOTED);
+      testSteps.push({
+        action: quoted ? quoted[1] : step.text,
+        testData: quoted ? quoted[2] : step.data,
+        expectedResult: '',
+      });
+      continue;
+    }
+
+    const last = testSteps[testSteps.length - 1];
+    if (last && !last.expectedResult && overallExpected.length === 0) {
+      last.expectedResult = text;
+    } else {
+      overallExpected.push(text);
+    }
+  }
+
+  const testCase: FeatureTestCase = {
+    title,
+    description,
+    steps: testSteps,
+    expectedResult: overallExpected.join('\n') || testSteps[testSteps.length - 1]?.expectedResult || '',
+    priority: 'medium',
+    testType: null,
+    category: null,
+  };
+  applyTags(testCase, tags);
+  return testCase;
+};
+
+const substitute = (text: string, values: Record<string, string>): string =>
+  text.replace(/<([^<>]+)>/g, (placeholder, name: string) => values[name] ?? placeholder);
+
+const expandScenario = (draft: ScenarioDraft, background: GherkinStep[], featureTags: string[]): FeatureTestCase[] => {
+  const tags = [...featureTags, ...draft.tags];
+  const description = draft.description.join('\n');
+  const steps = [...background, ...draft.steps];
+
+  if (!draft.isOutline) {
+    return [toTestCase(draft.name, description, tags, steps)];
+  }
+
+  return draft.examples.flatMap(({ header, rows }) =>
+    rows.map(row => {
+      const values = Object.fromEntries(header.map((name, index) => [name, row[index] ?? '']));
+      const title = /<[^<>]+>/.test(draft.name)
+        ? substitute(draft.name, values)
+        : `${draft.name} (${row.join(', ')})`;
+      return toTestCase(
+        title,
+        substitute(description, values),
+        tags,
+        steps.map(step => ({ ...step, text: substitute(step.text, values), data: substitute(step.data, values) }))
+      );
+    })
+  );
+};
+
+/**
+ * Parses a .feature file into test cases, one per Scenario and one per Examples row of a
+ * Scenario Outline. Background steps are prepended to every scenario.
+ */
+export const parseFeature = (text: string): ParsedFeature => {
+  const feature: ParsedFeature = { name: '', description: '', testCases: [] };
+  const featureDescription: string[] = [];
+  let featureTags: string[] = [];
+  let pendingTags: string[] = [];
+  const background: GherkinStep[] = [];
+  let section: 'feature' | 'background' | 'scenario' | 'examples' = 'feature';
+  let scenario: ScenarioDraft | null = null;
+  let previousKeyword: Keyword = 'Given';
+  let docString: { delimiter: string; indent: number; lines: string[] } | null = null;
+
+  const currentSteps = () => (section === 'background' ? background : scenario?.steps || []);
+
+  const finishScenario = () => {
+    if (scenario) {
+      feature.testCases.push(...expandScenario(scenario, background, featureTags));
+    }
+    scenario = null;
+  };
+
+  for (const rawLine of text.split(/\r?\n/)) {
+    const line = rawLine.trim();
+
+    if (docString) {
+      if (line.startsWith(docString.delimiter)) {
+        const steps = currentSteps();
+        const step = steps[steps.length - 1];
+        if (step) step.data = docString.lines.join('\n').replace(/\\"\\"\\"/g, '"""');
+        docString = null;
+      } else {
+        docString.lines.push(rawLine.slice(Math.min(docString.indent, rawLine.search(/\S|$/))));
+      }
+      continue;
+    }
+
+    if (!line || line.startsWith('#')) continue;
+
+    const delimiter = line.match(DOC_STRING_DELIMITER);
+    if (delimiter) {
+      docString = { delimiter: delimiter[1], indent: rawLine.indexOf(delimiter[1]), lines: [] };
+      continue;
+    }
+
+    if (line.startsWith('@')) {
+      pendingTags.push(...line.split(/\s+/).filter(tag => tag.startsWith('@')));
+      continue;
+    }
+
+    if (line.startsWith('Feature:')) {
+      feature.name = line.slice('Feature:'.length).trim();
+      featureTags = pendingTags;
+      pendingTags = [];
+      continue;
+    }
+
+    if (line.startsWith('Background:')) {
+      finishScenario();
+      section = 'background';
+      pendingTags = [];
+      continue;
+    }
+
+    if (line.startsWith('Rule:')) {
+      finishScenario();
+      section = 'feature';
+      pendingTags = [];
+      continue;
+    }
+
+    const scenarioMatch = line.match(SCENARIO_LINE);
+    if (scenarioMatch) {
+      finishScenario();
+      scenario = {
+        name: scenarioMatch[2].trim(),
+        tags: pendingTags,
+        description: [],
+        steps: [],
+        isOutline: scenarioMatch[1].startsWith('Scenario '),
+        examples: [],
+      };
+      pendingTags = [];
+      section = 'scenario';
+      previousKeyword = 'Given';
+      continue;
+    }
+
+    if (/^(Examples|Scenarios):/.test(line) && scenario) {
+      scenario.isOutline = true;
+      scenario.examples.push({ header: [], rows: [] });
+      section = 'examples';
+      pendingTags = [];
+      continue;
+    }
+
+    if (line.startsWith('|')) {
+      if (section === 'examples' && scenario) {
+        const table = scenario.examples[scenario.examples.length - 1];
+        if (table.header.length === 0) table.header = parseRow(line);
+        else table.rows.push(parseRow(line));
+      } else {
+        // Data tables are kept as text on the step they belong to
+        const steps = currentSteps();
+        const step = steps[steps.length - 1];
+        if (step) step.data = step.data ? `${step.data}\n${line}` : line;
+      }
+      continue;
+    }
+
+    const stepMatch = line.match(STEP_LINE);
+    if (stepMatch && section !== 'feature') {
+      const word = stepMatch[1];
+      const keyword: Keyword = word === 'Given' || word === 'When' || word === 'Then' ? word : previousKeyword;
+      currentSteps().push({ keyword, text: stepMatch[2].trim(), data: '' });
+      previousKeyword = keyword;
+      continue;
+    }
+
+    if (section === 'feature') {
+      featureDescription.push(line);
+    } else if (section === 'scenario' && scenario && scenario.steps.length === 0) {
+      scenario.description.push(line);
+    }
+  }
+  finishScenario();
+
+  feature.description = featureDescription.join('\n');
+  return feature;
+};
@@ -0,0 +1,120 @@
+/**
+ * Line-based diff of two documents, laid out as rows for a side-by-side view
+ */
+
+export type DiffRowKind = 'same' | 'added' | 'removed' | 'changed';
+
+export interface DiffLine {
+  number: number;
+  text: string;
+}
+
+export interface DiffRow {
+  kind: DiffRowKind;
+  left: DiffLine | null;
+  right: DiffLine | null;
+}
+
+// The LCS table grows with the product of both line counts; beyond this the changed middle
+// is shown as removed then added instead of being aligned line by line
+const MAX_TABLE_CELLS = 4_000_000;
+
+type Op = { kind: 'same' | 'removed' | 'added'; left?: number; right?: number };
+
+const alignLines = (a: string[], b: string[], offset: number): Op[] => {
+  const rows = a.length + 1;
+  const cols = b.length + 1;
+  if (rows * cols > MAX_TABLE_CELLS) {
+    return [
+      ...a.map((_, index) => ({ kind: 'removed' as const, left: offset + index })),
+      ...b.map((_, index) => ({ kind: 'added' as const, right: offset + index })),
+    ];
+  }
+
+  // lengths[i * cols + j] is the LCS length of a[i..] and b[j..]
+  const lengths = new Uint32Array(rows * cols);
+  for (let i = a.length - 1; i >= 0; i--) {
+    for (let j = b.length - 1; j >= 0; j--) {
+      lengths[i * cols + j] = a[i] === b[j]
+        ? lengths[(i + 1) * cols + j + 1] + 1
+        : Math.max(lengths[(i + 1) * cols + j], lengths[i * cols + j + 1]);
+    }
+  }
+
+  const ops: Op[] = [];
+  let i = 0;
+  let j = 0;
+  while (i < a.length || j < b.length) {
+    if (i < a.length && j < b.length && a[i] === b[j]) {
+      ops.push({ kind: 'same', left: offset + i++, right: offset + j++ });
+    } else if (j >= b.length || (i < a.length && lengths[(i + 1) * cols + j] >= lengths[i * cols + j + 1])) {
+      ops.push({ kind: 'removed', left: offset + i++ });
+    } else {
+      ops.push({ kind: 'added', right: offset + j++ });
+    }
+  }
+  return ops;
+};
+
+/**
+ * Aligns the lines of two documents. Runs of removed and added lines are paired up as
+ * changed rows so edited lines sit next to each other.
+ */
+export const diffLines = (before: string, after: string): DiffRow[] => {
+  const a = before.split('\n');
+  const b = after.split('\n');
+
+  // Unchanged opening and closing sections are matched directly to keep the table small
+  let start = 0;
+  while (start < a.length && start < b.length && a[start] === b[start]) start++;
+  let endA = a.length;
+  let endB = b.length;
+  while (endA > start && endB > start && a[endA - 1] === b[endB - 1]) {
+    endA--;
+    endB--;
+  }
+
+  const ops: Op[] = [
+    ...a.slice(0, start).map((_, index) => ({ kind: 'same' as const, left: index, right: index })),
+    ...alignLines(a.slice(start, endA), b.slice(start, endB), start),
+  ];
+  // Lines after the changed middle keep their own numbering on each side
+  for (let index = 0; index < a.length - endA; index++) {
+    ops.push({ kind: 'same', left: endA + index, right: endB + index });
+  }
+
+  const line = (lines: string[], index?: number): DiffLine | null =>
+    index === undefined ? null : { number: index + 1, text: lines[index] };
+
+  const rows: DiffRow[] = [];
+  let position = 0;
+  while (position < ops.length) {
+    if (ops[position].kind === 'same') {
+      rows.push({ kind: 'same', left: line(a, ops[position].left), right: line(b, ops[position].right) });
+      position++;
+      continue;
+    }
+
+    const removed: Op[] = [];
+    const added: Op[] = [];
+    while (position < ops.length && ops[position].kind !== 'same') {
+      (ops[position].kind === 'removed' ? removed : added).push(ops[position]);
+      position++;
+    }
+    for (let index = 0; index < Math.max(removed.length, added.length); index++) {
+      const left = line(a, removed[index]?.left);
+      const right = line(b, added[index]?.right);
+      rows.push({ kind: left && right ? 'changed' : left ? 'removed' : 'added', left, right });
+    }
+  }
+  return rows;
+};
+
+/**
+ * Counts of added, removed and changed lines, for a one-line summary of a diff
+ */
+export const summarizeDiff = (rows: DiffRow[]) => ({
+  added: rows.filter(row => row.kind === 'added').length,
+  removed: rows.filter(row => row.kind === 'removed').length,
+  changed: rows.filter(row => row.kind === 'changed').length,
+});
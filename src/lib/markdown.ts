@@ -0,0 +1,338 @@
+/**
+ * Markdown handling for generated test plans and reports
+ *
+ * Parses the subset of Markdown the models write (headings, lists, tables, quotes, code blocks
+ * and inline emphasis) plus the {{chart:<id>}} lines of test reports into blocks for the preview, and splits a document into its top-level
+ * sections so single sections can be locked or regenerated.
+ */
+
+export type InlineNode =
+  | { type: 'text'; text: string }
+  | { type: 'code'; text: string }
+  | { type: 'strong' | 'em'; children: InlineNode[] }
+  | { type: 'link'; href: string; children: InlineNode[] };
+
+export interface ListItem {
+  text: string;
+  depth: number;
+}
+
+export type MarkdownBlock =
+  | { type: 'heading'; level: number; text: string }
+  | { type: 'paragraph'; text: string }
+  | { type: 'list'; ordered: boolean; items: ListItem[] }
+  | { type: 'quote'; text: string }
+  | { type: 'code'; text: string }
+  | { type: 'table'; header: string[]; rows: string[][] }
+  | { type: 'rule' }
+  | { type: 'chart'; id: string };
+
+const HEADING_LINE = /^(#{1,6})\s+(.*?)\s*#*\s*$/;
+const FENCE_LINE = /^\s*(```|~~~)/;
+const RULE_LINE = /^\s*([-*_])(\s*\1){2,}\s*$/;
+const LIST_LINE = /^(\s*)([-*+]|\d+[.)])\s+(.*)$/;
+const TABLE_SEPARATOR = /^\s*\|?\s*:?-+:?\s*(\|\s*:?-+:?\s*)*\|?\s*$/;
+// A chart from the report's saved chart data, see reportCharts.ts
+export const CHART_LINE = /^\s*\{\{chart:([\w-]+)\}\}\s*$/;
+// Only these schemes become clickable links in the preview
+const SAFE_LINK = /^(https?:|mailto:)/i;
+
+const splitTableRow = (line: string): string[] =>
+  line.trim().replace(/^\|/, '').replace(/\|$/, '').split('|').map(cell => cell.trim());
+
+const startsBlock = (line: string, next: string | undefined): boolean =>
+  HEADING_LINE.test(line) || FENCE_LINE.test(line) || RULE_LINE.test(line) || CHART_LINE.test(line) ||
+  LIST_LINE.test(line) || line.trimStart().startsWith('>') ||
+  (line.includes('|') && next !== undefined && TABLE_SEPARATOR.test(next));
+
+/**
+ * Splits a document into blocks for rendering
+ */
+export const parseMarkdown = (markdown: string): MarkdownBlock[] => {
+  const lines = markdown.replace(/\r\n/g, '\n').split('\n');
+  const blocks: MarkdownBlock[] = [];
+  let index = 0;
+
+  while (index < lines.length) {
+    const line = lines[index];
+
+    if (!line.trim()) {
+      index++;
+      continue;
+    }
+
+    if (FENCE_LINE.test(line)) {
+      const fence = line.trim().slice(0, 3);
+      const code: string[] = [];
+      index++;
+      while (index < lines.length && !lines[index].trim().startsWith(fence)) {
+        code.push(lines[index++]);
+      }
+      index++;
+      blocks.push({ type: 'code', text: code.join('\n') });
+      continue;
+    }
+
+    const chart = line.match(CHART_LINE);
+    if (chart) {
+      blocks.push({ type: 'chart', id: chart[1] });
+      index++;
+      continue;
+    }
+
+    const heading = line.match(HEADING_LINE);
+    if (heading) {
+      blocks.push({ type: 'heading', level: heading[1].length, text: heading[2] });
+      index++;
+      continue;
+    }
+
+    if (RULE_LINE.test(line)) {
+      blocks.push({ type: 'rule' });
+      index++;
+      continue;
+    }
+
+    if (line.includes('|') && index + 1 < lines.length && TABLE_SEPARATOR.test(lines[index + 1])) {
+      const header = splitTableRow(line);
+      const rows: string[][] = [];
+      index += 2;
+      while (index < lines.length && lines[index].includes('|') && lines[index].trim()) {
+        rows.push(splitTableRow(lines[index++]));
+      }
+      blocks.push({ type: 'table', header, rows });
+      continue;
+    }
+
+    if (line.trimStart().startsWith('>')) {
+      const quoted: string[] = [];
+      while (index < lines.length && lines[index].trimStart().startsWith('>')) {
+        quoted.push(lines[index++].trimStart().replace(/^>\s?/, ''));
+      }
+      blocks.push({ type: 'quote', text: quoted.join('\n') });
+      continue;
+    }
+
+    const listItem = line.match(LIST_LINE);
+    if (listItem) {
+      const ordered = /\d/.test(listItem[2]);
+      const baseIndent = listItem[1].length;
+      const items: ListItem[] = [];
+      while (index < lines.length) {
+        const item = lines[index].match(LIST_LINE);
+        if (item) {
+          // Nested items are indented by two or more spaces per level
+          const depth = Math.max(0, Math.floor((item[1].length - baseIndent) / 2));
+          if (depth === 0 && /\d/.test(item[2]) !== ordered) break;
+          items.push({ text: item[3], depth });
+          index++;
+        } else if (lines[index].trim() && /^\s+/.test(lines[index]) && items.length > 0) {
+          // Wrapped continuation of the previous item
+          items[items.length - 1].text += ` ${lines[index].trim()}`;
+          index++;
+        } else {
+          break;
+        }
+      }
+      blocks.push({ type: 'list', ordered, items });
+      continue;
+    }
+
+    const paragraph: string[] = [line.trim()];
+    index++;
+    while (index < lines.length && lines[index].trim() && !startsBlock(lines[index], lines[index + 1])) {
+      paragraph.push(lines[index++].trim());
+    }
+    blocks.push({ type: 'paragraph', text: paragraph.join(' ') });
+  }
+
+  return blocks;
+};
+
+/**
+ * Parses inline code, bold, italics and links
+ */
+export const parseInline = (text: string): InlineNode[] => {
+  const nodes: InlineNode[] = [];
+  let plain = '';
+  let position = 0;
+
+  const flush = () => {
+    if (plain) nodes.push({ type: 'text', text: plain });
+    plain = '';
+  };
+
+  while (position < text.length) {
+    const rest = text.slice(position);
+
+    const code = rest.match(/^`([^`]+)`/);
+    if (code) {
+      flush();
+      nodes.push({ type: 'code', text: code[1] });
+      position += code[0].length;
+      continue;
+    }
+
+    const strong = rest.match(/^(\*\*|__)(?=\S)([\s\S]*?\S)\1/);
+    if (strong) {
+      flush();
+      nodes.push({ type: 'strong', children: parseInline(strong[2]) });
+      position += strong[0].length;
+      continue;
+    }
+
+    const em = rest.match(/^(\*|_)(?=\S)([\s\S]*?\S)\1(?!\1)/);
+    if (em && (em[1] === '*' || !/\w/.test(text[position - 1] ?? ''))) {
+      flush();
+      nodes.push({ type: 'em', children: parseInline(em[2]) });
+      position += em[0].length;
+      continue;
+    }
+
+    const link = rest.match(/^\[([^\]]+)\]\(([^)\s]+)\)/);
+    if (link) {
+      flush();
+      if (SAFE_LINK.test(link[2])) {
+        nodes.push({ type: 'link', href: link[2], children: parseInline(link[1]) });
+      } else {
+        nodes.push(...parseInline(link[1]));
+      }
+      position += link[0].length;
+      continue;
+    }
+
+    plain += text[position++];
+  }
+
+  flush();
+  return nodes;
+};
+
+/**
+ * Inline Markdown reduced to its visible text
+ */
+export const plainText = (text: string): string => {
+  const flatten = (nodes: InlineNode[]): string =>
+    nodes.map(node => ('children' in node ? flatten(node.children) : node.text)).join('');
+  return flatten(parseInline(text));
+};
+
+export interface DocumentSection {
+  // Heading text normalised without numbering or emphasis, used to find the section again
+  // after the document has been edited or regenerated
+  key: string;
+  headingLine: string;
+  title: string;
+  text: string;
+}
+
+export interface DocumentSections {
+  // Anything above the first section heading, such as the document title
+  preamble: string;
+  sections: DocumentSection[];
+}
+
+export const sectionKey = (title: string): string =>
+  title
+    .replace(/[*_`]/g, '')
+    .replace(/^\s*((\d+\.)+\d*|\d+\)|[ivxlc]+\.|[a-z]\))\s+/i, '')
+    .replace(/[^\p{L}\p{N}]+/gu, ' ')
+    .trim()
+    .toLowerCase();
+
+interface HeadingPosition {
+  line: number;
+  level: number;
+  title: string;
+}
+
+const findHeadings = (lines: string[]): HeadingPosition[] => {
+  const headings: HeadingPosition[] = [];
+  let inFence = false;
+  lines.forEach((line, index) => {
+    if (FENCE_LINE.test(line)) {
+      inFence = !inFence;
+      return;
+    }
+    const heading = !inFence && line.match(HEADING_LINE);
+    if (heading) headings.push({ line: index, level: heading[1].length, title: heading[2] });
+  });
+  return headings;
+};
+
+/**
+ * Splits a document at its section headings: the shallowest heading level used more than once,
+ * so a single "# Test Plan" title stays in the preamble above "## 1. Objectives" and its siblings.
+ */
+export const splitSections = (markdown: string): DocumentSections => {
+  const lines = markdown.split('\n');
+  const headings = findHeadings(lines);
+  if (headings.length === 0) return { preamble: markdown, sections: [] };
+
+  const levels = [...new Set(headings.map(heading => heading.level))].sort((a, b) => a - b);
+  const sectionLevel = levels.find(level => headings.filter(heading => heading.level === level).length > 1) ?? levels[0];
+  const starts = headings.filter(heading => heading.level <= sectionLevel);
+  const firstSection = starts.findIndex(heading => heading.level === sectionLevel);
+  const sectionStarts = starts.slice(firstSection);
+
+  return {
+    preamble: lines.slice(0, sectionStarts[0].line).join('\n'),
+    sections: sectionStarts.map((heading, index) => ({
+      key: sectionKey(heading.title),
+      headingLine: lines[heading.line],
+      title: heading.title.replace(/[*_`]/g, ''),
+      text: lines.slice(heading.line, sectionStarts[index + 1]?.line ?? lines.length).join('\n'),
+    })),
+  };
+};
+
+const joinSections = ({ preamble, sections }: DocumentSections): string =>
+  [...(sections.length > 0 && !preamble ? [] : [preamble]), ...sections.map(section => section.text)].join('\n');
+
+// Keeps a blank line between a replaced section and the one after it
+const fitSectionText = (text: string, isLast: boolean): string => {
+  const trimmed = text.replace(/\s+$/, '');
+  return isLast ? trimmed : `${trimmed}\n`;
+};
+
+/**
+ * Replaces the first section with the given key; returns null when the document has no such section
+ */
+export const replaceSection = (markdown: string, key: string, text: string): string | null => {
+  const document = splitSections(markdown);
+  const index = document.sections.findIndex(section => section.key === key);
+  if (index === -1) return null;
+
+  const sections = document.sections.map((section, position) =>
+    position === index ? { ...section, text: fitSectionText(text, position === document.sections.length - 1) } : section
+  );
+  return joinSections({ ...document, sections });
+};
+
+/**
+ * Puts the locked sections of the previous document back into a regenerated one. A locked
+ * section replaces the regenerated section with the same heading, or is inserted at its old
+ * position when the new document does not have it.
+ */
+export const mergeLockedSections = (previous: string, next: string, lockedKeys: string[]): string => {
+  const locked = splitSections(previous).sections
+    .map((section, index) => ({ section, index }))
+    .filter(({ section }) => lockedKeys.includes(section.key));
+  if (locked.length === 0) return next;
+
+  const document = splitSections(next);
+  const sections = [...document.sections];
+  for (const { section, index } of locked) {
+    const existing = sections.findIndex(candidate => candidate.key === section.key);
+    if (existing !== -1) {
+      sections[existing] = section;
+    } else {
+      sections.splice(Math.min(index, sections.length), 0, section);
+    }
+  }
+
+  return joinSections({
+    preamble: document.preamble,
+    sections: sections.map((section, index) => ({ ...section, text: fitSectionText(section.text, index === sections.length - 1) })),
+  });
+};
@@ -0,0 +1,362 @@
+/**
+ * PDF export of generated test plans and reports
+ *
+ * Lays the Markdown out on A4 pages with jsPDF, which is loaded on first use so it stays out
+ * of the main bundle. The built-in PDF fonts only cover Western European characters, so other
+ * symbols are replaced or dropped.
+ */
+
+import type { jsPDF as JsPdf } from "jspdf";
+import { InlineNode, parseInline, parseMarkdown, plainText } from "./markdown";
+import {
+  DocumentTemplate,
+  ExportDocument,
+  documentControlRows,
+  fillPlaceholders,
+  fitInside,
+  formatExportDate,
+  measureLogo,
+} from "./documentTemplate";
+import { renderChartImage } from "./reportCharts";
+
+// Millimetres on an A4 page
+const PAGE_WIDTH = 210;
+const PAGE_HEIGHT = 297;
+const MARGIN = 20;
+const CONTENT_WIDTH = PAGE_WIDTH - MARGIN * 2;
+const BOTTOM = PAGE_HEIGHT - MARGIN;
+const PT_TO_MM = 0.3528;
+
+const BODY_SIZE = 10.5;
+const CODE_SIZE = 9;
+const HEADING_SIZES = [18, 15, 13, 12, 11, 11];
+const CELL_PADDING = 1.5;
+
+const TEXT_COLOR: [number, number, number] = [33, 33, 33];
+const MUTED_COLOR: [number, number, number] = [100, 100, 100];
+const LINK_COLOR: [number, number, number] = [31, 78, 160];
+const FILL_COLOR: [number, number, number] = [231, 230, 230];
+const CODE_FILL: [number, number, number] = [243, 243, 243];
+
+const REPLACEMENTS: Record<string, string> = {
+  '→': '->', '←': '<-', '⇒': '=>', '↔': '<->', '≥': '>=', '≤': '<=', '≠': '!=', '≈': '~',
+  '✓': '[x]', '✔': '[x]', '☑': '[x]', '✅': '[x]', '✗': '[ ]', '✘': '[ ]', '☐': '[ ]', '❌': '[ ]',
+  '▪': '•', '◦': '•', '●': '•', '■': '•',
+};
+// Characters the built-in fonts can draw (WinAnsi)
+const DRAWABLE = /[\t\n\x20-\x7E\xA0-\xFF€‚ƒ„…†‡ˆ‰Š‹ŒŽ‘’“”•–—˜™š›œžŸ]/;
+
+const toPdfText = (text: string): string =>
+  Array.from(text, char => REPLACEMENTS[char] ?? (DRAWABLE.test(char) ? char : '')).join('');
+
+interface Segment {
+  text: string;
+  bold: boolean;
+  italic: boolean;
+  code: boolean;
+  href?: string;
+}
+
+const segmentsOf = (nodes: InlineNode[], style: Omit<Segment, 'text'>): Segment[] =>
+  nodes.flatMap(node => {
+    switch (node.type) {
+      case 'text': return [{ ...style, text: toPdfText(node.text) }];
+      case 'code': return [{ ...style, code: true, text: toPdfText(node.text) }];
+      case 'strong': return segmentsOf(node.children, { ...style, bold: true });
+      case 'em': return segmentsOf(node.children, { ...style, italic: true });
+      case 'link': return segmentsOf(node.children, { ...style, href: node.href });
+    }
+  });
+
+const lineHeight = (fontSize: number) => fontSize * PT_TO_MM * 1.4;
+
+/**
+ * Builds the PDF for a plan or report laid out with the project's template
+ */
+export const exportPdf = async (document: ExportDocument, template: DocumentTemplate): Promise<Blob> => {
+  const { jsPDF } = await import("jspdf");
+  const pdf: JsPdf = new jsPDF({ unit: 'mm', format: 'a4', compress: true });
+  pdf.setProperties({ title: document.title, creator: template.companyName || '' });
+  pdf.setTextColor(...TEXT_COLOR);
+
+  let y = MARGIN;
+
+  const newPage = () => {
+    pdf.addPage();
+    y = MARGIN;
+  };
+
+  const ensureSpace = (height: number) => {
+    if (y + height > BOTTOM && y > MARGIN) newPage();
+  };
+
+  const applyFont = (segment: Pick<Segment, 'bold' | 'italic' | 'code'>, fontSize: number) => {
+    const style = segment.bold && segment.italic ? 'bolditalic' : segment.bold ? 'bold' : segment.italic ? 'italic' : 'normal';
+    pdf.setFont(segment.code ? 'courier' : 'helvetica', segment.code ? (segment.bold ? 'bold' : 'normal') : style);
+    pdf.setFontSize(fontSize);
+  };
+
+  // Word-wraps styled text into the given width and draws it line by line
+  const writeRich = (segments: Segment[], x: number, width: number, fontSize: number) => {
+    type Piece = { text: string; segment: Segment; width: number };
+    const lines: Piece[][] = [[]];
+    let lineWidth = 0;
+
+    for (const segment of segments) {
+      applyFont(segment, fontSize);
+      for (const token of segment.text.split(/(\s+)/).filter(Boolean)) {
+        const isSpace = /^\s+$/.test(token);
+        const current = lines[lines.length - 1];
+        if (isSpace) {
+          if (current.length > 0) {
+            const piece = { text: ' ', segment, width: pdf.getTextWidth(' ') };
+            current.push(piece);
+            lineWidth += piece.width;
+          }
+          continue;
+        }
+
+        // Words longer than a line, such as URLs, are broken up
+        const parts: string[] = pdf.getTextWidth(token) > width ? pdf.splitTextToSize(token, width) : [token];
+        for (const part of parts) {
+          const partWidth = pdf.getTextWidth(part);
+          if (lineWidth + partWidth > width && lines[lines.length - 1].length > 0) {
+            const line = lines[lines.length - 1];
+            while (line.length > 0 && line[line.length - 1].text === ' ') line.pop();
+            lines.push([]);
+            lineWidth = 0;
+          }
+          lines[lines.length - 1].push({ text: part, segment, width: partWidth });
+          lineWidth += partWidth;
+        }
+      }
+    }
+
+    const height = lineHeight(fontSize);
+    for (const line of lines) {
+      ensureSpace(height);
+      let cursor = x;
+      for (const piece of line) {
+        applyFont(piece.segment, fontSize);
+        if (piece.segment.code) {
+          pdf.setFillColor(...CODE_FILL);
+          pdf.rect(cursor, y + height * 0.1, piece.width, height * 0.85, 'F');
+        }
+        pdf.setTextColor(...(piece.segment.href ? LINK_COLOR : TEXT_COLOR));
+        pdf.text(piece.text, cursor, y + height * 0.75);
+        if (piece.segment.href) pdf.link(cursor, y, piece.width, height, { url: piece.segment.href });
+        cursor += piece.width;
+      }
+      y += height;
+    }
+    pdf.setTextColor(...TEXT_COLOR);
+  };
+
+  const writeInline = (text: string, x: number, width: number, fontSize: number, style: Partial<Segment> = {}) =>
+    writeRich(segmentsOf(parseInline(text), { bold: false, italic: false, code: false, ...style }), x, width, fontSize);
+
+  // Columns share the width in proportion to their longest cell, within limits
+  const columnWidths = (rows: string[][], columns: number) => {
+    const weights = Array.from({ length: columns }, (_, column) =>
+      Math.min(40, Math.max(8, ...rows.map(row => plainText(row[column] ?? '').length))));
+    const total = weights.reduce((sum, weight) => sum + weight, 0);
+    return weights.map(weight => (weight / total) * CONTENT_WIDTH);
+  };
+
+  const writeTable = (header: string[] | null, rows: string[][], widths: number[], shadeFirstColumn = false) => {
+    const fontSize = 9;
+    const height = lineHeight(fontSize);
+
+    const drawRow = (cells: string[], isHeader: boolean) => {
+      const wrapped = widths.map((width, column) => {
+        applyFont({ bold: isHeader || (shadeFirstColumn && column === 0), italic: false, code: false }, fontSize);
+        return pdf.splitTextToSize(toPdfText(plainText(cells[column] ?? '')), width - CELL_PADDING * 2) as string[];
+      });
+      const rowHeight = Math.max(...wrapped.map(lines => lines.length)) * height + CELL_PADDING * 2;
+
+      if (y + rowHeight > BOTTOM && y > MARGIN) {
+        newPage();
+        if (header && !isHeader) drawRow(header, true);
+      }
+
+      let x = MARGIN;
+      wrapped.forEach((lines, column) => {
+        const shaded = isHeader || (shadeFirstColumn && column === 0);
+        pdf.setDrawColor(191, 191, 191);
+        if (shaded) pdf.setFillColor(...FILL_COLOR);
+        pdf.rect(x, y, widths[column], rowHeight, shaded ? 'FD' : 'S');
+        applyFont({ bold: shaded, italic: false, code: false }, fontSize);
+        lines.forEach((line, index) => pdf.text(line, x + CELL_PADDING, y + CELL_PADDING + height * (index + 0.75)));
+        x += widths[column];
+      });
+      y += rowHeight;
+    };
+
+    if (header) drawRow(header, true);
+    rows.forEach(row => drawRow(row, false));
+    y += 3;
+  };
+
+  const writeHeading = (text: string, level: number) => {
+    const fontSize = HEADING_SIZES[level - 1];
+    y += level <= 2 ? 5 : 3;
+    // Keep the heading on the same page as the first lines below it
+    ensureSpace(lineHeight(fontSize) + lineHeight(BODY_SIZE) * 3);
+    writeInline(text, MARGIN, CONTENT_WIDTH, fontSize, { bold: true });
+    if (level <= 2) {
+      pdf.setDrawColor(191, 191, 191);
+      pdf.line(MARGIN, y + 0.5, MARGIN + CONTENT_WIDTH, y + 0.5);
+    }
+    y += 2;
+  };
+
+  const logoSize = template.logo ? await measureLogo(template.logo) : null;
+  const logoFormat = template.logo.startsWith('data:image/png') ? 'PNG' : 'JPEG';
+
+  // Cover page and document control table come before the content and carry no header or footer
+  let frontPages = 0;
+  if (template.coverPage) {
+    y = 70;
+    if (logoSize) {
+      const size = fitInside(logoSize, 70, 35);
+      pdf.addImage(template.logo, logoFormat, (PAGE_WIDTH - size.width) / 2, y - size.height - 10, size.width, size.height);
+    }
+    const centred = (text: string, fontSize: number, bold: boolean, color = TEXT_COLOR) => {
+      applyFont({ bold, italic: false, code: false }, fontSize);
+      pdf.setTextColor(...color);
+      const lines: string[] = pdf.splitTextToSize(toPdfText(text), CONTENT_WIDTH);
+      lines.forEach(line => {
+        y += lineHeight(fontSize);
+        pdf.text(line, PAGE_WIDTH / 2, y, { align: 'center' });
+      });
+      pdf.setTextColor(...TEXT_COLOR);
+    };
+    if (template.companyName) centred(template.companyName, 14, false, MUTED_COLOR);
+    y += 12;
+    centred(document.title, 26, true);
+    const subtitle = fillPlaceholders(template.coverSubtitle, template, document);
+    if (subtitle) {
+      y += 4;
+      centred(subtitle, 14, false);
+    }
+    y += 6;
+    centred([document.version, formatExportDate(document.date)].filter(Boolean).join(' - '), 11, false, MUTED_COLOR);
+    frontPages = 1;
+  }
+
+  if (template.documentControl) {
+    if (template.coverPage) newPage();
+    else y = MARGIN;
+    writeHeading('Document Control', 2);
+    const rows = documentControlRows(template, document).map(row => [row.label, row.value]);
+    writeTable(null, rows, [CONTENT_WIDTH * 0.3, CONTENT_WIDTH * 0.7], true);
+    frontPages = pdf.getNumberOfPages();
+  }
+
+  if (frontPages > 0) newPage();
+  y = MARGIN;
+
+  const counters: number[] = [];
+  for (const block of parseMarkdown(document.markdown)) {
+    switch (block.type) {
+      case 'heading':
+        writeHeading(block.text, block.level);
+        break;
+      case 'paragraph':
+        writeInline(block.text, MARGIN, CONTENT_WIDTH, BODY_SIZE);
+        y += 2.5;
+        break;
+      case 'list':
+        counters.length = 0;
+        block.items.forEach(item => {
+          counters[item.depth] = (counters[item.depth] ?? 0) + 1;
+          counters.length = item.depth + 1;
+          const indent = MARGIN + item.depth * 6;
+          ensureSpace(lineHeight(BODY_SIZE));
+          applyFont({ bold: false, italic: false, code: false }, BODY_SIZE);
+          pdf.text(block.ordered ? `${counters[item.depth]}.` : '•', indent + 1, y + lineHeight(BODY_SIZE) * 0.75);
+          writeInline(item.text, indent + 6, CONTENT_WIDTH - (indent - MARGIN) - 6, BODY_SIZE);
+          y += 0.8;
+        });
+        y += 1.5;
+        break;
+      case 'quote': {
+        const top = y;
+        writeInline(block.text, MARGIN + 5, CONTENT_WIDTH - 5, BODY_SIZE, { italic: true });
+        pdf.setDrawColor(191, 191, 191);
+        pdf.setLineWidth(0.8);
+        // A quote that ran onto a new page gets its bar from the top margin
+        pdf.line(MARGIN + 1, y < top ? MARGIN : top, MARGIN + 1, y);
+        pdf.setLineWidth(0.2);
+        y += 2.5;
+        break;
+      }
+      case 'code': {
+        applyFont({ bold: false, italic: false, code: true }, CODE_SIZE);
+        const lines: string[] = block.text.split('\n')
+          .flatMap(line => pdf.splitTextToSize(toPdfText(line) || ' ', CONTENT_WIDTH - 4) as string[]);
+        const height = lineHeight(CODE_SIZE);
+        lines.forEach(line => {
+          ensureSpace(height);
+          pdf.setFillColor(...CODE_FILL);
+          pdf.rect(MARGIN, y, CONTENT_WIDTH, height, 'F');
+          applyFont({ bold: false, italic: false, code: true }, CODE_SIZE);
+          pdf.text(line, MARGIN + 2, y + height * 0.75);
+          y += height;
+        });
+        y += 2.5;
+        break;
+      }
+      case 'table': {
+        const columns = Math.max(block.header.length, ...block.rows.map(row => row.length));
+        writeTable(block.header, block.rows, columnWidths([block.header, ...block.rows], columns));
+        break;
+      }
+      case 'rule':
+        ensureSpace(4);
+        pdf.setDrawColor(191, 191, 191);
+        pdf.line(MARGIN, y + 2, MARGIN + CONTENT_WIDTH, y + 2);
+        y += 4;
+        break;
+      case 'chart': {
+        const chart = document.charts?.find(candidate => candidate.id === block.id);
+        if (!chart) break;
+        const image = renderChartImage(chart);
+        const height = (CONTENT_WIDTH * image.height) / image.width;
+        ensureSpace(height);
+        pdf.addImage(image.dataUrl, 'PNG', MARGIN, y, CONTENT_WIDTH, height);
+        y += height + 4;
+        break;
+      }
+    }
+  }
+
+  const headerText = toPdfText(fillPlaceholders(template.headerText, template, document));
+  const footerText = toPdfText(fillPlaceholders(template.footerText, template, document));
+  const totalPages = pdf.getNumberOfPages();
+  for (let page = frontPages + 1; page <= totalPages; page++) {
+    pdf.setPage(page);
+    applyFont({ bold: false, italic: false, code: false }, 8);
+    pdf.setTextColor(...MUTED_COLOR);
+
+    if (headerText || logoSize) {
+      let x = MARGIN;
+      if (logoSize) {
+        const size = fitInside(logoSize, 25, 8);
+        pdf.addImage(template.logo, logoFormat, x, 14 - size.height, size.width, size.height);
+        x += size.width + 3;
+      }
+      if (headerText) pdf.text(headerText, x, 13);
+      pdf.setDrawColor(191, 191, 191);
+      pdf.line(MARGIN, 15.5, PAGE_WIDTH - MARGIN, 15.5);
+    }
+
+    if (footerText) pdf.text(footerText, MARGIN, PAGE_HEIGHT - 10);
+    if (template.pageNumbers) {
+      pdf.text(`Page ${page} of ${totalPages}`, PAGE_WIDTH - MARGIN, PAGE_HEIGHT - 10, { align: 'right' });
+    }
+  }
+  pdf.setTextColor(...TEXT_COLOR);
+
+  return pdf.output('blob');
+};
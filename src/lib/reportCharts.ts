@@ -0,0 +1,157 @@
+/**
+ * Charts embedded in generated test reports
+ *
+ * A report places a chart with a line of its own reading {{chart:<id>}}. The chart data is
+ * computed from the execution results when the report is generated and saved with it, so the
+ * preview and the Word and PDF exports draw the same chart wherever the line ends up after
+ * editing.
+ */
+
+import { CHART_LINE } from "./markdown";
+
+// Type aliases rather than interfaces so charts can be written to the Json column
+export type ChartPoint = {
+  label: string;
+  value: number;
+};
+
+export type ReportChart = {
+  id: string;
+  title: string;
+  kind: 'line' | 'bar';
+  // Appended to values, e.g. "%"
+  unit: string;
+  points: ChartPoint[];
+};
+
+export const chartMarker = (id: string): string => `{{chart:${id}}}`;
+
+/**
+ * Reads the charts saved with a report, dropping anything malformed
+ */
+export const parseReportCharts = (saved: unknown): ReportChart[] =>
+  Array.isArray(saved)
+    ? saved.filter((chart): chart is ReportChart =>
+        !!chart && typeof chart.id === 'string' && typeof chart.title === 'string' && Array.isArray(chart.points))
+    : [];
+
+/**
+ * Appends the charts the generated text does not place itself under a closing "Charts" section
+ */
+export const ensureChartMarkers = (markdown: string, charts: ReportChart[]): string => {
+  const placed = new Set(
+    markdown.split('\n').map(line => line.match(CHART_LINE)?.[1]).filter((id): id is string => !!id)
+  );
+  const missing = charts.filter(chart => !placed.has(chart.id));
+  if (missing.length === 0) return markdown;
+
+  return `${markdown.replace(/\s+$/, '')}\n\n## Charts\n\n${missing.map(chart => chartMarker(chart.id)).join('\n\n')}\n`;
+};
+
+const CHART_COLOR = '#2563eb';
+const GRID_COLOR = '#e5e7eb';
+const TEXT_COLOR = '#374151';
+
+// Rounds the axis maximum up to 1, 2 or 5 times a power of ten
+const niceMaximum = (value: number): number => {
+  if (value <= 0) return 1;
+  const magnitude = 10 ** Math.floor(Math.log10(value));
+  const step = [1, 2, 5, 10].find(multiple => multiple * magnitude >= value) ?? 10;
+  return step * magnitude;
+};
+
+const fitLabel = (context: CanvasRenderingContext2D, label: string, maxWidth: number): string => {
+  if (context.measureText(label).width <= maxWidth) return label;
+  let text = label;
+  while (text.length > 1 && context.measureText(`${text}…`).width > maxWidth) text = text.slice(0, -1);
+  return `${text}…`;
+};
+
+/**
+ * Draws a chart onto a canvas for the Word and PDF exports, which cannot embed the live chart
+ */
+export const renderChartImage = (
+  chart: ReportChart,
+  width = 1200,
+  height = 560
+): { dataUrl: string; data: Uint8Array; width: number; height: number } => {
+  const canvas = document.createElement('canvas');
+  canvas.width = width;
+  canvas.height = height;
+  const context = canvas.getContext('2d');
+  if (!context) throw new Error('Charts cannot be drawn in this browser');
+
+  context.fillStyle = '#ffffff';
+  context.fillRect(0, 0, width, height);
+
+  context.fillStyle = TEXT_COLOR;
+  context.font = 'bold 30px Helvetica, Arial, sans-serif';
+  context.textBaseline = 'top';
+  context.fillText(chart.title, 24, 20);
+
+  const plot = { left: 100, top: 90, right: width - 40, bottom: height - 80 };
+  const plotWidth = plot.right - plot.left;
+  const plotHeight = plot.bottom - plot.top;
+  const maximum = chart.unit === '%' ? 100 : niceMaximum(Math.max(...chart.points.map(point => point.value), 0));
+  const y = (value: number) => plot.bottom - (value / maximum) * plotHeight;
+
+  context.font = '20px Helvetica, Arial, sans-serif';
+  context.textBaseline = 'middle';
+  context.textAlign = 'right';
+  for (let tick = 0; tick <= 4; tick++) {
+    const value = (maximum / 4) * tick;
+    context.strokeStyle = GRID_COLOR;
+    context.lineWidth = 1;
+    context.beginPath();
+    context.moveTo(plot.left, y(value));
+    context.lineTo(plot.right, y(value));
+    context.stroke();
+    context.fillStyle = TEXT_COLOR;
+    context.fillText(`${Number.isInteger(value) ? value : value.toFixed(1)}${chart.unit}`, plot.left - 12, y(value));
+  }
+
+  const slot = plotWidth / Math.max(chart.points.length, 1);
+  const centre = (index: number) => plot.left + slot * index + slot / 2;
+
+  context.textAlign = 'center';
+  context.textBaseline = 'top';
+  chart.points.forEach((point, index) => {
+    context.fillStyle = TEXT_COLOR;
+    context.fillText(fitLabel(context, point.label, slot - 8), centre(index), plot.bottom + 14);
+  });
+
+  context.fillStyle = CHART_COLOR;
+  context.strokeStyle = CHART_COLOR;
+  if (chart.kind === 'bar') {
+    const barWidth = Math.min(slot * 0.6, 120);
+    chart.points.forEach((point, index) => {
+      context.fillRect(centre(index) - barWidth / 2, y(point.value), barWidth, plot.bottom - y(point.value));
+    });
+  } else {
+    context.lineWidth = 4;
+    context.beginPath();
+    chart.points.forEach((point, index) => {
+      if (index === 0) context.moveTo(centre(index), y(point.value));
+      else context.lineTo(centre(index), y(point.value));
+    });
+    context.stroke();
+    chart.points.forEach((point, index) => {
+      context.beginPath();
+      context.arc(centre(index), y(point.value), 7, 0, Math.PI * 2);
+      context.fill();
+    });
+  }
+
+  // Values above the bars and points
+  context.fillStyle = TEXT_COLOR;
+  context.textBaseline = 'bottom';
+  chart.points.forEach((point, index) => {
+    context.fillText(`${point.value}${chart.unit}`, centre(index), y(point.value) - 10);
+  });
+
+  const dataUrl = canvas.toDataURL('image/png');
+  const binary = atob(dataUrl.split(',')[1]);
+  const data = new Uint8Array(binary.length);
+  for (let index = 0; index < binary.length; index++) data[index] = binary.charCodeAt(index);
+  return { dataUrl, data, width, height };
+};
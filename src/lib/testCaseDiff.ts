@@ -0,0 +1,140 @@
+/**
+ * Compares regenerated test cases with the ones already saved for a story
+ */
+
+import { TestStep } from "./testSteps";
+
+export interface ComparableTestCase {
+  title: string;
+  description: string;
+  steps: TestStep[];
+  expectedResult: string;
+  priority: string;
+  testType: string | null;
+  category: string | null;
+}
+
+export type DiffField = keyof ComparableTestCase;
+
+export const DIFF_FIELDS: DiffField[] = ['title', 'description', 'steps', 'expectedResult', 'priority', 'testType', 'category'];
+
+export type TestCaseDiffKind = 'new' | 'changed' | 'unchanged' | 'removed';
+
+export interface TestCaseDiffEntry<E extends ComparableTestCase, P extends ComparableTestCase> {
+  kind: TestCaseDiffKind;
+  existing?: E;
+  proposed?: P;
+  similarity: number;
+  changedFields: DiffField[];
+}
+
+// Cases scoring below this are treated as unrelated (one new, one removed) rather than as an edit
+export const MATCH_THRESHOLD = 0.45;
+
+const tokenize = (text: string): Set<string> =>
+  new Set(text.toLowerCase().split(/[^a-z0-9]+/).filter(token => token.length > 1));
+
+/**
+ * Jaccard similarity of the word sets of two texts, between 0 and 1
+ */
+export const textSimilarity = (a: string, b: string): number => {
+  const tokensA = tokenize(a);
+  const tokensB = tokenize(b);
+  if (tokensA.size === 0 && tokensB.size === 0) return 1;
+
+  let shared = 0;
+  tokensA.forEach(token => {
+    if (tokensB.has(token)) shared++;
+  });
+  return shared / (tokensA.size + tokensB.size - shared);
+};
+
+const stepsText = (steps: TestStep[]): string =>
+  steps.map(step => `${step.action} ${step.testData} ${step.expectedResult}`).join(' ');
+
+/**
+ * Weighted similarity of two test cases; the title says most about what a case is testing
+ */
+export const testCaseSimilarity = (a: ComparableTestCase, b: ComparableTestCase): number =>
+  0.6 * textSimilarity(a.title, b.title) +
+  0.4 * textSimilarity(`${stepsText(a.steps)} ${a.expectedResult}`, `${stepsText(b.steps)} ${b.expectedResult}`);
+
+const fieldValue = (testCase: ComparableTestCase, field: DiffField): string => {
+  const value = testCase[field];
+  if (Array.isArray(value)) {
+    return JSON.stringify(value.map(step => [step.action.trim(), step.testData.trim(), step.expectedResult.trim()]));
+  }
+  return (value || '').trim().toLowerCase();
+};
+
+export const getChangedFields = (existing: ComparableTestCase, proposed: ComparableTestCase): DiffField[] =>
+  DIFF_FIELDS.filter(field => fieldValue(existing, field) !== fieldValue(proposed, field));
+
+/**
+ * Pairs each proposed case with its most similar existing case (greedily, best pairs first)
+ * and classifies the result. Proposed cases come first in their original order, followed by
+ * existing cases that no proposal matched.
+ */
+export const diffTestCases = <E extends ComparableTestCase, P extends ComparableTestCase>(
+  existing: E[],
+  proposed: P[],
+  threshold = MATCH_THRESHOLD
+): TestCaseDiffEntry<E, P>[] => {
+  const candidates: { existingIndex: number; proposedIndex: number; score: number }[] = [];
+  existing.forEach((existingCase, existingIndex) => {
+    proposed.forEach((proposedCase, proposedIndex) => {
+      const score = testCaseSimilarity(existingCase, proposedCase);
+      if (score >= threshold) {
+        candidates.push({ existingIndex, proposedIndex, score });
+      }
+    });
+  });
+  candidates.sort((a, b) => b.score - a.score);
+
+  const matchForProposed = new Map<number, { existingIndex: number; score: number }>();
+  const matchedExisting = new Set<number>();
+  for (const candidate of candidates) {
+    if (matchForProposed.has(candidate.proposedIndex) || matchedExisting.has(candidate.existingIndex)) continue;
+    matchForProposed.set(candidate.proposedIndex, candidate);
+    matchedExisting.add(candidate.existingIndex);
+  }
+
+  const entries: TestCaseDiffEntry<E, P>[] = proposed.map((proposedCase, proposedIndex) => {
+    const match = matchForProposed.get(proposedIndex);
+    if (!match) {
+      return { kind: 'new', proposed: proposedCase, similarity: 0, changedFields: [] };
+    }
+    const existingCase = existing[match.existingIndex];
+    const changedFields = getChangedFields(existingCase, proposedCase);
+    return {
+      kind: changedFields.length > 0 ? 'changed' : 'unchanged',
+      existing: existingCase,
+      proposed: proposedCase,
+      similarity: match.score,
+      changedFields,
+    };
+  });
+
+  existing.forEach((existingCase, existingIndex) => {
+    if (!matchedExisting.has(existingIndex)) {
+      entries.push({ kind: 'removed', existing: existingCase, similarity: 0, changedFields: [] });
+    }
+  });
+
+  return entries;
+};
+
+/**
+ * Takes the listed fields from the proposal and keeps everything else from the existing case
+ */
+export const mergeTestCase = (
+  existing: ComparableTestCase,
+  proposed: ComparableTestCase,
+  fields: DiffField[]
+): ComparableTestCase => {
+  const merged: ComparableTestCase = { ...existing };
+  for (const field of fields) {
+    (merged as Record<DiffField, unknown>)[field] = proposed[field];
+  }
+  return merged;
+};
@@ -0,0 +1,29 @@
+/**
+ * Test case classification stored in test_cases.test_type and test_cases.category
+ */
+
+export const TEST_TYPES = ['positive', 'negative', 'edge', 'boundary'] as const;
+export const TEST_CATEGORIES = ['functional', 'ui', 'integration', 'performance'] as const;
+
+export type TestType = typeof TEST_TYPES[number];
+export type TestCategory = typeof TEST_CATEGORIES[number];
+
+const matchValue = <T extends string>(allowed: readonly T[], value: unknown): T | null => {
+  if (typeof value !== 'string') return null;
+  const normalized = value.trim().toLowerCase();
+  // Models sometimes answer "Edge case" or "UI Testing" instead of the bare value
+  return allowed.find(option => normalized === option || normalized.startsWith(`${option} `)) ?? null;
+};
+
+/**
+ * Maps a generated or imported type to one of TEST_TYPES, or null when it is not recognised
+ */
+export const normalizeTestType = (value: unknown): TestType | null => matchValue(TEST_TYPES, value);
+
+/**
+ * Maps a generated or imported category to one of TEST_CATEGORIES, or null when it is not recognised
+ */
+export const normalizeTestCategory = (value: unknown): TestCategory | null => matchValue(TEST_CATEGORIES, value);
+
+export const formatFacetLabel = (value: string): string =>
+  value === 'ui' ? 'UI' : value.charAt(0).toUpperCase() + value.slice(1);
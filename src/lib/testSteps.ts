@@ -0,0 +1,140 @@
+/**
+ * Structured test steps stored in test_cases.test_steps
+ */
+
+// A type alias rather than an interface so step arrays can be written to the Json column
+export type TestStep = {
+  action: string;
+  testData: string;
+  expectedResult: string;
+};
+
+export const createEmptyStep = (): TestStep => ({ action: '', testData: '', expectedResult: '' });
+
+const NUMBERED_LINE = /^(\d+)[.)]\s*(.*)$/;
+
+const asText = (value: unknown): string =>
+  value === null || value === undefined ? '' : String(value).trim();
+
+interface NumberedEntry {
+  // The number the entry was written with; null for unnumbered text
+  number: number | null;
+  text: string;
+}
+
+const parseNumberedEntries = (text: string): NumberedEntry[] => {
+  const lines = text.split(/\r?\n/).map(line => line.trim()).filter(Boolean);
+  if (!lines.some(line => NUMBERED_LINE.test(line))) {
+    return lines.map(line => ({ number: null, text: line }));
+  }
+
+  const entries: NumberedEntry[] = [];
+  for (const line of lines) {
+    const match = line.match(NUMBERED_LINE);
+    const last = entries[entries.length - 1];
+    if (match) {
+      entries.push({ number: Number(match[1]), text: match[2] });
+    } else if (last) {
+      last.text = `${last.text}\n${line}`;
+    } else {
+      entries.push({ number: null, text: line });
+    }
+  }
+  return entries;
+};
+
+/**
+ * Splits a newline separated list into entries in the order they are written. When the
+ * text is numbered ("1. ..."), unnumbered lines are treated as continuations of the
+ * entry before them; otherwise every non-empty line is its own entry.
+ */
+export const parseNumberedLines = (text: string): string[] =>
+  parseNumberedEntries(text).map(entry => entry.text);
+
+/**
+ * Converts the legacy newline separated steps text into structured steps
+ */
+export const parseStepsText = (text: string | null | undefined): TestStep[] =>
+  parseNumberedLines(text || '')
+    .filter(Boolean)
+    .map(action => ({ ...createEmptyStep(), action }));
+
+/**
+ * Accepts structured steps, plain string steps (older AI responses) or the legacy
+ * steps text, and returns well-formed steps with empty actions removed
+ */
+export const normalizeTestSteps = (value: unknown): TestStep[] => {
+  if (typeof value === 'string') {
+    return parseStepsText(value);
+  }
+  if (!Array.isArray(value)) {
+    return [];
+  }
+
+  return value
+    .map(step => {
+      if (typeof step === 'string') {
+        return { ...createEmptyStep(), action: step.trim() };
+      }
+      const record = (step || {}) as Record<string, unknown>;
+      return {
+        action: asText(record.action ?? record.step ?? record.description ?? record.content),
+        testData: asText(record.testData ?? record.data ?? record.input),
+        expectedResult: asText(record.expectedResult ?? record.expected ?? record.result),
+      };
+    })
+    .filter(step => step.action);
+};
+
+/**
+ * Reads the steps of a test_cases row, falling back to the steps text for rows
+ * written before test_steps existed
+ */
+export const readTestSteps = (row: { test_steps?: unknown; steps?: string | null }): TestStep[] => {
+  const steps = normalizeTestSteps(row.test_steps);
+  return steps.length > 0 ? steps : parseStepsText(row.steps);
+};
+
+/**
+ * Plain text copy of the step actions, kept in test_cases.steps for older readers
+ */
+export const stepsToText = (steps: TestStep[]): string =>
+  steps.map(step => step.action).join('\n');
+
+/**
+ * Formats one step field as a numbered list for a spreadsheet cell, skipping empty values
+ */
+export const formatStepColumn = (steps: TestStep[], field: keyof TestStep): string =>
+  steps
+    .map((step, index) => (step[field] ? `${index + 1}. ${step[field]}` : ''))
+    .filter(Boolean)
+    .join('\n');
+
+/**
+ * Rebuilds steps from the numbered spreadsheet columns written by formatStepColumn
+ */
+export const parseStepColumns = (actions: string, testData = '', expectedResults = ''): TestStep[] => {
+  // formatStepColumn skips empty values, so the other columns are matched to a step by its
+  // number rather than by position; unnumbered entries count from 1
+  const byNumber = (text: string): Map<number, string> => {
+    const values = new Map<number, string>();
+    parseNumberedEntries(text).forEach((entry, index) => {
+      const number = entry.number ?? index + 1;
+      if (!values.has(number)) values.set(number, entry.text);
+    });
+    return values;
+  };
+  const data = byNumber(testData);
+  const expected = byNumber(expectedResults);
+
+  return parseNumberedEntries(actions)
+    .map((entry, index) => {
+      const number = entry.number ?? index + 1;
+      return {
+        action: entry.text,
+        testData: data.get(number) || '',
+        expectedResult: expected.get(number) || '',
+      };
+    })
+    .filter(step => step.action);
+};
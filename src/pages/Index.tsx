@@ -4,6 +4,7 @@ import { Projects } from "@/components/Projects";
 import { Dashboard } from "@/components/Dashboard";
 import { UserStories } from "@/components/UserStories";
 import { TestCases } from "@/components/TestCases";
+import { Traceability } from "@/components/Traceability";
 import { TestPlan } from "@/components/TestPlan";
 import { TestReport } from "@/components/TestReport";
 import { Integrations } from "@/components/Integrations";
@@ -40,6 +41,8 @@ const Index = () => {
         return <UserStories onViewChange={setCurrentView} projectId={selectedProject.id} />;
       case 'test-cases':
         return <TestCases projectId={selectedProject.id} />;
+      case 'traceability':
+        return <Traceability projectId={selectedProject.id} />;
       case 'test-plan':
         return <TestPlan projectId={selectedProject.id} />;
       case 'test-report':
@@ -47,7 +50,7 @@ const Index = () => {
       case 'performance-testing':
         return <SwaggerToJMeter />;
       case 'integrations':
-        return <Integrations />;
+        return <Integrations projectId={selectedProject.id} />;
       case 'ai-analytics':
         return <AIAnalytics />;
       default:
@@ -0,0 +1,117 @@
+// Splits free-form acceptance criteria into discrete criteria so generated test cases can say which
+// ones they cover. Ids are derived from the criterion text, so stored coverage keeps pointing at the
+// same criterion when others are added or reordered. Mirrors src/lib/acceptanceCriteria.ts, which
+// the functions cannot import.
+//
+// Recognised shapes: Given/When/Then scenarios (optionally under a "Scenario:" line), bullet and
+// numbered lists (including "AC1:" prefixes and task lists) and one criterion per line. Indented
+// lines continue the previous item.
+
+export interface AcceptanceCriterion {
+  // Hash of the normalised criterion text
+  id: string;
+  // Position in the story ("AC1", "AC2", ...), for display and prompts only
+  label: string;
+  text: string;
+}
+
+const MAX_CRITERIA = 50;
+const MAX_CRITERION_LENGTH = 500;
+
+const LIST_MARKER = /^(?:(?:[-*•+]|\d+[.)]|[a-z][.)])\s+|AC\s*\d+\s*[:.)-]\s*)/i;
+const TASK_MARKER = /^\[[ xX]\]\s+/;
+const SECTION_HEADING = /^(?:#{1,6}\s+.*|acceptance criteria:?)$/i;
+const GHERKIN_STEP = /^(given|when|then|and|but)\b/i;
+const SCENARIO = /^scenario(?: outline)?\b/i;
+
+export function parseAcceptanceCriteria(text: string | null | undefined): AcceptanceCriterion[] {
+  const items: string[] = [];
+  let current: string[] = [];
+  let isScenario = false;
+  let sawThen = false;
+
+  const flush = () => {
+    const item = current.join(isScenario ? '\n' : ' ').trim();
+    if (item) items.push(item.substring(0, MAX_CRITERION_LENGTH));
+    current = [];
+    isScenario = false;
+    sawThen = false;
+  };
+
+  for (const rawLine of (text || '').split(/\r?\n/)) {
+    const line = rawLine.trim();
+
+    if (!line) {
+      // A scenario title may be separated from its steps by a blank line
+      if (!(isScenario && !sawThen)) flush();
+      continue;
+    }
+    if (SECTION_HEADING.test(line)) {
+      flush();
+      continue;
+    }
+
+    const content = line.replace(LIST_MARKER, '').replace(TASK_MARKER, '').replace(/\*\*/g, '');
+    if (!content) continue;
+
+    if (SCENARIO.test(content)) {
+      flush();
+      current = [content];
+      isScenario = true;
+      continue;
+    }
+
+    // Indented lines without a list marker wrap the previous bullet
+    if (/^\s/.test(rawLine) && current.length > 0 && !isScenario && content === line) {
+      current.push(content);
+      continue;
+    }
+
+    const keyword = content.match(GHERKIN_STEP)?.[1].toLowerCase();
+    if (keyword) {
+      // A Given after a Then, or any step outside a scenario, starts a new criterion
+      if (!isScenario || (keyword === 'given' && sawThen)) {
+        flush();
+        isScenario = true;
+      }
+      if (/\bthen\b/i.test(content)) sawThen = true;
+      current.push(content);
+      continue;
+    }
+
+    flush();
+    current = [content];
+  }
+  flush();
+
+  const seen = new Map<string, number>();
+  return items.slice(0, MAX_CRITERIA).map((item, index) => {
+    // Criteria with the same text are told apart by occurrence
+    const hash = criterionHash(item);
+    const occurrence = (seen.get(hash) || 0) + 1;
+    seen.set(hash, occurrence);
+    return {
+      id: occurrence === 1 ? `AC-${hash}` : `AC-${hash}-${occurrence}`,
+      label: `AC${index + 1}`,
+      text: item,
+    };
+  });
+}
+
+// FNV-1a of the text ignoring case and whitespace, so rewrapping a criterion keeps its id
+function criterionHash(text: string): string {
+  const normalized = text.toLowerCase().replace(/\s+/g, ' ').trim();
+  let hash = 0x811c9dc5;
+  for (let i = 0; i < normalized.length; i++) {
+    hash ^= normalized.charCodeAt(i);
+    hash = Math.imul(hash, 0x01000193);
+  }
+  return (hash >>> 0).toString(16).padStart(8, '0');
+}
+
+// Renders criteria for a prompt by label, indenting continuation lines of multi-line scenarios
+export function formatCriteriaForPrompt(criteria: AcceptanceCriterion[]): string {
+  return criteria
+    .map(criterion => `${criterion.label}: ${criterion.text.split('\n').join('\n     ')}`)
+    .join('\n');
+}
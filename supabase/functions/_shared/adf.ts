@@ -0,0 +1,167 @@
+// Converts Atlassian Document Format (used by Jira Cloud rich text fields) to Markdown,
+// keeping the structure that matters for test generation: headings, lists, code and tables.
+
+export interface AdfNode {
+  type: string;
+  text?: string;
+  attrs?: Record<string, unknown>;
+  marks?: { type: string; attrs?: Record<string, unknown> }[];
+  content?: AdfNode[];
+}
+
+function renderText(node: AdfNode): string {
+  let text = node.text || '';
+  for (const mark of node.marks || []) {
+    switch (mark.type) {
+      case 'strong': text = `**${text}**`; break;
+      case 'em': text = `_${text}_`; break;
+      case 'strike': text = `~~${text}~~`; break;
+      case 'code': text = `\`${text}\``; break;
+      case 'link': text = `[${text}](${mark.attrs?.href ?? ''})`; break;
+    }
+  }
+  return text;
+}
+
+function renderInline(nodes: AdfNode[] = []): string {
+  return nodes.map(node => {
+    switch (node.type) {
+      case 'text': return renderText(node);
+      case 'hardBreak': return '\n';
+      case 'mention': return String(node.attrs?.text ?? '@user');
+      case 'emoji': return String(node.attrs?.text ?? node.attrs?.shortName ?? '');
+      case 'inlineCard': return String(node.attrs?.url ?? '');
+      case 'date': return node.attrs?.timestamp ? new Date(Number(node.attrs.timestamp)).toISOString().slice(0, 10) : '';
+      case 'status': return `[${node.attrs?.text ?? ''}]`;
+      default: return renderInline(node.content);
+    }
+  }).join('');
+}
+
+function indent(text: string, prefix: string): string {
+  return text.split('\n').map(line => line ? prefix + line : line).join('\n');
+}
+
+function renderList(node: AdfNode, ordered: boolean): string {
+  const start = Number(node.attrs?.order ?? 1);
+  return (node.content || []).map((item, index) => {
+    const marker = ordered ? `${start + index}.` : '-';
+    // Keep nested lists directly under their item instead of separating them with a blank line
+    const body = (item.content || []).map(renderBlock).filter(block => block.trim()).join('\n').trim();
+    const [firstLine, ...rest] = body.split('\n');
+    const continuation = rest.length ? '\n' + indent(rest.join('\n'), ' '.repeat(marker.length + 1)) : '';
+    return `${marker} ${firstLine}${continuation}`;
+  }).join('\n');
+}
+
+function renderTaskList(node: AdfNode): string {
+  return (node.content || []).map(item => {
+    const checked = item.attrs?.state === 'DONE' ? 'x' : ' ';
+    return `- [${checked}] ${renderInline(item.content).trim()}`;
+  }).join('\n');
+}
+
+function renderTable(node: AdfNode): string {
+  const rows = (node.content || []).map(row =>
+    (row.content || []).map(cell => renderBlocks(cell.content).trim().replace(/\n+/g, '<br>').replace(/\|/g, '\\|'))
+  );
+  if (rows.length === 0) return '';
+
+  const columnCount = Math.max(...rows.map(row => row.length));
+  const pad = (row: string[]) => [...row, ...Array(columnCount - row.length).fill('')];
+  const [header, ...body] = rows.map(pad);
+
+  return [
+    `| ${header.join(' | ')} |`,
+    `| ${header.map(() => '---').join(' | ')} |`,
+    ...body.map(row => `| ${row.join(' | ')} |`),
+  ].join('\n');
+}
+
+function renderBlock(node: AdfNode): string {
+  switch (node.type) {
+    case 'paragraph':
+      return renderInline(node.content);
+    case 'heading':
+      return `${'#'.repeat(Number(node.attrs?.level ?? 1))} ${renderInline(node.content)}`;
+    case 'bulletList':
+      return renderList(node, false);
+    case 'orderedList':
+      return renderList(node, true);
+    case 'taskList':
+      return renderTaskList(node);
+    case 'codeBlock':
+      return `\`\`\`${node.attrs?.language ?? ''}\n${renderInline(node.content)}\n\`\`\``;
+    case 'blockquote':
+      return indent(renderBlocks(node.content), '> ');
+    case 'panel':
+      return indent(renderBlocks(node.content), '> ');
+    case 'rule':
+      return '---';
+    case 'table':
+      return renderTable(node);
+    case 'mediaSingle':
+    case 'mediaGroup':
+    case 'media':
+      return '';
+    case 'text':
+    case 'hardBreak':
+    case 'mention':
+    case 'emoji':
+    case 'inlineCard':
+      return renderInline([node]);
+    default:
+      return renderBlocks(node.content);
+  }
+}
+
+function renderBlocks(nodes: AdfNode[] = []): string {
+  return nodes
+    .map(renderBlock)
+    .filter(block => block.trim().length > 0)
+    .join('\n\n');
+}
+
+// Accepts an ADF document, a plain string (Jira Server / text custom fields) or nothing
+export function adfToMarkdown(value: unknown): string {
+  if (!value) return '';
+  if (typeof value === 'string') return value.trim();
+  if (typeof value !== 'object') return String(value);
+
+  const node = value as AdfNode;
+  const markdown = node.type === 'doc' ? renderBlocks(node.content) : renderBlock(node);
+  return markdown.replace(/\n{3,}/g, '\n\n').trim();
+}
+
+// Builders for writing rich text back to Jira Cloud, which only accepts ADF in v3 fields
+
+export function adfDocument(content: AdfNode[]): AdfNode & { version: number } {
+  return { type: 'doc', version: 1, content };
+}
+
+export function adfParagraph(text: string): AdfNode {
+  return { type: 'paragraph', content: text ? [{ type: 'text', text }] : [] };
+}
+
+export function adfHeading(text: string, level = 3): AdfNode {
+  return { type: 'heading', attrs: { level }, content: [{ type: 'text', text }] };
+}
+
+export function adfOrderedList(items: string[]): AdfNode {
+  return {
+    type: 'orderedList',
+    content: items.map(item => ({ type: 'listItem', content: [adfParagraph(item)] })),
+  };
+}
+
+export function adfTable(header: string[], rows: string[][]): AdfNode {
+  const cell = (type: string, text: string): AdfNode => ({ type, attrs: {}, content: [adfParagraph(text)] });
+  return {
+    type: 'table',
+    attrs: { isNumberColumnEnabled: false, layout: 'default' },
+    content: [
+      { type: 'tableRow', content: header.map(text => cell('tableHeader', text)) },
+      ...rows.map(row => ({ type: 'tableRow', content: row.map(text => cell('tableCell', text)) })),
+    ],
+  };
+}
@@ -0,0 +1,134 @@
+import { IntegrationCredential } from './credentials.ts'
+
+const API_VERSION = '7.1';
+// The work items batch endpoint accepts at most 200 ids per request
+const WORK_ITEM_BATCH_SIZE = 200;
+
+export interface AzureDevOpsWorkItem {
+  id: number;
+  url?: string;
+  fields: Record<string, unknown>;
+}
+
+export interface JsonPatchOperation {
+  op: 'add' | 'replace' | 'remove' | 'test';
+  path: string;
+  value?: unknown;
+}
+
+export class AzureDevOpsError extends Error {
+  status: number;
+
+  constructor(message: string, status: number) {
+    super(message);
+    this.status = status;
+  }
+}
+
+const isHtml = (text: string) => text.includes('<!DOCTYPE') || text.includes('<html');
+
+// Thin REST client over the Azure DevOps services API, scoped to the project saved in the credential
+export function createAzureDevOpsClient(credential: IntegrationCredential) {
+  const { organizationUrl, projectName } = credential.config;
+  const baseUrl = organizationUrl.endsWith('/') ? organizationUrl.slice(0, -1) : organizationUrl;
+  const projectUrl = `${baseUrl}/${encodeURIComponent(projectName)}`;
+  const authToken = btoa(`:${credential.secret}`);
+
+  const request = async <T = unknown>(
+    method: string,
+    url: string,
+    body?: unknown,
+    contentType = 'application/json'
+  ): Promise<T> => {
+    const separator = url.includes('?') ? '&' : '?';
+    const response = await fetch(`${url}${separator}api-version=${API_VERSION}`, {
+      method,
+      headers: {
+        'Authorization': `Basic ${authToken}`,
+        'Content-Type': contentType,
+        'Accept': 'application/json',
+      },
+      body: body === undefined ? undefined : JSON.stringify(body),
+    });
+
+    const responseText = await response.text();
+
+    // Authentication failures are answered with an HTML sign-in page rather than JSON
+    if (isHtml(responseText)) {
+      throw new AzureDevOpsError('Authentication failed or invalid URL. Please check your Personal Access Token and organization URL.', 401);
+    }
+
+    if (!response.ok) {
+      console.error(`Azure DevOps ${method} ${url} failed:`, response.status, responseText.substring(0, 500));
+      if (response.status === 401) {
+        throw new AzureDevOpsError('Authentication failed. Please check your Personal Access Token.', 401);
+      }
+      let message = `Azure DevOps API error: ${response.status} ${response.statusText}`;
+      try {
+        message = JSON.parse(responseText).message || message;
+      } catch {
+        // Keep the status based message
+      }
+      throw new AzureDevOpsError(message, response.status);
+    }
+
+    try {
+      return (responseText ? JSON.parse(responseText) : null) as T;
+    } catch {
+      throw new AzureDevOpsError('Invalid response from Azure DevOps API. Please check your credentials and URL.', 502);
+    }
+  };
+
+  const queryWorkItemIds = async (wiql: string): Promise<number[]> => {
+    const data = await request<{ workItems?: { id: number }[] }>('POST', `${baseUrl}/_apis/wit/wiql`, { query: wiql });
+    return (data.workItems || []).map(item => item.id);
+  };
+
+  const getWorkItems = async (ids: number[]): Promise<AzureDevOpsWorkItem[]> => {
+    const workItems: AzureDevOpsWorkItem[] = [];
+    for (let i = 0; i < ids.length; i += WORK_ITEM_BATCH_SIZE) {
+      const batch = ids.slice(i, i + WORK_ITEM_BATCH_SIZE);
+      const data = await request<{ value?: AzureDevOpsWorkItem[] }>(
+        'GET',
+        `${baseUrl}/_apis/wit/workitems?ids=${batch.join(',')}&$expand=Fields`
+      );
+      workItems.push(...(data.value || []));
+    }
+    return workItems;
+  };
+
+  const createWorkItem = (type: string, operations: JsonPatchOperation[]) =>
+    request<AzureDevOpsWorkItem>(
+      'POST',
+      `${projectUrl}/_apis/wit/workitems/$${encodeURIComponent(type)}`,
+      operations,
+      'application/json-patch+json'
+    );
+
+  const updateWorkItem = (id: number, operations: JsonPatchOperation[]) =>
+    request<AzureDevOpsWorkItem>(
+      'PATCH',
+      `${projectUrl}/_apis/wit/workitems/${id}`,
+      operations,
+      'application/json-patch+json'
+    );
+
+  return {
+    baseUrl,
+    projectName,
+    projectUrl,
+    request,
+    queryWorkItemIds,
+    getWorkItems,
+    createWorkItem,
+    updateWorkItem,
+    workItemUrl: (id: number) => `${projectUrl}/_workitems/edit/${id}`,
+    workItemApiUrl: (id: number) => `${baseUrl}/_apis/wit/workItems/${id}`,
+  };
+}
+
+export type AzureDevOpsClient = ReturnType<typeof createAzureDevOpsClient>;
+
+export function escapeWiqlString(value: string): string {
+  return value.replace(/'/g, "''");
+}
@@ -0,0 +1,144 @@
+import { SupabaseClient } from 'https://esm.sh/@supabase/supabase-js@2'
+
+// 'openai' holds the Azure OpenAI credentials; it predates the other LLM providers
+export type IntegrationId = 'jira' | 'azure-devops' | 'openai' | 'openai-api' | 'anthropic' | 'local-llm';
+
+export const INTEGRATION_IDS: IntegrationId[] = ['jira', 'azure-devops', 'openai', 'openai-api', 'anthropic', 'local-llm'];
+
+export interface IntegrationCredential {
+  integrationId: IntegrationId;
+  config: Record<string, string>;
+  secret: string;
+  enabled: boolean;
+  lastVerifiedAt: string | null;
+  lastSyncedAt: string | null;
+}
+
+export class CredentialError extends Error {
+  status: number;
+
+  constructor(message: string, status = 400) {
+    super(message);
+    this.status = status;
+  }
+}
+
+const integrationNames: Record<IntegrationId, string> = {
+  'jira': 'Jira',
+  'azure-devops': 'Azure DevOps',
+  'openai': 'Azure OpenAI',
+  'openai-api': 'OpenAI',
+  'anthropic': 'Anthropic',
+  'local-llm': 'Local LLM',
+};
+
+const toBase64 = (bytes: Uint8Array) => btoa(String.fromCharCode(...bytes));
+const fromBase64 = (value: string) => Uint8Array.from(atob(value), c => c.charCodeAt(0));
+
+let cachedKey: CryptoKey | null = null;
+
+// INTEGRATION_ENCRYPTION_KEY must be a base64 encoded 256-bit key
+async function getEncryptionKey(): Promise<CryptoKey> {
+  if (cachedKey) return cachedKey;
+
+  const rawKey = Deno.env.get('INTEGRATION_ENCRYPTION_KEY');
+  if (!rawKey) {
+    throw new CredentialError('INTEGRATION_ENCRYPTION_KEY is not configured', 500);
+  }
+
+  cachedKey = await crypto.subtle.importKey('raw', fromBase64(rawKey), 'AES-GCM', false, ['encrypt', 'decrypt']);
+  return cachedKey;
+}
+
+export async function encryptSecret(plainText: string): Promise<{ ciphertext: string; iv: string }> {
+  const key = await getEncryptionKey();
+  const iv = crypto.getRandomValues(new Uint8Array(12));
+  const encrypted = await crypto.subtle.encrypt({ name: 'AES-GCM', iv }, key, new TextEncoder().encode(plainText));
+  return { ciphertext: toBase64(new Uint8Array(encrypted)), iv: toBase64(iv) };
+}
+
+export async function decryptSecret(ciphertext: string, iv: string): Promise<string> {
+  const key = await getEncryptionKey();
+  const decrypted = await crypto.subtle.decrypt({ name: 'AES-GCM', iv: fromBase64(iv) }, key, fromBase64(ciphertext));
+  return new TextDecoder().decode(decrypted);
+}
+
+export function maskSecret(secret: string): string {
+  return secret.length > 4 ? `••••${secret.slice(-4)}` : '••••';
+}
+
+// Resolves the user from the request's bearer token, or null when it is missing or invalid
+export async function getRequestUser(supabase: SupabaseClient, req: Request) {
+  const authHeader = req.headers.get('Authorization');
+  if (!authHeader) return null;
+
+  const { data: { user }, error } = await supabase.auth.getUser(authHeader.replace('Bearer ', ''));
+  if (error || !user) return null;
+  return user;
+}
+
+export async function assertProjectAccess(supabase: SupabaseClient, projectId: string, userId: string): Promise<void> {
+  if (!projectId) {
+    throw new CredentialError('projectId is required');
+  }
+
+  const { data, error } = await supabase
+    .from('projects')
+    .select('id')
+    .eq('id', projectId)
+    .eq('created_by', userId)
+    .maybeSingle();
+
+  if (error || !data) {
+    throw new CredentialError('Project not found', 404);
+  }
+}
+
+// Loads and decrypts the stored credential for an integration.
+// Callers must check project access before using the result.
+export async function getIntegrationCredential(
+  supabase: SupabaseClient,
+  projectId: string,
+  integrationId: IntegrationId
+): Promise<IntegrationCredential | null> {
+  const { data, error } = await supabase
+    .from('integration_credentials')
+    .select('integration_id, config, secret_ciphertext, secret_iv, enabled, last_verified_at, last_synced_at')
+    .eq('project_id', projectId)
+    .eq('integration_id', integrationId)
+    .maybeSingle();
+
+  if (error) {
+    console.error('Failed to load integration credential:', error);
+    throw new CredentialError('Failed to load integration credentials', 500);
+  }
+
+  if (!data) return null;
+
+  return {
+    integrationId: data.integration_id,
+    config: data.config || {},
+    secret: await decryptSecret(data.secret_ciphertext, data.secret_iv),
+    enabled: data.enabled,
+    lastVerifiedAt: data.last_verified_at,
+    lastSyncedAt: data.last_synced_at,
+  };
+}
+
+// Same as getIntegrationCredential but fails with a user-facing message when the integration is unusable
+export async function requireIntegrationCredential(
+  supabase: SupabaseClient,
+  projectId: string,
+  integrationId: IntegrationId
+): Promise<IntegrationCredential> {
+  const credential = await getIntegrationCredential(supabase, projectId, integrationId);
+
+  if (!credential) {
+    throw new CredentialError(`${integrationNames[integrationId]} is not configured for this project`);
+  }
+  if (!credential.enabled) {
+    throw new CredentialError(`${integrationNames[integrationId]} integration is disabled for this project`);
+  }
+
+  return credential;
+}
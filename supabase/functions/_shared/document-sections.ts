@@ -0,0 +1,79 @@
+// Rewrites one section of a generated test plan or report. The client works out the section
+// boundaries (src/lib/markdown.ts) and puts the rewritten section back into its document.
+
+import { LlmRequest } from './llm.ts'
+
+export interface SectionRegeneration {
+  // The section's heading line, e.g. "## 5. Risk Assessment"
+  heading: string;
+  // The section as it stands, heading line included
+  content: string;
+  // The whole document, so the rewrite stays consistent with the other sections
+  document: string;
+  instructions: string;
+}
+
+const MAX_DOCUMENT_LENGTH = 500000;
+const MAX_INSTRUCTIONS_LENGTH = 2000;
+
+// Returns the validated request, or the reason it was rejected
+export function parseSectionRegeneration(value: unknown): SectionRegeneration | string {
+  if (!value || typeof value !== 'object') return 'Section must be an object';
+
+  const { heading, content, document, instructions } = value as Record<string, unknown>;
+  if (typeof heading !== 'string' || !/^#{1,6}\s+\S/.test(heading.trim())) {
+    return 'Section heading must be a Markdown heading line';
+  }
+  if (typeof content !== 'string' || typeof document !== 'string') {
+    return 'Section content and document must be strings';
+  }
+  if (document.length > MAX_DOCUMENT_LENGTH) {
+    return `Document must be less than ${MAX_DOCUMENT_LENGTH} characters`;
+  }
+  if (instructions !== undefined && (typeof instructions !== 'string' || instructions.length > MAX_INSTRUCTIONS_LENGTH)) {
+    return `Instructions must be a string of less than ${MAX_INSTRUCTIONS_LENGTH} characters`;
+  }
+
+  return { heading: heading.trim(), content, document, instructions: (instructions as string | undefined)?.trim() || '' };
+}
+
+// Extends the request that generates the whole document so the model rewrites a single section
+export function buildSectionRequest(base: LlmRequest, section: SectionRegeneration, documentName: string): LlmRequest {
+  const [system, ...conversation] = base.messages;
+  const prompt = conversation.map(message => message.content).join('\n\n');
+
+  return {
+    ...base,
+    maxTokens: Math.min(base.maxTokens, 2000),
+    messages: [
+      system,
+      {
+        role: 'user',
+        content: `${prompt}
+
+The current ${documentName} is below. It has been edited by hand, so treat it as the source of truth for everything outside the section you are asked to rewrite.
+
+----- CURRENT ${documentName.toUpperCase()} -----
+${section.document}
+----- END -----
+
+Rewrite only the section that starts with the heading "${section.heading}". Its current text is:
+
+${section.content}
+${section.instructions ? `\nChanges requested for this section:\n${section.instructions}\n` : ''}
+Respond with the rewritten section alone, in Markdown, starting with the heading line "${section.heading}". Use deeper headings for any subsections and do not repeat other sections.`
+      }
+    ]
+  };
+}
+
+// Unwraps a reply sent as one fenced Markdown block. The original heading line is kept even if
+// the model reworded or re-levelled it, so the section can still be found and locked afterwards.
+export function extractSection(reply: string, heading: string): string {
+  let text = reply.trim();
+  const fenced = text.match(/^```(?:markdown|md)?[ \t]*\n([\s\S]*?)\n```$/i);
+  if (fenced) text = fenced[1].trim();
+
+  const body = /^#{1,6}\s/.test(text) ? text.slice(text.indexOf('\n') + 1 || text.length) : text;
+  return `${heading}\n\n${body.trim()}`;
+}
@@ -0,0 +1,568 @@
+import { SupabaseClient } from 'https://esm.sh/@supabase/supabase-js@2'
+import { CredentialError, IntegrationId, getIntegrationCredential, requireIntegrationCredential } from './credentials.ts'
+
+export type LlmProvider = 'azure-openai' | 'openai' | 'anthropic' | 'local';
+
+export const LLM_PROVIDERS: LlmProvider[] = ['azure-openai', 'openai', 'anthropic', 'local'];
+
+const providerNames: Record<LlmProvider, string> = {
+  'azure-openai': 'Azure OpenAI',
+  'openai': 'OpenAI',
+  'anthropic': 'Anthropic',
+  'local': 'Local LLM',
+};
+
+// Vault entry holding each provider's credentials
+const providerIntegrations: Record<LlmProvider, IntegrationId> = {
+  'azure-openai': 'openai',
+  'openai': 'openai-api',
+  'anthropic': 'anthropic',
+  'local': 'local-llm',
+};
+
+// Used when the project has not chosen a model; Azure OpenAI defaults to its deployment instead
+const defaultModels: Record<Exclude<LlmProvider, 'azure-openai'>, string> = {
+  'openai': 'gpt-4o-mini',
+  'anthropic': 'claude-sonnet-4-5-20250929',
+  'local': 'llama3.1',
+};
+
+const DEFAULT_AZURE_API_VERSION = '2024-02-15-preview';
+// Azure OpenAI accepts json_schema response formats from this API version on
+const AZURE_JSON_SCHEMA_API_VERSION = '2024-08-01-preview';
+const ANTHROPIC_VERSION = '2023-06-01';
+
+// USD per million tokens. Models are matched by their longest listed prefix, so dated
+// snapshots ("gpt-4o-2024-08-06") and Azure deployments named after the model are priced too.
+const MODEL_PRICING: Record<string, { prompt: number; completion: number }> = {
+  'gpt-4o': { prompt: 2.5, completion: 10 },
+  'gpt-4o-mini': { prompt: 0.15, completion: 0.6 },
+  'gpt-4.1': { prompt: 2, completion: 8 },
+  'gpt-4.1-mini': { prompt: 0.4, completion: 1.6 },
+  'gpt-4.1-nano': { prompt: 0.1, completion: 0.4 },
+  'gpt-4-turbo': { prompt: 10, completion: 30 },
+  'gpt-4': { prompt: 30, completion: 60 },
+  'gpt-35-turbo': { prompt: 0.5, completion: 1.5 },
+  'gpt-3.5-turbo': { prompt: 0.5, completion: 1.5 },
+  'o3-mini': { prompt: 1.1, completion: 4.4 },
+  'o4-mini': { prompt: 1.1, completion: 4.4 },
+  'claude-3-haiku': { prompt: 0.25, completion: 1.25 },
+  'claude-3-5-haiku': { prompt: 0.8, completion: 4 },
+  'claude-3-5-sonnet': { prompt: 3, completion: 15 },
+  'claude-3-7-sonnet': { prompt: 3, completion: 15 },
+  'claude-sonnet-4': { prompt: 3, completion: 15 },
+  'claude-haiku-4-5': { prompt: 1, completion: 5 },
+  'claude-3-opus': { prompt: 15, completion: 75 },
+  'claude-opus-4': { prompt: 15, completion: 75 },
+};
+
+export interface LlmConfig {
+  provider: LlmProvider;
+  // Model name used for pricing and sent to every provider except Azure OpenAI
+  model: string;
+  apiKey: string;
+  // Azure resource endpoint or the base URL of an OpenAI-compatible server
+  endpoint?: string;
+  deploymentId?: string;
+  apiVersion?: string;
+}
+
+export interface LlmMessage {
+  role: 'system' | 'user' | 'assistant';
+  content: string;
+}
+
+// JSON schema the response must follow. Providers receive it as a structured output format or a
+// forced tool call where they support one; the caller still validates what comes back.
+export interface LlmResponseSchema {
+  name: string;
+  description: string;
+  // Must describe an object: no provider accepts a top-level array
+  schema: Record<string, unknown>;
+}
+
+export interface LlmRequest {
+  messages: LlmMessage[];
+  temperature?: number;
+  maxTokens: number;
+  responseSchema?: LlmResponseSchema;
+  // Per attempt; a timed out attempt is retried like a failed one
+  timeoutMs?: number;
+  maxRetries?: number;
+}
+
+export interface LlmUsage {
+  promptTokens: number;
+  completionTokens: number;
+  totalTokens: number;
+}
+
+export interface LlmResult {
+  content: string;
+  usage: LlmUsage;
+  costUsd: number;
+  // The model stopped at maxTokens, so content is likely cut off
+  truncated: boolean;
+}
+
+export interface LlmStreamResult extends LlmResult {
+  // The stream stopped early (cancelled, timed out or dropped); content holds what arrived until then
+  interrupted: boolean;
+}
+
+export class LlmError extends Error {
+  status: number;
+
+  constructor(message: string, status = 502) {
+    super(message);
+    this.status = status;
+  }
+}
+
+const DEFAULT_TIMEOUT_MS = 90_000;
+// Streams are timed as a whole, so they get longer than a single request
+const DEFAULT_STREAM_TIMEOUT_MS = 180_000;
+const DEFAULT_MAX_RETRIES = 2;
+// Rate limits, overload and transient gateway failures are worth another attempt
+const RETRYABLE_STATUSES = new Set([408, 409, 429, 500, 502, 503, 504, 529]);
+
+const trimTrailingSlash = (url: string) => url.endsWith('/') ? url.slice(0, -1) : url;
+
+// OpenAI's o-series reasoning models reject temperature and max_tokens; they take max_completion_tokens instead
+const isReasoningModel = (config: LlmConfig) =>
+  config.provider !== 'local' && /^o\d/.test(config.model.toLowerCase());
+
+// Loads the provider and model the project chose, with the credentials stored for that provider.
+// Callers must check project access before using the result.
+export async function loadLlmConfig(supabase: SupabaseClient, projectId: string): Promise<LlmConfig> {
+  const { data: project, error } = await supabase
+    .from('projects')
+    .select('ai_provider, ai_model')
+    .eq('id', projectId)
+    .maybeSingle();
+
+  if (error || !project) {
+    throw new CredentialError('Project not found', 404);
+  }
+
+  const provider: LlmProvider = LLM_PROVIDERS.includes(project.ai_provider) ? project.ai_provider : 'azure-openai';
+  const chosenModel: string | null = project.ai_model?.trim() || null;
+
+  // OpenAI can fall back to the key configured on the server for projects without their own
+  const serverKey = Deno.env.get('OPENAI_API_KEY');
+  if (provider === 'openai' && serverKey && !(await getIntegrationCredential(supabase, projectId, 'openai-api'))) {
+    return { provider, model: chosenModel ?? defaultModels.openai, apiKey: serverKey };
+  }
+
+  const credential = await requireIntegrationCredential(supabase, projectId, providerIntegrations[provider]);
+
+  switch (provider) {
+    case 'azure-openai':
+      return {
+        provider,
+        model: chosenModel ?? credential.config.deploymentId,
+        apiKey: credential.secret,
+        endpoint: credential.config.endpoint,
+        deploymentId: credential.config.deploymentId,
+        apiVersion: credential.config.apiVersion || DEFAULT_AZURE_API_VERSION,
+      };
+    case 'local':
+      return {
+        provider,
+        model: chosenModel ?? defaultModels.local,
+        apiKey: credential.secret,
+        endpoint: credential.config.baseUrl,
+      };
+    default:
+      return { provider, model: chosenModel ?? defaultModels[provider], apiKey: credential.secret };
+  }
+}
+
+// Name recorded in ai_usage_logs and on generated content; Azure keeps its historical "azure-<deployment>" form
+export function modelLabel(config: LlmConfig): string {
+  if (config.provider === 'azure-openai') return `azure-${config.deploymentId}`;
+  if (config.provider === 'local') return `local-${config.model}`;
+  return config.model;
+}
+
+export function providerSource(config: LlmConfig): string {
+  return `${providerNames[config.provider]} ${config.provider === 'azure-openai' ? config.deploymentId : config.model}`;
+}
+
+// Local models are free to run and unknown models are not guessed at, so both cost 0
+export function estimateCost(config: LlmConfig, usage: LlmUsage): number {
+  if (config.provider === 'local') return 0;
+
+  const model = config.model.toLowerCase();
+  const match = Object.keys(MODEL_PRICING)
+    .filter(prefix => model.startsWith(prefix))
+    .sort((a, b) => b.length - a.length)[0];
+
+  if (!match) {
+    console.warn(`No pricing known for model ${config.model}; recording cost as 0`);
+    return 0;
+  }
+
+  const pricing = MODEL_PRICING[match];
+  return (usage.promptTokens * pricing.prompt + usage.completionTokens * pricing.completion) / 1_000_000;
+}
+
+// Local servers and older Azure API versions only promise syntactically valid JSON
+function responseFormat(config: LlmConfig, responseSchema: LlmResponseSchema) {
+  const supportsSchema = config.provider === 'openai'
+    || (config.provider === 'azure-openai' && (config.apiVersion ?? '') >= AZURE_JSON_SCHEMA_API_VERSION);
+
+  if (!supportsSchema) return { type: 'json_object' };
+
+  return {
+    type: 'json_schema',
+    json_schema: {
+      name: responseSchema.name,
+      description: responseSchema.description,
+      schema: responseSchema.schema,
+      // Strict mode requires every property to be listed as required, which optional fields are not
+      strict: false,
+    },
+  };
+}
+
+function buildRequest(config: LlmConfig, request: LlmRequest, stream = false): { url: string; init: RequestInit } {
+  if (config.provider === 'anthropic') {
+    const system = request.messages.filter(message => message.role === 'system').map(message => message.content).join('\n\n');
+    return {
+      url: 'https://api.anthropic.com/v1/messages',
+      init: {
+        method: 'POST',
+        headers: {
+          'x-api-key': config.apiKey,
+          'anthropic-version': ANTHROPIC_VERSION,
+          'Content-Type': 'application/json',
+        },
+        body: JSON.stringify({
+          model: config.model,
+          ...(system ? { system } : {}),
+          messages: request.messages.filter(message => message.role !== 'system'),
+          temperature: request.temperature,
+          max_tokens: request.maxTokens,
+          ...(stream ? { stream: true } : {}),
+          // Anthropic has no response format; forcing a tool call makes the input follow the schema
+          ...(request.responseSchema ? {
+            tools: [{
+              name: request.responseSchema.name,
+              description: request.responseSchema.description,
+              input_schema: request.responseSchema.schema,
+            }],
+            tool_choice: { type: 'tool', name: request.responseSchema.name },
+          } : {}),
+        }),
+      },
+    };
+  }
+
+  // Azure OpenAI, OpenAI and local servers all speak the chat completions API
+  const body = {
+    messages: request.messages,
+    ...(isReasoningModel(config)
+      ? { max_completion_tokens: request.maxTokens }
+      : { temperature: request.temperature, max_tokens: request.maxTokens }),
+    ...(request.responseSchema ? { response_format: responseFormat(config, request.responseSchema) } : {}),
+    ...(stream ? { stream: true } : {}),
+    // Only OpenAI is known to report usage at the end of a stream; the others are estimated
+    ...(stream && config.provider === 'openai' ? { stream_options: { include_usage: true } } : {}),
+  };
+
+  if (config.provider === 'azure-openai') {
+    return {
+      url: `${trimTrailingSlash(config.endpoint!)}/openai/deployments/${config.deploymentId}/chat/completions?api-version=${config.apiVersion}`,
+      init: {
+        method: 'POST',
+        headers: { 'api-key': config.apiKey, 'Content-Type': 'application/json' },
+        body: JSON.stringify(body),
+      },
+    };
+  }
+
+  const baseUrl = config.provider === 'local' ? trimTrailingSlash(config.endpoint!) : 'https://api.openai.com/v1';
+  return {
+    url: `${baseUrl}/chat/completions`,
+    init: {
+      method: 'POST',
+      headers: {
+        // Local servers usually run without authentication
+        ...(config.apiKey ? { 'Authorization': `Bearer ${config.apiKey}` } : {}),
+        'Content-Type': 'application/json',
+      },
+      body: JSON.stringify({ model: config.model, ...body }),
+    },
+  };
+}
+
+// The parts of the provider responses that are read; anything may be missing
+interface AnthropicUsage {
+  input_tokens?: number;
+  output_tokens?: number;
+}
+
+interface AnthropicMessage {
+  content?: { type: string; text?: string; input?: unknown }[];
+  usage?: AnthropicUsage;
+  stop_reason?: string | null;
+}
+
+interface ChatCompletionUsage {
+  prompt_tokens?: number;
+  completion_tokens?: number;
+  total_tokens?: number;
+}
+
+interface ChatCompletion {
+  choices?: { message?: { content?: string | null }; finish_reason?: string | null }[];
+  usage?: ChatCompletionUsage | null;
+}
+
+// Streamed events: Anthropic sends typed events, the chat completions API sends chunks
+interface AnthropicStreamEvent {
+  type?: string;
+  error?: { message?: string };
+  message?: { usage?: AnthropicUsage };
+  delta?: { type?: string; text?: string; stop_reason?: string | null };
+  usage?: AnthropicUsage;
+}
+
+interface ChatCompletionChunk {
+  choices?: { delta?: { content?: string | null }; finish_reason?: string | null }[];
+  usage?: ChatCompletionUsage | null;
+}
+
+function parseResponse(config: LlmConfig, response: unknown): Omit<LlmResult, 'costUsd'> {
+  if (!response || typeof response !== 'object') {
+    throw new LlmError(`${providerNames[config.provider]} returned an unreadable response`);
+  }
+
+  if (config.provider === 'anthropic') {
+    const data = response as AnthropicMessage;
+    const promptTokens = data.usage?.input_tokens || 0;
+    const completionTokens = data.usage?.output_tokens || 0;
+    const blocks = data.content || [];
+    // A forced tool call carries the structured response as its input
+    const toolUse = blocks.find(block => block.type === 'tool_use');
+    return {
+      content: toolUse
+        ? JSON.stringify(toolUse.input)
+        : blocks.filter(block => block.type === 'text').map(block => block.text).join(''),
+      usage: { promptTokens, completionTokens, totalTokens: promptTokens + completionTokens },
+      truncated: data.stop_reason === 'max_tokens',
+    };
+  }
+
+  const data = response as ChatCompletion;
+  const promptTokens = data.usage?.prompt_tokens || 0;
+  const completionTokens = data.usage?.completion_tokens || 0;
+  return {
+    content: data.choices?.[0]?.message?.content ?? '',
+    usage: { promptTokens, completionTokens, totalTokens: data.usage?.total_tokens || promptTokens + completionTokens },
+    truncated: data.choices?.[0]?.finish_reason === 'length',
+  };
+}
+
+// Exponential backoff with jitter, or the provider's Retry-After when it sends one
+function retryDelay(attempt: number, response?: Response): number {
+  const retryAfter = Number(response?.headers.get('retry-after'));
+  if (retryAfter > 0) return Math.min(retryAfter * 1000, 10_000);
+  return Math.min(1000 * 2 ** attempt, 8000) + Math.floor(Math.random() * 250);
+}
+
+const sleep = (ms: number) => new Promise(resolve => setTimeout(resolve, ms));
+
+function errorMessage(errorText: string): string {
+  try {
+    const data = JSON.parse(errorText);
+    return data.error?.message || data.message || '';
+  } catch {
+    return '';
+  }
+}
+
+// Retries rate limits, server errors and timeouts with backoff until a successful response arrives.
+// A request cancelled through `signal` is not retried.
+async function sendWithRetries(
+  config: LlmConfig,
+  request: LlmRequest,
+  stream: boolean,
+  signal?: AbortSignal
+): Promise<Response> {
+  const { url, init } = buildRequest(config, request, stream);
+  const name = providerNames[config.provider];
+  const maxRetries = request.maxRetries ?? DEFAULT_MAX_RETRIES;
+  const timeoutMs = request.timeoutMs ?? (stream ? DEFAULT_STREAM_TIMEOUT_MS : DEFAULT_TIMEOUT_MS);
+
+  for (let attempt = 0; ; attempt++) {
+    const timeout = AbortSignal.timeout(timeoutMs);
+    let response: Response;
+    try {
+      response = await fetch(url, { ...init, signal: signal ? AbortSignal.any([timeout, signal]) : timeout });
+    } catch (error) {
+      if (signal?.aborted) throw new LlmError(`${name} request was cancelled`, 499);
+      console.error(`${name} request failed (attempt ${attempt + 1}):`, error);
+      if (attempt < maxRetries) {
+        await sleep(retryDelay(attempt));
+        continue;
+      }
+      throw timeout.aborted
+        ? new LlmError(`${name} did not respond in time`, 504)
+        : new LlmError(`Could not reach ${name}`);
+    }
+
+    if (response.ok) return response;
+
+    const errorText = await response.text();
+    console.error(`${name} API error (attempt ${attempt + 1}):`, response.status, errorText.substring(0, 500));
+    if (RETRYABLE_STATUSES.has(response.status) && attempt < maxRetries) {
+      await sleep(retryDelay(attempt, response));
+      continue;
+    }
+
+    const details = errorMessage(errorText);
+    throw new LlmError(
+      `${name} API error: ${response.status}${details ? ` - ${details}` : ''}`,
+      response.status === 429 ? 429 : 502
+    );
+  }
+}
+
+/**
+ * Sends a chat request to the configured provider, retrying rate limits, server errors
+ * and timeouts with backoff.
+ */
+export async function chatCompletion(config: LlmConfig, request: LlmRequest): Promise<LlmResult> {
+  const response = await sendWithRetries(config, request, false);
+  const result = parseResponse(config, await response.json());
+  return { ...result, costUsd: estimateCost(config, result.usage) };
+}
+
+async function* readServerSentEvents(body: ReadableStream<Uint8Array>): AsyncGenerator<string> {
+  const reader = body.pipeThrough(new TextDecoderStream()).getReader();
+  let buffer = '';
+  try {
+    while (true) {
+      const { value, done } = await reader.read();
+      if (done) return;
+      buffer += value;
+      const lines = buffer.split('\n');
+      buffer = lines.pop() ?? '';
+      for (const line of lines) {
+        if (line.startsWith('data:')) yield line.slice(5).trim();
+      }
+    }
+  } finally {
+    reader.releaseLock();
+  }
+}
+
+/**
+ * Streams a chat request, passing each piece of text to `onText` as it arrives. Failures before
+ * the first byte are retried and thrown like chatCompletion; once streaming has started, a
+ * cancelled, timed out or dropped stream resolves with what arrived and `interrupted` set.
+ */
+export async function streamChatCompletion(
+  config: LlmConfig,
+  request: LlmRequest,
+  onText: (text: string) => void,
+  signal?: AbortSignal
+): Promise<LlmStreamResult> {
+  const response = await sendWithRetries(config, request, true, signal);
+  const name = providerNames[config.provider];
+
+  let content = '';
+  let promptTokens = 0;
+  let completionTokens = 0;
+  let truncated = false;
+  let finished = false;
+
+  try {
+    for await (const data of readServerSentEvents(response.body!)) {
+      if (data === '[DONE]') break;
+
+      let event: unknown;
+      try {
+        event = JSON.parse(data);
+      } catch {
+        continue;
+      }
+      if (!event || typeof event !== 'object') continue;
+
+      let text = '';
+      if (config.provider === 'anthropic') {
+        const anthropicEvent = event as AnthropicStreamEvent;
+        if (anthropicEvent.type === 'error') throw new Error(anthropicEvent.error?.message || 'stream error');
+        if (anthropicEvent.type === 'message_start') promptTokens = anthropicEvent.message?.usage?.input_tokens || 0;
+        if (anthropicEvent.type === 'content_block_delta' && anthropicEvent.delta?.type === 'text_delta') text = anthropicEvent.delta.text || '';
+        if (anthropicEvent.type === 'message_delta') {
+          completionTokens = anthropicEvent.usage?.output_tokens || completionTokens;
+          truncated = anthropicEvent.delta?.stop_reason === 'max_tokens';
+        }
+        if (anthropicEvent.type === 'message_stop') finished = true;
+      } else {
+        const chunk = event as ChatCompletionChunk;
+        const choice = chunk.choices?.[0];
+        text = choice?.delta?.content || '';
+        if (choice?.finish_reason) {
+          finished = true;
+          truncated = choice.finish_reason === 'length';
+        }
+        if (chunk.usage) {
+          promptTokens = chunk.usage.prompt_tokens || 0;
+          completionTokens = chunk.usage.completion_tokens || 0;
+        }
+      }
+
+      if (text) {
+        content += text;
+        onText(text);
+      }
+    }
+  } catch (error) {
+    console.error(`${name} stream interrupted:`, error);
+  }
+
+  // Usage the provider did not report, or never got to, is estimated at about 4 characters per token
+  if (!promptTokens) {
+    promptTokens = Math.ceil(request.messages.reduce((total, message) => total + message.content.length, 0) / 4);
+  }
+  if (!completionTokens) completionTokens = Math.ceil(content.length / 4);
+
+  const usage = { promptTokens, completionTokens, totalTokens: promptTokens + completionTokens };
+  return { content, usage, costUsd: estimateCost(config, usage), truncated, interrupted: !finished };
+}
+
+export interface AiUsageEntry {
+  userId: string;
+  projectId: string;
+  featureType: string;
+  config: LlmConfig;
+  usage: LlmUsage;
+  costUsd: number;
+  startTime: number;
+  success: boolean;
+}
+
+// Usage logging never fails the request it describes
+export async function logAiUsage(supabase: SupabaseClient, entry: AiUsageEntry): Promise<void> {
+  try {
+    const { error } = await supabase.from('ai_usage_logs').insert({
+      user_id: entry.userId,
+      project_id: entry.projectId,
+      feature_type: entry.featureType,
+      tokens_used: entry.usage.totalTokens,
+      openai_model: modelLabel(entry.config),
+      openai_tokens_prompt: entry.usage.promptTokens,
+      openai_tokens_completion: entry.usage.completionTokens,
+      openai_cost_usd: entry.costUsd,
+      execution_time_ms: Date.now() - entry.startTime,
+      success: entry.success,
+    });
+    if (error) throw error;
+  } catch (logError) {
+    console.error('Failed to log AI usage:', logError);
+  }
+}
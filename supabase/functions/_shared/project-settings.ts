@@ -0,0 +1,79 @@
+import { SupabaseClient } from 'https://esm.sh/@supabase/supabase-js@2'
+
+export interface ProjectMarkdownSettings {
+  general: string;
+  testCases: string;
+  automation: string;
+  testPlan: string;
+  testReport: string;
+}
+
+export type SettingsFeature = Exclude<keyof ProjectMarkdownSettings, 'general'>;
+
+export interface LoadedProjectSettings {
+  settings: ProjectMarkdownSettings;
+  version: number;
+}
+
+const featureHeadings: Record<SettingsFeature, string> = {
+  testCases: 'TEST CASE GENERATION GUIDELINES',
+  automation: 'AUTOMATION GUIDELINES',
+  testPlan: 'TEST PLAN GUIDELINES',
+  testReport: 'TEST REPORT GUIDELINES',
+};
+
+// Loads the markdown settings saved from the project settings dialog.
+// Returns null when the project does not belong to the user or has no saved settings.
+export async function loadProjectSettings(
+  supabase: SupabaseClient,
+  projectId: string | undefined,
+  userId: string
+): Promise<LoadedProjectSettings | null> {
+  if (!projectId) return null;
+
+  const { data, error } = await supabase
+    .from('projects')
+    .select('markdown_settings, markdown_settings_version')
+    .eq('id', projectId)
+    .eq('created_by', userId)
+    .maybeSingle();
+
+  if (error) {
+    console.error('Failed to load project settings:', error);
+    return null;
+  }
+
+  if (!data?.markdown_settings) return null;
+
+  try {
+    const parsed = JSON.parse(data.markdown_settings);
+    return {
+      settings: {
+        general: parsed.general || '',
+        testCases: parsed.testCases || '',
+        automation: parsed.automation || '',
+        testPlan: parsed.testPlan || '',
+        testReport: parsed.testReport || '',
+      },
+      version: data.markdown_settings_version || 0,
+    };
+  } catch {
+    console.error('Project markdown settings are not valid JSON');
+    return null;
+  }
+}
+
+// Builds the prompt section combining the general project context with the feature-specific settings
+export function buildSettingsContext(loaded: LoadedProjectSettings | null, feature: SettingsFeature): string {
+  if (!loaded) return '';
+
+  const sections: string[] = [];
+  if (loaded.settings.general.trim()) {
+    sections.push(`PROJECT CONTEXT:\n${loaded.settings.general.trim()}`);
+  }
+  if (loaded.settings[feature].trim()) {
+    sections.push(`${featureHeadings[feature]}:\n${loaded.settings[feature].trim()}`);
+  }
+
+  return sections.join('\n\n');
+}
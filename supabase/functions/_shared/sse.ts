@@ -0,0 +1,46 @@
+import { corsHeaders } from './cors.ts'
+
+export type SendEvent = (event: string, data: unknown) => void;
+
+/**
+ * Responds with a server-sent event stream fed by `run`. The signal aborts when the client
+ * disconnects, after which sent events are dropped. An error thrown by `run` becomes an
+ * `error` event.
+ */
+export function sseResponse(run: (send: SendEvent, signal: AbortSignal) => Promise<void>): Response {
+  const disconnected = new AbortController();
+  const encoder = new TextEncoder();
+  let closed = false;
+
+  const body = new ReadableStream<Uint8Array>({
+    start(controller) {
+      const send: SendEvent = (event, data) => {
+        if (closed) return;
+        controller.enqueue(encoder.encode(`event: ${event}\ndata: ${JSON.stringify(data)}\n\n`));
+      };
+
+      run(send, disconnected.signal)
+        .catch(error => {
+          console.error('Streaming response failed:', error);
+          send('error', { error: error.message });
+        })
+        .finally(() => {
+          if (closed) return;
+          closed = true;
+          controller.close();
+        });
+    },
+    cancel() {
+      closed = true;
+      disconnected.abort();
+    },
+  });
+
+  return new Response(body, {
+    headers: {
+      ...corsHeaders,
+      'Content-Type': 'text/event-stream',
+      'Cache-Control': 'no-cache',
+    },
+  });
+}
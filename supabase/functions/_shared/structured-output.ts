@@ -0,0 +1,81 @@
+// Reads JSON arrays out of model responses: tolerates markdown fences and surrounding prose,
+// and salvages the complete items of an array that was cut off at the token limit.
+
+export interface ParsedJsonArray {
+  items: unknown[];
+  // Trailing items were dropped because the JSON was cut off
+  recovered: boolean;
+}
+
+export function stripCodeFences(text: string): string {
+  const fenced = text.match(/```[a-zA-Z]*[ \t]*\n?([\s\S]*?)(?:```|$)/);
+  return (fenced ? fenced[1] : text).trim();
+}
+
+// Accepts the bare array or an object wrapping it, as structured output formats require
+function unwrapArray(value: unknown, key: string): unknown[] {
+  if (Array.isArray(value)) return value;
+  if (value && typeof value === 'object') {
+    const record = value as Record<string, unknown>;
+    if (Array.isArray(record[key])) return record[key] as unknown[];
+    const arrays = Object.values(record).filter(Array.isArray);
+    if (arrays.length === 1) return arrays[0] as unknown[];
+  }
+  throw new Error(`Expected a JSON object with a "${key}" array`);
+}
+
+// Finds the first array in the text. An array that never closes is cut after its last complete
+// item and closed again; null means not even one item is complete.
+function extractArray(text: string): { json: string; truncated: boolean } | null {
+  const start = text.indexOf('[');
+  if (start === -1) return null;
+
+  let depth = 0;
+  let inString = false;
+  let escaped = false;
+  let lastItemEnd = -1;
+
+  for (let i = start; i < text.length; i++) {
+    const char = text[i];
+    if (inString) {
+      if (escaped) escaped = false;
+      else if (char === '\\') escaped = true;
+      else if (char === '"') inString = false;
+      continue;
+    }
+
+    if (char === '"') {
+      inString = true;
+    } else if (char === '{' || char === '[') {
+      depth++;
+    } else if (char === '}' || char === ']') {
+      depth--;
+      if (depth === 0) return { json: text.slice(start, i + 1), truncated: false };
+      if (depth === 1) lastItemEnd = i;
+    }
+  }
+
+  return lastItemEnd === -1 ? null : { json: `${text.slice(start, lastItemEnd + 1)}]`, truncated: true };
+}
+
+/**
+ * Parses the array under `key` from a model response. Throws with a message suitable for
+ * sending back to the model when nothing usable can be read.
+ */
+export function parseJsonArray(text: string, key: string): ParsedJsonArray {
+  const cleaned = stripCodeFences(text);
+
+  try {
+    return { items: unwrapArray(JSON.parse(cleaned), key), recovered: false };
+  } catch (error) {
+    const extracted = extractArray(cleaned);
+    if (extracted) {
+      try {
+        return { items: JSON.parse(extracted.json), recovered: extracted.truncated };
+      } catch {
+        // Fall through to the original error, which describes the response as a whole
+      }
+    }
+    throw new Error(error instanceof SyntaxError ? `Invalid JSON: ${error.message}` : (error as Error).message);
+  }
+}
@@ -0,0 +1,87 @@
+// Shape of AI generated test cases and the per-item checks applied before they reach the UI.
+// The allowed values mirror src/lib/testCaseFacets.ts, which the functions cannot import.
+
+import { LlmResponseSchema } from './llm.ts'
+import { normalizeTestSteps } from './test-steps.ts'
+
+export const TEST_TYPES = ['positive', 'negative', 'edge', 'boundary'];
+export const TEST_CATEGORIES = ['functional', 'ui', 'integration', 'performance'];
+export const TEST_PRIORITIES = ['high', 'medium', 'low'];
+
+export const testCasesResponseSchema: LlmResponseSchema = {
+  name: 'submit_test_cases',
+  description: 'Submit the generated test cases for the user story',
+  schema: {
+    type: 'object',
+    properties: {
+      testCases: {
+        type: 'array',
+        items: {
+          type: 'object',
+          properties: {
+            id: { type: 'string' },
+            title: { type: 'string' },
+            description: { type: 'string' },
+            type: { type: 'string', enum: TEST_TYPES },
+            priority: { type: 'string', enum: TEST_PRIORITIES },
+            steps: {
+              type: 'array',
+              items: {
+                type: 'object',
+                properties: {
+                  action: { type: 'string' },
+                  testData: { type: 'string' },
+                  expectedResult: { type: 'string' },
+                },
+                required: ['action', 'testData', 'expectedResult'],
+              },
+            },
+            expectedResult: { type: 'string' },
+            category: { type: 'string', enum: TEST_CATEGORIES },
+            coversCriteria: { type: 'array', items: { type: 'string' } },
+          },
+          required: ['id', 'title', 'description', 'type', 'priority', 'steps', 'expectedResult', 'category'],
+        },
+      },
+    },
+    required: ['testCases'],
+  },
+};
+
+// Models sometimes answer "Edge case" or "High" instead of the bare value
+const matchesOption = (allowed: string[], value: unknown): boolean => {
+  if (typeof value !== 'string') return false;
+  const normalized = value.trim().toLowerCase();
+  return allowed.some(option => normalized === option || normalized.startsWith(`${option} `));
+};
+
+const isNonEmptyText = (value: unknown): boolean => typeof value === 'string' && value.trim().length > 0;
+
+/**
+ * Returns what is wrong with one generated test case; an empty list means it can be used
+ */
+export function validateGeneratedTestCase(value: unknown): string[] {
+  if (!value || typeof value !== 'object' || Array.isArray(value)) {
+    return ['must be a JSON object'];
+  }
+
+  const testCase = value as Record<string, unknown>;
+  const errors: string[] = [];
+
+  if (!isNonEmptyText(testCase.title)) errors.push('title is required');
+  if (testCase.description !== undefined && typeof testCase.description !== 'string') {
+    errors.push('description must be a string');
+  }
+  if (normalizeTestSteps(testCase.steps).length === 0) {
+    errors.push('steps must contain at least one step with an action');
+  }
+  if (!isNonEmptyText(testCase.expectedResult)) errors.push('expectedResult is required');
+  if (!matchesOption(TEST_TYPES, testCase.type)) errors.push(`type must be one of ${TEST_TYPES.join(', ')}`);
+  if (!matchesOption(TEST_PRIORITIES, testCase.priority)) errors.push(`priority must be one of ${TEST_PRIORITIES.join(', ')}`);
+  if (!matchesOption(TEST_CATEGORIES, testCase.category)) errors.push(`category must be one of ${TEST_CATEGORIES.join(', ')}`);
+  if (testCase.coversCriteria !== undefined && !Array.isArray(testCase.coversCriteria)) {
+    errors.push('coversCriteria must be an array of criterion ids');
+  }
+
+  return errors;
+}
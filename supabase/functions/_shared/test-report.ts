@@ -0,0 +1,117 @@
+// Test cases, comparison and charts a test report is generated from, as the report editor
+// sends them. Mirrors src/lib/executionReport.ts and src/lib/reportCharts.ts, which the
+// functions cannot import.
+
+export type ReportStatus = 'passed' | 'failed' | 'blocked' | 'skipped' | 'pending';
+
+export interface ReportCase {
+  title: string;
+  status: ReportStatus;
+  priority: string;
+  userStoryTitle?: string;
+  actualResult: string;
+  notes: string;
+  defects: string[];
+  durationSeconds: number | null;
+  // Only in run reports: the case's result in the run before, when it was part of it
+  previousStatus?: ReportStatus;
+}
+
+export interface RunComparison {
+  runName: string;
+  passRate: number;
+  // Case titles
+  newFailures: string[];
+  fixed: string[];
+  stillFailing: string[];
+}
+
+// The report only places charts; their data stays with the client that draws them
+export interface ReportChart {
+  id: string;
+  title: string;
+}
+
+const REPORT_STATUSES: ReportStatus[] = ['passed', 'failed', 'blocked', 'skipped', 'pending'];
+const MAX_REPORT_CASES = 200;
+
+const isReportStatus = (value: unknown): value is ReportStatus =>
+  REPORT_STATUSES.includes(value as ReportStatus);
+
+const CHART_ID = /^[\w-]+$/;
+
+const optionalText = (value: unknown): string | undefined =>
+  typeof value === 'string' && value.trim() ? value : undefined;
+
+const textList = (value: unknown): string[] =>
+  Array.isArray(value) ? value.filter((item): item is string => typeof item === 'string' && !!item.trim()) : [];
+
+// Returns the validated test cases, or the reason they were rejected
+export function parseReportCases(value: unknown): ReportCase[] | string {
+  if (!Array.isArray(value) || value.length === 0) return 'Test cases array is required';
+  // Limit test cases to prevent excessive API usage
+  if (value.length > MAX_REPORT_CASES) return `Maximum ${MAX_REPORT_CASES} test cases allowed per request`;
+
+  const cases: ReportCase[] = [];
+  for (const item of value) {
+    if (!item || typeof item !== 'object') return 'Each test case must be an object';
+
+    const {
+      title, status, priority, userStoryTitle, actualResult, notes, defects, durationSeconds, previousStatus,
+    } = item as Record<string, unknown>;
+    if (typeof title !== 'string' || !title.trim()) return 'Each test case must have a title';
+    if (!isReportStatus(status)) return `Test case status must be one of: ${REPORT_STATUSES.join(', ')}`;
+    if (previousStatus !== undefined && previousStatus !== null && !isReportStatus(previousStatus)) {
+      return `Previous test case status must be one of: ${REPORT_STATUSES.join(', ')}`;
+    }
+    if (durationSeconds !== undefined && durationSeconds !== null
+      && (typeof durationSeconds !== 'number' || !Number.isFinite(durationSeconds) || durationSeconds < 0)) {
+      return 'Test case duration must be a number of seconds';
+    }
+
+    cases.push({
+      title,
+      status,
+      priority: optionalText(priority) ?? 'medium',
+      userStoryTitle: optionalText(userStoryTitle),
+      actualResult: optionalText(actualResult) ?? '',
+      notes: optionalText(notes) ?? '',
+      defects: [...new Set(textList(defects))],
+      durationSeconds: typeof durationSeconds === 'number' ? durationSeconds : null,
+      previousStatus: isReportStatus(previousStatus) ? previousStatus : undefined,
+    });
+  }
+  return cases;
+}
+
+// Reports that cover a date range have no previous run to compare with
+export function parseRunComparison(value: unknown): RunComparison | null | string {
+  if (value === undefined || value === null) return null;
+  if (typeof value !== 'object') return 'Comparison must be an object';
+
+  const { runName, passRate, newFailures, fixed, stillFailing } = value as Record<string, unknown>;
+  if (typeof runName !== 'string' || !runName.trim()) return 'Comparison must name the previous run';
+  if (typeof passRate !== 'number' || !Number.isFinite(passRate)) return 'Comparison pass rate must be a number';
+
+  return {
+    runName,
+    passRate,
+    newFailures: textList(newFailures),
+    fixed: textList(fixed),
+    stillFailing: textList(stillFailing),
+  };
+}
+
+export function parseReportCharts(value: unknown): ReportChart[] | string {
+  if (value === undefined || value === null) return [];
+  if (!Array.isArray(value)) return 'Charts must be an array';
+
+  const charts: ReportChart[] = [];
+  for (const item of value) {
+    const { id, title } = (item || {}) as Record<string, unknown>;
+    if (typeof id !== 'string' || !CHART_ID.test(id)) return 'Chart ids may only contain letters, digits, "_" and "-"';
+    if (typeof title !== 'string' || !title.trim()) return 'Each chart must have a title';
+    charts.push({ id, title });
+  }
+  return charts;
+}
@@ -0,0 +1,63 @@
+// Structured test steps as stored in test_cases.test_steps. Mirrors src/lib/testSteps.ts,
+// which the functions cannot import.
+
+export interface TestStep {
+  action: string;
+  testData: string;
+  expectedResult: string;
+}
+
+const NUMBERED_LINE = /^(\d+)[.)]\s*(.*)$/;
+
+const asText = (value: unknown): string =>
+  value === null || value === undefined ? '' : String(value).trim();
+
+// When the text is numbered ("1. ..."), unnumbered lines continue the entry before them;
+// otherwise every non-empty line is its own entry
+function parseNumberedLines(text: string): string[] {
+  const lines = text.split(/\r?\n/).map(line => line.trim()).filter(Boolean);
+  if (!lines.some(line => NUMBERED_LINE.test(line))) return lines;
+
+  const entries: string[] = [];
+  for (const line of lines) {
+    const match = line.match(NUMBERED_LINE);
+    if (match) {
+      entries.push(match[2]);
+    } else if (entries.length > 0) {
+      entries[entries.length - 1] = `${entries[entries.length - 1]}\n${line}`;
+    } else {
+      entries.push(line);
+    }
+  }
+  return entries;
+}
+
+// Accepts structured steps or plain strings (as older prompts and rows produced them)
+export function normalizeTestSteps(value: unknown): TestStep[] {
+  if (typeof value === 'string') {
+    return parseNumberedLines(value)
+      .filter(Boolean)
+      .map(action => ({ action, testData: '', expectedResult: '' }));
+  }
+  if (!Array.isArray(value)) return [];
+
+  return value
+    .map(step => {
+      if (typeof step === 'string') {
+        return { action: step.trim(), testData: '', expectedResult: '' };
+      }
+      const record = (step || {}) as Record<string, unknown>;
+      return {
+        action: asText(record.action ?? record.step ?? record.description ?? record.content),
+        testData: asText(record.testData ?? record.data ?? record.input),
+        expectedResult: asText(record.expectedResult ?? record.expected ?? record.result),
+      };
+    })
+    .filter(step => step.action);
+}
+
+// Rows written before test_steps existed only have the newline separated steps text
+export function readTestSteps(row: { test_steps?: unknown; steps?: string | null }): TestStep[] {
+  const steps = normalizeTestSteps(row.test_steps);
+  return steps.length > 0 ? steps : normalizeTestSteps(row.steps || '');
+}
@@ -0,0 +1,277 @@
+import { serve } from "https://deno.land/std@0.168.0/http/server.ts";
+import { createClient } from 'https://esm.sh/@supabase/supabase-js@2'
+import { corsHeaders } from '../_shared/cors.ts'
+import {
+  CredentialError,
+  getRequestUser,
+  assertProjectAccess,
+  requireIntegrationCredential,
+} from '../_shared/credentials.ts'
+import {
+  AzureDevOpsClient,
+  AzureDevOpsError,
+  JsonPatchOperation,
+  createAzureDevOpsClient,
+} from '../_shared/azure-devops.ts'
+import { readTestSteps } from '../_shared/test-steps.ts'
+
+const supabase = createClient(
+  Deno.env.get('SUPABASE_URL') ?? '',
+  Deno.env.get('SUPABASE_SERVICE_ROLE_KEY') ?? ''
+)
+
+const MAX_TEST_CASES = 100;
+// Work item link type that shows as "Tests" on the test case and "Tested By" on the story
+const TESTS_RELATION = 'Microsoft.VSTS.Common.TestedBy-Reverse';
+
+interface TestCaseRow {
+  id: string;
+  project_id: string;
+  title: string;
+  description: string | null;
+  steps: string | null;
+  test_steps: unknown;
+  expected_result: string | null;
+  priority: string | null;
+  azure_work_item_id: number | null;
+  user_stories: { external_source: string | null; external_id: string | null } | null;
+}
+
+interface ExportResult {
+  testCaseId: string;
+  status: 'created' | 'updated' | 'failed';
+  workItemId?: number;
+  workItemUrl?: string;
+  error?: string;
+  warning?: string;
+}
+
+const jsonResponse = (body: unknown, status = 200) =>
+  new Response(JSON.stringify(body), {
+    status,
+    headers: { ...corsHeaders, 'Content-Type': 'application/json' },
+  });
+
+const escapeXml = (value: string) =>
+  value
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;');
+
+// Step text is stored as HTML inside the XML, so it is escaped twice
+const stepHtml = (text: string) => escapeXml(`<DIV><P>${escapeXml(text).replace(/\n/g, '<BR/>')}</P></DIV>`);
+
+// Builds Microsoft.VSTS.TCM.Steps. Test data is appended to the action since the work item
+// only has action and expected result columns (shared parameters are not used).
+// A case level expected result with no per-step results is attached to the final step.
+function buildStepsXml(testCase: TestCaseRow): string {
+  const steps = readTestSteps(testCase);
+  if (steps.length === 0) {
+    steps.push({ action: testCase.title, testData: '', expectedResult: '' });
+  }
+  if (testCase.expected_result && steps.every(step => !step.expectedResult)) {
+    steps[steps.length - 1] = { ...steps[steps.length - 1], expectedResult: testCase.expected_result };
+  }
+
+  const stepXml = steps.map((step, index) => {
+    const action = step.testData ? `${step.action}\nTest data: ${step.testData}` : step.action;
+    const type = step.expectedResult ? 'ValidateStep' : 'ActionStep';
+    return `<step id="${index + 2}" type="${type}">` +
+      `<parameterizedString isformatted="true">${stepHtml(action)}</parameterizedString>` +
+      `<parameterizedString isformatted="true">${step.expectedResult ? stepHtml(step.expectedResult) : ''}</parameterizedString>` +
+      `<description/></step>`;
+  }).join('');
+
+  return `<steps id="0" last="${steps.length + 1}">${stepXml}</steps>`;
+}
+
+const priorityValue = (priority: string | null) =>
+  priority === 'high' ? 1 : priority === 'low' ? 3 : 2;
+
+function buildFieldOperations(testCase: TestCaseRow, op: 'add' | 'replace'): JsonPatchOperation[] {
+  return [
+    { op, path: '/fields/System.Title', value: testCase.title.substring(0, 255) },
+    { op, path: '/fields/System.Description', value: escapeXml(testCase.description || '') },
+    { op, path: '/fields/Microsoft.VSTS.TCM.Steps', value: buildStepsXml(testCase) },
+    { op, path: '/fields/Microsoft.VSTS.Common.Priority', value: priorityValue(testCase.priority) },
+  ];
+}
+
+async function exportTestCase(
+  client: AzureDevOpsClient,
+  testCase: TestCaseRow,
+  testPlanId?: number,
+  testSuiteId?: number
+): Promise<ExportResult> {
+  let workItemId = testCase.azure_work_item_id;
+  let status: ExportResult['status'] = 'updated';
+  const warnings: string[] = [];
+
+  if (workItemId) {
+    try {
+      await client.updateWorkItem(workItemId, buildFieldOperations(testCase, 'replace'));
+    } catch (error) {
+      // The work item was deleted in Azure DevOps, so export it again as a new one
+      if (!(error instanceof AzureDevOpsError) || error.status !== 404) throw error;
+      workItemId = null;
+    }
+  }
+
+  if (!workItemId) {
+    const operations = buildFieldOperations(testCase, 'add');
+    const storyId = testCase.user_stories?.external_source === 'azure-devops' ? testCase.user_stories.external_id : null;
+    if (storyId) {
+      operations.push({
+        op: 'add',
+        path: '/relations/-',
+        value: { rel: TESTS_RELATION, url: client.workItemApiUrl(Number(storyId)) },
+      });
+    }
+
+    try {
+      workItemId = (await client.createWorkItem('Test Case', operations)).id;
+    } catch (error) {
+      // A deleted or inaccessible story should not block the export itself
+      if (!storyId || !(error instanceof AzureDevOpsError) || error.status !== 400) throw error;
+      workItemId = (await client.createWorkItem('Test Case', operations.slice(0, -1))).id;
+      warnings.push(`Created but could not link to story #${storyId}`);
+    }
+    status = 'created';
+  }
+
+  if (testPlanId && testSuiteId) {
+    try {
+      await client.request(
+        'POST',
+        `${client.projectUrl}/_apis/testplan/Plans/${testPlanId}/Suites/${testSuiteId}/TestCase`,
+        [{ workItem: { id: workItemId } }]
+      );
+    } catch (error) {
+      // Re-adding a test case that is already in the suite is rejected; that is fine
+      if (status === 'created' || !(error instanceof AzureDevOpsError) || error.status !== 409) {
+        warnings.push(`Could not add to test suite: ${error.message}`);
+      }
+    }
+  }
+
+  const workItemUrl = client.workItemUrl(workItemId);
+  const { error: updateError } = await supabase
+    .from('test_cases')
+    .update({
+      azure_work_item_id: workItemId,
+      azure_work_item_url: workItemUrl,
+      azure_synced_at: new Date().toISOString(),
+    })
+    .eq('id', testCase.id);
+
+  if (updateError) throw updateError;
+
+  return {
+    testCaseId: testCase.id,
+    status,
+    workItemId,
+    workItemUrl,
+    warning: warnings.length > 0 ? warnings.join('; ') : undefined,
+  };
+}
+
+serve(async (req) => {
+  if (req.method === 'OPTIONS') {
+    return new Response(null, { headers: corsHeaders });
+  }
+
+  try {
+    const user = await getRequestUser(supabase, req);
+    if (!user) {
+      return jsonResponse({ error: 'Unauthorized' }, 401);
+    }
+
+    const body = await req.json();
+    const { action = 'export', projectId } = body;
+
+    await assertProjectAccess(supabase, projectId, user.id);
+
+    const credential = await requireIntegrationCredential(supabase, projectId, 'azure-devops');
+    const client = createAzureDevOpsClient(credential);
+
+    if (action === 'list-plans') {
+      const data = await client.request<{ value?: { id: number; name: string; state?: string }[] }>(
+        'GET',
+        `${client.projectUrl}/_apis/testplan/plans?filterActivePlans=true`
+      );
+      return jsonResponse({
+        success: true,
+        plans: (data.value || []).map(plan => ({ id: plan.id, name: plan.name })),
+      });
+    }
+
+    if (action === 'list-suites') {
+      const testPlanId = Number(body.testPlanId);
+      if (!Number.isInteger(testPlanId)) {
+        return jsonResponse({ error: 'testPlanId is required' }, 400);
+      }
+      const data = await client.request<{ value?: { id: number; name: string }[] }>(
+        'GET',
+        `${client.projectUrl}/_apis/testplan/Plans/${testPlanId}/suites`
+      );
+      return jsonResponse({
+        success: true,
+        suites: (data.value || []).map(suite => ({ id: suite.id, name: suite.name })),
+      });
+    }
+
+    if (action !== 'export') {
+      return jsonResponse({ error: 'Unknown action' }, 400);
+    }
+
+    const { testCaseIds } = body;
+    if (!Array.isArray(testCaseIds) || testCaseIds.length === 0) {
+      return jsonResponse({ error: 'testCaseIds must be a non-empty array' }, 400);
+    }
+    if (testCaseIds.length > MAX_TEST_CASES) {
+      return jsonResponse({ error: `A maximum of ${MAX_TEST_CASES} test cases can be exported at once` }, 400);
+    }
+
+    const testPlanId = body.testPlanId ? Number(body.testPlanId) : undefined;
+    const testSuiteId = body.testSuiteId ? Number(body.testSuiteId) : undefined;
+
+    // The Azure DevOps connection belongs to one project, so only that project's test cases are exported
+    const { data, error } = await supabase
+      .from('test_cases')
+      .select('id, project_id, title, description, steps, test_steps, expected_result, priority, azure_work_item_id, user_stories(external_source, external_id)')
+      .eq('project_id', projectId)
+      .in('id', testCaseIds);
+
+    if (error) throw error;
+
+    const results: ExportResult[] = [];
+    for (const testCase of (data || []) as TestCaseRow[]) {
+      try {
+        results.push(await exportTestCase(client, testCase, testPlanId, testSuiteId));
+      } catch (exportError) {
+        console.error(`Failed to export test case ${testCase.id}:`, exportError);
+        results.push({ testCaseId: testCase.id, status: 'failed', error: exportError.message || 'Failed to export' });
+      }
+    }
+
+    const foundIds = new Set((data || []).map(testCase => testCase.id));
+    for (const testCaseId of testCaseIds) {
+      if (!foundIds.has(testCaseId)) {
+        results.push({ testCaseId, status: 'failed', error: 'Test case does not belong to this project' });
+      }
+    }
+
+    return jsonResponse({
+      success: true,
+      results,
+      created: results.filter(result => result.status === 'created').length,
+      updated: results.filter(result => result.status === 'updated').length,
+      failed: results.filter(result => result.status === 'failed').length,
+    });
+  } catch (error) {
+    console.error('Error in azure-devops-export-test-cases function:', error);
+    const status = error instanceof CredentialError || error instanceof AzureDevOpsError ? error.status : 500;
+    return jsonResponse({ success: false, error: error.message || 'Failed to export test cases to Azure DevOps' }, status);
+  }
+});
@@ -1,10 +1,18 @@
 import { serve } from "https://deno.land/std@0.168.0/http/server.ts";
+import { createClient } from 'https://esm.sh/@supabase/supabase-js@2'
+import { CredentialError, getRequestUser, assertProjectAccess, requireIntegrationCredential } from '../_shared/credentials.ts'
+import { AzureDevOpsError, createAzureDevOpsClient, escapeWiqlString } from '../_shared/azure-devops.ts'
 
 const corsHeaders = {
   'Access-Control-Allow-Origin': '*',
   'Access-Control-Allow-Headers': 'authorization, x-client-info, apikey, content-type',
 };
 
+const supabase = createClient(
+  Deno.env.get('SUPABASE_URL') ?? '',
+  Deno.env.get('SUPABASE_SERVICE_ROLE_KEY') ?? ''
+);
+
 interface AzureDevOpsWorkItem {
   id: number;
   fields: {
@@ -13,10 +21,19 @@ interface AzureDevOpsWorkItem {
     'System.WorkItemType': string;
     'Microsoft.VSTS.Common.Priority'?: number;
     'System.State': string;
+    'System.ChangedDate'?: string;
+    'System.IterationPath'?: string;
+    'Microsoft.VSTS.Scheduling.StoryPoints'?: number;
     'Microsoft.VSTS.Common.AcceptanceCriteria'?: string;
   };
 }
 
+// "Project\Release 2\Sprint 5" is planned in Sprint 5; items left at the project root have no sprint
+function iterationName(path: string | undefined): string | null {
+  const segments = (path || '').split('\\');
+  return segments.length > 1 ? segments[segments.length - 1] : null;
+}
+
 serve(async (req) => {
   console.log('Azure DevOps integration function called');
 
@@ -36,119 +53,36 @@ serve(async (req) => {
   }
 
   try {
-    const body = await req.json();
-    console.log('Request body:', body);
-
-    const { organizationUrl, projectName, personalAccessToken } = body;
-
-    // Input validation
-    if (!organizationUrl || !projectName || !personalAccessToken) {
-      return new Response(
-        JSON.stringify({ 
-          success: false, 
-          error: 'Missing required fields: organizationUrl, projectName, and personalAccessToken are required' 
-        }),
-        { 
-          status: 400, 
-          headers: { ...corsHeaders, 'Content-Type': 'application/json' } 
-        }
-      );
-    }
-
-    // Validate URL format
-    try {
-      new URL(organizationUrl);
-    } catch {
+    const user = await getRequestUser(supabase, req);
+    if (!user) {
       return new Response(
-        JSON.stringify({ 
-          success: false, 
-          error: 'Invalid organization URL format' 
-        }),
+        JSON.stringify({ success: false, error: 'Unauthorized' }),
         { 
-          status: 400, 
+          status: 401, 
           headers: { ...corsHeaders, 'Content-Type': 'application/json' } 
         }
       );
     }
 
-    // Validate input lengths (security measure)
-    if (organizationUrl.length > 200 || projectName.length > 100 || personalAccessToken.length > 200) {
-      return new Response(
-        JSON.stringify({ 
-          success: false, 
-          error: 'Input values exceed maximum allowed length' 
-        }),
-        { 
-          status: 400, 
-          headers: { ...corsHeaders, 'Content-Type': 'application/json' } 
-        }
-      );
-    }
+    const body = await req.json();
+    const { projectId } = body;
 
-    // Construct Azure DevOps API URL for work items using WIQL
-    const baseUrl = organizationUrl.endsWith('/') ? organizationUrl.slice(0, -1) : organizationUrl;
-    const wiqlUrl = `${baseUrl}/_apis/wit/wiql?api-version=7.1`;
+    await assertProjectAccess(supabase, projectId, user.id);
 
-    console.log('Fetching from Azure DevOps WIQL API:', wiqlUrl);
+    // Credentials come from the project's encrypted vault, never from the request body
+    const credential = await requireIntegrationCredential(supabase, projectId, 'azure-devops');
+    const client = createAzureDevOpsClient(credential);
 
-    // Prepare authentication
-    const authToken = btoa(`:${personalAccessToken}`);
+    console.log('Fetching work items from Azure DevOps project:', client.projectName);
 
     // WIQL query to get User Stories and Features for the specific project
-    const wiqlQuery = {
-      query: `SELECT [System.Id] FROM WorkItems WHERE [System.TeamProject] = '${projectName}' AND ([System.WorkItemType] = 'User Story' OR [System.WorkItemType] = 'Feature') ORDER BY [System.CreatedDate] DESC`
-    };
-
-    // First, get work item IDs using WIQL
-    const wiqlResponse = await fetch(wiqlUrl, {
-      method: 'POST',
-      headers: {
-        'Authorization': `Basic ${authToken}`,
-        'Content-Type': 'application/json',
-        'Accept': 'application/json',
-      },
-      body: JSON.stringify(wiqlQuery),
-    });
-
-    console.log('Azure DevOps WIQL response status:', wiqlResponse.status);
-
-    if (!wiqlResponse.ok) {
-      const errorText = await wiqlResponse.text();
-      console.error('Azure DevOps WIQL error:', errorText);
-      
-      // Check if response is HTML (authentication failure usually returns HTML)
-      if (errorText.includes('<!DOCTYPE') || errorText.includes('<html')) {
-        throw new Error('Authentication failed or invalid URL. Please check your Personal Access Token and organization URL.');
-      }
-      
-      if (wiqlResponse.status === 401) {
-        throw new Error('Authentication failed. Please check your Personal Access Token.');
-      } else if (wiqlResponse.status === 404) {
-        throw new Error('Project not found. Please check your organization URL and project name.');
-      } else {
-        throw new Error(`Azure DevOps WIQL API error: ${wiqlResponse.status} ${wiqlResponse.statusText}`);
-      }
-    }
-
-    let wiqlData;
-    try {
-      const responseText = await wiqlResponse.text();
-      console.log('WIQL response text (first 200 chars):', responseText.substring(0, 200));
-      
-      // Check if response is HTML
-      if (responseText.includes('<!DOCTYPE') || responseText.includes('<html')) {
-        throw new Error('Received HTML response instead of JSON. Check authentication and URL.');
-      }
-      
-      wiqlData = JSON.parse(responseText);
-    } catch (parseError) {
-      console.error('Failed to parse WIQL response:', parseError);
-      throw new Error('Invalid response from Azure DevOps API. Please check your credentials and URL.');
-    }
+    const workItemIds = await client.queryWorkItemIds(
+      `SELECT [System.Id] FROM WorkItems WHERE [System.TeamProject] = '${escapeWiqlString(client.projectName)}' AND ([System.WorkItemType] = 'User Story' OR [System.WorkItemType] = 'Feature') ORDER BY [System.CreatedDate] DESC`
+    );
 
-    console.log('WIQL response:', { workItemCount: wiqlData.workItems?.length || 0 });
+    console.log('WIQL response:', { workItemCount: workItemIds.length });
 
-    if (!wiqlData.workItems || wiqlData.workItems.length === 0) {
+    if (workItemIds.length === 0) {
       return new Response(
         JSON.stringify({
           success: true,
@@ -162,55 +96,11 @@ serve(async (req) => {
       );
     }
 
-    // Get work item IDs
-    const workItemIds = wiqlData.workItems.map((item: any) => item.id);
-    const idsParam = workItemIds.join(',');
-    
     // Now get the full work item details
-    const workItemsUrl = `${baseUrl}/_apis/wit/workitems?ids=${idsParam}&$expand=Fields&api-version=7.1`;
-    console.log('Fetching work item details:', workItemsUrl);
-
-    const response = await fetch(workItemsUrl, {
-      method: 'GET',
-      headers: {
-        'Authorization': `Basic ${authToken}`,
-        'Content-Type': 'application/json',
-        'Accept': 'application/json',
-      },
-    });
-
-    console.log('Azure DevOps work items response status:', response.status);
-
-    if (!response.ok) {
-      const errorText = await response.text();
-      console.error('Azure DevOps work items error:', errorText);
-      
-      if (errorText.includes('<!DOCTYPE') || errorText.includes('<html')) {
-        throw new Error('Authentication failed or invalid URL. Please check your credentials.');
-      }
-      
-      throw new Error(`Azure DevOps API error: ${response.status} ${response.statusText}`);
-    }
-
-    let data;
-    try {
-      const responseText = await response.text();
-      console.log('Work items response text (first 200 chars):', responseText.substring(0, 200));
-      
-      if (responseText.includes('<!DOCTYPE') || responseText.includes('<html')) {
-        throw new Error('Received HTML response instead of JSON. Check authentication and URL.');
-      }
-      
-      data = JSON.parse(responseText);
-    } catch (parseError) {
-      console.error('Failed to parse work items response:', parseError);
-      throw new Error('Invalid response from Azure DevOps API. Please check your credentials and URL.');
-    }
-
-    console.log('Azure DevOps API response:', { count: data.count, hasValue: !!data.value });
+    const workItems = await client.getWorkItems(workItemIds) as AzureDevOpsWorkItem[];
 
     // Transform work items to user stories format
-    const userStories = data.value?.map((workItem: AzureDevOpsWorkItem) => ({
+    const userStories = workItems.map((workItem: AzureDevOpsWorkItem) => ({
       id: workItem.id.toString(),
       title: workItem.fields['System.Title'] || 'Untitled',
       description: workItem.fields['System.Description'] || 'No description available',
@@ -223,8 +113,12 @@ serve(async (req) => {
       status: workItem.fields['System.State']?.toLowerCase() || 'new',
       issueType: workItem.fields['System.WorkItemType'] || 'User Story',
       azureDevOpsId: workItem.id,
+      storyPoints: workItem.fields['Microsoft.VSTS.Scheduling.StoryPoints'] ?? null,
+      sprint: iterationName(workItem.fields['System.IterationPath']),
+      url: client.workItemUrl(workItem.id),
+      updated: workItem.fields['System.ChangedDate'] || null,
       source: 'azure-devops'
-    })) || [];
+    }));
 
     console.log('Transformed user stories:', { count: userStories.length });
 
@@ -249,7 +143,7 @@ serve(async (req) => {
         error: error.message || 'An unexpected error occurred while connecting to Azure DevOps'
       }),
       { 
-        status: 500, 
+        status: error instanceof CredentialError || error instanceof AzureDevOpsError ? error.status : 500, 
         headers: { ...corsHeaders, 'Content-Type': 'application/json' } 
       }
     );
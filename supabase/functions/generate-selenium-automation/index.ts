@@ -1,18 +1,24 @@
 import { serve } from "https://deno.land/std@0.190.0/http/server.ts";
+import { createClient } from 'https://esm.sh/@supabase/supabase-js@2'
+import { loadProjectSettings, buildSettingsContext, LoadedProjectSettings } from '../_shared/project-settings.ts'
+import { normalizeTestSteps } from '../_shared/test-steps.ts'
+import { AutomationStep, AutomationTestCase, buildPageModel, classifyStep, detectTarget, findTarget } from './targets/index.ts'
+import { resolveLocators } from './locators.ts'
+import { ParsedSnapshot, elementsForCase, loadSnapshots, parseSnapshots } from './snapshots.ts'
 
 const corsHeaders = {
   'Access-Control-Allow-Origin': '*',
   'Access-Control-Allow-Headers': 'authorization, x-client-info, apikey, content-type',
 };
 
-interface TestCase {
-  id: string;
-  title: string;
-  description: string;
-  steps: Array<{ type: string; content: string }>;
-  expectedResult: string;
-  priority: string;
-}
+const supabase = createClient(
+  Deno.env.get('SUPABASE_URL') ?? '',
+  Deno.env.get('SUPABASE_SERVICE_ROLE_KEY') ?? ''
+)
+
+const DEFAULT_BASE_URL = 'https://your-application-url.com';
+const DEFAULT_BROWSER = 'chrome';
+const DEFAULT_JAVA_PACKAGE = 'com.testautomation';
 
 serve(async (req) => {
   // Handle CORS preflight requests
@@ -21,17 +27,112 @@ serve(async (req) => {
   }
 
   try {
-    const { testCase }: { testCase: TestCase } = await req.json();
-    
-    console.log('Generating Selenium automation for test case:', testCase.title);
+    // Either a single testCase for one generated file, or testCases for a page object project scaffold
+    const { testCase, testCases, projectId, target: requestedTarget }: {
+      testCase?: AutomationTestCase;
+      testCases?: AutomationTestCase[];
+      projectId?: string;
+      target?: string;
+    } = await req.json();
+
+    if (requestedTarget && !findTarget(requestedTarget)) {
+      return new Response(
+        JSON.stringify({ success: false, error: `Unknown automation target: ${requestedTarget}` }),
+        {
+          headers: { ...corsHeaders, 'Content-Type': 'application/json' },
+          status: 400,
+        }
+      );
+    }
+
+    // Project automation settings are only applied for an authenticated owner of the project
+    let projectSettings: LoadedProjectSettings | null = null;
+    let projectName = 'Test';
+    let snapshots: ParsedSnapshot[] = [];
+    const authHeader = req.headers.get('Authorization');
+    if (projectId && authHeader) {
+      const { data: { user } } = await supabase.auth.getUser(authHeader.replace('Bearer ', ''));
+      if (user) {
+        projectSettings = await loadProjectSettings(supabase, projectId, user.id);
+        const { data: project } = await supabase
+          .from('projects')
+          .select('name')
+          .eq('id', projectId)
+          .eq('created_by', user.id)
+          .maybeSingle();
+        if (project) {
+          projectName = project.name || projectName;
+          snapshots = parseSnapshots(await loadSnapshots(supabase, projectId));
+        }
+      }
+    }
+
+    // Without an explicit choice the target follows the project's automation settings
+    const target = findTarget(requestedTarget) ?? detectTarget(projectSettings?.settings.automation);
+
+    // Steps act on real locators when the case or project has page snapshots attached
+    const automationSteps = (tc: AutomationTestCase) =>
+      resolveLocators(normalizeTestSteps(tc.steps).map(classifyStep), elementsForCase(snapshots, tc.id));
+
+    const context = {
+      baseUrl: extractBaseUrl(projectSettings),
+      settingsContext: buildSettingsContext(projectSettings, 'automation'),
+      settingsVersion: projectSettings?.version ?? null,
+    };
+
+    if (testCases?.length) {
+      console.log(`Scaffolding ${target.id} automation project for ${testCases.length} test cases`);
+
+      const cases = testCases.map(tc => ({ testCase: tc, steps: automationSteps(tc) }));
+      const model = buildPageModel(cases);
+      const files = target.scaffold(model, {
+        ...context,
+        projectName,
+        browser: extractSetting(projectSettings, /browser\s*:\s*([a-z]+)/i)?.toLowerCase() ?? DEFAULT_BROWSER,
+        javaPackage: extractSetting(projectSettings, /package\s*:\s*([a-z_][\w.]*)/i) ?? DEFAULT_JAVA_PACKAGE,
+      });
 
-    const seleniumCode = generateSeleniumJavaCode(testCase);
+      return new Response(
+        JSON.stringify({
+          success: true,
+          files,
+          zipName: `${projectName.toLowerCase().replace(/[^a-z0-9]+/g, '-').replace(/^-|-$/g, '') || 'test'}-${target.id}.zip`,
+          target: target.id,
+          targetLabel: target.label,
+          settingsVersion: projectSettings?.version ?? null,
+          locatorReview: cases.flatMap(({ testCase: tc, steps }) => locatorReview(steps, tc.title))
+        }),
+        {
+          headers: { ...corsHeaders, 'Content-Type': 'application/json' },
+          status: 200,
+        }
+      );
+    }
+
+    if (!testCase) {
+      return new Response(
+        JSON.stringify({ success: false, error: 'No test cases provided' }),
+        {
+          headers: { ...corsHeaders, 'Content-Type': 'application/json' },
+          status: 400,
+        }
+      );
+    }
+
+    console.log(`Generating ${target.id} automation for test case:`, testCase.title);
+
+    const steps = automationSteps(testCase);
+    const code = target.generate(testCase, steps, context);
 
     return new Response(
-      JSON.stringify({ 
-        success: true, 
-        seleniumCode,
-        className: sanitizeClassName(testCase.title)
+      JSON.stringify({
+        success: true,
+        code,
+        fileName: target.fileName(testCase),
+        target: target.id,
+        targetLabel: target.label,
+        settingsVersion: projectSettings?.version ?? null,
+        locatorReview: locatorReview(steps, testCase.title)
       }),
       {
         headers: { ...corsHeaders, 'Content-Type': 'application/json' },
@@ -39,11 +140,11 @@ serve(async (req) => {
       }
     );
   } catch (error) {
-    console.error('Error generating Selenium automation:', error);
+    console.error('Error generating automation:', error);
     return new Response(
-      JSON.stringify({ 
-        success: false, 
-        error: error.message 
+      JSON.stringify({
+        success: false,
+        error: error.message
       }),
       {
         headers: { ...corsHeaders, 'Content-Type': 'application/json' },
@@ -53,100 +154,26 @@ serve(async (req) => {
   }
 });
 
-function sanitizeClassName(title: string): string {
-  return title
-    .replace(/[^a-zA-Z0-9]/g, '')
-    .replace(/^[0-9]/, 'Test$&') // Ensure class name doesn't start with number
-    + 'Test';
+// Picks up a "Base URL: https://..." line from the project's automation settings
+function extractBaseUrl(projectSettings: LoadedProjectSettings | null): string {
+  const match = projectSettings?.settings.automation.match(/base\s*url\s*:\s*(https?:\/\/[^\s)]+)/i);
+  return match ? match[1] : DEFAULT_BASE_URL;
 }
 
-function generateSeleniumJavaCode(testCase: TestCase): string {
-  const className = sanitizeClassName(testCase.title);
-  
-  let testSteps = '';
-  let stepCounter = 1;
-  
-  testCase.steps.forEach((step) => {
-    const stepComment = `        // Step ${stepCounter}: ${step.content}`;
-    const stepCode = generateStepCode(step, stepCounter);
-    testSteps += `${stepComment}\n${stepCode}\n\n`;
-    stepCounter++;
-  });
-
-  return `package com.testautomation.tests;
-
-import org.junit.jupiter.api.Test;
-import org.junit.jupiter.api.BeforeEach;
-import org.junit.jupiter.api.AfterEach;
-import org.openqa.selenium.WebDriver;
-import org.openqa.selenium.WebElement;
-import org.openqa.selenium.By;
-import org.openqa.selenium.chrome.ChromeDriver;
-import org.openqa.selenium.support.ui.WebDriverWait;
-import org.openqa.selenium.support.ui.ExpectedConditions;
-import java.time.Duration;
-import static org.junit.jupiter.api.Assertions.*;
-
-/**
- * Automated test for: ${testCase.title}
- * Description: ${testCase.description}
- * Priority: ${testCase.priority}
- */
-public class ${className} {
-    
-    private WebDriver driver;
-    private WebDriverWait wait;
-    
-    @BeforeEach
-    public void setUp() {
-        // Initialize ChromeDriver
-        driver = new ChromeDriver();
-        wait = new WebDriverWait(driver, Duration.ofSeconds(10));
-        driver.manage().window().maximize();
-    }
-    
-    @Test
-    public void test${className.replace('Test', '')}() {
-        try {
-${testSteps}
-            // Verify expected result: ${testCase.expectedResult}
-            // Add your verification logic here
-            assertTrue(true, "Test completed - verify: ${testCase.expectedResult}");
-            
-        } catch (Exception e) {
-            fail("Test failed with exception: " + e.getMessage());
-        }
-    }
-    
-    @AfterEach
-    public void tearDown() {
-        if (driver != null) {
-            driver.quit();
-        }
-    }
-}`;
+// Reads a "Browser: firefox" or "Package: com.acme.qa" style line from the project's automation settings
+function extractSetting(projectSettings: LoadedProjectSettings | null, pattern: RegExp): string | undefined {
+  return projectSettings?.settings.automation.match(pattern)?.[1];
 }
 
-function generateStepCode(step: { type: string; content: string }, stepNumber: number): string {
-  const content = step.content.toLowerCase();
-  
-  // Generate appropriate Selenium code based on step content
-  if (content.includes('navigate') || content.includes('open') || content.includes('go to')) {
-    return `        driver.get("https://your-application-url.com");`;
-  } else if (content.includes('click') || content.includes('press')) {
-    return `        WebElement element${stepNumber} = wait.until(ExpectedConditions.elementToBeClickable(By.xpath("//button[contains(text(),'button_text')]")));
-        element${stepNumber}.click();`;
-  } else if (content.includes('enter') || content.includes('type') || content.includes('input')) {
-    return `        WebElement inputField${stepNumber} = wait.until(ExpectedConditions.presenceOfElementLocated(By.id("input_id")));
-        inputField${stepNumber}.clear();
-        inputField${stepNumber}.sendKeys("test_data");`;
-  } else if (content.includes('verify') || content.includes('check') || content.includes('assert')) {
-    return `        WebElement verificationElement${stepNumber} = wait.until(ExpectedConditions.presenceOfElementLocated(By.xpath("//element_xpath")));
-        assertTrue(verificationElement${stepNumber}.isDisplayed(), "Element should be visible");`;
-  } else if (content.includes('wait') || content.includes('pause')) {
-    return `        Thread.sleep(2000); // Wait for 2 seconds`;
-  } else {
-    return `        // TODO: Implement step - ${step.content}
-        // Add appropriate Selenium WebDriver code here`;
-  }
-}
\ No newline at end of file
+// Steps whose snapshot locator is missing or low-confidence, listed for the reviewer
+function locatorReview(steps: AutomationStep[], testCase: string) {
+  return steps
+    .filter(step => step.locator === null || step.locator?.needsReview)
+    .map(step => ({
+      testCase,
+      step: step.number,
+      action: step.action,
+      element: step.locator?.element ?? null,
+      confidence: step.locator?.confidence ?? null,
+    }));
+}
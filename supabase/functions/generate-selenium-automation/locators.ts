@@ -0,0 +1,244 @@
+import type { AutomationStep } from './targets/common.ts'
+
+// An element found in an uploaded page snapshot, reduced to what locator resolution needs
+export interface SnapshotElement {
+  tag: string;
+  // Explicit role attribute or the implicit ARIA role of the tag, empty when it has none
+  role: string;
+  // Accessible name: aria-label, associated label, visible text, value or title
+  name: string;
+  text: string;
+  labelText: string;
+  // The label wraps the field instead of pointing at its id with for=
+  labelWraps: boolean;
+  testIdAttribute: string;
+  testId: string;
+  id: string;
+  nameAttribute: string;
+  placeholder: string;
+  ariaLabel: string;
+  type: string;
+  classes: string[];
+  // Name of the snapshot the element came from, and whether it was attached to the case itself
+  snapshot: string;
+  caseSpecific: boolean;
+}
+
+// In order of preference: test ids survive redesigns, roles and labels survive markup changes
+export type LocatorStrategy = 'testid' | 'role' | 'label' | 'css';
+
+export interface ResolvedLocator {
+  strategy: LocatorStrategy;
+  // data-testid value, accessible name or label text; a CSS selector for the css strategy
+  value: string;
+  role?: string;
+  tag: string;
+  labelWraps?: boolean;
+  // Stable attribute selector when the element has one; frameworks without role or label
+  // queries use it, and fall back to the text based XPath otherwise
+  css?: string;
+  xpath: string;
+  confidence: number;
+  needsReview: boolean;
+  // Short description of the matched element for comments, e.g. `<button> "Sign in" (Login page)`
+  element: string;
+}
+
+// Mappings below this confidence are flagged in the generated code for a human to confirm
+export const REVIEW_THRESHOLD = 0.7;
+
+const CLICKABLE_ROLES = new Set(['button', 'link', 'tab', 'menuitem', 'checkbox', 'radio', 'option', 'switch']);
+const FIELD_ROLES = new Set(['textbox', 'combobox', 'searchbox', 'spinbutton']);
+const NAMED_ROLES = new Set([...CLICKABLE_ROLES, ...FIELD_ROLES, 'heading', 'alert', 'status', 'dialog', 'img']);
+
+const STOP_WORDS = new Set([
+  'a', 'an', 'the', 'on', 'in', 'into', 'to', 'at', 'of', 'for', 'with', 'and', 'that', 'is', 'are', 'be', 'should',
+  'user', 'button', 'link', 'field', 'box', 'textbox', 'input', 'click', 'clicks', 'press', 'presses', 'tap',
+  'select', 'enter', 'enters', 'type', 'types', 'fill', 'verify', 'verifies', 'check', 'checks', 'assert',
+  'ensure', 'confirm', 'displayed', 'visible', 'shown', 'appears', 'page', 'screen', 'valid', 'invalid',
+]);
+
+// Ids generated by frameworks ("ember123", ":r5:", hashes) change between builds
+const GENERATED_ID = /\d{3,}|[a-f0-9]{8,}|^:|^(?:ember|react|mui|ng|radix)-?\d/i;
+// Utility classes describe looks, not purpose
+const UTILITY_CLASS = /^(?:flex|grid|block|inline|hidden|text-|bg-|border|rounded|shadow|w-|h-|p[xytblr]?-|m[xytblr]?-|col-|row|container|css-|sc-|jsx-)/;
+
+function tokens(text: string): string[] {
+  return text
+    .replace(/([a-z])([A-Z])/g, '$1 $2')
+    .toLowerCase()
+    .split(/[^a-z0-9]+/)
+    .filter(Boolean);
+}
+
+function normalize(text: string): string {
+  return text.replace(/\s+/g, ' ').trim().toLowerCase();
+}
+
+function isClickable(element: SnapshotElement): boolean {
+  return CLICKABLE_ROLES.has(element.role) || element.tag === 'button' || element.tag === 'a';
+}
+
+function isField(element: SnapshotElement): boolean {
+  return FIELD_ROLES.has(element.role)
+    || element.tag === 'textarea'
+    || element.tag === 'select'
+    || (element.tag === 'input' && !['button', 'submit', 'reset', 'checkbox', 'radio', 'hidden', 'image'].includes(element.type));
+}
+
+function compatible(step: AutomationStep, element: SnapshotElement): boolean {
+  switch (step.kind) {
+    case 'click': return isClickable(element);
+    case 'input': return isField(element);
+    case 'verify': return Boolean(element.text || element.name);
+    default: return false;
+  }
+}
+
+function xpathLiteral(text: string): string {
+  if (!text.includes("'")) return `'${text}'`;
+  if (!text.includes('"')) return `"${text}"`;
+  return `concat('${text.split("'").join(`', "'", '`)}')`;
+}
+
+function cssValue(text: string): string {
+  return text.replace(/\\/g, '\\\\').replace(/"/g, '\\"');
+}
+
+function stableCss(element: SnapshotElement): string | undefined {
+  if (element.testId) return `[${element.testIdAttribute}="${cssValue(element.testId)}"]`;
+  if (element.id && !GENERATED_ID.test(element.id) && /^[A-Za-z][\w-]*$/.test(element.id)) return `#${element.id}`;
+  if (element.nameAttribute) return `${element.tag}[name="${cssValue(element.nameAttribute)}"]`;
+  if (element.ariaLabel) return `${element.tag}[aria-label="${cssValue(element.ariaLabel)}"]`;
+  if (element.placeholder) return `${element.tag}[placeholder="${cssValue(element.placeholder)}"]`;
+  return undefined;
+}
+
+// Tags whose role is implicit; any other element with a role has it as an attribute
+const SEMANTIC_TAGS = new Set(['a', 'button', 'input', 'select', 'textarea', 'h1', 'h2', 'h3', 'h4', 'h5', 'h6']);
+
+function textXpath(element: SnapshotElement): string {
+  const tag = element.role && !SEMANTIC_TAGS.has(element.tag) ? `*[@role=${xpathLiteral(element.role)}]` : element.tag;
+  if (element.ariaLabel) return `//${tag}[@aria-label=${xpathLiteral(element.ariaLabel)}]`;
+  if (element.labelText) {
+    const label = xpathLiteral(element.labelText);
+    return element.labelWraps
+      ? `//label[normalize-space()=${label}]//${element.tag}`
+      : `//${element.tag}[@id=//label[normalize-space()=${label}]/@for]`;
+  }
+  if (element.placeholder) return `//${element.tag}[@placeholder=${xpathLiteral(element.placeholder)}]`;
+  if (element.text) return `//${tag}[normalize-space()=${xpathLiteral(element.text)}]`;
+  return `//${tag}`;
+}
+
+// Picks the most stable way to address an element; the returned factor lowers confidence
+// for locators that are likely to break
+function locatorFor(element: SnapshotElement): { strategy: LocatorStrategy; value: string; stability: number } {
+  if (element.testId) {
+    // Test id queries assume data-testid; other test attributes are addressed through CSS
+    return element.testIdAttribute === 'data-testid'
+      ? { strategy: 'testid', value: element.testId, stability: 1 }
+      : { strategy: 'css', value: stableCss(element)!, stability: 1 };
+  }
+  // Password fields have no textbox role, so they are addressed by their label instead
+  if (NAMED_ROLES.has(element.role) && element.name && element.type !== 'password') {
+    return { strategy: 'role', value: element.name, stability: 1 };
+  }
+  if (element.labelText || element.ariaLabel) {
+    return { strategy: 'label', value: element.labelText || element.ariaLabel, stability: 1 };
+  }
+  const css = stableCss(element);
+  if (css) {
+    return { strategy: 'css', value: css, stability: 0.95 };
+  }
+  const classes = element.classes.filter(name => !UTILITY_CLASS.test(name)).slice(0, 2);
+  return {
+    strategy: 'css',
+    value: `${element.tag}${classes.map(name => `.${name}`).join('')}`,
+    stability: classes.length > 0 ? 0.75 : 0.5,
+  };
+}
+
+// Text an element can be recognised by, from most to least specific
+function candidateTexts(element: SnapshotElement): string[] {
+  return [element.name, element.text, element.labelText, element.ariaLabel, element.placeholder].filter(Boolean);
+}
+
+function matchScore(step: AutomationStep, element: SnapshotElement): number {
+  const texts = candidateTexts(element).map(normalize);
+
+  if (step.label) {
+    const label = normalize(step.label);
+    if (texts.some(text => text === label)) return 1;
+    if (texts.some(text => text.includes(label))) return 0.85;
+    if (texts.some(text => text.length >= 3 && label.includes(text))) return 0.7;
+  }
+
+  // Without quoted text the step's own wording is matched against texts, attribute and class names
+  const wanted = (step.label ? tokens(step.label) : tokens(step.action).filter(word => !STOP_WORDS.has(word)));
+  if (wanted.length === 0) return 0;
+
+  const available = new Set([
+    ...texts.flatMap(tokens),
+    ...tokens(element.testId),
+    ...tokens(element.id),
+    ...tokens(element.nameAttribute),
+    ...element.classes.filter(name => !UTILITY_CLASS.test(name)).flatMap(tokens),
+  ]);
+  const matched = wanted.filter(word => available.has(word)).length;
+  return matched === 0 ? 0 : 0.3 + 0.6 * (matched / wanted.length);
+}
+
+function describe(element: SnapshotElement): string {
+  const text = element.name || element.text || element.testId || element.id;
+  return `<${element.tag}>${text ? ` "${text.length > 40 ? `${text.slice(0, 37)}...` : text}"` : ''} (${element.snapshot})`;
+}
+
+/**
+ * Maps a step to the most likely element of the page snapshots. Returns undefined for steps
+ * that do not act on an element, and null when nothing in the snapshots matches the step.
+ */
+export function resolveLocator(step: AutomationStep, elements: SnapshotElement[]): ResolvedLocator | null | undefined {
+  if (!['click', 'input', 'verify'].includes(step.kind)) return undefined;
+
+  const ranked = elements
+    .filter(element => compatible(step, element))
+    .map(element => ({ element, score: matchScore(step, element) }))
+    .filter(candidate => candidate.score > 0)
+    // Snapshots attached to the case win ties against project-wide pages
+    .map(({ element, score }) => ({ element, score: Math.min(1, score + (element.caseSpecific ? 0.05 : 0)) }))
+    .sort((a, b) => b.score - a.score);
+
+  if (ranked.length === 0) return null;
+
+  const [best, runnerUp] = ranked;
+  const locator = locatorFor(best.element);
+
+  let confidence = best.score * locator.stability;
+  // A near tie means the step does not say clearly enough which element it means
+  if (runnerUp && runnerUp.score >= best.score - 0.05) {
+    confidence *= 0.8;
+  }
+  confidence = Math.round(confidence * 100) / 100;
+
+  return {
+    strategy: locator.strategy,
+    value: locator.value,
+    role: locator.strategy === 'role' ? best.element.role : undefined,
+    tag: best.element.tag,
+    labelWraps: locator.strategy === 'label' ? best.element.labelWraps : undefined,
+    css: locator.strategy === 'css' ? locator.value : stableCss(best.element),
+    xpath: textXpath(best.element),
+    confidence,
+    needsReview: confidence < REVIEW_THRESHOLD,
+    element: describe(best.element),
+  };
+}
+
+export function resolveLocators(steps: AutomationStep[], elements: SnapshotElement[]): AutomationStep[] {
+  if (elements.length === 0) return steps;
+  return steps.map(step => {
+    const locator = resolveLocator(step, elements);
+    return locator === undefined ? step : { ...step, locator };
+  });
+}
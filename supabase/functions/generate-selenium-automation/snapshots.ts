@@ -0,0 +1,147 @@
+import { DOMParser, Element } from 'https://deno.land/x/deno_dom@v0.1.45/deno-dom-wasm.ts'
+import { SupabaseClient } from 'https://esm.sh/@supabase/supabase-js@2'
+import { SnapshotElement } from './locators.ts'
+
+export interface PageSnapshot {
+  name: string;
+  html: string;
+  testCaseId: string | null;
+}
+
+const TEST_ID_ATTRIBUTES = ['data-testid', 'data-test-id', 'data-test', 'data-cy', 'data-qa'];
+
+const CANDIDATE_SELECTOR = [
+  'a', 'button', 'input', 'select', 'textarea', 'label', '[role]', '[contenteditable]', '[aria-label]',
+  ...TEST_ID_ATTRIBUTES.map(attribute => `[${attribute}]`),
+  'h1', 'h2', 'h3', 'h4', 'h5', 'h6', 'p', 'span', 'div', 'li', 'td', 'th', 'strong', 'small', 'legend',
+].join(', ');
+
+// Large DOM dumps are capped so one snapshot cannot stall the function
+const MAX_ELEMENTS = 3000;
+
+function implicitRole(element: Element): string {
+  const tag = element.tagName.toLowerCase();
+  const type = (element.getAttribute('type') || 'text').toLowerCase();
+  switch (tag) {
+    case 'button': return 'button';
+    case 'a': return element.hasAttribute('href') ? 'link' : '';
+    case 'select': return 'combobox';
+    case 'textarea': return 'textbox';
+    case 'h1': case 'h2': case 'h3': case 'h4': case 'h5': case 'h6': return 'heading';
+    case 'input':
+      if (['button', 'submit', 'reset', 'image'].includes(type)) return 'button';
+      if (type === 'checkbox' || type === 'radio') return type;
+      if (type === 'search') return 'searchbox';
+      if (type === 'number') return 'spinbutton';
+      return ['text', 'email', 'tel', 'url'].includes(type) ? 'textbox' : '';
+    default: return '';
+  }
+}
+
+// Text directly inside the element, so a wrapping <div> is not mistaken for the message it contains
+function ownText(element: Element): string {
+  const tag = element.tagName.toLowerCase();
+  if (['a', 'button', 'label', 'h1', 'h2', 'h3', 'h4', 'h5', 'h6'].includes(tag) || element.hasAttribute('role')) {
+    return (element.textContent || '').replace(/\s+/g, ' ').trim();
+  }
+  return Array.from(element.childNodes)
+    .filter(node => node.nodeType === 3)
+    .map(node => node.textContent || '')
+    .join(' ')
+    .replace(/\s+/g, ' ')
+    .trim();
+}
+
+function labelFor(element: Element, labels: Map<string, string>): { text: string; wraps: boolean } {
+  const id = element.getAttribute('id');
+  if (id && labels.has(id)) return { text: labels.get(id)!, wraps: false };
+  const wrapping = element.closest('label');
+  return { text: wrapping ? (wrapping.textContent || '').replace(/\s+/g, ' ').trim() : '', wraps: Boolean(wrapping) };
+}
+
+/**
+ * Extracts the elements a test step could act on or verify from an HTML snapshot or DOM dump.
+ */
+export function extractElements(snapshot: PageSnapshot): SnapshotElement[] {
+  const document = new DOMParser().parseFromString(snapshot.html, 'text/html');
+  if (!document) return [];
+
+  const labels = new Map<string, string>();
+  document.querySelectorAll('label[for]').forEach(node => {
+    const label = node as Element;
+    labels.set(label.getAttribute('for')!, (label.textContent || '').replace(/\s+/g, ' ').trim());
+  });
+
+  const elements: SnapshotElement[] = [];
+  for (const node of Array.from(document.querySelectorAll(CANDIDATE_SELECTOR))) {
+    if (elements.length >= MAX_ELEMENTS) break;
+    const element = node as Element;
+    const tag = element.tagName.toLowerCase();
+    const type = (element.getAttribute('type') || '').toLowerCase();
+    if (type === 'hidden' || tag === 'label') continue;
+
+    const text = ownText(element).slice(0, 200);
+    const testIdAttribute = TEST_ID_ATTRIBUTES.find(attribute => element.hasAttribute(attribute)) ?? '';
+    const ariaLabel = element.getAttribute('aria-label') || '';
+    const label = ['input', 'select', 'textarea'].includes(tag) ? labelFor(element, labels) : { text: '', wraps: false };
+    const labelText = label.text;
+    const role = element.getAttribute('role') || implicitRole(element);
+
+    // Layout containers without text or identifying attributes cannot be told apart
+    if (!text && !testIdAttribute && !ariaLabel && !labelText && !role && !element.getAttribute('placeholder')) continue;
+
+    elements.push({
+      tag,
+      role,
+      name: ariaLabel || labelText || text || element.getAttribute('value') || element.getAttribute('title') || '',
+      text,
+      labelText,
+      labelWraps: label.wraps,
+      testIdAttribute,
+      testId: testIdAttribute ? element.getAttribute(testIdAttribute) || '' : '',
+      id: element.getAttribute('id') || '',
+      nameAttribute: element.getAttribute('name') || '',
+      placeholder: element.getAttribute('placeholder') || '',
+      ariaLabel,
+      type,
+      classes: (element.getAttribute('class') || '').split(/\s+/).filter(Boolean),
+      snapshot: snapshot.name,
+      caseSpecific: false,
+    });
+  }
+  return elements;
+}
+
+export async function loadSnapshots(supabase: SupabaseClient, projectId: string): Promise<PageSnapshot[]> {
+  const { data, error } = await supabase
+    .from('page_snapshots')
+    .select('name, html, test_case_id')
+    .eq('project_id', projectId)
+    .order('created_at', { ascending: true });
+
+  if (error) {
+    console.error('Failed to load page snapshots:', error);
+    return [];
+  }
+
+  return (data || []).map(row => ({ name: row.name, html: row.html, testCaseId: row.test_case_id }));
+}
+
+export interface ParsedSnapshot {
+  testCaseId: string | null;
+  elements: SnapshotElement[];
+}
+
+// Each snapshot is parsed once, however many cases are generated from it
+export function parseSnapshots(snapshots: PageSnapshot[]): ParsedSnapshot[] {
+  return snapshots.map(snapshot => ({ testCaseId: snapshot.testCaseId, elements: extractElements(snapshot) }));
+}
+
+// Snapshots attached to the case itself plus the project-wide page snapshots, which apply to every case
+export function elementsForCase(parsed: ParsedSnapshot[], testCaseId: string | undefined): SnapshotElement[] {
+  return parsed
+    .filter(snapshot => !snapshot.testCaseId || snapshot.testCaseId === testCaseId)
+    .flatMap(snapshot => snapshot.testCaseId
+      ? snapshot.elements.map(element => ({ ...element, caseSpecific: true }))
+      : snapshot.elements);
+}
@@ -0,0 +1,136 @@
+import { TestStep } from '../../_shared/test-steps.ts'
+import type { PageModel, ProjectFile, ScaffoldContext } from './page-model.ts'
+import type { ResolvedLocator } from '../locators.ts'
+
+export interface AutomationTestCase {
+  id: string;
+  title: string;
+  description: string;
+  steps: TestStep[];
+  expectedResult: string;
+  priority: string;
+}
+
+export type StepKind = 'navigate' | 'click' | 'input' | 'verify' | 'wait' | 'manual';
+
+export interface AutomationStep extends TestStep {
+  number: number;
+  kind: StepKind;
+  // Quoted text from the action ('Click "Sign in"'), used to target elements by their visible text
+  label: string;
+  // Element resolved from the page snapshots; null when snapshots exist but nothing matched,
+  // absent when the project has no snapshots or the step does not act on an element
+  locator?: ResolvedLocator | null;
+}
+
+export interface GenerationContext {
+  baseUrl: string;
+  // Project context and automation guidelines, empty when the project has no settings
+  settingsContext: string;
+  settingsVersion: number | null;
+}
+
+export interface AutomationTarget {
+  id: string;
+  label: string;
+  fileName: (testCase: AutomationTestCase) => string;
+  generate: (testCase: AutomationTestCase, steps: AutomationStep[], context: GenerationContext) => string;
+  // Builds a runnable project with page objects, shared setup, config and one test per case
+  scaffold: (model: PageModel, context: ScaffoldContext) => ProjectFile[];
+}
+
+// Placeholder locators the generated code falls back to when a step names no element
+export const PLACEHOLDERS = {
+  buttonText: 'button_text',
+  inputId: 'input_id',
+  elementXpath: '//element_xpath',
+  // Cypress has no XPath support without a plugin
+  elementSelector: "[data-testid='element']",
+  loadingSelector: "[data-testid='loading']",
+  testData: 'test_data',
+};
+
+export function classifyStep(step: TestStep, index: number): AutomationStep {
+  const content = step.action.toLowerCase();
+  const label = step.action.match(/["“]([^"”']+)["”]/)?.[1] ?? '';
+
+  let kind: StepKind = 'manual';
+  if (content.includes('navigate') || content.includes('open') || content.includes('go to')) {
+    kind = 'navigate';
+  } else if (content.includes('click') || content.includes('press')) {
+    kind = 'click';
+  } else if (content.includes('enter') || content.includes('type') || content.includes('input')) {
+    kind = 'input';
+  } else if (content.includes('verify') || content.includes('check') || content.includes('assert')) {
+    kind = 'verify';
+  } else if (content.includes('wait') || content.includes('pause')) {
+    kind = 'wait';
+  }
+
+  return { ...step, number: index + 1, kind, label: kind === 'input' ? '' : label };
+}
+
+// Keeps multi-line step text inside a single line comment
+export function singleLine(text: string): string {
+  return text.replace(/\s*\n\s*/g, ' ');
+}
+
+// Escapes text for a string literal delimited by the given quote; valid in Java, TypeScript and Python
+export function stringLiteral(text: string, quote: '"' | "'" = '"'): string {
+  const escaped = text
+    .replace(/\\/g, '\\\\')
+    .replace(quote === '"' ? /"/g : /'/g, `\\${quote}`)
+    .replace(/\r?\n/g, '\\n');
+  return `${quote}${escaped}${quote}`;
+}
+
+export function pascalCase(title: string): string {
+  return title
+    .replace(/[^a-zA-Z0-9]/g, '')
+    .replace(/^[0-9]/, 'Test$&'); // Ensure class name doesn't start with number
+}
+
+export function kebabCase(title: string): string {
+  return title.toLowerCase().replace(/[^a-z0-9]+/g, '-').replace(/^-+|-+$/g, '') || 'test';
+}
+
+export function snakeCase(title: string): string {
+  return title.toLowerCase().replace(/[^a-z0-9]+/g, '_').replace(/^_+|_+$/g, '') || 'test';
+}
+
+// Renders the settings context as a comment block ahead of the generated code
+export function settingsHeader(context: GenerationContext, style: 'block' | 'hash'): string {
+  if (!context.settingsContext) return '';
+
+  const lines = [`Generated using project automation settings v${context.settingsVersion}`, '', ...context.settingsContext.split('\n')];
+  if (style === 'hash') {
+    return `${lines.map(line => `# ${line}`.trimEnd()).join('\n')}\n\n`;
+  }
+  return `/*\n${lines.map(line => ` * ${line.replace(/\*\//g, '* /')}`.trimEnd()).join('\n')}\n */\n\n`;
+}
+
+// Step and expected-result comments shared by every target
+export function stepComments(step: AutomationStep, indent: string, prefix: '//' | '#'): string {
+  const lines = [`${prefix} Step ${step.number}: ${singleLine(step.action)}`];
+  if (step.testData) {
+    lines.push(`${prefix} Test data: ${singleLine(step.testData)}`);
+  }
+  lines.push(...locatorComments(step.locator, prefix));
+  return lines.map(line => `${indent}${line}`).join('\n');
+}
+
+export function expectedComment(text: string, indent: string, prefix: '//' | '#'): string {
+  return text ? `\n${indent}${prefix} Expected: ${singleLine(text)}` : '';
+}
+
+// Notes which snapshot element a locator came from, flagging matches a person should confirm
+export function locatorComments(locator: ResolvedLocator | null | undefined, prefix: '//' | '#'): string[] {
+  if (locator === undefined) return [];
+  if (locator === null) {
+    return [`${prefix} REVIEW: no element in the page snapshots matched this step; placeholder locator used`];
+  }
+  const match = `${locator.element}, ${Math.round(locator.confidence * 100)}% confidence`;
+  return locator.needsReview
+    ? [`${prefix} REVIEW: low-confidence locator match - ${match}`]
+    : [`${prefix} Locator: ${match}`];
+}
@@ -0,0 +1,248 @@
+import {
+  AutomationStep,
+  AutomationTarget,
+  PLACEHOLDERS,
+  expectedComment,
+  kebabCase,
+  settingsHeader,
+  singleLine,
+  stepComments,
+  stringLiteral,
+} from './common.ts'
+import {
+  PageElement,
+  PageModel,
+  PageObject,
+  ProjectFile,
+  ScaffoldContext,
+  ScaffoldTestCase,
+  elementField,
+  elementId,
+  locatorsNote,
+  lowerFirst,
+  methodName,
+  pageCalls,
+  reviewComment,
+  scaffoldReadme,
+} from './page-model.ts'
+import type { ResolvedLocator } from '../locators.ts'
+
+const INDENT = '    ';
+
+// cy.type() treats "{" as the start of a special key sequence
+function typedText(text: string): string {
+  return text.replace(/\{/g, '{{}');
+}
+
+// Without a stable CSS selector, elements are found by their visible text or label
+function snapshotLocator(locator: ResolvedLocator): string {
+  if (locator.css) return `cy.get(${stringLiteral(locator.css, "'")})`;
+  if (locator.strategy === 'label') {
+    const label = `cy.contains('label', ${stringLiteral(locator.value, "'")})`;
+    return locator.labelWraps
+      ? `${label}.find(${stringLiteral(locator.tag, "'")})`
+      : `${label}.invoke('attr', 'for').then(id => cy.get(\`[id="\${id}"]\`))`;
+  }
+  return `cy.contains(${stringLiteral(locator.tag, "'")}, ${stringLiteral(locator.value, "'")})`;
+}
+
+// Cypress commands retry until their assertions pass, so no explicit waits or sleeps are generated
+function stepCode(step: AutomationStep): string {
+  if (step.locator) {
+    const locator = snapshotLocator(step.locator);
+    if (step.kind === 'click') return `${INDENT}${locator}.should('be.enabled').click();`;
+    if (step.kind === 'input') return `${INDENT}${locator}.clear().type(${stringLiteral(typedText(step.testData || PLACEHOLDERS.testData), "'")});`;
+    return `${INDENT}${locator}.should('be.visible');`;
+  }
+  switch (step.kind) {
+    case 'navigate':
+      return `${INDENT}cy.visit(BASE_URL);`;
+    case 'click':
+      return `${INDENT}cy.contains('button', ${stringLiteral(step.label || PLACEHOLDERS.buttonText, "'")}).should('be.enabled').click();`;
+    case 'input':
+      return `${INDENT}cy.get(${stringLiteral(`#${PLACEHOLDERS.inputId}`, "'")}).clear().type(${stringLiteral(typedText(step.testData || PLACEHOLDERS.testData), "'")});`;
+    case 'verify':
+      return step.label
+        ? `${INDENT}cy.contains(${stringLiteral(step.label, "'")}).should('be.visible');`
+        : `${INDENT}cy.get(${stringLiteral(PLACEHOLDERS.elementSelector, '"')}).should('be.visible');`;
+    case 'wait':
+      return `${INDENT}cy.get(${stringLiteral(PLACEHOLDERS.loadingSelector, '"')}).should('not.exist');`;
+    default:
+      return `${INDENT}// TODO: Implement step - ${singleLine(step.action)}`;
+  }
+}
+
+function cypressLocator(element: PageElement): string {
+  if (element.locator) return snapshotLocator(element.locator);
+  if (element.kind === 'button') {
+    return element.label
+      ? `cy.contains('button', ${stringLiteral(element.label, "'")})`
+      : `cy.get(${stringLiteral(`#${elementId(element)}`, "'")})`;
+  }
+  if (element.kind === 'input') {
+    return `cy.get(${stringLiteral(`#${elementId(element)}`, "'")})`;
+  }
+  return element.label
+    ? `cy.contains(${stringLiteral(element.label, "'")})`
+    : `cy.get(${stringLiteral(`[data-testid='${elementId(element)}']`, '"')})`;
+}
+
+// Browsers the Cypress CLI accepts for --browser
+const CYPRESS_BROWSERS = ['chrome', 'firefox', 'edge', 'electron'];
+
+function basePageCy(): string {
+  return `export abstract class BasePage {
+  protected abstract readonly path: string;
+
+  open() {
+    cy.visit(this.path);
+  }
+
+  waitForPageLoad() {
+    cy.get(${stringLiteral(PLACEHOLDERS.loadingSelector, '"')}).should('not.exist');
+  }
+}
+`;
+}
+
+function pageObjectCy(page: PageObject, model: PageModel): string {
+  const getters = page.elements
+    .map(element => `${reviewComment(element, '  ', '//')}  ${elementField(element)}() {\n    return ${cypressLocator(element)};\n  }`)
+    .join('\n\n');
+
+  const methods = pageCalls(model, page.name)
+    .filter(call => call.kind !== 'verify')
+    .map(call => call.kind === 'click'
+      ? `  ${methodName(call)}() {\n    this.${elementField(call.element!)}().should('be.enabled').click();\n  }`
+      : `  ${methodName(call)}(value: string) {\n    this.${elementField(call.element!)}().clear().type(value);\n  }`);
+
+  return `import { BasePage } from './BasePage';
+
+export class ${page.name} extends BasePage {
+  protected readonly path = ${stringLiteral(page.path, "'")};
+${getters ? `\n  // ${locatorsNote(page)}\n${getters}\n` : ''}${methods.map(method => `\n${method}\n`).join('')}}
+`;
+}
+
+function specCy(test: ScaffoldTestCase): string {
+  const body = test.calls.map(call => {
+    const target = `${lowerFirst(call.page)}.${methodName(call)}`;
+    let code: string;
+    switch (call.kind) {
+      case 'open':
+      case 'click':
+      case 'wait':
+        code = `${INDENT}${target}();`;
+        break;
+      case 'enter':
+        code = `${INDENT}${target}(${stringLiteral(typedText(call.step.testData || PLACEHOLDERS.testData), "'")});`;
+        break;
+      case 'verify':
+        code = `${INDENT}${lowerFirst(call.page)}.${elementField(call.element!)}().should('be.visible');`;
+        break;
+      default:
+        code = `${INDENT}// TODO: Implement step - ${singleLine(call.step.action)}`;
+    }
+    return `${stepComments(call.step, INDENT, '//')}\n${code}${expectedComment(call.step.expectedResult, INDENT, '//')}`;
+  });
+
+  const imports = test.pages.map(page => `import { ${page} } from '../pages/${page}';`).join('\n');
+  const setup = test.pages.map(page => `${INDENT}const ${lowerFirst(page)} = new ${page}();`).join('\n');
+
+  return `${imports ? `${imports}\n\n` : ''}/**
+ * Automated test for: ${singleLine(test.testCase.title)}
+ * Description: ${singleLine(test.testCase.description)}
+ * Priority: ${test.testCase.priority}
+ */
+describe(${stringLiteral(singleLine(test.testCase.title), "'")}, () => {
+  it(${stringLiteral(singleLine(test.testCase.title), "'")}, () => {
+${setup ? `${setup}\n\n` : ''}${body.join('\n\n')}
+
+    // TODO: Verify expected result - ${singleLine(test.testCase.expectedResult)}
+  });
+});
+`;
+}
+
+function cypressScaffold(model: PageModel, context: ScaffoldContext): ProjectFile[] {
+  const browser = CYPRESS_BROWSERS.includes(context.browser) ? context.browser : 'chrome';
+  const packageJson = {
+    name: `${kebabCase(context.projectName)}-automation`,
+    private: true,
+    scripts: { test: `cypress run --browser ${browser}`, open: 'cypress open' },
+    devDependencies: { cypress: '^13.13.0', typescript: '^5.5.0' },
+  };
+  const tsconfig = {
+    compilerOptions: { target: 'es2020', lib: ['es2020', 'dom'], types: ['cypress', 'node'], strict: true },
+    include: ['**/*.ts'],
+  };
+
+  return [
+    { path: 'package.json', content: `${JSON.stringify(packageJson, null, 2)}\n` },
+    { path: 'tsconfig.json', content: `${JSON.stringify(tsconfig, null, 2)}\n` },
+    {
+      path: 'cypress.config.ts',
+      content: `import { defineConfig } from 'cypress';
+
+export default defineConfig({
+  defaultCommandTimeout: 10000,
+  e2e: {
+    // CYPRESS_BASE_URL overrides this; the browser is chosen in the "test" script of package.json
+    baseUrl: ${stringLiteral(context.baseUrl, "'")},
+    specPattern: 'cypress/e2e/**/*.cy.ts',
+    supportFile: 'cypress/support/e2e.ts',
+  },
+});
+`,
+    },
+    {
+      path: 'cypress/support/e2e.ts',
+      content: `// Runs before every spec file
+beforeEach(() => {
+  cy.clearCookies();
+  cy.clearLocalStorage();
+});
+`,
+    },
+    { path: 'cypress/pages/BasePage.ts', content: basePageCy() },
+    ...model.pages.map(page => ({ path: `cypress/pages/${page.name}.ts`, content: pageObjectCy(page, model) })),
+    ...model.tests.map(test => ({ path: `cypress/e2e/${kebabCase(test.name.replace(/([a-z0-9])([A-Z])/g, '$1-$2'))}.cy.ts`, content: specCy(test) })),
+    {
+      path: 'README.md',
+      content: scaffoldReadme(
+        context,
+        'npm install\nnpm test',
+        'The base URL is set in `cypress.config.ts` and the browser in the `test` script of `package.json`.'
+      ),
+    },
+  ];
+}
+
+export const cypress: AutomationTarget = {
+  id: 'cypress',
+  label: 'Cypress',
+  fileName: testCase => `${kebabCase(testCase.title)}.cy.ts`,
+  scaffold: cypressScaffold,
+  generate: (testCase, steps, context) => {
+    const body = steps
+      .map(step => `${stepComments(step, INDENT, '//')}\n${stepCode(step)}${expectedComment(step.expectedResult, INDENT, '//')}`)
+      .join('\n\n');
+
+    return `${settingsHeader(context, 'block')}const BASE_URL = Cypress.env('BASE_URL') ?? ${stringLiteral(context.baseUrl, "'")};
+
+/**
+ * Automated test for: ${singleLine(testCase.title)}
+ * Description: ${singleLine(testCase.description)}
+ * Priority: ${testCase.priority}
+ */
+describe(${stringLiteral(singleLine(testCase.title), "'")}, () => {
+  it(${stringLiteral(singleLine(testCase.title), "'")}, () => {
+${body}
+
+    // Verify expected result: ${singleLine(testCase.expectedResult)}
+    cy.get(${stringLiteral(PLACEHOLDERS.elementSelector, '"')}).should('be.visible');
+  });
+});
+`;
+  },
+};
@@ -0,0 +1,43 @@
+import { AutomationTarget } from './common.ts'
+import { seleniumJavaJUnit, seleniumJavaTestNG } from './selenium-java.ts'
+import { seleniumPython } from './selenium-python.ts'
+import { playwrightTs } from './playwright.ts'
+import { cypress } from './cypress.ts'
+import { webdriverio } from './webdriverio.ts'
+
+export type { AutomationStep, AutomationTarget, AutomationTestCase, GenerationContext } from './common.ts'
+export { classifyStep } from './common.ts'
+export type { PageModel, ProjectFile, ScaffoldContext } from './page-model.ts'
+export { buildPageModel } from './page-model.ts'
+
+// Ids are shared with src/lib/automationTargets.ts, which lists them in the Test Cases view
+export const AUTOMATION_TARGETS: AutomationTarget[] = [
+  playwrightTs,
+  cypress,
+  seleniumPython,
+  seleniumJavaJUnit,
+  seleniumJavaTestNG,
+  webdriverio,
+];
+
+export const DEFAULT_TARGET = seleniumJavaJUnit;
+
+export function findTarget(id: string | undefined): AutomationTarget | undefined {
+  return AUTOMATION_TARGETS.find(target => target.id === id);
+}
+
+// Picks the target from the project's automation settings: an explicit "Automation target: <id>"
+// line wins, otherwise the framework named in the settings decides
+export function detectTarget(automationSettings: string | undefined): AutomationTarget {
+  const text = (automationSettings || '').toLowerCase();
+
+  const explicit = findTarget(text.match(/automation\s*target\s*:\s*([a-z0-9-]+)/)?.[1]);
+  if (explicit) return explicit;
+
+  if (text.includes('playwright')) return playwrightTs;
+  if (text.includes('cypress')) return cypress;
+  if (text.includes('webdriverio') || text.includes('wdio')) return webdriverio;
+  if (text.includes('selenium') && (text.includes('python') || text.includes('pytest'))) return seleniumPython;
+  if (text.includes('testng')) return seleniumJavaTestNG;
+  return DEFAULT_TARGET;
+}
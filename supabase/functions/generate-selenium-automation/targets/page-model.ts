@@ -0,0 +1,253 @@
+import { AutomationStep, AutomationTestCase, GenerationContext, locatorComments, pascalCase, singleLine } from './common.ts'
+import type { ResolvedLocator } from '../locators.ts'
+
+export interface ScaffoldContext extends GenerationContext {
+  projectName: string;
+  browser: string;
+  // Java package for the generated sources, from a "Package: com.acme.qa" settings line
+  javaPackage: string;
+}
+
+export interface ProjectFile {
+  path: string;
+  content: string;
+}
+
+export type ElementKind = 'button' | 'input' | 'text';
+
+export interface PageElement {
+  // camelCase name, e.g. "username" or "signIn"
+  name: string;
+  kind: ElementKind;
+  // Visible text quoted in the step, preferred over an id based placeholder locator
+  label: string;
+  // Locator resolved from a page snapshot, preferred over both
+  locator?: ResolvedLocator;
+}
+
+export interface PageObject {
+  // PascalCase class name ending in "Page", e.g. "LoginPage"
+  name: string;
+  // Path below the base URL that open() navigates to
+  path: string;
+  elements: PageElement[];
+}
+
+export type PageCallKind = 'open' | 'click' | 'enter' | 'verify' | 'wait' | 'manual';
+
+export interface PageCall {
+  page: string;
+  kind: PageCallKind;
+  element?: PageElement;
+  step: AutomationStep;
+}
+
+export interface ScaffoldTestCase {
+  testCase: AutomationTestCase;
+  // Unique PascalCase name across the scaffold, e.g. "LoginWithValidCredentials"
+  name: string;
+  pages: string[];
+  calls: PageCall[];
+}
+
+export interface PageModel {
+  pages: PageObject[];
+  tests: ScaffoldTestCase[];
+}
+
+const FILLER_WORDS = new Set([
+  'a', 'an', 'the', 'on', 'in', 'into', 'to', 'at', 'of', 'for', 'with', 'and', 'that', 'is', 'are', 'be',
+  'user', 'button', 'link', 'field', 'box', 'textbox', 'input', 'valid', 'invalid', 'correct', 'incorrect',
+  'click', 'clicks', 'press', 'presses', 'tap', 'select', 'enter', 'enters', 'type', 'types', 'fill',
+  'verify', 'verifies', 'check', 'checks', 'assert', 'ensure', 'confirm', 'displayed', 'visible', 'shown',
+  'appears', 'page', 'screen',
+]);
+
+const PAGE_MENTION = /\b(?:on|to|at|open|opens|visit|visits)\s+(?:the\s+)?([a-z0-9][a-z0-9 ]{0,30}?)\s+(?:page|screen)\b/i;
+const DEFAULT_PAGE = 'HomePage';
+
+export function words(text: string): string[] {
+  return text
+    .replace(/https?:\/\/\S+/g, ' ')
+    .replace(/([a-z])([A-Z])/g, '$1 $2')
+    .toLowerCase()
+    .split(/[^a-z0-9]+/)
+    .filter(Boolean);
+}
+
+export function camelCase(parts: string[]): string {
+  const name = parts.map((part, index) => (index === 0 ? part : part.charAt(0).toUpperCase() + part.slice(1))).join('');
+  return /^[0-9]/.test(name) ? `element${name}` : name;
+}
+
+export function upperFirst(text: string): string {
+  return text.charAt(0).toUpperCase() + text.slice(1);
+}
+
+function pageName(text: string): string {
+  const nameWords = words(text).filter(word => !FILLER_WORDS.has(word) && !['navigate', 'go', 'open', 'visit', 'browser', 'application', 'app', 'website', 'site', 'url'].includes(word));
+  return nameWords.length > 0 ? `${pascalCase(upperFirst(camelCase(nameWords.slice(0, 3))))}Page` : DEFAULT_PAGE;
+}
+
+function elementName(step: AutomationStep, fallback: string): string {
+  // A quoted label is the element's own text, so only the action wording is filtered
+  const nameWords = (step.label ? words(step.label) : words(step.action).filter(word => !FILLER_WORDS.has(word))).slice(0, 4);
+  return nameWords.length > 0 ? camelCase(nameWords) : fallback;
+}
+
+function addElement(page: PageObject, element: PageElement): PageElement {
+  // Pages are shared by every case, so an element keeps the first label it was seen with
+  const existing = page.elements.find(candidate => candidate.name === element.name);
+  if (existing) {
+    // ...but takes the first confident snapshot locator any case resolves for it
+    if (element.locator && (!existing.locator || (existing.locator.needsReview && !element.locator.needsReview))) {
+      existing.locator = element.locator;
+    }
+    return existing;
+  }
+  page.elements.push(element);
+  return element;
+}
+
+const KIND_SUFFIX: Record<ElementKind, string> = { button: 'Button', input: 'Input', text: 'Text' };
+
+// Field or getter name for an element; the kind suffix also keeps names clear of reserved words
+export function elementField(element: PageElement): string {
+  const suffix = KIND_SUFFIX[element.kind];
+  return element.name.endsWith(suffix) ? element.name : `${element.name}${suffix}`;
+}
+
+// Placeholder id / data-testid for elements without visible text to match on
+export function elementId(element: PageElement): string {
+  return words(element.name).join('-');
+}
+
+// Page object method a call maps to; open and wait are provided by the base page
+export function methodName(call: PageCall): string {
+  const element = upperFirst(call.element?.name || '');
+  switch (call.kind) {
+    case 'click': return `click${element}`;
+    case 'enter': return `enter${element}`;
+    case 'verify': return `is${element}Displayed`;
+    case 'wait': return 'waitForPageLoad';
+    default: return 'open';
+  }
+}
+
+// Heading for the locator block of a page object
+export function locatorsNote(page: PageObject): string {
+  if (page.elements.every(element => element.locator && !element.locator.needsReview)) {
+    return 'Locators resolved from the page snapshots';
+  }
+  return page.elements.some(element => element.locator)
+    ? 'TODO: confirm placeholder and REVIEW locators against the application'
+    : 'TODO: confirm these locators against the application';
+}
+
+// Comment line flagging a low-confidence snapshot locator, empty otherwise
+export function reviewComment(element: PageElement, indent: string, prefix: '//' | '#'): string {
+  return element.locator?.needsReview ? `${indent}${locatorComments(element.locator, prefix)[0]}\n` : '';
+}
+
+export function lowerFirst(text: string): string {
+  return text.charAt(0).toLowerCase() + text.slice(1);
+}
+
+export function snakeIdentifier(name: string): string {
+  return words(name).join('_');
+}
+
+export function scaffoldReadme(context: ScaffoldContext, runCommand: string, configNote: string): string {
+  return `# ${context.projectName} automation
+
+Generated page object project. Locators in the page objects are placeholders
+named after the test steps; confirm them against the application before running.
+
+## Configuration
+
+${configNote}
+
+## Running
+
+\`\`\`
+${runCommand}
+\`\`\`
+`;
+}
+
+// Each page method is generated once per page, however many cases call it
+export function pageCalls(model: PageModel, page: string): PageCall[] {
+  const seen = new Set<string>();
+  return model.tests
+    .flatMap(test => test.calls)
+    .filter(call => call.page === page && call.element)
+    .filter(call => {
+      const method = methodName(call);
+      if (seen.has(method)) return false;
+      seen.add(method);
+      return true;
+    });
+}
+
+/**
+ * Groups the steps of all cases by the page or screen they act on. Navigation steps and
+ * mentions such as "on the checkout page" switch the current page; pages and their elements
+ * are shared across cases so each page object is generated once.
+ */
+export function buildPageModel(testCases: { testCase: AutomationTestCase; steps: AutomationStep[] }[]): PageModel {
+  const pages = new Map<string, PageObject>();
+  const usedNames = new Set<string>();
+
+  const getPage = (name: string): PageObject => {
+    if (!pages.has(name)) {
+      const path = name === DEFAULT_PAGE ? '/' : `/${words(name.replace(/Page$/, '')).join('-')}`;
+      pages.set(name, { name, path, elements: [] });
+    }
+    return pages.get(name)!;
+  };
+
+  const tests = testCases.map(({ testCase, steps }) => {
+    const baseName = pascalCase(words(testCase.title).map(upperFirst).join('')) || 'GeneratedTest';
+    let name = baseName;
+    for (let suffix = 2; usedNames.has(name); suffix++) {
+      name = `${baseName}${suffix}`;
+    }
+    usedNames.add(name);
+
+    let current = getPage(DEFAULT_PAGE);
+    const calls: PageCall[] = steps.map(step => {
+      const mention = singleLine(step.action).match(PAGE_MENTION);
+      if (step.kind === 'navigate') {
+        current = getPage(pageName(mention ? mention[1] : step.action));
+        return { page: current.name, kind: 'open', step };
+      }
+      if (mention) {
+        current = getPage(pageName(mention[1]));
+      }
+
+      switch (step.kind) {
+        case 'click':
+          return { page: current.name, kind: 'click', step, element: addElement(current, { name: elementName(step, 'button'), kind: 'button', label: step.label, locator: step.locator ?? undefined }) };
+        case 'input':
+          return { page: current.name, kind: 'enter', step, element: addElement(current, { name: elementName(step, 'field'), kind: 'input', label: '', locator: step.locator ?? undefined }) };
+        case 'verify':
+          return { page: current.name, kind: 'verify', step, element: addElement(current, { name: elementName(step, 'message'), kind: 'text', label: step.label, locator: step.locator ?? undefined }) };
+        case 'wait':
+          return { page: current.name, kind: 'wait', step };
+        default:
+          return { page: current.name, kind: 'manual', step };
+      }
+    });
+
+    return {
+      testCase,
+      name,
+      pages: Array.from(new Set(calls.filter(call => call.kind !== 'manual').map(call => call.page))),
+      calls,
+    };
+  });
+
+  // Pages only reached through manual steps have nothing to automate
+  const usedPages = new Set(tests.flatMap(test => test.pages));
+  return { pages: Array.from(pages.values()).filter(page => usedPages.has(page.name)), tests };
+}
@@ -0,0 +1,264 @@
+import {
+  AutomationStep,
+  AutomationTarget,
+  PLACEHOLDERS,
+  expectedComment,
+  kebabCase,
+  settingsHeader,
+  singleLine,
+  stepComments,
+  stringLiteral,
+} from './common.ts'
+import {
+  PageElement,
+  PageModel,
+  PageObject,
+  ProjectFile,
+  ScaffoldContext,
+  ScaffoldTestCase,
+  elementField,
+  elementId,
+  locatorsNote,
+  lowerFirst,
+  methodName,
+  pageCalls,
+  reviewComment,
+  scaffoldReadme,
+} from './page-model.ts'
+import type { ResolvedLocator } from '../locators.ts'
+
+const INDENT = '    ';
+
+function snapshotLocator(locator: ResolvedLocator): string {
+  switch (locator.strategy) {
+    case 'testid': return `page.getByTestId(${stringLiteral(locator.value, "'")})`;
+    case 'role': return `page.getByRole(${stringLiteral(locator.role!, "'")}, { name: ${stringLiteral(locator.value, "'")} })`;
+    case 'label': return `page.getByLabel(${stringLiteral(locator.value, "'")})`;
+    default: return `page.locator(${stringLiteral(locator.value, "'")})`;
+  }
+}
+
+// Playwright actions auto-wait for the element, so steps only need explicit waits for loading states
+function stepCode(step: AutomationStep): string {
+  if (step.locator) {
+    const locator = snapshotLocator(step.locator);
+    if (step.kind === 'click') return `${INDENT}await ${locator}.click();`;
+    if (step.kind === 'input') return `${INDENT}await ${locator}.fill(${stringLiteral(step.testData || PLACEHOLDERS.testData, "'")});`;
+    return `${INDENT}await expect(${locator}).toBeVisible();`;
+  }
+  switch (step.kind) {
+    case 'navigate':
+      return `${INDENT}await page.goto(BASE_URL);`;
+    case 'click':
+      return `${INDENT}await page.getByRole('button', { name: ${stringLiteral(step.label || PLACEHOLDERS.buttonText, "'")} }).click();`;
+    case 'input':
+      return `${INDENT}await page.locator(${stringLiteral(`#${PLACEHOLDERS.inputId}`, "'")}).fill(${stringLiteral(step.testData || PLACEHOLDERS.testData, "'")});`;
+    case 'verify':
+      return step.label
+        ? `${INDENT}await expect(page.getByText(${stringLiteral(step.label, "'")})).toBeVisible();`
+        : `${INDENT}await expect(page.locator(${stringLiteral(PLACEHOLDERS.elementXpath, "'")})).toBeVisible();`;
+    case 'wait':
+      return `${INDENT}await expect(page.locator(${stringLiteral(PLACEHOLDERS.loadingSelector, '"')})).toBeHidden();`;
+    default:
+      return `${INDENT}// TODO: Implement step - ${singleLine(step.action)}`;
+  }
+}
+
+function playwrightLocator(element: PageElement): string {
+  if (element.locator) return snapshotLocator(element.locator);
+  if (element.kind === 'button') {
+    return element.label
+      ? `page.getByRole('button', { name: ${stringLiteral(element.label, "'")} })`
+      : `page.locator(${stringLiteral(`#${elementId(element)}`, "'")})`;
+  }
+  if (element.kind === 'input') {
+    return `page.locator(${stringLiteral(`#${elementId(element)}`, "'")})`;
+  }
+  return element.label
+    ? `page.getByText(${stringLiteral(element.label, "'")})`
+    : `page.getByTestId(${stringLiteral(elementId(element), "'")})`;
+}
+
+const PLAYWRIGHT_DEVICES: Record<string, string> = {
+  chrome: 'Desktop Chrome',
+  firefox: 'Desktop Firefox',
+  safari: 'Desktop Safari',
+  edge: 'Desktop Edge',
+};
+
+function playwrightConfig(context: ScaffoldContext): string {
+  return `import { defineConfig, devices } from '@playwright/test';
+
+// BASE_URL and BROWSER (${Object.keys(PLAYWRIGHT_DEVICES).join(', ')}) environment variables override the defaults
+const BROWSERS = {
+${Object.entries(PLAYWRIGHT_DEVICES).map(([name, device]) => `  ${name}: devices['${device}'],`).join('\n')}
+};
+const browser = (process.env.BROWSER ?? ${stringLiteral(context.browser in PLAYWRIGHT_DEVICES ? context.browser : 'chrome', "'")}) as keyof typeof BROWSERS;
+
+export default defineConfig({
+  testDir: './tests',
+  timeout: 30_000,
+  use: {
+    ...BROWSERS[browser],
+    baseURL: process.env.BASE_URL ?? ${stringLiteral(context.baseUrl, "'")},
+    trace: 'on-first-retry',
+  },
+});
+`;
+}
+
+function basePageTs(): string {
+  return `import { Page, expect } from '@playwright/test';
+
+export abstract class BasePage {
+  protected abstract readonly path: string;
+
+  constructor(protected readonly page: Page) {}
+
+  async open() {
+    await this.page.goto(this.path);
+  }
+
+  async waitForPageLoad() {
+    await expect(this.page.locator(${stringLiteral(PLACEHOLDERS.loadingSelector, '"')})).toBeHidden();
+  }
+}
+`;
+}
+
+function pageObjectTs(page: PageObject, model: PageModel): string {
+  const fields = page.elements.map(element => `${reviewComment(element, '  ', '//')}  readonly ${elementField(element)}: Locator;`).join('\n');
+  const assignments = page.elements.map(element => `    this.${elementField(element)} = ${playwrightLocator(element)};`).join('\n');
+
+  const methods = pageCalls(model, page.name)
+    .filter(call => call.kind !== 'verify')
+    .map(call => call.kind === 'click'
+      ? `  async ${methodName(call)}() {\n    await this.${elementField(call.element!)}.click();\n  }`
+      : `  async ${methodName(call)}(value: string) {\n    await this.${elementField(call.element!)}.fill(value);\n  }`);
+
+  return `import { ${fields ? 'Locator, ' : ''}Page } from '@playwright/test';
+import { BasePage } from './BasePage';
+
+export class ${page.name} extends BasePage {
+  protected readonly path = ${stringLiteral(page.path, "'")};
+${fields ? `\n  // ${locatorsNote(page)}\n${fields}\n` : ''}
+  constructor(page: Page) {
+    super(page);${assignments ? `\n${assignments}` : ''}
+  }
+${methods.map(method => `\n${method}\n`).join('')}}
+`;
+}
+
+function baseTestTs(model: PageModel): string {
+  return `import { test as base, expect } from '@playwright/test';
+${model.pages.map(page => `import { ${page.name} } from '../pages/${page.name}';`).join('\n')}
+
+type Pages = {
+${model.pages.map(page => `  ${lowerFirst(page.name)}: ${page.name};`).join('\n')}
+};
+
+// Page objects are fixtures, so every test gets fresh instances bound to its own page
+export const test = base.extend<Pages>({
+${model.pages.map(page => `  ${lowerFirst(page.name)}: async ({ page }, use) => {\n    await use(new ${page.name}(page));\n  },`).join('\n')}
+});
+
+export { expect };
+`;
+}
+
+function specTs(test: ScaffoldTestCase): string {
+  const body = test.calls.map(call => {
+    const target = `${lowerFirst(call.page)}.${methodName(call)}`;
+    let code: string;
+    switch (call.kind) {
+      case 'open':
+      case 'click':
+      case 'wait':
+        code = `${INDENT}await ${target}();`;
+        break;
+      case 'enter':
+        code = `${INDENT}await ${target}(${stringLiteral(call.step.testData || PLACEHOLDERS.testData, "'")});`;
+        break;
+      case 'verify':
+        code = `${INDENT}await expect(${lowerFirst(call.page)}.${elementField(call.element!)}).toBeVisible();`;
+        break;
+      default:
+        code = `${INDENT}// TODO: Implement step - ${singleLine(call.step.action)}`;
+    }
+    return `${stepComments(call.step, INDENT, '//')}\n${code}${expectedComment(call.step.expectedResult, INDENT, '//')}`;
+  });
+
+  const fixtures = test.pages.map(lowerFirst).join(', ');
+  const usesExpect = test.calls.some(call => call.kind === 'verify');
+
+  return `import { test${usesExpect ? ', expect' : ''} } from './base-test';
+
+/**
+ * Automated test for: ${singleLine(test.testCase.title)}
+ * Description: ${singleLine(test.testCase.description)}
+ * Priority: ${test.testCase.priority}
+ */
+test(${stringLiteral(singleLine(test.testCase.title), "'")}, async (${fixtures ? `{ ${fixtures} }` : ''}) => {
+${body.join('\n\n').replace(/^ {2}/gm, '')}
+
+  // TODO: Verify expected result - ${singleLine(test.testCase.expectedResult)}
+});
+`;
+}
+
+function playwrightScaffold(model: PageModel, context: ScaffoldContext): ProjectFile[] {
+  const packageJson = {
+    name: `${kebabCase(context.projectName)}-automation`,
+    private: true,
+    scripts: { test: 'playwright test' },
+    devDependencies: { '@playwright/test': '^1.47.0', '@types/node': '^20.14.0', typescript: '^5.5.0' },
+  };
+
+  return [
+    { path: 'package.json', content: `${JSON.stringify(packageJson, null, 2)}\n` },
+    { path: 'playwright.config.ts', content: playwrightConfig(context) },
+    { path: 'pages/BasePage.ts', content: basePageTs() },
+    ...model.pages.map(page => ({ path: `pages/${page.name}.ts`, content: pageObjectTs(page, model) })),
+    { path: 'tests/base-test.ts', content: baseTestTs(model) },
+    ...model.tests.map(test => ({ path: `tests/${kebabCase(test.name.replace(/([a-z0-9])([A-Z])/g, '$1-$2'))}.spec.ts`, content: specTs(test) })),
+    {
+      path: 'README.md',
+      content: scaffoldReadme(
+        context,
+        'npm install\nnpx playwright install\nnpm test',
+        'Base URL and browser are set in `playwright.config.ts` and can be overridden with the `BASE_URL` and `BROWSER` environment variables.'
+      ),
+    },
+  ];
+}
+
+export const playwrightTs: AutomationTarget = {
+  id: 'playwright-ts',
+  label: 'Playwright (TypeScript)',
+  fileName: testCase => `${kebabCase(testCase.title)}.spec.ts`,
+  scaffold: playwrightScaffold,
+  generate: (testCase, steps, context) => {
+    const body = steps
+      .map(step => `${stepComments(step, INDENT, '//')}\n${stepCode(step)}${expectedComment(step.expectedResult, INDENT, '//')}`)
+      .join('\n\n');
+
+    return `${settingsHeader(context, 'block')}import { test, expect } from '@playwright/test';
+
+const BASE_URL = process.env.BASE_URL ?? ${stringLiteral(context.baseUrl, "'")};
+
+/**
+ * Automated test for: ${singleLine(testCase.title)}
+ * Description: ${singleLine(testCase.description)}
+ * Priority: ${testCase.priority}
+ */
+test.describe(${stringLiteral(singleLine(testCase.title), "'")}, () => {
+  test(${stringLiteral(singleLine(testCase.title), "'")}, async ({ page }) => {
+${body}
+
+    // Verify expected result: ${singleLine(testCase.expectedResult)}
+    await expect(page.locator(${stringLiteral(PLACEHOLDERS.elementXpath, "'")})).toBeVisible();
+  });
+});
+`;
+  },
+};
@@ -0,0 +1,530 @@
+import {
+  AutomationStep,
+  AutomationTarget,
+  AutomationTestCase,
+  GenerationContext,
+  PLACEHOLDERS,
+  expectedComment,
+  kebabCase,
+  pascalCase,
+  settingsHeader,
+  singleLine,
+  stepComments,
+  stringLiteral,
+} from './common.ts'
+import {
+  PageCall,
+  PageElement,
+  PageModel,
+  PageObject,
+  ProjectFile,
+  ScaffoldContext,
+  ScaffoldTestCase,
+  elementField,
+  elementId,
+  locatorsNote,
+  lowerFirst,
+  methodName,
+  pageCalls,
+  reviewComment,
+  scaffoldReadme,
+} from './page-model.ts'
+import type { ResolvedLocator } from '../locators.ts'
+
+const INDENT = '            ';
+
+const className = (testCase: AutomationTestCase) => `${pascalCase(testCase.title)}Test`;
+
+// Selenium has no role or label queries, so snapshot matches use their stable CSS selector or text XPath
+function snapshotLocator(locator: ResolvedLocator): string {
+  return locator.css ? `By.cssSelector(${stringLiteral(locator.css)})` : `By.xpath(${stringLiteral(locator.xpath)})`;
+}
+
+function buttonLocator(step: AutomationStep): string {
+  if (step.locator) return snapshotLocator(step.locator);
+  return `By.xpath(${stringLiteral(`//button[contains(text(),'${step.label || PLACEHOLDERS.buttonText}')]`)})`;
+}
+
+function elementLocator(step: AutomationStep): string {
+  if (step.locator) return snapshotLocator(step.locator);
+  return `By.xpath(${stringLiteral(step.label ? `//*[contains(text(),'${step.label}')]` : PLACEHOLDERS.elementXpath)})`;
+}
+
+// Both Java targets share WebDriverWait based steps; JUnit 5 and TestNG agree on assertTrue(condition, message)
+function stepCode(step: AutomationStep, baseUrl: string): string {
+  const n = step.number;
+  switch (step.kind) {
+    case 'navigate':
+      return `${INDENT}driver.get(${stringLiteral(baseUrl)});`;
+    case 'click':
+      return `${INDENT}WebElement element${n} = wait.until(ExpectedConditions.elementToBeClickable(${buttonLocator(step)}));
+${INDENT}element${n}.click();`;
+    case 'input':
+      return `${INDENT}WebElement inputField${n} = wait.until(ExpectedConditions.presenceOfElementLocated(${step.locator ? snapshotLocator(step.locator) : `By.id(${stringLiteral(PLACEHOLDERS.inputId)})`}));
+${INDENT}inputField${n}.clear();
+${INDENT}inputField${n}.sendKeys(${stringLiteral(step.testData || PLACEHOLDERS.testData)});`;
+    case 'verify':
+      return `${INDENT}WebElement verificationElement${n} = wait.until(ExpectedConditions.visibilityOfElementLocated(${elementLocator(step)}));
+${INDENT}assertTrue(verificationElement${n}.isDisplayed(), "Element should be visible");`;
+    case 'wait':
+      return `${INDENT}wait.until(ExpectedConditions.invisibilityOfElementLocated(By.cssSelector(${stringLiteral(PLACEHOLDERS.loadingSelector)})));`;
+    default:
+      return `${INDENT}// TODO: Implement step - ${singleLine(step.action)}
+${INDENT}// Add appropriate Selenium WebDriver code here`;
+  }
+}
+
+function testBody(testCase: AutomationTestCase, steps: AutomationStep[], context: GenerationContext): string {
+  const body = steps
+    .map(step => `${stepComments(step, INDENT, '//')}\n${stepCode(step, context.baseUrl)}${expectedComment(step.expectedResult, INDENT, '//')}`)
+    .join('\n\n');
+
+  return `${body}
+
+${INDENT}// Verify expected result: ${singleLine(testCase.expectedResult)}
+${INDENT}WebElement expectedResultElement = wait.until(ExpectedConditions.visibilityOfElementLocated(By.xpath(${stringLiteral(PLACEHOLDERS.elementXpath)})));
+${INDENT}assertTrue(expectedResultElement.isDisplayed(), ${stringLiteral(`Expected: ${singleLine(testCase.expectedResult)}`)});`;
+}
+
+function classDoc(testCase: AutomationTestCase): string {
+  return `/**
+ * Automated test for: ${singleLine(testCase.title)}
+ * Description: ${singleLine(testCase.description)}
+ * Priority: ${testCase.priority}
+ */`;
+}
+
+type JavaFramework = 'junit' | 'testng';
+
+function javaLocator(element: PageElement): string {
+  if (element.locator) return snapshotLocator(element.locator);
+  if (element.kind === 'button') {
+    return element.label
+      ? `By.xpath(${stringLiteral(`//button[contains(text(),'${element.label}')]`)})`
+      : `By.id(${stringLiteral(elementId(element))})`;
+  }
+  if (element.kind === 'input') {
+    return `By.id(${stringLiteral(elementId(element))})`;
+  }
+  return element.label
+    ? `By.xpath(${stringLiteral(`//*[contains(text(),'${element.label}')]`)})`
+    : `By.cssSelector(${stringLiteral(`[data-testid='${elementId(element)}']`)})`;
+}
+
+function pomXml(context: ScaffoldContext, framework: JavaFramework): string {
+  const testDependency = framework === 'junit'
+    ? `        <dependency>
+            <groupId>org.junit.jupiter</groupId>
+            <artifactId>junit-jupiter</artifactId>
+            <version>5.10.2</version>
+            <scope>test</scope>
+        </dependency>`
+    : `        <dependency>
+            <groupId>org.testng</groupId>
+            <artifactId>testng</artifactId>
+            <version>7.10.2</version>
+            <scope>test</scope>
+        </dependency>`;
+
+  return `<?xml version="1.0" encoding="UTF-8"?>
+<project xmlns="http://maven.apache.org/POM/4.0.0"
+         xmlns:xsi="http://www.w3.org/2001/XMLSchema-instance"
+         xsi:schemaLocation="http://maven.apache.org/POM/4.0.0 http://maven.apache.org/xsd/maven-4.0.0.xsd">
+    <modelVersion>4.0.0</modelVersion>
+
+    <groupId>${context.javaPackage}</groupId>
+    <artifactId>${kebabCase(context.projectName)}-automation</artifactId>
+    <version>1.0.0-SNAPSHOT</version>
+
+    <properties>
+        <maven.compiler.source>17</maven.compiler.source>
+        <maven.compiler.target>17</maven.compiler.target>
+        <project.build.sourceEncoding>UTF-8</project.build.sourceEncoding>
+    </properties>
+
+    <dependencies>
+        <dependency>
+            <groupId>org.seleniumhq.selenium</groupId>
+            <artifactId>selenium-java</artifactId>
+            <version>4.21.0</version>
+        </dependency>
+${testDependency}
+    </dependencies>
+
+    <build>
+        <plugins>
+            <plugin>
+                <groupId>org.apache.maven.plugins</groupId>
+                <artifactId>maven-surefire-plugin</artifactId>
+                <version>3.2.5</version>
+            </plugin>
+        </plugins>
+    </build>
+</project>
+`;
+}
+
+function configJava(pkg: string): string {
+  return `package ${pkg}.config;
+
+import java.io.IOException;
+import java.io.InputStream;
+import java.util.Properties;
+
+/**
+ * Reads config.properties; any value can be overridden with a system property, e.g. -DbaseUrl=...
+ */
+public final class Config {
+
+    private static final Properties PROPERTIES = new Properties();
+
+    static {
+        try (InputStream input = Config.class.getClassLoader().getResourceAsStream("config.properties")) {
+            if (input != null) {
+                PROPERTIES.load(input);
+            }
+        } catch (IOException e) {
+            throw new IllegalStateException("Could not read config.properties", e);
+        }
+    }
+
+    private Config() {
+    }
+
+    public static String get(String key) {
+        return System.getProperty(key, PROPERTIES.getProperty(key));
+    }
+
+    public static String baseUrl() {
+        return get("baseUrl");
+    }
+
+    public static String browser() {
+        return get("browser");
+    }
+
+    public static int timeoutSeconds() {
+        return Integer.parseInt(get("timeoutSeconds"));
+    }
+}
+`;
+}
+
+function baseTestJava(pkg: string, framework: JavaFramework): string {
+  const [before, after, imports] = framework === 'junit'
+    ? ['@BeforeEach', '@AfterEach', 'import org.junit.jupiter.api.AfterEach;\nimport org.junit.jupiter.api.BeforeEach;']
+    : ['@BeforeMethod', '@AfterMethod(alwaysRun = true)', 'import org.testng.annotations.AfterMethod;\nimport org.testng.annotations.BeforeMethod;'];
+
+  return `package ${pkg}.base;
+
+${imports}
+import org.openqa.selenium.WebDriver;
+import org.openqa.selenium.chrome.ChromeDriver;
+import org.openqa.selenium.edge.EdgeDriver;
+import org.openqa.selenium.firefox.FirefoxDriver;
+import ${pkg}.config.Config;
+
+/**
+ * Starts a browser from config.properties before each test and quits it afterwards
+ */
+public abstract class BaseTest {
+
+    protected WebDriver driver;
+
+    ${before}
+    public void setUp() {
+        driver = switch (Config.browser().toLowerCase()) {
+            case "firefox" -> new FirefoxDriver();
+            case "edge" -> new EdgeDriver();
+            default -> new ChromeDriver();
+        };
+        driver.manage().window().maximize();
+    }
+
+    ${after}
+    public void tearDown() {
+        if (driver != null) {
+            driver.quit();
+        }
+    }
+}
+`;
+}
+
+function basePageJava(pkg: string): string {
+  return `package ${pkg}.pages;
+
+import java.time.Duration;
+import org.openqa.selenium.By;
+import org.openqa.selenium.TimeoutException;
+import org.openqa.selenium.WebDriver;
+import org.openqa.selenium.WebElement;
+import org.openqa.selenium.support.ui.ExpectedConditions;
+import org.openqa.selenium.support.ui.WebDriverWait;
+import ${pkg}.config.Config;
+
+/**
+ * Explicit-wait helpers shared by all page objects
+ */
+public abstract class BasePage {
+
+    private static final By LOADING_INDICATOR = By.cssSelector(${stringLiteral(PLACEHOLDERS.loadingSelector)});
+
+    protected final WebDriver driver;
+    protected final WebDriverWait wait;
+
+    protected BasePage(WebDriver driver) {
+        this.driver = driver;
+        this.wait = new WebDriverWait(driver, Duration.ofSeconds(Config.timeoutSeconds()));
+    }
+
+    protected void navigateTo(String path) {
+        driver.get(Config.baseUrl() + path);
+    }
+
+    protected void click(By locator) {
+        wait.until(ExpectedConditions.elementToBeClickable(locator)).click();
+    }
+
+    protected void type(By locator, String value) {
+        WebElement element = wait.until(ExpectedConditions.visibilityOfElementLocated(locator));
+        element.clear();
+        element.sendKeys(value);
+    }
+
+    protected boolean isDisplayed(By locator) {
+        try {
+            return wait.until(ExpectedConditions.visibilityOfElementLocated(locator)).isDisplayed();
+        } catch (TimeoutException e) {
+            return false;
+        }
+    }
+
+    public void waitForPageLoad() {
+        wait.until(ExpectedConditions.invisibilityOfElementLocated(LOADING_INDICATOR));
+    }
+}
+`;
+}
+
+function pageObjectJava(pkg: string, page: PageObject, calls: PageCall[]): string {
+  const fields = page.elements
+    .map(element => `${reviewComment(element, '    ', '//')}    private final By ${elementField(element)} = ${javaLocator(element)};`)
+    .join('\n');
+
+  const methods = calls.map(call => {
+    const field = elementField(call.element!);
+    if (call.kind === 'click') {
+      return `    public void ${methodName(call)}() {\n        click(${field});\n    }`;
+    }
+    if (call.kind === 'enter') {
+      return `    public void ${methodName(call)}(String value) {\n        type(${field}, value);\n    }`;
+    }
+    return `    public boolean ${methodName(call)}() {\n        return isDisplayed(${field});\n    }`;
+  });
+
+  return `package ${pkg}.pages;
+
+import org.openqa.selenium.By;
+import org.openqa.selenium.WebDriver;
+
+public class ${page.name} extends BasePage {
+${fields ? `\n    // ${locatorsNote(page)}\n${fields}\n` : ''}
+    public ${page.name}(WebDriver driver) {
+        super(driver);
+    }
+
+    public void open() {
+        navigateTo(${stringLiteral(page.path)});
+    }
+${methods.map(method => `\n${method}\n`).join('')}}
+`;
+}
+
+function testClassJava(pkg: string, test: ScaffoldTestCase, framework: JavaFramework): string {
+  const indent = '        ';
+  const variable = (page: string) => lowerFirst(page);
+
+  const body = test.calls.map(call => {
+    const target = `${variable(call.page)}.${methodName(call)}`;
+    let code: string;
+    switch (call.kind) {
+      case 'open':
+      case 'click':
+      case 'wait':
+        code = `${indent}${target}();`;
+        break;
+      case 'enter':
+        code = `${indent}${target}(${stringLiteral(call.step.testData || PLACEHOLDERS.testData)});`;
+        break;
+      case 'verify':
+        code = `${indent}assertTrue(${target}(), ${stringLiteral(`Step ${call.step.number}: ${singleLine(call.step.action)}`)});`;
+        break;
+      default:
+        code = `${indent}// TODO: Implement step - ${singleLine(call.step.action)}`;
+    }
+    return `${stepComments(call.step, indent, '//')}\n${code}${expectedComment(call.step.expectedResult, indent, '//')}`;
+  });
+
+  const [testImport, assertImport, testAnnotation] = framework === 'junit'
+    ? ['import org.junit.jupiter.api.Test;', 'import static org.junit.jupiter.api.Assertions.assertTrue;', '@Test']
+    : ['import org.testng.annotations.Test;', 'import static org.testng.Assert.assertTrue;', `@Test(description = ${stringLiteral(singleLine(test.testCase.title))})`];
+
+  const pageImports = test.pages.map(page => `import ${pkg}.pages.${page};`).join('\n');
+  const pageSetup = test.pages.map(page => `${indent}${page} ${variable(page)} = new ${page}(driver);`).join('\n');
+
+  return `package ${pkg}.tests;
+
+${testImport}
+import ${pkg}.base.BaseTest;
+${pageImports ? `${pageImports}\n` : ''}
+${assertImport}
+
+${classDoc(test.testCase)}
+public class ${test.name}Test extends BaseTest {
+
+    ${testAnnotation}
+    public void test${test.name}() {
+${pageSetup ? `${pageSetup}\n\n` : ''}${body.join('\n\n')}
+
+${indent}// TODO: Verify expected result - ${singleLine(test.testCase.expectedResult)}
+    }
+}
+`;
+}
+
+function javaScaffold(model: PageModel, context: ScaffoldContext, framework: JavaFramework): ProjectFile[] {
+  const pkg = context.javaPackage;
+  const sourceRoot = `src/test/java/${pkg.replace(/\./g, '/')}`;
+  const runCommand = 'mvn test';
+
+  return [
+    { path: 'pom.xml', content: pomXml(context, framework) },
+    {
+      path: 'src/test/resources/config.properties',
+      content: `baseUrl=${context.baseUrl}\nbrowser=${context.browser}\ntimeoutSeconds=10\n`,
+    },
+    { path: `${sourceRoot}/config/Config.java`, content: configJava(pkg) },
+    { path: `${sourceRoot}/base/BaseTest.java`, content: baseTestJava(pkg, framework) },
+    { path: `${sourceRoot}/pages/BasePage.java`, content: basePageJava(pkg) },
+    ...model.pages.map(page => ({
+      path: `${sourceRoot}/pages/${page.name}.java`,
+      content: pageObjectJava(pkg, page, pageCalls(model, page.name)),
+    })),
+    ...model.tests.map(test => ({
+      path: `${sourceRoot}/tests/${test.name}Test.java`,
+      content: testClassJava(pkg, test, framework),
+    })),
+    { path: 'README.md', content: scaffoldReadme(context, runCommand, 'Base URL and browser are set in `src/test/resources/config.properties`.') },
+  ];
+}
+
+export const seleniumJavaJUnit: AutomationTarget = {
+  id: 'selenium-java-junit',
+  label: 'Selenium Java (JUnit 5)',
+  fileName: testCase => `${className(testCase)}.java`,
+  scaffold: (model, context) => javaScaffold(model, context, 'junit'),
+  generate: (testCase, steps, context) => {
+    const name = className(testCase);
+    return `${settingsHeader(context, 'block')}package com.testautomation.tests;
+
+import org.junit.jupiter.api.Test;
+import org.junit.jupiter.api.BeforeEach;
+import org.junit.jupiter.api.AfterEach;
+import org.openqa.selenium.WebDriver;
+import org.openqa.selenium.WebElement;
+import org.openqa.selenium.By;
+import org.openqa.selenium.chrome.ChromeDriver;
+import org.openqa.selenium.support.ui.WebDriverWait;
+import org.openqa.selenium.support.ui.ExpectedConditions;
+import java.time.Duration;
+import static org.junit.jupiter.api.Assertions.*;
+
+${classDoc(testCase)}
+public class ${name} {
+
+    private WebDriver driver;
+    private WebDriverWait wait;
+
+    @BeforeEach
+    public void setUp() {
+        driver = new ChromeDriver();
+        wait = new WebDriverWait(driver, Duration.ofSeconds(10));
+        driver.manage().window().maximize();
+    }
+
+    @Test
+    public void test${name.replace(/Test$/, '')}() {
+        try {
+${testBody(testCase, steps, context)}
+
+        } catch (Exception e) {
+            fail("Test failed with exception: " + e.getMessage());
+        }
+    }
+
+    @AfterEach
+    public void tearDown() {
+        if (driver != null) {
+            driver.quit();
+        }
+    }
+}
+`;
+  },
+};
+
+export const seleniumJavaTestNG: AutomationTarget = {
+  id: 'selenium-java-testng',
+  label: 'Selenium Java (TestNG)',
+  fileName: testCase => `${className(testCase)}.java`,
+  scaffold: (model, context) => javaScaffold(model, context, 'testng'),
+  generate: (testCase, steps, context) => {
+    const name = className(testCase);
+    return `${settingsHeader(context, 'block')}package com.testautomation.tests;
+
+import org.openqa.selenium.WebDriver;
+import org.openqa.selenium.WebElement;
+import org.openqa.selenium.By;
+import org.openqa.selenium.chrome.ChromeDriver;
+import org.openqa.selenium.support.ui.WebDriverWait;
+import org.openqa.selenium.support.ui.ExpectedConditions;
+import org.testng.annotations.AfterMethod;
+import org.testng.annotations.BeforeMethod;
+import org.testng.annotations.Test;
+import java.time.Duration;
+import static org.testng.Assert.*;
+
+${classDoc(testCase)}
+public class ${name} {
+
+    private WebDriver driver;
+    private WebDriverWait wait;
+
+    @BeforeMethod
+    public void setUp() {
+        driver = new ChromeDriver();
+        wait = new WebDriverWait(driver, Duration.ofSeconds(10));
+        driver.manage().window().maximize();
+    }
+
+    @Test(description = ${stringLiteral(singleLine(testCase.title))})
+    public void test${name.replace(/Test$/, '')}() {
+        try {
+${testBody(testCase, steps, context)}
+
+        } catch (Exception e) {
+            fail("Test failed with exception: " + e.getMessage());
+        }
+    }
+
+    @AfterMethod(alwaysRun = true)
+    public void tearDown() {
+        if (driver != null) {
+            driver.quit();
+        }
+    }
+}
+`;
+  },
+};
@@ -0,0 +1,290 @@
+import {
+  AutomationStep,
+  AutomationTarget,
+  AutomationTestCase,
+  PLACEHOLDERS,
+  expectedComment,
+  settingsHeader,
+  singleLine,
+  snakeCase,
+  stepComments,
+  stringLiteral,
+} from './common.ts'
+import {
+  PageCall,
+  PageElement,
+  PageModel,
+  PageObject,
+  ProjectFile,
+  ScaffoldContext,
+  ScaffoldTestCase,
+  elementField,
+  elementId,
+  locatorsNote,
+  methodName,
+  pageCalls,
+  reviewComment,
+  scaffoldReadme,
+  snakeIdentifier,
+} from './page-model.ts'
+import type { ResolvedLocator } from '../locators.ts'
+
+const INDENT = '    ';
+
+const testName = (testCase: AutomationTestCase) => `test_${snakeCase(testCase.title).replace(/^test_/, '')}`;
+
+// Selenium has no role or label queries, so snapshot matches use their stable CSS selector or text XPath
+function snapshotLocator(locator: ResolvedLocator): string {
+  return locator.css ? `(By.CSS_SELECTOR, ${stringLiteral(locator.css)})` : `(By.XPATH, ${stringLiteral(locator.xpath)})`;
+}
+
+function stepCode(step: AutomationStep): string {
+  const n = step.number;
+  switch (step.kind) {
+    case 'navigate':
+      return `${INDENT}driver.get(BASE_URL)`;
+    case 'click':
+      return `${INDENT}element_${n} = wait.until(EC.element_to_be_clickable(${step.locator ? snapshotLocator(step.locator) : `(By.XPATH, ${stringLiteral(`//button[contains(text(),'${step.label || PLACEHOLDERS.buttonText}')]`)})`}))
+${INDENT}element_${n}.click()`;
+    case 'input':
+      return `${INDENT}input_field_${n} = wait.until(EC.presence_of_element_located(${step.locator ? snapshotLocator(step.locator) : `(By.ID, ${stringLiteral(PLACEHOLDERS.inputId)})`}))
+${INDENT}input_field_${n}.clear()
+${INDENT}input_field_${n}.send_keys(${stringLiteral(step.testData || PLACEHOLDERS.testData)})`;
+    case 'verify': {
+      const xpath = step.label ? `//*[contains(text(),'${step.label}')]` : PLACEHOLDERS.elementXpath;
+      const locator = step.locator ? snapshotLocator(step.locator) : `(By.XPATH, ${stringLiteral(xpath)})`;
+      return `${INDENT}verification_element_${n} = wait.until(EC.visibility_of_element_located(${locator}))
+${INDENT}assert verification_element_${n}.is_displayed(), "Element should be visible"`;
+    }
+    case 'wait':
+      return `${INDENT}wait.until(EC.invisibility_of_element_located((By.CSS_SELECTOR, ${stringLiteral(PLACEHOLDERS.loadingSelector)})))`;
+    default:
+      return `${INDENT}# TODO: Implement step - ${singleLine(step.action)}`;
+  }
+}
+
+function pythonLocator(element: PageElement): string {
+  if (element.locator) return snapshotLocator(element.locator);
+  if (element.kind === 'button') {
+    return element.label
+      ? `(By.XPATH, ${stringLiteral(`//button[contains(text(),'${element.label}')]`)})`
+      : `(By.ID, ${stringLiteral(elementId(element))})`;
+  }
+  if (element.kind === 'input') {
+    return `(By.ID, ${stringLiteral(elementId(element))})`;
+  }
+  return element.label
+    ? `(By.XPATH, ${stringLiteral(`//*[contains(text(),'${element.label}')]`)})`
+    : `(By.CSS_SELECTOR, ${stringLiteral(`[data-testid='${elementId(element)}']`)})`;
+}
+
+const pageModule = (page: string) => snakeIdentifier(page);
+
+function conftestPy(): string {
+  return `import configparser
+import os
+
+import pytest
+from selenium import webdriver
+
+CONFIG = configparser.ConfigParser()
+CONFIG.read(os.path.join(os.path.dirname(__file__), "config.ini"))
+
+
+def setting(key):
+    """Reads a value from config.ini; environment variables such as BASE_URL take precedence."""
+    return os.environ.get(key.upper(), CONFIG.get("default", key))
+
+
+@pytest.fixture
+def driver():
+    browser = setting("browser").lower()
+    if browser == "firefox":
+        driver = webdriver.Firefox()
+    elif browser == "edge":
+        driver = webdriver.Edge()
+    else:
+        driver = webdriver.Chrome()
+    driver.maximize_window()
+    yield driver
+    driver.quit()
+`;
+}
+
+function basePagePy(): string {
+  return `from selenium.common.exceptions import TimeoutException
+from selenium.webdriver.common.by import By
+from selenium.webdriver.support import expected_conditions as EC
+from selenium.webdriver.support.ui import WebDriverWait
+
+from conftest import setting
+
+LOADING_INDICATOR = (By.CSS_SELECTOR, ${stringLiteral(PLACEHOLDERS.loadingSelector)})
+
+
+class BasePage:
+    """Explicit-wait helpers shared by all page objects."""
+
+    path = "/"
+
+    def __init__(self, driver):
+        self.driver = driver
+        self.wait = WebDriverWait(driver, int(setting("timeout")))
+
+    def open(self):
+        self.driver.get(setting("base_url") + self.path)
+
+    def click(self, locator):
+        self.wait.until(EC.element_to_be_clickable(locator)).click()
+
+    def type(self, locator, value):
+        element = self.wait.until(EC.visibility_of_element_located(locator))
+        element.clear()
+        element.send_keys(value)
+
+    def is_displayed(self, locator):
+        try:
+            return self.wait.until(EC.visibility_of_element_located(locator)).is_displayed()
+        except TimeoutException:
+            return False
+
+    def wait_for_page_load(self):
+        self.wait.until(EC.invisibility_of_element_located(LOADING_INDICATOR))
+`;
+}
+
+function pageObjectPy(page: PageObject, calls: PageCall[]): string {
+  const locators = page.elements
+    .map(element => `${reviewComment(element, '    ', '#')}    ${snakeIdentifier(elementField(element)).toUpperCase()} = ${pythonLocator(element)}`)
+    .join('\n');
+
+  const methods = calls.map(call => {
+    const locator = `self.${snakeIdentifier(elementField(call.element!)).toUpperCase()}`;
+    const name = snakeIdentifier(methodName(call));
+    if (call.kind === 'click') return `    def ${name}(self):\n        self.click(${locator})`;
+    if (call.kind === 'enter') return `    def ${name}(self, value):\n        self.type(${locator}, value)`;
+    return `    def ${name}(self):\n        return self.is_displayed(${locator})`;
+  });
+
+  return `${locators ? 'from selenium.webdriver.common.by import By\n\n' : ''}from pages.base_page import BasePage
+
+
+class ${page.name}(BasePage):
+    path = ${stringLiteral(page.path)}
+${locators ? `\n    # ${locatorsNote(page)}\n${locators}\n` : ''}${methods.map(method => `\n${method}\n`).join('')}`;
+}
+
+function testModulePy(test: ScaffoldTestCase): string {
+  const variable = (page: string) => snakeIdentifier(page);
+  const docstring = (text: string) => singleLine(text).replace(/"""/g, '\\"\\"\\"');
+
+  const body = test.calls.map(call => {
+    const target = `${variable(call.page)}.${snakeIdentifier(methodName(call))}`;
+    let code: string;
+    switch (call.kind) {
+      case 'open':
+      case 'click':
+        code = `${INDENT}${target}()`;
+        break;
+      case 'wait':
+        code = `${INDENT}${variable(call.page)}.wait_for_page_load()`;
+        break;
+      case 'enter':
+        code = `${INDENT}${target}(${stringLiteral(call.step.testData || PLACEHOLDERS.testData)})`;
+        break;
+      case 'verify':
+        code = `${INDENT}assert ${target}(), ${stringLiteral(`Step ${call.step.number}: ${singleLine(call.step.action)}`)}`;
+        break;
+      default:
+        code = `${INDENT}# TODO: Implement step - ${singleLine(call.step.action)}`;
+    }
+    return `${stepComments(call.step, INDENT, '#')}\n${code}${expectedComment(call.step.expectedResult, INDENT, '#')}`;
+  });
+
+  const imports = test.pages.map(page => `from pages.${pageModule(page)} import ${page}`).join('\n');
+  const setup = test.pages.map(page => `${INDENT}${variable(page)} = ${page}(driver)`).join('\n');
+
+  return `${imports ? `${imports}\n\n\n` : ''}def test_${snakeIdentifier(test.name)}(driver):
+    """Automated test for: ${docstring(test.testCase.title)}
+
+    Description: ${docstring(test.testCase.description)}
+    Priority: ${test.testCase.priority}
+    """
+${setup ? `${setup}\n\n` : ''}${body.join('\n\n')}
+
+    # TODO: Verify expected result - ${singleLine(test.testCase.expectedResult)}
+`;
+}
+
+function pythonScaffold(model: PageModel, context: ScaffoldContext): ProjectFile[] {
+  return [
+    { path: 'requirements.txt', content: 'selenium>=4.21\npytest>=8.2\n' },
+    { path: 'pytest.ini', content: '[pytest]\ntestpaths = tests\npythonpath = .\n' },
+    {
+      path: 'config.ini',
+      content: `[default]\nbase_url = ${context.baseUrl}\nbrowser = ${context.browser}\ntimeout = 10\n`,
+    },
+    { path: 'conftest.py', content: conftestPy() },
+    { path: 'pages/__init__.py', content: '' },
+    { path: 'pages/base_page.py', content: basePagePy() },
+    ...model.pages.map(page => ({
+      path: `pages/${pageModule(page.name)}.py`,
+      content: pageObjectPy(page, pageCalls(model, page.name)),
+    })),
+    ...model.tests.map(test => ({
+      path: `tests/test_${snakeIdentifier(test.name)}.py`,
+      content: testModulePy(test),
+    })),
+    { path: 'README.md', content: scaffoldReadme(context, 'pip install -r requirements.txt\npytest', 'Base URL and browser are set in `config.ini`.') },
+  ];
+}
+
+export const seleniumPython: AutomationTarget = {
+  id: 'selenium-python',
+  label: 'Selenium Python (pytest)',
+  fileName: testCase => `${testName(testCase)}.py`,
+  scaffold: pythonScaffold,
+  generate: (testCase, steps, context) => {
+    const body = steps
+      .map(step => `${stepComments(step, INDENT, '#')}\n${stepCode(step)}${expectedComment(step.expectedResult, INDENT, '#')}`)
+      .join('\n\n');
+    const docstring = (text: string) => singleLine(text).replace(/"""/g, '\\"\\"\\"');
+
+    return `${settingsHeader(context, 'hash')}import os
+
+import pytest
+from selenium import webdriver
+from selenium.webdriver.common.by import By
+from selenium.webdriver.support import expected_conditions as EC
+from selenium.webdriver.support.ui import WebDriverWait
+
+BASE_URL = os.environ.get("BASE_URL", ${stringLiteral(context.baseUrl)})
+
+
+@pytest.fixture
+def driver():
+    driver = webdriver.Chrome()
+    driver.maximize_window()
+    yield driver
+    driver.quit()
+
+
+@pytest.fixture
+def wait(driver):
+    return WebDriverWait(driver, 10)
+
+
+def ${testName(testCase)}(driver, wait):
+    """Automated test for: ${docstring(testCase.title)}
+
+    Description: ${docstring(testCase.description)}
+    Priority: ${testCase.priority}
+    """
+${body}
+
+    # Verify expected result: ${singleLine(testCase.expectedResult)}
+    expected_result_element = wait.until(EC.visibility_of_element_located((By.XPATH, ${stringLiteral(PLACEHOLDERS.elementXpath)})))
+    assert expected_result_element.is_displayed(), ${stringLiteral(`Expected: ${singleLine(testCase.expectedResult)}`)}
+`;
+  },
+};
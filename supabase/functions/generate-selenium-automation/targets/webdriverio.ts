@@ -0,0 +1,262 @@
+import {
+  AutomationStep,
+  AutomationTarget,
+  PLACEHOLDERS,
+  expectedComment,
+  kebabCase,
+  settingsHeader,
+  singleLine,
+  stepComments,
+  stringLiteral,
+} from './common.ts'
+import {
+  PageElement,
+  PageModel,
+  PageObject,
+  ProjectFile,
+  ScaffoldContext,
+  ScaffoldTestCase,
+  elementField,
+  elementId,
+  locatorsNote,
+  methodName,
+  pageCalls,
+  reviewComment,
+  scaffoldReadme,
+  snakeIdentifier,
+} from './page-model.ts'
+import type { ResolvedLocator } from '../locators.ts'
+
+const INDENT = '    ';
+
+// WebdriverIO's aria/ selector matches the accessible name, covering both role and label matches
+function snapshotSelector(locator: ResolvedLocator): string {
+  if (locator.strategy === 'role' || locator.strategy === 'label') {
+    return stringLiteral(`aria/${locator.value}`, "'");
+  }
+  return stringLiteral(locator.css ?? locator.value, "'");
+}
+
+function stepCode(step: AutomationStep): string {
+  const n = step.number;
+  switch (step.kind) {
+    case 'navigate':
+      return `${INDENT}await browser.url(BASE_URL);`;
+    case 'click':
+      return `${INDENT}const element${n} = await $(${step.locator ? snapshotSelector(step.locator) : stringLiteral(`button*=${step.label || PLACEHOLDERS.buttonText}`, "'")});
+${INDENT}await element${n}.waitForClickable();
+${INDENT}await element${n}.click();`;
+    case 'input':
+      return `${INDENT}const inputField${n} = await $(${step.locator ? snapshotSelector(step.locator) : stringLiteral(`#${PLACEHOLDERS.inputId}`, "'")});
+${INDENT}await inputField${n}.waitForDisplayed();
+${INDENT}await inputField${n}.setValue(${stringLiteral(step.testData || PLACEHOLDERS.testData, "'")});`;
+    case 'verify':
+      return `${INDENT}await expect($(${step.locator ? snapshotSelector(step.locator) : stringLiteral(step.label ? `*=${step.label}` : PLACEHOLDERS.elementXpath, "'")})).toBeDisplayed();`;
+    case 'wait':
+      return `${INDENT}await $(${stringLiteral(PLACEHOLDERS.loadingSelector, '"')}).waitForDisplayed({ reverse: true });`;
+    default:
+      return `${INDENT}// TODO: Implement step - ${singleLine(step.action)}`;
+  }
+}
+
+function wdioLocator(element: PageElement): string {
+  if (element.locator) return snapshotSelector(element.locator);
+  if (element.kind === 'button') {
+    return stringLiteral(element.label ? `button*=${element.label}` : `#${elementId(element)}`, "'");
+  }
+  if (element.kind === 'input') {
+    return stringLiteral(`#${elementId(element)}`, "'");
+  }
+  return element.label
+    ? stringLiteral(`*=${element.label}`, "'")
+    : stringLiteral(`[data-testid='${elementId(element)}']`, '"');
+}
+
+// WebdriverIO page objects are exported as singletons, one module per page
+const pageModule = (page: string) => `${snakeIdentifier(page.replace(/Page$/, '')).replace(/_/g, '-') || 'home'}.page`;
+
+// browserName values WebDriver expects for the configured browser
+const WDIO_BROWSERS: Record<string, string> = {
+  chrome: 'chrome',
+  firefox: 'firefox',
+  edge: 'MicrosoftEdge',
+  safari: 'safari',
+};
+
+function basePageWdio(): string {
+  return `import { $, browser } from '@wdio/globals';
+
+export default abstract class Page {
+  protected abstract readonly path: string;
+
+  async open() {
+    await browser.url(this.path);
+  }
+
+  async waitForPageLoad() {
+    await $(${stringLiteral(PLACEHOLDERS.loadingSelector, '"')}).waitForDisplayed({ reverse: true });
+  }
+}
+`;
+}
+
+function pageObjectWdio(page: PageObject, model: PageModel): string {
+  const getters = page.elements
+    .map(element => `${reviewComment(element, '  ', '//')}  get ${elementField(element)}() {\n    return $(${wdioLocator(element)});\n  }`)
+    .join('\n\n');
+
+  const methods = pageCalls(model, page.name)
+    .filter(call => call.kind !== 'verify')
+    .map(call => {
+      const field = `this.${elementField(call.element!)}`;
+      return call.kind === 'click'
+        ? `  async ${methodName(call)}() {\n    await ${field}.waitForClickable();\n    await ${field}.click();\n  }`
+        : `  async ${methodName(call)}(value: string) {\n    await ${field}.waitForDisplayed();\n    await ${field}.setValue(value);\n  }`;
+    });
+
+  return `${getters ? "import { $ } from '@wdio/globals';\n" : ''}import Page from './page';
+
+class ${page.name} extends Page {
+  protected readonly path = ${stringLiteral(page.path, "'")};
+${getters ? `\n  // ${locatorsNote(page)}\n${getters}\n` : ''}${methods.map(method => `\n${method}\n`).join('')}}
+
+export default new ${page.name}();
+`;
+}
+
+function specWdio(test: ScaffoldTestCase): string {
+  const body = test.calls.map(call => {
+    const target = `${call.page}.${methodName(call)}`;
+    let code: string;
+    switch (call.kind) {
+      case 'open':
+      case 'click':
+      case 'wait':
+        code = `${INDENT}await ${target}();`;
+        break;
+      case 'enter':
+        code = `${INDENT}await ${target}(${stringLiteral(call.step.testData || PLACEHOLDERS.testData, "'")});`;
+        break;
+      case 'verify':
+        code = `${INDENT}await expect(${call.page}.${elementField(call.element!)}).toBeDisplayed();`;
+        break;
+      default:
+        code = `${INDENT}// TODO: Implement step - ${singleLine(call.step.action)}`;
+    }
+    return `${stepComments(call.step, INDENT, '//')}\n${code}${expectedComment(call.step.expectedResult, INDENT, '//')}`;
+  });
+
+  const usesExpect = test.calls.some(call => call.kind === 'verify');
+  const imports = [
+    usesExpect ? "import { expect } from '@wdio/globals';" : '',
+    ...test.pages.map(page => `import ${page} from '../pageobjects/${pageModule(page)}';`),
+  ].filter(Boolean).join('\n');
+
+  return `${imports ? `${imports}\n\n` : ''}/**
+ * Automated test for: ${singleLine(test.testCase.title)}
+ * Description: ${singleLine(test.testCase.description)}
+ * Priority: ${test.testCase.priority}
+ */
+describe(${stringLiteral(singleLine(test.testCase.title), "'")}, () => {
+  it(${stringLiteral(singleLine(test.testCase.title), "'")}, async () => {
+${body.join('\n\n')}
+
+    // TODO: Verify expected result - ${singleLine(test.testCase.expectedResult)}
+  });
+});
+`;
+}
+
+function webdriverioScaffold(model: PageModel, context: ScaffoldContext): ProjectFile[] {
+  const packageJson = {
+    name: `${kebabCase(context.projectName)}-automation`,
+    private: true,
+    type: 'module',
+    scripts: { test: 'wdio run ./wdio.conf.ts' },
+    devDependencies: {
+      '@wdio/cli': '^8.39.0',
+      '@wdio/globals': '^8.39.0',
+      '@wdio/local-runner': '^8.39.0',
+      '@wdio/mocha-framework': '^8.39.0',
+      '@wdio/spec-reporter': '^8.39.0',
+      '@wdio/types': '^8.39.0',
+      'ts-node': '^10.9.2',
+      typescript: '^5.5.0',
+    },
+  };
+  const tsconfig = {
+    compilerOptions: {
+      target: 'es2022',
+      module: 'esnext',
+      moduleResolution: 'node',
+      types: ['node', '@wdio/globals/types', '@wdio/mocha-framework'],
+      strict: true,
+      skipLibCheck: true,
+    },
+  };
+
+  return [
+    { path: 'package.json', content: `${JSON.stringify(packageJson, null, 2)}\n` },
+    { path: 'tsconfig.json', content: `${JSON.stringify(tsconfig, null, 2)}\n` },
+    {
+      path: 'wdio.conf.ts',
+      content: `import type { Options } from '@wdio/types';
+
+// BASE_URL and BROWSER environment variables override the defaults
+export const config: Options.Testrunner = {
+  runner: 'local',
+  specs: ['./test/specs/**/*.e2e.ts'],
+  maxInstances: 1,
+  capabilities: [{ browserName: process.env.BROWSER ?? ${stringLiteral(WDIO_BROWSERS[context.browser] ?? 'chrome', "'")} }],
+  baseUrl: process.env.BASE_URL ?? ${stringLiteral(context.baseUrl, "'")},
+  waitforTimeout: 10000,
+  framework: 'mocha',
+  reporters: ['spec'],
+  mochaOpts: { ui: 'bdd', timeout: 60000 },
+};
+`,
+    },
+    { path: 'test/pageobjects/page.ts', content: basePageWdio() },
+    ...model.pages.map(page => ({ path: `test/pageobjects/${pageModule(page.name)}.ts`, content: pageObjectWdio(page, model) })),
+    ...model.tests.map(test => ({ path: `test/specs/${kebabCase(test.name.replace(/([a-z0-9])([A-Z])/g, '$1-$2'))}.e2e.ts`, content: specWdio(test) })),
+    {
+      path: 'README.md',
+      content: scaffoldReadme(
+        context,
+        'npm install\nnpm test',
+        'Base URL and browser are set in `wdio.conf.ts` and can be overridden with the `BASE_URL` and `BROWSER` environment variables.'
+      ),
+    },
+  ];
+}
+
+export const webdriverio: AutomationTarget = {
+  id: 'webdriverio',
+  label: 'WebdriverIO',
+  fileName: testCase => `${kebabCase(testCase.title)}.e2e.ts`,
+  scaffold: webdriverioScaffold,
+  generate: (testCase, steps, context) => {
+    const body = steps
+      .map(step => `${stepComments(step, INDENT, '//')}\n${stepCode(step)}${expectedComment(step.expectedResult, INDENT, '//')}`)
+      .join('\n\n');
+
+    return `${settingsHeader(context, 'block')}import { browser, $, expect } from '@wdio/globals';
+
+const BASE_URL = process.env.BASE_URL ?? ${stringLiteral(context.baseUrl, "'")};
+
+/**
+ * Automated test for: ${singleLine(testCase.title)}
+ * Description: ${singleLine(testCase.description)}
+ * Priority: ${testCase.priority}
+ */
+describe(${stringLiteral(singleLine(testCase.title), "'")}, () => {
+  it(${stringLiteral(singleLine(testCase.title), "'")}, async () => {
+${body}
+
+    // Verify expected result: ${singleLine(testCase.expectedResult)}
+    await expect($(${stringLiteral(PLACEHOLDERS.elementXpath, "'")})).toBeDisplayed();
+  });
+});
+`;
+  },
+};
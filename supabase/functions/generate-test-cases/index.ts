@@ -3,12 +3,44 @@ import "https://deno.land/x/xhr@0.1.0/mod.ts";
 import { serve } from "https://deno.land/std@0.168.0/http/server.ts";
 import { createClient } from 'https://esm.sh/@supabase/supabase-js@2'
 import { corsHeaders } from '../_shared/cors.ts'
+import { loadProjectSettings, buildSettingsContext } from '../_shared/project-settings.ts'
+import { CredentialError, assertProjectAccess } from '../_shared/credentials.ts'
+import { LlmError, LlmMessage, LlmResult, chatCompletion, loadLlmConfig, logAiUsage, modelLabel, providerSource } from '../_shared/llm.ts'
+import { parseJsonArray } from '../_shared/structured-output.ts'
+import { testCasesResponseSchema, validateGeneratedTestCase } from '../_shared/test-case-schema.ts'
+import { normalizeTestSteps } from '../_shared/test-steps.ts'
+import { AcceptanceCriterion, parseAcceptanceCriteria, formatCriteriaForPrompt } from '../_shared/acceptance-criteria.ts'
 
 const supabase = createClient(
   Deno.env.get('SUPABASE_URL') ?? '',
   Deno.env.get('SUPABASE_SERVICE_ROLE_KEY') ?? ''
 )
 
+// Turns the labels the model was shown into stable criterion ids, dropping labels that were not
+// in the prompt ("ac2" and duplicates are tolerated)
+function normalizeCoveredCriteria(value: unknown, criteria: AcceptanceCriterion[]): string[] {
+  if (!Array.isArray(value)) return [];
+  const idsByLabel = new Map(criteria.map(criterion => [criterion.label, criterion.id]));
+  const ids = value.flatMap(label => idsByLabel.get(String(label).trim().toUpperCase()) ?? []);
+  return [...new Set(ids)];
+}
+
+interface RejectedTestCase {
+  index: number;
+  title: string | null;
+  errors: string[];
+}
+
+const titleOf = (value: unknown): string | null => {
+  const title = (value as Record<string, unknown> | null)?.title;
+  return typeof title === 'string' && title.trim() ? title.trim() : null;
+};
+
+async function sha256Hex(text: string): Promise<string> {
+  const digest = await crypto.subtle.digest('SHA-256', new TextEncoder().encode(text));
+  return Array.from(new Uint8Array(digest)).map(byte => byte.toString(16).padStart(2, '0')).join('');
+}
+
 
 serve(async (req) => {
   if (req.method === 'OPTIONS') {
@@ -39,7 +71,8 @@ serve(async (req) => {
     }
 
     const body = await req.json();
-    const { story, azureConfig, customPrompt } = body;
+    const { story, customPrompt } = body;
+    const projectId = body.projectId || story?.project_id;
 
     // Input validation
     if (!story || !story.title) {
@@ -63,22 +96,28 @@ serve(async (req) => {
       story.description = story.description.substring(0, 5000) + '... [truncated]';
     }
 
-    // Validate Azure OpenAI config
-    if (!azureConfig || !azureConfig.endpoint || !azureConfig.apiKey || !azureConfig.deploymentId) {
-      return new Response(
-        JSON.stringify({ error: 'Azure OpenAI configuration is required (endpoint, apiKey, deploymentId)' }),
-        { status: 400, headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
-      );
-    }
+    // The project's LLM provider and its credentials are loaded from the encrypted vault
+    await assertProjectAccess(supabase, projectId, user.id);
+    const llmConfig = await loadLlmConfig(supabase, projectId);
 
     console.log(`Generating test cases for story: ${story.title}`);
 
+    const projectSettings = await loadProjectSettings(supabase, projectId, user.id);
+    const settingsContext = buildSettingsContext(projectSettings, 'testCases');
+
+    const criteria = parseAcceptanceCriteria(story.acceptanceCriteria);
+
     let prompt = `Generate comprehensive test cases for the following user story:
 
 Title: ${story.title}
 Description: ${story.description || 'No description provided'}
 Priority: ${story.priority || 'Medium'}
-Issue Type: ${story.issueType || 'Story'}
+Issue Type: ${story.issueType || 'Story'}${story.storyPoints ? `
+Story Points: ${story.storyPoints}` : ''}${story.externalId ? `
+Reference: ${story.externalId}` : ''}${criteria.length > 0 ? `
+
+Acceptance Criteria:
+${formatCriteriaForPrompt(criteria)}` : ''}
 
 Please generate test cases that include:
 1. Positive test scenarios
@@ -87,6 +126,15 @@ Please generate test cases that include:
 4. Boundary conditions
 5. User acceptance criteria validation`;
 
+    // Add the project's saved AI generation context
+    if (settingsContext) {
+      prompt += `
+
+${settingsContext}
+
+Follow the project context and guidelines above when deciding what to test and how to describe each test case.`;
+    }
+
     // Add custom prompt instructions if provided
     if (customPrompt && customPrompt.trim()) {
       prompt += `
@@ -99,140 +147,228 @@ Please ensure the test cases incorporate these custom requirements along with th
 
     prompt += `
 
-Format the response as a JSON array of test case objects with the following structure:
+Format the response as a JSON object of the form {"testCases": [...]}, where each test case has the following structure:
 {
   "id": "TC001",
   "title": "Test case title",
   "description": "Detailed test case description",
   "type": "positive|negative|edge|boundary", 
   "priority": "high|medium|low",
-  "steps": ["Step 1", "Step 2", "Step 3"],
-  "expectedResult": "Expected outcome",
-  "category": "functional|ui|integration|performance"
+  "steps": [
+    {
+      "action": "What the tester does in this step",
+      "testData": "Concrete input values used in this step, or an empty string",
+      "expectedResult": "What should happen after this step"
+    }
+  ],
+  "expectedResult": "Overall expected outcome of the test case",
+  "category": "functional|ui|integration|performance"${criteria.length > 0 ? `,
+  "coversCriteria": ["AC1"]` : ''}
 }
 
+Every step must be an object with action, testData and expectedResult. Put input values in testData rather than in the action text.${criteria.length > 0 ? `
+
+List in coversCriteria the ids of the acceptance criteria each test case verifies. Every acceptance criterion (${criteria.map(criterion => criterion.label).join(', ')}) must be covered by at least one test case.` : ''}
+
 Generate 8-12 test cases covering all important scenarios.`;
 
-    // Build Azure OpenAI endpoint from user config
-    const azureEndpoint = `${azureConfig.endpoint}/openai/deployments/${azureConfig.deploymentId}/chat/completions?api-version=${azureConfig.apiVersion}`;
-    
-    const response = await fetch(azureEndpoint, {
-      method: 'POST',
-      headers: {
-        'api-key': azureConfig.apiKey,
-        'Content-Type': 'application/json',
+    const messages: LlmMessage[] = [
+      {
+        role: 'system',
+        content: 'You are a QA expert who generates comprehensive test cases. Return only a valid JSON object without any markdown formatting or explanations.'
       },
-      body: JSON.stringify({
+      {
+        role: 'user',
+        content: prompt
+      }
+    ];
+    const requestOptions = {
+      temperature: 0.7,
+      // Structured steps roughly double the response size
+      maxTokens: 4000,
+      responseSchema: testCasesResponseSchema,
+    };
+
+    const first = await chatCompletion(llmConfig, { messages, ...requestOptions });
+    const usage = { ...first.usage };
+    let costUsd = first.costUsd;
+    const addUsage = (result: LlmResult) => {
+      usage.promptTokens += result.usage.promptTokens;
+      usage.completionTokens += result.usage.completionTokens;
+      usage.totalTokens += result.usage.totalTokens;
+      costUsd += result.costUsd;
+    };
+    const usageEntry = () => ({
+      userId: user.id,
+      projectId,
+      featureType: 'test_case_generation',
+      config: llmConfig,
+      usage,
+      costUsd,
+      startTime,
+    });
+
+    // At most one repair round-trip: either the whole response is resent or only the invalid cases
+    const warnings: string[] = [];
+    let content = first.content;
+    let parsed: { items: unknown[]; recovered: boolean };
+    let repaired = false;
+
+    try {
+      parsed = parseJsonArray(content, 'testCases');
+    } catch (parseError) {
+      console.error('Model response was not valid JSON, asking for a repair:', parseError.message);
+      repaired = true;
+      const repair = await chatCompletion(llmConfig, {
         messages: [
-          {
-            role: 'system',
-            content: 'You are a QA expert who generates comprehensive test cases. Return only valid JSON arrays without any markdown formatting or explanations.'
-          },
+          ...messages,
+          { role: 'assistant', content },
           {
             role: 'user',
-            content: prompt
+            content: `Your previous response could not be used: ${parseError.message}. Reply again with only the JSON object {"testCases": [...]} and nothing else.${first.truncated ? ' It was cut off, so generate fewer or shorter test cases.' : ''}`
           }
         ],
-        temperature: 0.7,
-        max_tokens: 2000,
-      }),
-    });
+        ...requestOptions,
+      });
+      addUsage(repair);
+      content = repair.content;
 
-    if (!response.ok) {
-      const errorText = await response.text();
-      console.error('Azure OpenAI API error:', response.status, errorText);
-      return new Response(
-        JSON.stringify({ error: `Azure OpenAI API error: ${response.status}` }),
-        { status: response.status, headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
-      );
+      try {
+        parsed = parseJsonArray(content, 'testCases');
+      } catch (repairError) {
+        console.error('Failed to parse repaired model response as JSON:', repairError);
+        console.log('Raw content:', content);
+        await logAiUsage(supabase, { ...usageEntry(), success: false });
+
+        return new Response(
+          JSON.stringify({
+            error: 'Failed to parse generated test cases',
+            details: 'The model response was not valid JSON, even after a repair attempt',
+            rawContent: content
+          }),
+          { status: 500, headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
+        );
+      }
     }
 
-    const data = await response.json();
-    const content = data.choices[0].message.content;
-
-    // Calculate cost (Azure OpenAI gpt-4o pricing may vary - using standard rates as estimate)
-    const promptTokens = data.usage?.prompt_tokens || 0;
-    const completionTokens = data.usage?.completion_tokens || 0;
-    const totalTokens = data.usage?.total_tokens || 0;
-    const cost = (promptTokens * 0.00003 / 1000) + (completionTokens * 0.00006 / 1000); // GPT-4o Azure pricing estimate
-
-    // Log usage to analytics
-    try {
-      await supabase.from('ai_usage_logs').insert({
-        user_id: user.id,
-        project_id: story.project_id,
-        feature_type: 'test_case_generation',
-        tokens_used: totalTokens,
-        openai_model: `azure-${azureConfig.deploymentId}`,
-        openai_tokens_prompt: promptTokens,
-        openai_tokens_completion: completionTokens,
-        openai_cost_usd: cost,
-        execution_time_ms: Date.now() - startTime,
-        success: true
-      });
-    } catch (logError) {
-      console.error('Failed to log AI usage:', logError);
+    if (parsed.recovered) {
+      warnings.push(`The response was cut off at the token limit; kept the ${parsed.items.length} complete test cases`);
     }
 
-    try {
-      // Parse the JSON response from OpenAI
-      const testCases = JSON.parse(content);
-      
-      // Add additional metadata
-      const enrichedTestCases = testCases.map((testCase: any, index: number) => ({
-        ...testCase,
-        id: testCase.id || `TC${String(index + 1).padStart(3, '0')}`,
-        storyId: story.id,
-        storyTitle: story.title,
-        generatedAt: new Date().toISOString(),
-        source: `Azure OpenAI ${azureConfig.deploymentId}`
-      }));
-
-      console.log(`Generated ${enrichedTestCases.length} test cases for story ${story.id}`);
+    const candidates: unknown[] = [...parsed.items];
+    let rejected: RejectedTestCase[] = candidates
+      .map((item, index) => ({ index, title: titleOf(item), errors: validateGeneratedTestCase(item) }))
+      .filter(entry => entry.errors.length > 0);
 
-      return new Response(
-        JSON.stringify({
-          success: true,
-          testCases: enrichedTestCases,
-          story: story
-        }),
-        { headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
-      );
+    if (rejected.length > 0 && !repaired) {
+      console.log(`${rejected.length} generated test cases failed validation, asking for a repair`);
+      const invalid = rejected.map(entry => ({ testCase: candidates[entry.index], problems: entry.errors }));
 
-    } catch (parseError) {
-      console.error('Failed to parse OpenAI response as JSON:', parseError);
-      console.log('Raw content:', content);
-      
-      // Log failed usage
       try {
-        await supabase.from('ai_usage_logs').insert({
-          user_id: user.id,
-          project_id: story.project_id,
-          feature_type: 'test_case_generation',
-          tokens_used: data.usage?.total_tokens || 0,
-          openai_model: `azure-${azureConfig.deploymentId}`,
-          openai_tokens_prompt: data.usage?.prompt_tokens || 0,
-          openai_tokens_completion: data.usage?.completion_tokens || 0,
-          openai_cost_usd: ((data.usage?.prompt_tokens || 0) * 0.00015 / 1000) + ((data.usage?.completion_tokens || 0) * 0.0006 / 1000),
-          execution_time_ms: Date.now() - startTime,
-          success: false
+        const repair = await chatCompletion(llmConfig, {
+          messages: [
+            ...messages,
+            {
+              role: 'user',
+              content: `These test cases you generated failed validation:
+
+${JSON.stringify(invalid, null, 2)}
+
+Fix the listed problems and reply with only the JSON object {"testCases": [...]} holding the ${invalid.length} corrected test cases, in the same order.`
+            }
+          ],
+          ...requestOptions,
         });
-      } catch (logError) {
-        console.error('Failed to log AI usage:', logError);
+        addUsage(repair);
+
+        // Corrections are matched to the invalid cases by position
+        const corrections = parseJsonArray(repair.content, 'testCases').items;
+        rejected = rejected.flatMap((entry, position) => {
+          if (position >= corrections.length) return [entry];
+          const errors = validateGeneratedTestCase(corrections[position]);
+          if (errors.length > 0) return [{ ...entry, errors }];
+          candidates[entry.index] = corrections[position];
+          return [];
+        });
+      } catch (repairError) {
+        // The original validation errors are reported for every invalid case
+        console.error('Test case repair failed:', repairError);
       }
-      
+    }
+
+    const rejectedIndexes = new Set(rejected.map(entry => entry.index));
+    const testCases = candidates
+      .map((item, index) => ({ item: item as Record<string, any>, index }))
+      .filter(({ index }) => !rejectedIndexes.has(index));
+
+    if (testCases.length === 0) {
+      console.log('Raw content:', content);
+      await logAiUsage(supabase, { ...usageEntry(), success: false });
+
       return new Response(
         JSON.stringify({
           error: 'Failed to parse generated test cases',
-          details: 'Azure OpenAI response was not valid JSON',
-          rawContent: content
+          details: 'None of the generated test cases passed validation',
+          rejected,
+          warnings
         }),
         { status: 500, headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
       );
     }
 
+    // Add additional metadata, including provenance so AI-written cases can be told apart later
+    const model = modelLabel(llmConfig);
+    const promptHash = await sha256Hex(prompt);
+    const generatedAt = new Date().toISOString();
+    const enrichedTestCases = testCases.map(({ item: testCase, index }) => ({
+      ...testCase,
+      id: testCase.id || `TC${String(index + 1).padStart(3, '0')}`,
+      steps: normalizeTestSteps(testCase.steps),
+      coversCriteria: normalizeCoveredCriteria(testCase.coversCriteria, criteria),
+      storyId: story.id,
+      storyTitle: story.title,
+      generatedAt,
+      model,
+      promptHash,
+      source: providerSource(llmConfig)
+    }));
+
+    // Which generated cases cover each acceptance criterion; an empty list is a coverage gap
+    const coverage = criteria.map(criterion => ({
+      criterionId: criterion.id,
+      label: criterion.label,
+      text: criterion.text,
+      testCaseIds: enrichedTestCases
+        .filter((testCase: { coversCriteria: string[] }) => testCase.coversCriteria.includes(criterion.id))
+        .map((testCase: { id: string }) => testCase.id),
+    }));
+
+    await logAiUsage(supabase, { ...usageEntry(), success: true });
+    console.log(`Generated ${enrichedTestCases.length} test cases for story ${story.id}`);
+
+    return new Response(
+      JSON.stringify({
+        success: true,
+        testCases: enrichedTestCases,
+        acceptanceCriteria: criteria,
+        coverage,
+        // Cases that failed validation even after repair, so the UI can say what was dropped
+        rejected,
+        warnings,
+        story: story,
+        settingsVersion: projectSettings?.version ?? null
+      }),
+      { headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
+    );
+
   } catch (error) {
     console.error('Error in generate-test-cases function:', error);
+    if (error instanceof CredentialError || error instanceof LlmError) {
+      return new Response(
+        JSON.stringify({ error: error.message }),
+        { status: error.status, headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
+      );
+    }
     return new Response(
       JSON.stringify({
         error: 'Failed to generate test cases',
@@ -2,6 +2,11 @@ import "https://deno.land/x/xhr@0.1.0/mod.ts";
 import { serve } from "https://deno.land/std@0.168.0/http/server.ts";
 import { createClient } from 'https://esm.sh/@supabase/supabase-js@2'
 import { corsHeaders } from '../_shared/cors.ts'
+import { loadProjectSettings, buildSettingsContext } from '../_shared/project-settings.ts'
+import { CredentialError, assertProjectAccess } from '../_shared/credentials.ts'
+import { LlmError, LlmRequest, chatCompletion, loadLlmConfig, logAiUsage, modelLabel, streamChatCompletion } from '../_shared/llm.ts'
+import { sseResponse } from '../_shared/sse.ts'
+import { buildSectionRequest, extractSection, parseSectionRegeneration } from '../_shared/document-sections.ts'
 
 const supabase = createClient(
   Deno.env.get('SUPABASE_URL') ?? '',
@@ -33,15 +38,11 @@ serve(async (req) => {
     }
 
     const body = await req.json();
-    const { userStories, projectName, testingScope, projectId, customPrompt, requirementsDoc, openAIConfig } = body;
+    const { userStories, projectName, testingScope, projectId, customPrompt, requirementsDoc } = body;
 
-    // Validate OpenAI configuration
-    if (!openAIConfig?.endpoint || !openAIConfig?.apiKey || !openAIConfig?.deploymentId) {
-      return new Response(
-        JSON.stringify({ error: 'Azure OpenAI configuration is required' }),
-        { status: 400, headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
-      );
-    }
+    // The project's LLM provider and its credentials are loaded from the encrypted vault
+    await assertProjectAccess(supabase, projectId, user.id);
+    const llmConfig = await loadLlmConfig(supabase, projectId);
 
     // Input validation - either user stories or requirements document required
     if ((!userStories || !Array.isArray(userStories) || userStories.length === 0) && !requirementsDoc) {
@@ -79,7 +80,11 @@ serve(async (req) => {
     let contentSection = '';
     
     if (userStories && userStories.length > 0) {
-      contentSection += `User Stories:\n${userStories.map((story: any, index: number) => `${index + 1}. ${story.title}: ${story.description}`).join('\n')}\n\n`;
+      contentSection += `User Stories:\n${userStories.map((story: any, index: number) => {
+        const details = [story.priority && `Priority: ${story.priority}`, story.sprint && `Sprint: ${story.sprint}`].filter(Boolean).join(', ');
+        const criteria = story.acceptanceCriteria ? `\n   Acceptance Criteria: ${story.acceptanceCriteria}` : '';
+        return `${index + 1}. ${story.title}${details ? ` (${details})` : ''}: ${story.description || 'No description'}${criteria}`;
+      }).join('\n')}\n\n`;
     }
     
     if (requirementsDoc) {
@@ -90,6 +95,12 @@ serve(async (req) => {
 
 ${contentSection}Testing Scope: ${testingScope || 'Full application testing'}`;
 
+    const projectSettings = await loadProjectSettings(supabase, projectId, user.id);
+    const settingsContext = buildSettingsContext(projectSettings, 'testPlan');
+    if (settingsContext) {
+      prompt += `\n\n${settingsContext}`;
+    }
+
     if (customPrompt) {
       prompt += `\n\nAdditional Requirements:\n${customPrompt}`;
     }
@@ -106,82 +117,116 @@ ${contentSection}Testing Scope: ${testingScope || 'Full application testing'}`;
 9. Test Strategy for each requirement/story
 10. Performance and Security Testing considerations
 
-Format the response as a structured document with clear sections and subsections.`;
-
-    // Use Azure OpenAI endpoint
-    const azureEndpoint = `${openAIConfig.endpoint}/openai/deployments/${openAIConfig.deploymentId}/chat/completions?api-version=${openAIConfig.apiVersion || '2024-02-15-preview'}`;
-
-    const response = await fetch(azureEndpoint, {
-      method: 'POST',
-      headers: {
-        'api-key': openAIConfig.apiKey,
-        'Content-Type': 'application/json',
-      },
-      body: JSON.stringify({
-        messages: [
-          { 
-            role: 'system', 
-            content: 'You are an expert test manager with deep knowledge of software testing methodologies, test planning, and quality assurance. Generate comprehensive, professional test plans that follow industry standards.' 
-          },
-          { role: 'user', content: prompt }
-        ],
-        temperature: 0.7,
-        max_tokens: 4000,
-      }),
-    });
+Format the response as a Markdown document: a "#" title, a "##" heading for each numbered section above and "###" headings for subsections.`;
+
+    const llmRequest: LlmRequest = {
+      messages: [
+        { 
+          role: 'system', 
+          content: 'You are an expert test manager with deep knowledge of software testing methodologies, test planning, and quality assurance. Generate comprehensive, professional test plans that follow industry standards.' 
+        },
+        { role: 'user', content: prompt }
+      ],
+      temperature: 0.7,
+      maxTokens: 4000,
+    };
+
+    const metadata = {
+      projectName,
+      generatedAt: new Date().toISOString(),
+      userStoriesCount: userStories?.length || 0,
+      hasRequirementsDoc: !!requirementsDoc,
+      hasCustomPrompt: !!customPrompt,
+      testingScope,
+      settingsVersion: projectSettings?.version ?? null,
+      // Recorded with each saved plan version
+      model: modelLabel(llmConfig)
+    };
+
+    // Editors regenerate a single section of a document they have already generated
+    if (body.section) {
+      const section = parseSectionRegeneration(body.section);
+      if (typeof section === 'string') {
+        return new Response(
+          JSON.stringify({ error: section }),
+          { status: 400, headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
+        );
+      }
 
-    const data = await response.json();
-    
-    if (!response.ok) {
-      console.error('OpenAI API error:', data);
-      throw new Error(data.error?.message || 'Failed to generate test plan');
-    }
+      const { content, usage, costUsd } = await chatCompletion(llmConfig, buildSectionRequest(llmRequest, section, 'test plan'));
 
-    const testPlan = data.choices[0].message.content;
-
-    // Calculate cost and log usage
-    const promptTokens = data.usage?.prompt_tokens || 0;
-    const completionTokens = data.usage?.completion_tokens || 0;
-    const totalTokens = data.usage?.total_tokens || 0;
-    const cost = (promptTokens * 0.00015 / 1000) + (completionTokens * 0.0006 / 1000);
-
-    // Log successful usage
-    try {
-      await supabase.from('ai_usage_logs').insert({
-        user_id: user.id,
-        project_id: projectId,
-        feature_type: 'test_plan_generation',
-        tokens_used: totalTokens,
-        openai_model: 'gpt-4o-mini',
-        openai_tokens_prompt: promptTokens,
-        openai_tokens_completion: completionTokens,
-        openai_cost_usd: cost,
-        execution_time_ms: Date.now() - startTime,
+      await logAiUsage(supabase, {
+        userId: user.id,
+        projectId,
+        featureType: 'test_plan_generation',
+        config: llmConfig,
+        usage,
+        costUsd,
+        startTime,
         success: true
       });
-    } catch (logError) {
-      console.error('Failed to log AI usage:', logError);
+
+      console.log('Test plan section regenerated:', section.heading);
+
+      return new Response(JSON.stringify({
+        section: extractSection(content, section.heading),
+        metadata
+      }), {
+        headers: { ...corsHeaders, 'Content-Type': 'application/json' },
+      });
     }
+
+    // Streaming clients render the plan as it is written and keep what arrived if it stops early
+    if (body.stream) {
+      return sseResponse(async (send, signal) => {
+        send('start', { metadata });
+        const result = await streamChatCompletion(llmConfig, llmRequest, text => send('delta', { text }), signal);
+
+        await logAiUsage(supabase, {
+          userId: user.id,
+          projectId,
+          featureType: 'test_plan_generation',
+          config: llmConfig,
+          usage: result.usage,
+          costUsd: result.costUsd,
+          startTime,
+          success: !result.interrupted
+        });
+
+        if (result.interrupted) {
+          send('error', { error: 'Generation stopped before the test plan was complete' });
+        } else {
+          console.log('Test plan streamed successfully');
+          send('done', { truncated: result.truncated });
+        }
+      });
+    }
+
+    const { content: testPlan, usage, costUsd } = await chatCompletion(llmConfig, llmRequest);
+
+    await logAiUsage(supabase, {
+      userId: user.id,
+      projectId,
+      featureType: 'test_plan_generation',
+      config: llmConfig,
+      usage,
+      costUsd,
+      startTime,
+      success: true
+    });
     
     console.log('Test plan generated successfully');
 
     return new Response(JSON.stringify({ 
       testPlan,
-      metadata: {
-        projectName,
-        generatedAt: new Date().toISOString(),
-        userStoriesCount: userStories?.length || 0,
-        hasRequirementsDoc: !!requirementsDoc,
-        hasCustomPrompt: !!customPrompt,
-        testingScope
-      }
+      metadata
     }), {
       headers: { ...corsHeaders, 'Content-Type': 'application/json' },
     });
   } catch (error) {
     console.error('Error in generate-test-plan function:', error);
     return new Response(JSON.stringify({ error: error.message }), {
-      status: 500,
+      status: error instanceof CredentialError || error instanceof LlmError ? error.status : 500,
       headers: { ...corsHeaders, 'Content-Type': 'application/json' },
     });
   }
@@ -2,14 +2,18 @@ import "https://deno.land/x/xhr@0.1.0/mod.ts";
 import { serve } from "https://deno.land/std@0.168.0/http/server.ts";
 import { createClient } from 'https://esm.sh/@supabase/supabase-js@2'
 import { corsHeaders } from '../_shared/cors.ts'
+import { loadProjectSettings, buildSettingsContext } from '../_shared/project-settings.ts'
+import { CredentialError, assertProjectAccess } from '../_shared/credentials.ts'
+import { LlmError, LlmRequest, chatCompletion, loadLlmConfig, logAiUsage, modelLabel, streamChatCompletion } from '../_shared/llm.ts'
+import { sseResponse } from '../_shared/sse.ts'
+import { buildSectionRequest, extractSection, parseSectionRegeneration } from '../_shared/document-sections.ts'
+import { ReportCase, parseReportCases, parseReportCharts, parseRunComparison } from '../_shared/test-report.ts'
 
 const supabase = createClient(
   Deno.env.get('SUPABASE_URL') ?? '',
   Deno.env.get('SUPABASE_SERVICE_ROLE_KEY') ?? ''
 )
 
-const openAIApiKey = Deno.env.get('OPENAI_API_KEY');
-
 
 serve(async (req) => {
   // Handle CORS preflight requests
@@ -35,49 +39,101 @@ serve(async (req) => {
     }
 
     const body = await req.json();
-    const { testCases, projectName, testExecutionData, reportType, projectId } = body;
+    const { projectName, testExecutionData, reportType, projectId } = body;
 
     // Input validation
-    if (!testCases || !Array.isArray(testCases) || testCases.length === 0) {
+    const testCases = parseReportCases(body.testCases);
+    if (typeof testCases === 'string') {
       return new Response(
-        JSON.stringify({ error: 'Test cases array is required' }),
+        JSON.stringify({ error: testCases }),
         { status: 400, headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
       );
     }
 
-    if (!projectName || typeof projectName !== 'string' || projectName.length > 255) {
+    const comparison = parseRunComparison(body.comparison);
+    if (typeof comparison === 'string') {
       return new Response(
-        JSON.stringify({ error: 'Project name is required and must be less than 255 characters' }),
+        JSON.stringify({ error: comparison }),
         { status: 400, headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
       );
     }
 
-    if (reportType && !['executive', 'detailed', 'summary'].includes(reportType)) {
+    const charts = parseReportCharts(body.charts);
+    if (typeof charts === 'string') {
       return new Response(
-        JSON.stringify({ error: 'Report type must be one of: executive, detailed, summary' }),
+        JSON.stringify({ error: charts }),
         { status: 400, headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
       );
     }
 
-    // Limit test cases to prevent excessive API usage
-    if (testCases.length > 200) {
+    if (!projectName || typeof projectName !== 'string' || projectName.length > 255) {
       return new Response(
-        JSON.stringify({ error: 'Maximum 200 test cases allowed per request' }),
+        JSON.stringify({ error: 'Project name is required and must be less than 255 characters' }),
         { status: 400, headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
       );
     }
-    
+
+    if (reportType && !['executive', 'detailed', 'summary'].includes(reportType)) {
+      return new Response(
+        JSON.stringify({ error: 'Report type must be one of: executive, detailed, summary' }),
+        { status: 400, headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
+      );
+    }
+
+    // The project's LLM provider and its credentials are loaded from the encrypted vault
+    await assertProjectAccess(supabase, projectId, user.id);
+    const llmConfig = await loadLlmConfig(supabase, projectId);
+
     console.log('Generating test report for project:', projectName);
 
     // Calculate statistics
     const totalTests = testCases.length;
-    const passedTests = testCases.filter((tc: any) => tc.status === 'passed').length;
-    const failedTests = testCases.filter((tc: any) => tc.status === 'failed').length;
-    const blockedTests = testCases.filter((tc: any) => tc.status === 'blocked').length;
-    const pendingTests = testCases.filter((tc: any) => tc.status === 'pending').length;
+    const passedTests = testCases.filter(tc => tc.status === 'passed').length;
+    const failedTests = testCases.filter(tc => tc.status === 'failed').length;
+    const blockedTests = testCases.filter(tc => tc.status === 'blocked').length;
+    const pendingTests = testCases.filter(tc => tc.status === 'pending').length;
+    const skippedTests = testCases.filter(tc => tc.status === 'skipped').length;
     const passRate = totalTests > 0 ? ((passedTests / totalTests) * 100).toFixed(1) : 0;
+    const totalDurationSeconds = testCases.reduce((sum, tc) => sum + (tc.durationSeconds ?? 0), 0);
+    const defectIds = [...new Set(testCases.flatMap(tc => tc.defects))];
+
+    const projectSettings = await loadProjectSettings(supabase, projectId, user.id);
+    const settingsContext = buildSettingsContext(projectSettings, 'testReport');
+
+    // Reports built from a single execution run name it, with its environment and build
+    const runDetails = [
+      testExecutionData?.environment && `Environment: ${testExecutionData.environment}`,
+      testExecutionData?.buildVersion && `Build: ${testExecutionData.buildVersion}`,
+    ].filter(Boolean).join(', ');
+    const testRunLine = testExecutionData?.runName
+      ? `\nTest Run: ${testExecutionData.runName}${runDetails ? ` (${runDetails})` : ''}`
+      : '';
+
+    // Testers' free text is clipped so a long stack trace does not crowd out the other cases
+    const clip = (text: string) => text.length > 300 ? `${text.slice(0, 300)}...` : text;
+    const caseDetails = (tc: ReportCase) => [
+      tc.actualResult && `Actual Result: ${clip(tc.actualResult)}`,
+      tc.notes && `Notes: ${clip(tc.notes)}`,
+      tc.defects.length > 0 && `Linked Defects: ${tc.defects.join(', ')}`,
+      tc.durationSeconds !== null && `Duration: ${tc.durationSeconds}s`,
+      tc.previousStatus && `Previous Run Status: ${tc.previousStatus}`,
+    ].filter(Boolean).map(line => `\n   ${line}`).join('');
+
+    const listTitles = (titles: string[]) => titles.length > 0 ? titles.slice(0, 50).join('; ') : 'None';
+    const comparisonBlock = comparison
+      ? `\n\nComparison with previous run "${comparison.runName}" (pass rate ${comparison.passRate}%):
+- New Failures: ${listTitles(comparison.newFailures)}
+- Fixed: ${listTitles(comparison.fixed)}
+- Still Failing: ${listTitles(comparison.stillFailing)}`
+      : '';
 
-    const prompt = `Generate a professional test execution report for the project "${projectName}".
+    // Charts are drawn by the application; the report only says where each one goes
+    const chartInstructions = charts.length > 0
+      ? `\n\nThe following charts are rendered from the execution data and embedded in the report. Place each marker exactly as written, on a line of its own, in the section that discusses it, and do not describe the chart's values in a table:
+${charts.map(chart => `- {{chart:${chart.id}}}: ${chart.title}`).join('\n')}`
+      : '';
+
+    let prompt = `Generate a professional test execution report for the project "${projectName}".
 
 Test Statistics:
 - Total Test Cases: ${totalTests}
@@ -85,24 +141,26 @@ Test Statistics:
 - Failed: ${failedTests}
 - Blocked: ${blockedTests}
 - Pending: ${pendingTests}
+- Skipped: ${skippedTests}
 - Pass Rate: ${passRate}%
+- Total Execution Time: ${totalDurationSeconds}s
+- Linked Defects: ${defectIds.length > 0 ? defectIds.join(', ') : 'None'}
 
 Test Cases Details:
-${testCases.map((tc: any, index: number) => `
+${testCases.map((tc, index) => `
 ${index + 1}. ${tc.title}
    Status: ${tc.status}
    Priority: ${tc.priority}
-   User Story: ${tc.userStoryTitle || 'N/A'}
-   ${tc.status === 'failed' ? 'Issue: Test failed during execution' : ''}
-`).join('\n')}
+   User Story: ${tc.userStoryTitle || 'N/A'}${caseDetails(tc)}
+`).join('\n')}${comparisonBlock}
 
-Report Type: ${reportType || 'Executive Summary'}
+Report Type: ${reportType || 'Executive Summary'}${testRunLine}
 Execution Period: ${testExecutionData?.startDate || 'N/A'} to ${testExecutionData?.endDate || new Date().toISOString().split('T')[0]}
 
 Create a detailed test execution report that includes:
 1. Executive Summary
 2. Test Execution Overview
-3. Test Results Summary with charts description
+3. Test Results Summary
 4. Detailed Test Results by Priority/User Story
 5. Failed Test Cases Analysis
 6. Risk Assessment
@@ -110,86 +168,130 @@ Create a detailed test execution report that includes:
 8. Recommendations and Next Steps
 9. Appendix with test case details
 
-Format the response as a professional document with clear sections, bullet points, and actionable insights.`;
-
-    const response = await fetch('https://api.openai.com/v1/chat/completions', {
-      method: 'POST',
-      headers: {
-        'Authorization': `Bearer ${openAIApiKey}`,
-        'Content-Type': 'application/json',
-      },
-      body: JSON.stringify({
-        model: 'gpt-4o-mini',
-        messages: [
-          { 
-            role: 'system', 
-            content: 'You are a senior QA manager with expertise in test reporting, quality metrics, and stakeholder communication. Generate comprehensive, data-driven test reports that provide clear insights and actionable recommendations.' 
-          },
-          { role: 'user', content: prompt }
-        ],
-        temperature: 0.6,
-        max_tokens: 4000,
-      }),
-    });
+Format the response as a professional Markdown document: a "#" title, a "##" heading for each numbered section above, "###" headings for subsections, bullet points, and actionable insights. Base the failure analysis on the actual results, notes and linked defects given for each case.${chartInstructions}`;
 
-    const data = await response.json();
-    
-    if (!response.ok) {
-      console.error('OpenAI API error:', data);
-      throw new Error(data.error?.message || 'Failed to generate test report');
+    if (settingsContext) {
+      prompt += `\n\n${settingsContext}`;
     }
 
-    const testReport = data.choices[0].message.content;
-
-    // Calculate cost and log usage
-    const promptTokens = data.usage?.prompt_tokens || 0;
-    const completionTokens = data.usage?.completion_tokens || 0;
-    const totalTokens = data.usage?.total_tokens || 0;
-    const cost = (promptTokens * 0.00015 / 1000) + (completionTokens * 0.0006 / 1000);
-
-    // Log successful usage
-    try {
-      await supabase.from('ai_usage_logs').insert({
-        user_id: user.id,
-        project_id: projectId,
-        feature_type: 'test_report_generation',
-        tokens_used: totalTokens,
-        openai_model: 'gpt-4o-mini',
-        openai_tokens_prompt: promptTokens,
-        openai_tokens_completion: completionTokens,
-        openai_cost_usd: cost,
-        execution_time_ms: Date.now() - startTime,
+    const llmRequest: LlmRequest = {
+      messages: [
+        { 
+          role: 'system', 
+          content: 'You are a senior QA manager with expertise in test reporting, quality metrics, and stakeholder communication. Generate comprehensive, data-driven test reports that provide clear insights and actionable recommendations.' 
+        },
+        { role: 'user', content: prompt }
+      ],
+      temperature: 0.6,
+      maxTokens: 4000,
+    };
+
+    const statistics = {
+      totalTests,
+      passedTests,
+      failedTests,
+      blockedTests,
+      pendingTests,
+      skippedTests,
+      passRate: parseFloat(passRate),
+      totalDurationSeconds,
+      linkedDefects: defectIds.length
+    };
+    const metadata = {
+      projectName,
+      generatedAt: new Date().toISOString(),
+      reportType,
+      executionPeriod: testExecutionData,
+      settingsVersion: projectSettings?.version ?? null,
+      // Recorded with each saved report
+      model: modelLabel(llmConfig)
+    };
+
+    // Editors regenerate a single section of a document they have already generated
+    if (body.section) {
+      const section = parseSectionRegeneration(body.section);
+      if (typeof section === 'string') {
+        return new Response(
+          JSON.stringify({ error: section }),
+          { status: 400, headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
+        );
+      }
+
+      const { content, usage, costUsd } = await chatCompletion(llmConfig, buildSectionRequest(llmRequest, section, 'test report'));
+
+      await logAiUsage(supabase, {
+        userId: user.id,
+        projectId,
+        featureType: 'test_report_generation',
+        config: llmConfig,
+        usage,
+        costUsd,
+        startTime,
         success: true
       });
-    } catch (logError) {
-      console.error('Failed to log AI usage:', logError);
+
+      console.log('Test report section regenerated:', section.heading);
+
+      return new Response(JSON.stringify({
+        section: extractSection(content, section.heading),
+        metadata
+      }), {
+        headers: { ...corsHeaders, 'Content-Type': 'application/json' },
+      });
+    }
+
+    // Streaming clients render the report as it is written and keep what arrived if it stops early
+    if (body.stream) {
+      return sseResponse(async (send, signal) => {
+        send('start', { statistics, metadata });
+        const result = await streamChatCompletion(llmConfig, llmRequest, text => send('delta', { text }), signal);
+
+        await logAiUsage(supabase, {
+          userId: user.id,
+          projectId,
+          featureType: 'test_report_generation',
+          config: llmConfig,
+          usage: result.usage,
+          costUsd: result.costUsd,
+          startTime,
+          success: !result.interrupted
+        });
+
+        if (result.interrupted) {
+          send('error', { error: 'Generation stopped before the test report was complete' });
+        } else {
+          console.log('Test report streamed successfully');
+          send('done', { truncated: result.truncated });
+        }
+      });
     }
+
+    const { content: testReport, usage, costUsd } = await chatCompletion(llmConfig, llmRequest);
+
+    await logAiUsage(supabase, {
+      userId: user.id,
+      projectId,
+      featureType: 'test_report_generation',
+      config: llmConfig,
+      usage,
+      costUsd,
+      startTime,
+      success: true
+    });
     
     console.log('Test report generated successfully');
 
     return new Response(JSON.stringify({ 
       testReport,
-      statistics: {
-        totalTests,
-        passedTests,
-        failedTests,
-        blockedTests,
-        pendingTests,
-        passRate: parseFloat(passRate)
-      },
-      metadata: {
-        projectName,
-        generatedAt: new Date().toISOString(),
-        reportType,
-        executionPeriod: testExecutionData
-      }
+      statistics,
+      metadata
     }), {
       headers: { ...corsHeaders, 'Content-Type': 'application/json' },
     });
   } catch (error) {
     console.error('Error in generate-test-report function:', error);
     return new Response(JSON.stringify({ error: error.message }), {
-      status: 500,
+      status: error instanceof CredentialError || error instanceof LlmError ? error.status : 500,
       headers: { ...corsHeaders, 'Content-Type': 'application/json' },
     });
   }
@@ -1,17 +1,25 @@
 import "https://deno.land/x/xhr@0.1.0/mod.ts";
 import { serve } from "https://deno.land/std@0.168.0/http/server.ts";
+import { createClient } from 'https://esm.sh/@supabase/supabase-js@2'
+import { CredentialError, getRequestUser, assertProjectAccess, requireIntegrationCredential } from '../_shared/credentials.ts'
+import { adfToMarkdown } from '../_shared/adf.ts'
 
 const corsHeaders = {
   'Access-Control-Allow-Origin': '*',
   'Access-Control-Allow-Headers': 'authorization, x-client-info, apikey, content-type',
 };
 
+const supabase = createClient(
+  Deno.env.get('SUPABASE_URL') ?? '',
+  Deno.env.get('SUPABASE_SERVICE_ROLE_KEY') ?? ''
+);
+
 interface JiraIssue {
   id: string;
   key: string;
   fields: {
     summary: string;
-    description: string;
+    description: unknown;
     issuetype: {
       name: string;
     };
@@ -21,98 +29,192 @@ interface JiraIssue {
     status: {
       name: string;
     };
+    updated: string;
+    [customField: string]: unknown;
   };
 }
 
+const SEARCH_FIELDS = ['summary', 'description', 'issuetype', 'priority', 'status', 'updated'];
+const CUSTOM_FIELD_PATTERN = /^customfield_\d+$/;
+const PAGE_SIZE = 100;
+const MAX_ISSUES = 5000;
+
+type SearchResult =
+  | { issues: JiraIssue[]; truncated: boolean }
+  | { error: string; status: number };
+
+function parseStoryPoints(value: unknown): number | null {
+  const points = typeof value === 'number' ? value : parseFloat(String(value ?? ''));
+  return Number.isFinite(points) ? points : null;
+}
+
+// The sprint field holds every sprint the issue has been in: objects on Jira Cloud, and
+// "com.atlassian.greenhopper.service.sprint.Sprint@...[state=ACTIVE,name=Sprint 4,...]" strings
+// on older servers. The active sprint wins, otherwise the most recent one.
+function parseSprint(value: unknown): string | null {
+  if (!Array.isArray(value) || value.length === 0) return null;
+  const sprints = value.map((sprint) => {
+    if (sprint && typeof sprint === 'object') {
+      const { name, state } = sprint as { name?: unknown; state?: unknown };
+      return { name: typeof name === 'string' ? name : '', state: typeof state === 'string' ? state : '' };
+    }
+    const text = String(sprint ?? '');
+    return { name: text.match(/[[,]name=([^,\]]*)/)?.[1] ?? '', state: text.match(/[[,]state=([^,\]]*)/)?.[1] ?? '' };
+  }).filter((sprint) => sprint.name);
+  const active = sprints.find((sprint) => sprint.state.toLowerCase() === 'active');
+  return (active ?? sprints[sprints.length - 1])?.name ?? null;
+}
+
+// Jira evaluates JQL dates in the account's timezone, so step back a day and let the
+// client skip issues whose updated timestamp has not changed
+function formatJqlDate(date: Date): string {
+  const margin = new Date(date.getTime() - 24 * 60 * 60 * 1000);
+  const pad = (value: number) => String(value).padStart(2, '0');
+  return `${margin.getUTCFullYear()}/${pad(margin.getUTCMonth() + 1)}/${pad(margin.getUTCDate())} ${pad(margin.getUTCHours())}:${pad(margin.getUTCMinutes())}`;
+}
+
+// Pages through the enhanced search API (nextPageToken), falling back to the
+// legacy startAt pagination on Jira instances that don't offer it yet
+async function searchAllIssues(jiraUrl: string, auth: string, jql: string, fields: string[]): Promise<SearchResult> {
+  const headers = {
+    'Authorization': `Basic ${auth}`,
+    'Accept': 'application/json',
+    'Content-Type': 'application/json',
+  };
+  const issues: JiraIssue[] = [];
+  let useLegacySearch = false;
+  let nextPageToken: string | undefined;
+
+  while (issues.length < MAX_ISSUES) {
+    const response = useLegacySearch
+      ? await fetch(`${jiraUrl}/rest/api/3/search`, {
+          method: 'POST',
+          headers,
+          body: JSON.stringify({ jql, fields, startAt: issues.length, maxResults: PAGE_SIZE }),
+        })
+      : await fetch(`${jiraUrl}/rest/api/3/search/jql`, {
+          method: 'POST',
+          headers,
+          body: JSON.stringify({ jql, fields, maxResults: PAGE_SIZE, nextPageToken }),
+        });
+
+    if (!useLegacySearch && issues.length === 0 && response.status === 404) {
+      console.log('Enhanced Jira search not available, using legacy pagination');
+      useLegacySearch = true;
+      continue;
+    }
+
+    if (!response.ok) {
+      const errorText = await response.text();
+      console.error('Jira API error:', response.status, errorText);
+      return { error: errorText, status: response.status };
+    }
+
+    const data = await response.json();
+    const page: JiraIssue[] = data.issues || [];
+    issues.push(...page);
+
+    const isLastPage = useLegacySearch
+      ? page.length === 0 || issues.length >= (data.total ?? 0)
+      : data.isLast === true || !data.nextPageToken;
+    if (isLastPage) {
+      return { issues, truncated: false };
+    }
+    nextPageToken = data.nextPageToken;
+  }
+
+  console.warn(`Stopped Jira import after ${MAX_ISSUES} issues`);
+  return { issues: issues.slice(0, MAX_ISSUES), truncated: true };
+}
+
 serve(async (req) => {
   if (req.method === 'OPTIONS') {
     return new Response(null, { headers: corsHeaders });
   }
 
   try {
-    const body = await req.json();
-    const { jiraUrl, email, apiToken, projectKey } = body;
-
-    // Input validation
-    if (!jiraUrl || !email || !apiToken || !projectKey) {
+    const user = await getRequestUser(supabase, req);
+    if (!user) {
       return new Response(
-        JSON.stringify({ error: 'Missing required parameters: jiraUrl, email, apiToken, projectKey' }),
-        { status: 400, headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
+        JSON.stringify({ error: 'Unauthorized' }),
+        { status: 401, headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
       );
     }
 
-    // Validate URL format
-    try {
-      const url = new URL(jiraUrl);
-      if (!url.protocol.startsWith('http')) {
-        throw new Error('Invalid URL protocol');
-      }
-    } catch {
-      return new Response(
-        JSON.stringify({ error: 'Invalid Jira URL format' }),
-        { status: 400, headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
-      );
-    }
+    const body = await req.json();
+    const { projectId } = body;
+
+    await assertProjectAccess(supabase, projectId, user.id);
+
+    // Credentials come from the project's encrypted vault, never from the request body
+    const credential = await requireIntegrationCredential(supabase, projectId, 'jira');
+    const { email, projectKey } = credential.config;
+    const jiraUrl = credential.config.url.endsWith('/') ? credential.config.url.slice(0, -1) : credential.config.url;
+    const apiToken = credential.secret;
 
-    // Validate email format
-    const emailRegex = /^[^\s@]+@[^\s@]+\.[^\s@]+$/;
-    if (!emailRegex.test(email)) {
+    // Sanitize projectKey for JQL query
+    const sanitizedProjectKey = projectKey.replace(/[^a-zA-Z0-9_-]/g, '');
+
+    // Request filter takes precedence over the one saved with the integration
+    const jqlFilter = typeof body.jql === 'string' ? body.jql.trim() : (credential.config.jqlFilter || '').trim();
+    if (jqlFilter.length > 1000 || /\border\s+by\b/i.test(jqlFilter)) {
       return new Response(
-        JSON.stringify({ error: 'Invalid email format' }),
+        JSON.stringify({ error: 'JQL filter must be under 1000 characters and must not contain ORDER BY' }),
         { status: 400, headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
       );
     }
 
-    // Validate input lengths
-    if (jiraUrl.length > 500 || email.length > 100 || apiToken.length > 500 || projectKey.length > 50) {
-      return new Response(
-        JSON.stringify({ error: 'Input parameters exceed maximum length' }),
-        { status: 400, headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
-      );
+    // Incremental sync only asks for issues changed since the last completed sync
+    const updatedSince = body.incremental && credential.lastSyncedAt ? new Date(credential.lastSyncedAt) : null;
+    const syncStartedAt = new Date().toISOString();
+
+    const jqlParts = [`project = "${sanitizedProjectKey}"`];
+    if (jqlFilter) {
+      jqlParts.push(`(${jqlFilter})`);
+    }
+    if (updatedSince) {
+      jqlParts.push(`updated >= "${formatJqlDate(updatedSince)}"`);
     }
+    const jql = `${jqlParts.join(' AND ')} ORDER BY updated ASC`;
 
-    // Sanitize projectKey for JQL query
-    const sanitizedProjectKey = projectKey.replace(/[^a-zA-Z0-9_-]/g, '');
+    console.log(`Fetching Jira issues with JQL: ${jql}`);
 
-    console.log(`Fetching Jira issues from project: ${projectKey}`);
+    // Custom field ids differ per Jira site, so they come from the integration settings
+    const { acceptanceCriteriaField, storyPointsField, sprintField } = credential.config;
+    const customFields = [acceptanceCriteriaField, storyPointsField, sprintField].filter(
+      (field): field is string => !!field && CUSTOM_FIELD_PATTERN.test(field)
+    );
 
     const auth = btoa(`${email}:${apiToken}`);
-    const jiraApiUrl = `${jiraUrl}/rest/api/3/search?jql=project=${sanitizedProjectKey}&fields=summary,description,issuetype,priority,status&maxResults=50`;
-
-    const response = await fetch(jiraApiUrl, {
-      method: 'GET',
-      headers: {
-        'Authorization': `Basic ${auth}`,
-        'Accept': 'application/json',
-        'Content-Type': 'application/json',
-      },
-    });
+    const searchResult = await searchAllIssues(jiraUrl, auth, jql, [...SEARCH_FIELDS, ...customFields]);
 
-    if (!response.ok) {
-      const errorText = await response.text();
-      console.error('Jira API error:', response.status, errorText);
+    if ('error' in searchResult) {
       return new Response(
         JSON.stringify({ 
-          error: `Jira API error: ${response.status}`,
-          details: errorText 
+          error: `Jira API error: ${searchResult.status}`,
+          details: searchResult.error 
         }),
-        { status: response.status, headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
+        { status: searchResult.status, headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
       );
     }
 
-    const data = await response.json();
-    const issues: JiraIssue[] = data.issues || [];
+    const { issues, truncated } = searchResult;
 
     // Transform Jira issues to user stories format
     const userStories = issues.map((issue: JiraIssue) => ({
       id: issue.key,
       title: issue.fields.summary,
-      description: issue.fields.description || 'No description provided',
+      description: adfToMarkdown(issue.fields.description) || 'No description provided',
+      acceptanceCriteria: acceptanceCriteriaField ? adfToMarkdown(issue.fields[acceptanceCriteriaField]) : '',
+      storyPoints: storyPointsField ? parseStoryPoints(issue.fields[storyPointsField]) : null,
+      sprint: sprintField ? parseSprint(issue.fields[sprintField]) : null,
       priority: issue.fields.priority?.name || 'Medium',
       status: issue.fields.status?.name || 'To Do',
       source: 'Jira',
       issueType: issue.fields.issuetype?.name || 'Story',
-      jiraKey: issue.key
+      jiraKey: issue.key,
+      url: `${jiraUrl}/browse/${issue.key}`,
+      updated: issue.fields.updated || null
     }));
 
     console.log(`Successfully fetched ${userStories.length} issues from Jira`);
@@ -121,13 +223,22 @@ serve(async (req) => {
       JSON.stringify({ 
         success: true, 
         stories: userStories,
-        totalCount: data.total || userStories.length
+        totalCount: userStories.length,
+        truncated,
+        incremental: !!updatedSince,
+        syncStartedAt
       }),
       { headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
     );
 
   } catch (error) {
     console.error('Error in jira-integration function:', error);
+    if (error instanceof CredentialError) {
+      return new Response(
+        JSON.stringify({ error: error.message }),
+        { status: error.status, headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
+      );
+    }
     return new Response(
       JSON.stringify({ 
         error: 'Failed to fetch Jira issues',
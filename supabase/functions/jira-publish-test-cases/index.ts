@@ -0,0 +1,249 @@
+import { serve } from "https://deno.land/std@0.168.0/http/server.ts";
+import { createClient } from 'https://esm.sh/@supabase/supabase-js@2'
+import { corsHeaders } from '../_shared/cors.ts'
+import {
+  CredentialError,
+  IntegrationCredential,
+  getRequestUser,
+  assertProjectAccess,
+  requireIntegrationCredential,
+} from '../_shared/credentials.ts'
+import { adfDocument, adfHeading, adfParagraph, adfTable } from '../_shared/adf.ts'
+import { readTestSteps } from '../_shared/test-steps.ts'
+
+const supabase = createClient(
+  Deno.env.get('SUPABASE_URL') ?? '',
+  Deno.env.get('SUPABASE_SERVICE_ROLE_KEY') ?? ''
+)
+
+const MAX_TEST_CASES = 100;
+
+interface TestCaseRow {
+  id: string;
+  project_id: string;
+  title: string;
+  description: string | null;
+  steps: string | null;
+  test_steps: unknown;
+  expected_result: string | null;
+  priority: string | null;
+  jira_issue_key: string | null;
+  user_stories: { external_source: string | null; external_id: string | null } | null;
+}
+
+interface PublishResult {
+  testCaseId: string;
+  status: 'created' | 'updated' | 'failed';
+  issueKey?: string;
+  issueUrl?: string;
+  error?: string;
+  warning?: string;
+}
+
+class JiraRequestError extends Error {
+  status: number;
+
+  constructor(message: string, status: number) {
+    super(message);
+    this.status = status;
+  }
+}
+
+const jsonResponse = (body: unknown, status = 200) =>
+  new Response(JSON.stringify(body), {
+    status,
+    headers: { ...corsHeaders, 'Content-Type': 'application/json' },
+  });
+
+function buildDescription(testCase: TestCaseRow) {
+  const steps = readTestSteps(testCase);
+  const stepRows = steps.map((step, index) => [String(index + 1), step.action, step.testData, step.expectedResult]);
+
+  return adfDocument([
+    adfParagraph(testCase.description || ''),
+    adfHeading('Steps'),
+    steps.length > 0
+      ? adfTable(['#', 'Action', 'Test Data', 'Expected Result'], stepRows)
+      : adfParagraph('No steps defined'),
+    adfHeading('Expected Result'),
+    adfParagraph(testCase.expected_result || ''),
+    adfParagraph(`Priority: ${testCase.priority || 'medium'}`),
+  ]);
+}
+
+function createJiraClient(credential: IntegrationCredential) {
+  const baseUrl = credential.config.url.endsWith('/') ? credential.config.url.slice(0, -1) : credential.config.url;
+  const auth = btoa(`${credential.config.email}:${credential.secret}`);
+
+  const request = async (method: string, path: string, body?: unknown) => {
+    const response = await fetch(`${baseUrl}${path}`, {
+      method,
+      headers: {
+        'Authorization': `Basic ${auth}`,
+        'Accept': 'application/json',
+        'Content-Type': 'application/json',
+      },
+      body: body ? JSON.stringify(body) : undefined,
+    });
+
+    if (!response.ok) {
+      const errorText = await response.text();
+      console.error(`Jira ${method} ${path} failed:`, response.status, errorText.substring(0, 500));
+      let message = `Jira API error: ${response.status}`;
+      try {
+        const details = JSON.parse(errorText);
+        const fieldErrors = Object.values(details.errors || {});
+        message = [...(details.errorMessages || []), ...fieldErrors].join('; ') || message;
+      } catch {
+        // Keep the status based message
+      }
+      throw new JiraRequestError(message, response.status);
+    }
+
+    return response.status === 204 ? null : response.json();
+  };
+
+  return { baseUrl, request };
+}
+
+async function publishProjectTestCases(projectId: string, testCases: TestCaseRow[]): Promise<PublishResult[]> {
+  const credential = await requireIntegrationCredential(supabase, projectId, 'jira');
+  const { baseUrl, request } = createJiraClient(credential);
+  const projectKey = credential.config.projectKey.replace(/[^a-zA-Z0-9_-]/g, '');
+  const testIssueType = credential.config.testIssueType || 'Test';
+  const testLinkType = credential.config.testLinkType || 'Test';
+
+  const results: PublishResult[] = [];
+
+  for (const testCase of testCases) {
+    const fields = {
+      summary: testCase.title.substring(0, 255),
+      description: buildDescription(testCase),
+    };
+
+    try {
+      let issueKey = testCase.jira_issue_key;
+      let status: PublishResult['status'] = 'updated';
+
+      if (issueKey) {
+        try {
+          await request('PUT', `/rest/api/3/issue/${encodeURIComponent(issueKey)}`, { fields });
+        } catch (error) {
+          // The issue was deleted in Jira, so publish it again as a new one
+          if (!(error instanceof JiraRequestError) || error.status !== 404) throw error;
+          issueKey = null;
+        }
+      }
+
+      let warning: string | undefined;
+      if (!issueKey) {
+        const created = await request('POST', '/rest/api/3/issue', {
+          fields: {
+            ...fields,
+            project: { key: projectKey },
+            issuetype: { name: testIssueType },
+          },
+        });
+        issueKey = created.key as string;
+        status = 'created';
+
+        const storyKey = testCase.user_stories?.external_source === 'jira' ? testCase.user_stories.external_id : null;
+        if (storyKey) {
+          try {
+            // Jira renders the link's outward description ("tests") on the inwardIssue side
+            await request('POST', '/rest/api/3/issueLink', {
+              type: { name: testLinkType },
+              inwardIssue: { key: issueKey },
+              outwardIssue: { key: storyKey },
+            });
+          } catch (error) {
+            warning = `Created but could not link to ${storyKey}: ${error.message}`;
+          }
+        }
+      }
+
+      const issueUrl = `${baseUrl}/browse/${issueKey}`;
+      const { error: updateError } = await supabase
+        .from('test_cases')
+        .update({
+          jira_issue_key: issueKey,
+          jira_issue_url: issueUrl,
+          jira_synced_at: new Date().toISOString(),
+        })
+        .eq('id', testCase.id);
+
+      if (updateError) throw updateError;
+
+      results.push({ testCaseId: testCase.id, status, issueKey: issueKey!, issueUrl, warning });
+    } catch (error) {
+      console.error(`Failed to publish test case ${testCase.id}:`, error);
+      results.push({ testCaseId: testCase.id, status: 'failed', error: error.message || 'Failed to publish' });
+    }
+  }
+
+  return results;
+}
+
+serve(async (req) => {
+  if (req.method === 'OPTIONS') {
+    return new Response(null, { headers: corsHeaders });
+  }
+
+  try {
+    const user = await getRequestUser(supabase, req);
+    if (!user) {
+      return jsonResponse({ error: 'Unauthorized' }, 401);
+    }
+
+    const { testCaseIds } = await req.json();
+
+    if (!Array.isArray(testCaseIds) || testCaseIds.length === 0) {
+      return jsonResponse({ error: 'testCaseIds must be a non-empty array' }, 400);
+    }
+    if (testCaseIds.length > MAX_TEST_CASES) {
+      return jsonResponse({ error: `A maximum of ${MAX_TEST_CASES} test cases can be published at once` }, 400);
+    }
+
+    const { data, error } = await supabase
+      .from('test_cases')
+      .select('id, project_id, title, description, steps, test_steps, expected_result, priority, jira_issue_key, user_stories(external_source, external_id)')
+      .in('id', testCaseIds);
+
+    if (error) throw error;
+
+    // Credentials are stored per project, so publish each project's test cases with its own Jira settings
+    const byProject = new Map<string, TestCaseRow[]>();
+    for (const testCase of (data || []) as TestCaseRow[]) {
+      byProject.set(testCase.project_id, [...(byProject.get(testCase.project_id) || []), testCase]);
+    }
+
+    const results: PublishResult[] = [];
+    for (const [projectId, testCases] of byProject) {
+      try {
+        await assertProjectAccess(supabase, projectId, user.id);
+        results.push(...await publishProjectTestCases(projectId, testCases));
+      } catch (error) {
+        const message = error instanceof CredentialError ? error.message : 'Failed to publish test cases';
+        results.push(...testCases.map(testCase => ({ testCaseId: testCase.id, status: 'failed' as const, error: message })));
+      }
+    }
+
+    const foundIds = new Set((data || []).map(testCase => testCase.id));
+    for (const testCaseId of testCaseIds) {
+      if (!foundIds.has(testCaseId)) {
+        results.push({ testCaseId, status: 'failed', error: 'Test case not found' });
+      }
+    }
+
+    return jsonResponse({
+      success: true,
+      results,
+      created: results.filter(result => result.status === 'created').length,
+      updated: results.filter(result => result.status === 'updated').length,
+      failed: results.filter(result => result.status === 'failed').length,
+    });
+  } catch (error) {
+    console.error('Error in jira-publish-test-cases function:', error);
+    return jsonResponse({ error: 'Failed to publish test cases to Jira', details: error.message }, 500);
+  }
+});
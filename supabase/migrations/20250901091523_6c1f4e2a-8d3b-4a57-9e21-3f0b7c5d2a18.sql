@@ -0,0 +1,128 @@
+-- Create test_runs table to record execution runs
+CREATE TABLE public.test_runs (
+  id UUID NOT NULL DEFAULT gen_random_uuid() PRIMARY KEY,
+  project_id UUID REFERENCES public.projects(id) ON DELETE CASCADE NOT NULL,
+  name TEXT NOT NULL,
+  build_version TEXT,
+  environment TEXT,
+  tester_id UUID NOT NULL,
+  tester_name TEXT,
+  status TEXT NOT NULL DEFAULT 'in-progress',
+  started_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(),
+  completed_at TIMESTAMP WITH TIME ZONE,
+  created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(),
+  updated_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(),
+  CONSTRAINT test_runs_name_length_check CHECK (length(name) >= 1 AND length(name) <= 255),
+  CONSTRAINT test_runs_status_check CHECK (status IN ('in-progress', 'completed', 'aborted'))
+);
+
+-- Create test_run_results table holding one row per executed case per run
+CREATE TABLE public.test_run_results (
+  id UUID NOT NULL DEFAULT gen_random_uuid() PRIMARY KEY,
+  run_id UUID REFERENCES public.test_runs(id) ON DELETE CASCADE NOT NULL,
+  test_case_id UUID REFERENCES public.test_cases(id) ON DELETE CASCADE NOT NULL,
+  project_id UUID REFERENCES public.projects(id) ON DELETE CASCADE NOT NULL,
+  status TEXT NOT NULL DEFAULT 'not-run',
+  actual_result TEXT,
+  notes TEXT,
+  executed_by UUID,
+  executed_at TIMESTAMP WITH TIME ZONE,
+  created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(),
+  updated_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(),
+  CONSTRAINT test_run_results_status_check CHECK (status IN ('not-run', 'passed', 'failed', 'blocked', 'skipped')),
+  CONSTRAINT test_run_results_run_case_unique UNIQUE (run_id, test_case_id)
+);
+
+-- Enable RLS
+ALTER TABLE public.test_runs ENABLE ROW LEVEL SECURITY;
+ALTER TABLE public.test_run_results ENABLE ROW LEVEL SECURITY;
+
+-- Create policies for test_runs
+CREATE POLICY "Users can view test runs from their projects" 
+ON public.test_runs 
+FOR SELECT 
+USING (EXISTS (
+  SELECT 1 FROM public.projects 
+  WHERE projects.id = test_runs.project_id 
+  AND projects.created_by = auth.uid()
+));
+
+CREATE POLICY "Users can create test runs in their projects" 
+ON public.test_runs 
+FOR INSERT 
+WITH CHECK (EXISTS (
+  SELECT 1 FROM public.projects 
+  WHERE projects.id = project_id 
+  AND projects.created_by = auth.uid()
+));
+
+CREATE POLICY "Users can update test runs in their projects" 
+ON public.test_runs 
+FOR UPDATE 
+USING (EXISTS (
+  SELECT 1 FROM public.projects 
+  WHERE projects.id = test_runs.project_id 
+  AND projects.created_by = auth.uid()
+));
+
+CREATE POLICY "Users can delete test runs in their projects" 
+ON public.test_runs 
+FOR DELETE 
+USING (EXISTS (
+  SELECT 1 FROM public.projects 
+  WHERE projects.id = test_runs.project_id 
+  AND projects.created_by = auth.uid()
+));
+
+-- Create policies for test_run_results
+CREATE POLICY "Users can view test run results from their projects" 
+ON public.test_run_results 
+FOR SELECT 
+USING (EXISTS (
+  SELECT 1 FROM public.projects 
+  WHERE projects.id = test_run_results.project_id 
+  AND projects.created_by = auth.uid()
+));
+
+CREATE POLICY "Users can create test run results in their projects" 
+ON public.test_run_results 
+FOR INSERT 
+WITH CHECK (EXISTS (
+  SELECT 1 FROM public.projects 
+  WHERE projects.id = project_id 
+  AND projects.created_by = auth.uid()
+));
+
+CREATE POLICY "Users can update test run results in their projects" 
+ON public.test_run_results 
+FOR UPDATE 
+USING (EXISTS (
+  SELECT 1 FROM public.projects 
+  WHERE projects.id = test_run_results.project_id 
+  AND projects.created_by = auth.uid()
+));
+
+CREATE POLICY "Users can delete test run results in their projects" 
+ON public.test_run_results 
+FOR DELETE 
+USING (EXISTS (
+  SELECT 1 FROM public.projects 
+  WHERE projects.id = test_run_results.project_id 
+  AND projects.created_by = auth.uid()
+));
+
+-- Triggers for automatic timestamp updates
+CREATE TRIGGER update_test_runs_updated_at
+BEFORE UPDATE ON public.test_runs
+FOR EACH ROW
+EXECUTE FUNCTION public.update_updated_at_column();
+
+CREATE TRIGGER update_test_run_results_updated_at
+BEFORE UPDATE ON public.test_run_results
+FOR EACH ROW
+EXECUTE FUNCTION public.update_updated_at_column();
+
+-- Indexes for execution history lookups
+CREATE INDEX idx_test_runs_project_id ON public.test_runs(project_id, started_at DESC);
+CREATE INDEX idx_test_run_results_test_case_id ON public.test_run_results(test_case_id, executed_at DESC);
+CREATE INDEX idx_test_run_results_run_id ON public.test_run_results(run_id);
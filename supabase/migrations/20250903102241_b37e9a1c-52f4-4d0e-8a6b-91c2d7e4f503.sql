@@ -0,0 +1,10 @@
+-- Track revisions of the AI generation context so generated output can reference the version it used
+ALTER TABLE public.projects 
+ADD COLUMN markdown_settings_version INTEGER NOT NULL DEFAULT 0;
+
+-- Projects that already saved settings start at version 1
+UPDATE public.projects 
+SET markdown_settings_version = 1 
+WHERE markdown_settings IS NOT NULL AND markdown_settings <> '';
+
+COMMENT ON COLUMN public.projects.markdown_settings_version IS 'Incremented every time markdown_settings is saved; reported by the AI generators alongside their output';
@@ -0,0 +1,30 @@
+-- Create integration_credentials table: per-project integration settings with secrets encrypted at rest
+CREATE TABLE public.integration_credentials (
+  id UUID NOT NULL DEFAULT gen_random_uuid() PRIMARY KEY,
+  project_id UUID REFERENCES public.projects(id) ON DELETE CASCADE NOT NULL,
+  integration_id TEXT NOT NULL,
+  config JSONB NOT NULL DEFAULT '{}'::jsonb,
+  secret_ciphertext TEXT NOT NULL,
+  secret_iv TEXT NOT NULL,
+  secret_hint TEXT,
+  enabled BOOLEAN NOT NULL DEFAULT true,
+  last_verified_at TIMESTAMP WITH TIME ZONE,
+  created_by UUID NOT NULL,
+  created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(),
+  updated_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(),
+  CONSTRAINT integration_credentials_project_integration_unique UNIQUE (project_id, integration_id)
+);
+
+-- Enable RLS without any client policies: credentials are only read and written
+-- by edge functions using the service role, so ciphertext never reaches the browser
+ALTER TABLE public.integration_credentials ENABLE ROW LEVEL SECURITY;
+
+CREATE TRIGGER update_integration_credentials_updated_at
+BEFORE UPDATE ON public.integration_credentials
+FOR EACH ROW
+EXECUTE FUNCTION public.update_updated_at_column();
+
+CREATE INDEX idx_integration_credentials_project_id ON public.integration_credentials(project_id);
+
+COMMENT ON COLUMN public.integration_credentials.config IS 'Non-secret integration settings (URLs, emails, project keys, deployment ids)';
+COMMENT ON COLUMN public.integration_credentials.secret_ciphertext IS 'AES-GCM encrypted API token / PAT / API key, base64 encoded';
@@ -0,0 +1,14 @@
+-- Link synced user stories to the issue they came from so renames don't create duplicates
+ALTER TABLE public.user_stories 
+ADD COLUMN external_source TEXT CHECK (external_source IN ('jira', 'azure-devops')),
+ADD COLUMN external_id TEXT,
+ADD COLUMN external_url TEXT,
+ADD COLUMN external_updated_at TIMESTAMP WITH TIME ZONE;
+
+-- Manual stories keep NULLs, which never conflict with each other
+ALTER TABLE public.user_stories 
+ADD CONSTRAINT user_stories_external_ref_key UNIQUE (project_id, external_source, external_id);
+
+COMMENT ON COLUMN public.user_stories.external_source IS 'Integration the story was synced from; NULL for manually created stories';
+COMMENT ON COLUMN public.user_stories.external_id IS 'Jira issue key or Azure DevOps work item id';
+COMMENT ON COLUMN public.user_stories.external_updated_at IS 'Last modified timestamp reported by the originating system';
@@ -0,0 +1,5 @@
+-- Remember when each integration last completed a sync so the next import can fetch only changed issues
+ALTER TABLE public.integration_credentials 
+ADD COLUMN last_synced_at TIMESTAMP WITH TIME ZONE;
+
+COMMENT ON COLUMN public.integration_credentials.last_synced_at IS 'Start time of the last successful story sync; incremental imports fetch issues updated since then';
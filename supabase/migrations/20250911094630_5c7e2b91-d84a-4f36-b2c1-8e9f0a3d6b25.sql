@@ -0,0 +1,5 @@
+-- Story points imported from Jira (configurable custom field) or Azure DevOps
+ALTER TABLE public.user_stories 
+ADD COLUMN story_points NUMERIC;
+
+COMMENT ON COLUMN public.user_stories.story_points IS 'Estimate imported from the originating system; NULL when not estimated';
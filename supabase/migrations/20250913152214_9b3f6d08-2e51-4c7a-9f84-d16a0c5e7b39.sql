@@ -0,0 +1,7 @@
+-- Remember the Jira issue each test case was published to so republishing updates it instead of duplicating
+ALTER TABLE public.test_cases 
+ADD COLUMN jira_issue_key TEXT,
+ADD COLUMN jira_issue_url TEXT,
+ADD COLUMN jira_synced_at TIMESTAMP WITH TIME ZONE;
+
+COMMENT ON COLUMN public.test_cases.jira_issue_key IS 'Key of the Jira test issue created by "Publish to Jira"';
@@ -0,0 +1,7 @@
+-- Remember the Azure DevOps Test Case work item each test case was exported to
+ALTER TABLE public.test_cases 
+ADD COLUMN azure_work_item_id INTEGER,
+ADD COLUMN azure_work_item_url TEXT,
+ADD COLUMN azure_synced_at TIMESTAMP WITH TIME ZONE;
+
+COMMENT ON COLUMN public.test_cases.azure_work_item_id IS 'Id of the Azure DevOps "Test Case" work item created by the export';
@@ -0,0 +1,55 @@
+-- Store test steps as an ordered list of { action, testData, expectedResult } objects
+ALTER TABLE public.test_cases 
+ADD COLUMN test_steps JSONB NOT NULL DEFAULT '[]'::jsonb;
+
+COMMENT ON COLUMN public.test_cases.test_steps IS 'Ordered test steps: [{ "action": text, "testData": text, "expectedResult": text }]. The steps column keeps a plain text copy of the actions';
+
+-- Backfill from the newline separated steps text, dropping any "1." style numbering. When the
+-- text is numbered, unnumbered lines continue the step before them, as in src/lib/testSteps.ts.
+-- The case level expected result stays in expected_result and is not copied onto a step.
+UPDATE public.test_cases tc
+SET test_steps = parsed.steps
+FROM (
+  WITH lines AS (
+    SELECT
+      t.id,
+      line.ordinality,
+      btrim(line.value) AS value,
+      btrim(line.value) ~ '^\d+[.)]' AS numbered
+    FROM public.test_cases t
+    CROSS JOIN LATERAL unnest(string_to_array(t.steps, E'\n')) WITH ORDINALITY AS line(value, ordinality)
+    WHERE btrim(line.value) <> ''
+  ),
+  entries AS (
+    SELECT
+      id,
+      ordinality,
+      value,
+      numbered,
+      CASE WHEN bool_or(numbered) OVER (PARTITION BY id)
+        THEN count(*) FILTER (WHERE numbered) OVER (PARTITION BY id ORDER BY ordinality)
+        ELSE ordinality
+      END AS entry
+    FROM lines
+  ),
+  actions AS (
+    SELECT
+      id,
+      entry,
+      string_agg(
+        CASE WHEN numbered THEN regexp_replace(value, '^\d+[.)]\s*', '') ELSE value END,
+        E'\n' ORDER BY ordinality
+      ) AS action
+    FROM entries
+    GROUP BY id, entry
+  )
+  SELECT
+    id,
+    jsonb_agg(
+      jsonb_build_object('action', action, 'testData', '', 'expectedResult', '') ORDER BY entry
+    ) AS steps
+  FROM actions
+  WHERE action <> ''
+  GROUP BY id
+) parsed
+WHERE tc.id = parsed.id;
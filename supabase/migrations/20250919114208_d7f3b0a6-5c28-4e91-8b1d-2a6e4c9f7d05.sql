@@ -0,0 +1,12 @@
+-- Keep the classification and AI provenance the generator returns for each test case
+ALTER TABLE public.test_cases 
+ADD COLUMN test_type TEXT CHECK (test_type IN ('positive', 'negative', 'edge', 'boundary')),
+ADD COLUMN category TEXT CHECK (category IN ('functional', 'ui', 'integration', 'performance')),
+ADD COLUMN generated_by_model TEXT,
+ADD COLUMN prompt_hash TEXT,
+ADD COLUMN generated_at TIMESTAMP WITH TIME ZONE;
+
+CREATE INDEX idx_test_cases_project_type_category ON public.test_cases(project_id, test_type, category);
+
+COMMENT ON COLUMN public.test_cases.generated_by_model IS 'Model that wrote the test case, e.g. azure-gpt-4o; NULL for manually created or imported cases';
+COMMENT ON COLUMN public.test_cases.prompt_hash IS 'SHA-256 of the prompt sent to the model, so cases generated from the same prompt can be grouped';
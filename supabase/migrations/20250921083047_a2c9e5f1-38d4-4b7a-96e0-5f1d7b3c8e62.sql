@@ -0,0 +1,5 @@
+-- Record which acceptance criteria (AC1, AC2, ... in the order they appear on the story) each test case covers
+ALTER TABLE public.test_cases 
+ADD COLUMN covered_criteria TEXT[] NOT NULL DEFAULT '{}';
+
+COMMENT ON COLUMN public.test_cases.covered_criteria IS 'Ids of the story acceptance criteria this test case covers, as numbered by the criteria parser';
@@ -0,0 +1,64 @@
+-- Create page_snapshots table: HTML snapshots or DOM dumps of application pages,
+-- used by the automation generator to resolve real locators for test steps
+CREATE TABLE public.page_snapshots (
+  id UUID NOT NULL DEFAULT gen_random_uuid() PRIMARY KEY,
+  project_id UUID REFERENCES public.projects(id) ON DELETE CASCADE NOT NULL,
+  test_case_id UUID REFERENCES public.test_cases(id) ON DELETE CASCADE,
+  name TEXT NOT NULL,
+  file_name TEXT,
+  html TEXT NOT NULL,
+  created_by UUID NOT NULL,
+  created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(),
+  updated_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(),
+  CONSTRAINT page_snapshots_name_length_check CHECK (length(name) >= 1 AND length(name) <= 255),
+  CONSTRAINT page_snapshots_html_length_check CHECK (length(html) <= 2000000)
+);
+
+-- Enable RLS
+ALTER TABLE public.page_snapshots ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Users can view page snapshots from their projects" 
+ON public.page_snapshots 
+FOR SELECT 
+USING (EXISTS (
+  SELECT 1 FROM public.projects 
+  WHERE projects.id = page_snapshots.project_id 
+  AND projects.created_by = auth.uid()
+));
+
+CREATE POLICY "Users can create page snapshots in their projects" 
+ON public.page_snapshots 
+FOR INSERT 
+WITH CHECK (EXISTS (
+  SELECT 1 FROM public.projects 
+  WHERE projects.id = project_id 
+  AND projects.created_by = auth.uid()
+));
+
+CREATE POLICY "Users can update page snapshots in their projects" 
+ON public.page_snapshots 
+FOR UPDATE 
+USING (EXISTS (
+  SELECT 1 FROM public.projects 
+  WHERE projects.id = page_snapshots.project_id 
+  AND projects.created_by = auth.uid()
+));
+
+CREATE POLICY "Users can delete page snapshots in their projects" 
+ON public.page_snapshots 
+FOR DELETE 
+USING (EXISTS (
+  SELECT 1 FROM public.projects 
+  WHERE projects.id = page_snapshots.project_id 
+  AND projects.created_by = auth.uid()
+));
+
+CREATE TRIGGER update_page_snapshots_updated_at
+BEFORE UPDATE ON public.page_snapshots
+FOR EACH ROW
+EXECUTE FUNCTION public.update_updated_at_column();
+
+CREATE INDEX idx_page_snapshots_project_id ON public.page_snapshots(project_id);
+CREATE INDEX idx_page_snapshots_test_case_id ON public.page_snapshots(test_case_id);
+
+COMMENT ON COLUMN public.page_snapshots.test_case_id IS 'Set when the snapshot belongs to one test case; project-wide page snapshots leave it null';
@@ -0,0 +1,11 @@
+-- Each project chooses which LLM provider and model the AI generators call
+ALTER TABLE public.projects
+ADD COLUMN ai_provider TEXT NOT NULL DEFAULT 'azure-openai',
+ADD COLUMN ai_model TEXT;
+
+ALTER TABLE public.projects
+ADD CONSTRAINT projects_ai_provider_check CHECK (ai_provider IN ('azure-openai', 'openai', 'anthropic', 'local')),
+ADD CONSTRAINT projects_ai_model_length_check CHECK (ai_model IS NULL OR char_length(ai_model) BETWEEN 1 AND 100);
+
+COMMENT ON COLUMN public.projects.ai_provider IS 'LLM provider used by the AI generators; its credentials are stored in integration_credentials';
+COMMENT ON COLUMN public.projects.ai_model IS 'Model name sent to the provider; null uses the provider default. For Azure OpenAI it names the deployed model for pricing only';
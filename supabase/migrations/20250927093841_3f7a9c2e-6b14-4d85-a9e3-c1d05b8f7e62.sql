@@ -0,0 +1,80 @@
+-- Create test_plans table: every generated test plan is kept as a numbered version per project
+CREATE TABLE public.test_plans (
+  id UUID NOT NULL DEFAULT gen_random_uuid() PRIMARY KEY,
+  project_id UUID REFERENCES public.projects(id) ON DELETE CASCADE NOT NULL,
+  version INTEGER NOT NULL,
+  title TEXT NOT NULL,
+  content TEXT NOT NULL,
+  testing_scope TEXT,
+  custom_prompt TEXT,
+  requirements_doc TEXT,
+  user_stories JSONB NOT NULL DEFAULT '[]'::jsonb,
+  model TEXT,
+  settings_version INTEGER,
+  is_partial BOOLEAN NOT NULL DEFAULT false,
+  is_approved BOOLEAN NOT NULL DEFAULT false,
+  approved_by UUID,
+  approved_at TIMESTAMP WITH TIME ZONE,
+  created_by UUID NOT NULL,
+  author_name TEXT,
+  created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(),
+  updated_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(),
+  CONSTRAINT test_plans_project_version_unique UNIQUE (project_id, version),
+  CONSTRAINT test_plans_version_check CHECK (version >= 1),
+  CONSTRAINT test_plans_title_length_check CHECK (length(title) >= 1 AND length(title) <= 255),
+  CONSTRAINT test_plans_content_length_check CHECK (length(content) <= 500000)
+);
+
+-- Enable RLS
+ALTER TABLE public.test_plans ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Users can view test plans from their projects" 
+ON public.test_plans 
+FOR SELECT 
+USING (EXISTS (
+  SELECT 1 FROM public.projects 
+  WHERE projects.id = test_plans.project_id 
+  AND projects.created_by = auth.uid()
+));
+
+CREATE POLICY "Users can create test plans in their projects" 
+ON public.test_plans 
+FOR INSERT 
+WITH CHECK (EXISTS (
+  SELECT 1 FROM public.projects 
+  WHERE projects.id = project_id 
+  AND projects.created_by = auth.uid()
+));
+
+CREATE POLICY "Users can update test plans in their projects" 
+ON public.test_plans 
+FOR UPDATE 
+USING (EXISTS (
+  SELECT 1 FROM public.projects 
+  WHERE projects.id = test_plans.project_id 
+  AND projects.created_by = auth.uid()
+));
+
+CREATE POLICY "Users can delete test plans in their projects" 
+ON public.test_plans 
+FOR DELETE 
+USING (EXISTS (
+  SELECT 1 FROM public.projects 
+  WHERE projects.id = test_plans.project_id 
+  AND projects.created_by = auth.uid()
+));
+
+CREATE TRIGGER update_test_plans_updated_at
+BEFORE UPDATE ON public.test_plans
+FOR EACH ROW
+EXECUTE FUNCTION public.update_updated_at_column();
+
+CREATE INDEX idx_test_plans_project_id ON public.test_plans(project_id, version DESC);
+
+-- At most one approved baseline per project
+CREATE UNIQUE INDEX idx_test_plans_approved_baseline ON public.test_plans(project_id) WHERE is_approved;
+
+COMMENT ON COLUMN public.test_plans.user_stories IS 'Ids and titles of the user stories the plan was generated from';
+COMMENT ON COLUMN public.test_plans.model IS 'Model that generated the plan, as recorded in ai_usage_logs.openai_model';
+COMMENT ON COLUMN public.test_plans.is_partial IS 'Generation was cancelled or interrupted before the plan was complete';
+COMMENT ON COLUMN public.test_plans.is_approved IS 'The approved baseline other versions are compared against';
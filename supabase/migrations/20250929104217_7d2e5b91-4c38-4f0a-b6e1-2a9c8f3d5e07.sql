@@ -0,0 +1,74 @@
+-- Sections of a test plan that AI regeneration must leave alone
+ALTER TABLE public.test_plans
+ADD COLUMN locked_sections JSONB NOT NULL DEFAULT '[]'::jsonb;
+
+COMMENT ON COLUMN public.test_plans.locked_sections IS 'Normalised headings of the sections locked against regeneration in the editor';
+
+-- Create test_reports table: generated test reports, edited and autosaved in the report editor
+CREATE TABLE public.test_reports (
+  id UUID NOT NULL DEFAULT gen_random_uuid() PRIMARY KEY,
+  project_id UUID REFERENCES public.projects(id) ON DELETE CASCADE NOT NULL,
+  title TEXT NOT NULL,
+  report_type TEXT,
+  content TEXT NOT NULL,
+  statistics JSONB,
+  model TEXT,
+  settings_version INTEGER,
+  is_partial BOOLEAN NOT NULL DEFAULT false,
+  locked_sections JSONB NOT NULL DEFAULT '[]'::jsonb,
+  created_by UUID NOT NULL,
+  created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(),
+  updated_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(),
+  CONSTRAINT test_reports_title_length_check CHECK (length(title) >= 1 AND length(title) <= 255),
+  CONSTRAINT test_reports_content_length_check CHECK (length(content) <= 500000)
+);
+
+-- Enable RLS
+ALTER TABLE public.test_reports ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Users can view test reports from their projects" 
+ON public.test_reports 
+FOR SELECT 
+USING (EXISTS (
+  SELECT 1 FROM public.projects 
+  WHERE projects.id = test_reports.project_id 
+  AND projects.created_by = auth.uid()
+));
+
+CREATE POLICY "Users can create test reports in their projects" 
+ON public.test_reports 
+FOR INSERT 
+WITH CHECK (EXISTS (
+  SELECT 1 FROM public.projects 
+  WHERE projects.id = project_id 
+  AND projects.created_by = auth.uid()
+));
+
+CREATE POLICY "Users can update test reports in their projects" 
+ON public.test_reports 
+FOR UPDATE 
+USING (EXISTS (
+  SELECT 1 FROM public.projects 
+  WHERE projects.id = test_reports.project_id 
+  AND projects.created_by = auth.uid()
+));
+
+CREATE POLICY "Users can delete test reports in their projects" 
+ON public.test_reports 
+FOR DELETE 
+USING (EXISTS (
+  SELECT 1 FROM public.projects 
+  WHERE projects.id = test_reports.project_id 
+  AND projects.created_by = auth.uid()
+));
+
+CREATE TRIGGER update_test_reports_updated_at
+BEFORE UPDATE ON public.test_reports
+FOR EACH ROW
+EXECUTE FUNCTION public.update_updated_at_column();
+
+CREATE INDEX idx_test_reports_project_id ON public.test_reports(project_id, created_at DESC);
+
+COMMENT ON COLUMN public.test_reports.statistics IS 'Pass and fail counts the report was generated from';
+COMMENT ON COLUMN public.test_reports.is_partial IS 'Generation was cancelled or interrupted before the report was complete';
+COMMENT ON COLUMN public.test_reports.locked_sections IS 'Normalised headings of the sections locked against regeneration in the editor';
@@ -0,0 +1,6 @@
+-- Add document_template column to projects table
+ALTER TABLE public.projects 
+ADD COLUMN document_template TEXT DEFAULT '';
+
+-- Add comment for documentation
+COMMENT ON COLUMN public.projects.document_template IS 'JSON template for Word and PDF exports of test plans and reports: cover page, logo, header/footer and document control table';
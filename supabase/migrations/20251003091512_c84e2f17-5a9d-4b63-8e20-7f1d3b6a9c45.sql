@@ -0,0 +1,13 @@
+-- Add sprint column to user_stories table
+ALTER TABLE public.user_stories 
+ADD COLUMN sprint TEXT;
+
+CREATE INDEX idx_user_stories_sprint ON public.user_stories(project_id, sprint);
+
+-- Reports remember which execution run they were generated from
+ALTER TABLE public.test_reports 
+ADD COLUMN test_run_id UUID REFERENCES public.test_runs(id) ON DELETE SET NULL;
+
+-- Add comments for documentation
+COMMENT ON COLUMN public.user_stories.sprint IS 'Sprint or iteration the story is planned in, synced from the Jira sprint field or the Azure DevOps iteration path';
+COMMENT ON COLUMN public.test_reports.test_run_id IS 'Execution run whose results fed the report; null when it used the latest result of every test case';
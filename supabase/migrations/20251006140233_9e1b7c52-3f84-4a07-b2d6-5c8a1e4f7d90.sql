@@ -0,0 +1,19 @@
+-- Record how long each execution took and the defects raised for it
+ALTER TABLE public.test_run_results 
+ADD COLUMN duration_seconds INTEGER,
+ADD COLUMN defects TEXT[] NOT NULL DEFAULT '{}';
+
+-- Reports can cover a date range instead of a single run, and keep the data behind their charts
+ALTER TABLE public.test_reports 
+ADD COLUMN period_start DATE,
+ADD COLUMN period_end DATE,
+ADD COLUMN charts JSONB NOT NULL DEFAULT '[]'::jsonb;
+
+CREATE INDEX idx_test_run_results_executed_at ON public.test_run_results(project_id, executed_at);
+
+-- Add comments for documentation
+COMMENT ON COLUMN public.test_run_results.duration_seconds IS 'Seconds from opening the case in the runner to recording its result';
+COMMENT ON COLUMN public.test_run_results.defects IS 'Defect keys or URLs linked to this execution, e.g. PROJ-142';
+COMMENT ON COLUMN public.test_reports.period_start IS 'First day of the reported date range; null for reports on a single execution run';
+COMMENT ON COLUMN public.test_reports.period_end IS 'Last day of the reported date range; null for reports on a single execution run';
+COMMENT ON COLUMN public.test_reports.charts IS 'Chart data embedded in the report through {{chart:<id>}} lines';
@@ -0,0 +1,25 @@
+-- Number test plan versions in the database so concurrent saves cannot pick the same version
+CREATE OR REPLACE FUNCTION public.assign_test_plan_version()
+RETURNS TRIGGER 
+LANGUAGE plpgsql 
+SECURITY DEFINER SET search_path = ''
+AS $$
+BEGIN
+  -- Saves to the same project wait for each other until the first one commits
+  PERFORM pg_advisory_xact_lock(hashtext('test_plans:' || NEW.project_id::text));
+
+  SELECT COALESCE(MAX(version), 0) + 1
+  INTO NEW.version
+  FROM public.test_plans
+  WHERE project_id = NEW.project_id;
+
+  RETURN NEW;
+END;
+$$;
+
+CREATE TRIGGER assign_test_plans_version
+BEFORE INSERT ON public.test_plans
+FOR EACH ROW
+EXECUTE FUNCTION public.assign_test_plan_version();
+
+COMMENT ON COLUMN public.test_plans.version IS 'Assigned on insert as the next version of the project''s plans; any value sent by the client is replaced';
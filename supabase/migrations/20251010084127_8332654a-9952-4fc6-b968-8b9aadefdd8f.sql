@@ -0,0 +1,66 @@
+-- Parse the steps text of existing test cases again: the first backfill made every line a step,
+-- while numbered steps text continues a step on its unnumbered lines. Only rows whose test_steps
+-- still hold that first backfill are rewritten, so steps edited since are left alone.
+UPDATE public.test_cases tc
+SET test_steps = parsed.steps
+FROM (
+  WITH lines AS (
+    SELECT
+      t.id,
+      line.ordinality,
+      btrim(line.value) AS value,
+      btrim(line.value) ~ '^\d+[.)]' AS numbered
+    FROM public.test_cases t
+    CROSS JOIN LATERAL unnest(string_to_array(t.steps, E'\n')) WITH ORDINALITY AS line(value, ordinality)
+    WHERE btrim(line.value) <> ''
+  ),
+  entries AS (
+    SELECT
+      id,
+      ordinality,
+      value,
+      numbered,
+      CASE WHEN bool_or(numbered) OVER (PARTITION BY id)
+        THEN count(*) FILTER (WHERE numbered) OVER (PARTITION BY id ORDER BY ordinality)
+        ELSE ordinality
+      END AS entry
+    FROM lines
+  ),
+  actions AS (
+    SELECT
+      id,
+      entry,
+      string_agg(
+        CASE WHEN numbered THEN regexp_replace(value, '^\d+[.)]\s*', '') ELSE value END,
+        E'\n' ORDER BY ordinality
+      ) AS action
+    FROM entries
+    GROUP BY id, entry
+  )
+  SELECT
+    id,
+    jsonb_agg(
+      jsonb_build_object('action', action, 'testData', '', 'expectedResult', '') ORDER BY entry
+    ) AS steps
+  FROM actions
+  WHERE action <> ''
+  GROUP BY id
+) parsed, (
+  SELECT
+    t.id,
+    jsonb_agg(
+      jsonb_build_object(
+        'action', regexp_replace(btrim(line.value), '^\d+[.)]\s*', ''),
+        'testData', '',
+        'expectedResult', ''
+      ) ORDER BY line.ordinality
+    ) AS steps
+  FROM public.test_cases t
+  CROSS JOIN LATERAL unnest(string_to_array(t.steps, E'\n')) WITH ORDINALITY AS line(value, ordinality)
+  WHERE btrim(line.value) <> ''
+  GROUP BY t.id
+) line_per_step
+WHERE tc.id = parsed.id
+AND tc.id = line_per_step.id
+AND tc.test_steps = line_per_step.steps
+AND tc.test_steps <> parsed.steps;
@@ -0,0 +1,58 @@
+-- Apply a reviewed test case regeneration in one transaction, so a failure writes nothing and
+-- the review can simply be applied again. Runs with the caller's rights, so RLS still applies.
+CREATE OR REPLACE FUNCTION public.apply_test_case_regeneration(
+  _inserts JSONB,
+  _updates JSONB,
+  _delete_ids UUID[]
+)
+RETURNS void
+LANGUAGE plpgsql
+SECURITY INVOKER SET search_path = ''
+AS $$
+DECLARE
+  _update JSONB;
+  _current public.test_cases%ROWTYPE;
+  _deleted INTEGER;
+BEGIN
+  INSERT INTO public.test_cases (
+    project_id, user_story_id, title, description, test_steps, steps, expected_result, priority,
+    test_type, category, status, generated_by_model, prompt_hash, generated_at, covered_criteria
+  )
+  SELECT
+    r.project_id, r.user_story_id, r.title, r.description, COALESCE(r.test_steps, '[]'::jsonb), r.steps,
+    r.expected_result, r.priority, r.test_type, r.category, COALESCE(r.status, 'draft'),
+    r.generated_by_model, r.prompt_hash, r.generated_at, COALESCE(r.covered_criteria, '{}')
+  FROM jsonb_populate_recordset(NULL::public.test_cases, COALESCE(_inserts, '[]'::jsonb)) r;
+
+  -- Each update names the case by "id" and carries only the columns it changes
+  FOR _update IN SELECT value FROM jsonb_array_elements(COALESCE(_updates, '[]'::jsonb)) LOOP
+    SELECT * INTO _current FROM public.test_cases WHERE id = (_update->>'id')::uuid FOR UPDATE;
+    IF NOT FOUND THEN
+      RAISE EXCEPTION 'Test case % no longer exists', _update->>'id';
+    END IF;
+
+    _current := jsonb_populate_record(_current, _update - 'id');
+    UPDATE public.test_cases
+    SET
+      title = _current.title,
+      description = _current.description,
+      test_steps = _current.test_steps,
+      steps = _current.steps,
+      expected_result = _current.expected_result,
+      priority = _current.priority,
+      test_type = _current.test_type,
+      category = _current.category,
+      generated_by_model = _current.generated_by_model,
+      prompt_hash = _current.prompt_hash,
+      generated_at = _current.generated_at,
+      covered_criteria = _current.covered_criteria
+    WHERE id = _current.id;
+  END LOOP;
+
+  DELETE FROM public.test_cases WHERE id = ANY(COALESCE(_delete_ids, '{}'));
+  GET DIAGNOSTICS _deleted = ROW_COUNT;
+  IF _deleted <> COALESCE(cardinality(_delete_ids), 0) THEN
+    RAISE EXCEPTION 'Some of the test cases to delete no longer exist';
+  END IF;
+END;
+$$;
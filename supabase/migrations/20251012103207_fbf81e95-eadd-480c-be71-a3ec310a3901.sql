@@ -0,0 +1,17 @@
+-- Latest executed result of each test case, so traceability reads one row per case instead of
+-- the whole result history. security_invoker keeps the result and run RLS policies in force.
+CREATE VIEW public.latest_test_case_results
+WITH (security_invoker = on) AS
+SELECT DISTINCT ON (r.test_case_id)
+  r.test_case_id,
+  r.project_id,
+  r.run_id,
+  tr.name AS run_name,
+  r.status,
+  r.executed_at
+FROM public.test_run_results r
+JOIN public.test_runs tr ON tr.id = r.run_id
+WHERE r.status <> 'not-run'
+ORDER BY r.test_case_id, r.executed_at DESC;
+
+GRANT SELECT ON public.latest_test_case_results TO authenticated;
@@ -0,0 +1,21 @@
+-- The approved baseline is read-only: while a plan is approved only its approval may change
+CREATE OR REPLACE FUNCTION public.protect_approved_test_plan()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SET search_path = ''
+AS $$
+BEGIN
+  IF OLD.is_approved
+    AND to_jsonb(NEW) - ARRAY['is_approved', 'approved_by', 'approved_at', 'updated_at']
+      IS DISTINCT FROM to_jsonb(OLD) - ARRAY['is_approved', 'approved_by', 'approved_at', 'updated_at'] THEN
+    RAISE EXCEPTION 'Test plan version % is the approved baseline and cannot be edited', OLD.version;
+  END IF;
+
+  RETURN NEW;
+END;
+$$;
+
+CREATE TRIGGER protect_approved_test_plans
+BEFORE UPDATE ON public.test_plans
+FOR EACH ROW
+EXECUTE FUNCTION public.protect_approved_test_plan();
@@ -0,0 +1,30 @@
+-- Approve a test plan version as the project's baseline, replacing the current one in the same
+-- transaction so a failure leaves the old baseline in place. Runs with the caller's rights, so RLS still applies.
+CREATE OR REPLACE FUNCTION public.approve_test_plan(_plan_id UUID)
+RETURNS void
+LANGUAGE plpgsql
+SECURITY INVOKER SET search_path = ''
+AS $$
+DECLARE
+  _project_id UUID;
+BEGIN
+  SELECT project_id INTO _project_id
+  FROM public.test_plans
+  WHERE id = _plan_id;
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Test plan % no longer exists', _plan_id;
+  END IF;
+
+  -- Approvals in the same project wait for each other, so neither trips the one-baseline index
+  PERFORM pg_advisory_xact_lock(hashtext('test_plans_baseline:' || _project_id::text));
+
+  UPDATE public.test_plans
+  SET is_approved = false, approved_by = NULL, approved_at = NULL
+  WHERE project_id = _project_id AND is_approved AND id <> _plan_id;
+
+  UPDATE public.test_plans
+  SET is_approved = true, approved_by = auth.uid(), approved_at = now()
+  WHERE id = _plan_id;
+END;
+$$;